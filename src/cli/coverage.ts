@@ -0,0 +1,260 @@
+/**
+ * Coverage Command
+ *
+ * `storybook-devtools coverage`: lists the project's components with the same
+ * scanners and story lookup the dev server uses, and reports which ones have
+ * no stories. Runs without a browser or dev server, so CI can gate on it.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { createFilter } from 'vite'
+import type { FrameworkConfig } from '../frameworks/types'
+import {
+  DEFAULT_EXCLUDE,
+  getDefaultInclude,
+  scanComponentInventory,
+} from '../utils/component-inventory'
+import {
+  COVERAGE_REPORT_FORMATS,
+  createCoverageReport,
+  formatCoverageReport,
+  meetsCoverage,
+  type CoverageReportFormat,
+} from '../utils/coverage-report'
+import { normalizeStoryFilePattern } from '../utils/story-file-pattern'
+import {
+  createComponentStoryFinder,
+  createStoryIndex,
+} from '../utils/story-index'
+
+/**
+ * Built-in frameworks, loaded on demand so only the compilers of the
+ * frameworks in use need to be installed
+ */
+const FRAMEWORK_LOADERS: Record<string, () => Promise<FrameworkConfig>> = {
+  react: async () => (await import('../frameworks/react')).reactFramework,
+  preact: async () => (await import('../frameworks/preact')).preactFramework,
+  solid: async () => (await import('../frameworks/solid')).solidFramework,
+  vue: async () => (await import('../frameworks/vue')).vueFramework,
+  svelte: async () => (await import('../frameworks/svelte')).svelteFramework,
+  'web-components': async () =>
+    (await import('../frameworks/web-components')).webComponentsFramework,
+}
+
+/** Package that marks a project as using a framework, in detection order */
+const FRAMEWORK_PACKAGES: Array<[framework: string, packageName: string]> = [
+  ['preact', 'preact'],
+  ['solid', 'solid-js'],
+  ['react', 'react'],
+  ['vue', 'vue'],
+  ['svelte', 'svelte'],
+  ['web-components', 'lit'],
+]
+
+export const COVERAGE_USAGE = `Usage: storybook-devtools coverage [options]
+
+Report components without stories.
+
+Options:
+  --root <dir>              Project root (default: current directory)
+  --framework <names>       Comma-separated frameworks: ${Object.keys(FRAMEWORK_LOADERS).join(', ')}
+                            (default: detected from package.json)
+  --include <glob>          Files to scan, repeatable (default: the frameworks' extensions)
+  --exclude <glob>          Files to skip, repeatable (default: node_modules, dist, stories)
+  --story-file-pattern <p>  Where stories live, as in the plugin's storyFilePattern option
+  --config-dir <dir>        Storybook config directory (default: <root>/.storybook)
+  --format <format>         Report printed to stdout: ${COVERAGE_REPORT_FORMATS.join(', ')} (default: markdown)
+  --json <file>             Also write the JSON report to a file
+  --markdown <file>         Also write the Markdown report to a file
+  --junit <file>            Also write the JUnit report to a file
+  --min <percent>           Exit with code 1 when coverage is below this percentage
+  -h, --help                Show this help
+`
+
+/**
+ * Where the command writes its output
+ */
+export interface CoverageCommandIO {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+const defaultIO: CoverageCommandIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}
+
+class CoverageUsageError extends Error {}
+
+function detectFrameworks(root: string): string[] {
+  let packageJson: {
+    dependencies?: Record<string, string>
+    devDependencies?: Record<string, string>
+  }
+  try {
+    packageJson = JSON.parse(
+      fs.readFileSync(path.join(root, 'package.json'), 'utf-8'),
+    )
+  } catch {
+    return []
+  }
+
+  const dependencies = {
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies,
+  }
+  const detected = FRAMEWORK_PACKAGES.filter(
+    ([, packageName]) => packageName in dependencies,
+  ).map(([framework]) => framework)
+
+  // Preact and Solid projects often list react for tooling; their own
+  // detectors would otherwise be shadowed by React's
+  if (detected.includes('preact') || detected.includes('solid')) {
+    return detected.filter((framework) => framework !== 'react')
+  }
+  return detected
+}
+
+function parseMin(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const min = Number(value.replace(/%$/, ''))
+  if (!Number.isFinite(min) || min < 0 || min > 100) {
+    throw new CoverageUsageError(
+      `--min must be a percentage between 0 and 100, got "${value}"`,
+    )
+  }
+  return min
+}
+
+/**
+ * Run the coverage command
+ *
+ * @returns The process exit code: 0 on success, 1 below `--min`, 2 on usage errors
+ */
+export async function runCoverageCommand(
+  argv: string[],
+  io: CoverageCommandIO = defaultIO,
+): Promise<number> {
+  try {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        root: { type: 'string' },
+        framework: { type: 'string' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        'story-file-pattern': { type: 'string' },
+        'config-dir': { type: 'string' },
+        format: { type: 'string', default: 'markdown' },
+        json: { type: 'string' },
+        markdown: { type: 'string' },
+        junit: { type: 'string' },
+        min: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+      allowPositionals: false,
+    })
+
+    if (values.help) {
+      io.stdout(COVERAGE_USAGE)
+      return 0
+    }
+
+    const format = values.format as CoverageReportFormat
+    if (!COVERAGE_REPORT_FORMATS.includes(format)) {
+      throw new CoverageUsageError(
+        `Unknown --format "${values.format}". Use one of: ${COVERAGE_REPORT_FORMATS.join(', ')}`,
+      )
+    }
+    const min = parseMin(values.min)
+    const root = path.resolve(values.root ?? process.cwd())
+
+    const frameworkNames = values.framework
+      ? values.framework.split(',').map((name) => name.trim())
+      : detectFrameworks(root)
+    if (frameworkNames.length === 0) {
+      throw new CoverageUsageError(
+        `No framework found in ${path.join(root, 'package.json')}; pass --framework`,
+      )
+    }
+    const frameworks: FrameworkConfig[] = []
+    for (const name of frameworkNames) {
+      const loadFramework = FRAMEWORK_LOADERS[name]
+      if (!loadFramework) {
+        throw new CoverageUsageError(
+          `Unknown framework "${name}". Use one of: ${Object.keys(FRAMEWORK_LOADERS).join(', ')}`,
+        )
+      }
+      frameworks.push(await loadFramework())
+    }
+
+    const storyIndex = createStoryIndex({
+      root,
+      ...(values['config-dir']
+        ? { configDir: path.resolve(root, values['config-dir']) }
+        : {}),
+    })
+    const findStories = createComponentStoryFinder({
+      storyIndex,
+      root,
+      storyFilePattern: normalizeStoryFilePattern({
+        storyFilePattern: values['story-file-pattern'],
+      }),
+      storyExtensions: [
+        ...new Set([
+          ...frameworks.map((framework) => framework.storyFileExtension),
+          'tsx',
+          'ts',
+          'jsx',
+          'js',
+        ]),
+      ],
+    })
+
+    const entries = await scanComponentInventory({
+      root,
+      filter: createFilter(
+        values.include ?? getDefaultInclude(frameworks),
+        values.exclude ?? DEFAULT_EXCLUDE,
+        { resolve: root },
+      ),
+      resolveFramework: (code, id) =>
+        frameworks.find((framework) => framework.detect(code, id)),
+      findStories,
+    })
+    const report = createCoverageReport(entries, root)
+
+    io.stdout(formatCoverageReport(report, format))
+    for (const reportFormat of COVERAGE_REPORT_FORMATS) {
+      const outputFile = values[reportFormat]
+      if (!outputFile) continue
+      const outputPath = path.resolve(outputFile)
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+      fs.writeFileSync(
+        outputPath,
+        formatCoverageReport(report, reportFormat),
+        'utf-8',
+      )
+    }
+
+    if (min !== undefined && !meetsCoverage(report, min)) {
+      io.stderr(
+        `Story coverage ${report.coverage}% is below the minimum of ${min}% (${report.total - report.withStories} components without stories)\n`,
+      )
+      return 1
+    }
+    return 0
+  } catch (error) {
+    // parseArgs reports unknown or malformed options with a TypeError
+    if (
+      error instanceof CoverageUsageError ||
+      (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')
+    ) {
+      io.stderr(`${(error as Error).message}\n\n${COVERAGE_USAGE}`)
+      return 2
+    }
+    throw error
+  }
+}
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * storybook-devtools CLI
+ *
+ * Headless entry point for CI: `storybook-devtools coverage [options]`.
+ */
+
+import { runCoverageCommand } from './coverage'
+
+const USAGE = `Usage: storybook-devtools <command> [options]
+
+Commands:
+  coverage   Report components without stories
+
+Run "storybook-devtools <command> --help" for the command's options.
+`
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv
+
+  switch (command) {
+    case 'coverage':
+      return runCoverageCommand(args)
+    case undefined:
+    case '-h':
+    case '--help':
+      process.stdout.write(USAGE)
+      return command === undefined ? 2 : 0
+    default:
+      process.stderr.write(`Unknown command "${command}"\n\n${USAGE}`)
+      return 2
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode
+  },
+  (error: unknown) => {
+    console.error('[storybook-devtools]', error)
+    process.exitCode = 1
+  },
+)
@@ -1,4 +1,12 @@
-import type { ComponentInstance, SerializedProps } from '../frameworks/types'
+import type {
+  ComponentInstance,
+  ComponentMeta,
+  SerializedProps,
+} from '../frameworks/types'
+import type { StoryPreviewResult } from '../create-component-highlighter-plugin'
+import type { StoryCreationFailure } from '../utils/story-creation-result'
+import type { StoryJournalSummary } from '../utils/story-journal'
+import type { ComponentInventoryEntry } from '../utils/component-inventory'
 import type { Emitter } from 'nanoevents'
 import { createNanoEvents } from 'nanoevents'
 import {
@@ -21,9 +29,37 @@ export interface OverlayEvents {
     playFunction?: string[]
     /** Import statements required by the play function */
     playImports?: string[]
+    /** Preview being confirmed: its content is written as shown */
+    previewId?: string
   }) => void
+  /**
+   * Request a dry-run of story creation; `respond` receives the typed
+   * failure when the story can't be generated, or null when the request
+   * itself failed
+   */
+  'preview-story': (
+    data: StoryRequestData,
+    respond: (
+      preview: StoryPreviewResult | StoryCreationFailure | null,
+    ) => void,
+  ) => void
+  /** Request the list of story writes made during this dev server session */
+  'list-story-journal': (
+    respond: (entries: StoryJournalSummary[] | null) => void,
+  ) => void
+  /** Request every component in the project with its story status */
+  'list-component-inventory': (
+    respond: (entries: ComponentInventoryEntry[] | null) => void,
+  ) => void
+  /** Revert a journal entry (or the most recent one when no ID is given) */
+  'undo-story': (
+    data: { id?: string },
+    respond: (reverted: StoryJournalSummary[] | null) => void,
+  ) => void
 }
 
+export type StoryRequestData = Parameters<OverlayEvents['log-info']>[0]
+
 export const overlayEvents: Emitter<OverlayEvents> =
   createNanoEvents<OverlayEvents>()
 
@@ -55,6 +91,9 @@ let highlightContainer: HTMLDivElement | null = null
 let highlightElements: Map<string, HTMLDivElement> = new Map()
 let contextMenuElement: HTMLDivElement | null = null
 let debugOverlayElement: HTMLDivElement | null = null
+// Project-wide components (including unmounted ones), shown in the debug overlay
+let projectInventory: ComponentInventoryEntry[] | null = null
+let journalPanelElement: HTMLDivElement | null = null
 let isOverlayEnabled = false
 let isHighlightAllActive = false
 let currentHoveredId: string | null = null
@@ -62,10 +101,12 @@ let selectedComponentId: string | null = null
 let currentCloseHandler: ((e: MouseEvent) => void) | null = null
 let currentEscapeHandler: ((e: KeyboardEvent) => void) | null = null
 
-// Cache for story file existence checks
+// Cache for story file existence checks, keyed per component export
+// (see getStoryCacheKey): a file exporting several components can have
+// stories for some of them only
 const storyFileCache: Map<
   string,
-  { hasStory: boolean; storyPath: string | null }
+  { hasStory: boolean; storyPath: string | null; stories?: string[] }
 > = new Map()
 
 // Import component registry from listeners
@@ -120,21 +161,41 @@ function suggestStoryName(props: Record<string, unknown>): string {
 }
 
 // Check if a component has a story file
+type StoryLookupMeta = Pick<
+  ComponentMeta,
+  'filePath' | 'componentName' | 'isDefaultExport'
+>
+
+// The export a story's `component` must reference to cover this component
+function getComponentExportName(meta: StoryLookupMeta): string {
+  return meta.isDefaultExport ? 'default' : meta.componentName
+}
+
+function getStoryCacheKey(meta: StoryLookupMeta): string {
+  return `${meta.filePath}#${getComponentExportName(meta)}`
+}
+
 async function checkStoryFile(
-  componentPath: string,
-): Promise<{ hasStory: boolean; storyPath: string | null }> {
+  meta: StoryLookupMeta,
+): Promise<{ hasStory: boolean; storyPath: string | null; stories?: string[] }> {
+  const cacheKey = getStoryCacheKey(meta)
+
   // Check cache first
-  if (storyFileCache.has(componentPath)) {
-    return storyFileCache.get(componentPath)!
+  if (storyFileCache.has(cacheKey)) {
+    return storyFileCache.get(cacheKey)!
   }
 
   try {
+    const params = new URLSearchParams({
+      componentPath: meta.filePath,
+      exportName: getComponentExportName(meta),
+    })
     const response = await fetch(
-      `/__component-highlighter/check-story?componentPath=${encodeURIComponent(componentPath)}`,
+      `/__component-highlighter/check-story?${params}`,
     )
     if (response.ok) {
       const result = await response.json()
-      storyFileCache.set(componentPath, result)
+      storyFileCache.set(cacheKey, result)
       return result
     }
   } catch (e) {
@@ -142,7 +203,7 @@ async function checkStoryFile(
   }
 
   const defaultResult = { hasStory: false, storyPath: null }
-  storyFileCache.set(componentPath, defaultResult)
+  storyFileCache.set(cacheKey, defaultResult)
   return defaultResult
 }
 
@@ -326,26 +387,13 @@ function drawAllHighlights() {
   const usedIds = new Set<string>()
 
   // Prefetch story info for components not yet cached (async, non-blocking)
-  for (const instance of instances) {
-    const filePath = instance.meta.filePath
-    if (!storyFileCache.has(filePath) && !pendingStoryChecks.has(filePath)) {
-      pendingStoryChecks.add(filePath)
-      // Fire off the check but don't wait - it will update the cache
-      checkStoryFile(filePath).then(() => {
-        pendingStoryChecks.delete(filePath)
-        // Trigger a re-render once we have the info (only if still showing highlights)
-        if (highlightContainer) {
-          drawAllHighlights()
-        }
-      })
-    }
-  }
+  prefetchStoryChecks(instances)
 
   for (const instance of instances) {
     if (!instance.rect) continue
 
     // Use cached story info (synchronous) - defaults to false if not cached yet
-    const storyInfo = storyFileCache.get(instance.meta.filePath)
+    const storyInfo = storyFileCache.get(getStoryCacheKey(instance.meta))
     const hasStory = storyInfo?.hasStory ?? false
 
     let shouldShow = false
@@ -442,7 +490,7 @@ function createStoriesForComponentsWithoutStories() {
       instance.element.nodeType !== Node.ELEMENT_NODE
     )
       continue
-    const storyInfo = storyFileCache.get(instance.meta.filePath)
+    const storyInfo = storyFileCache.get(getStoryCacheKey(instance.meta))
     if (storyInfo?.hasStory) {
       componentsWithStories.add(instance.meta.sourceId)
     }
@@ -450,7 +498,7 @@ function createStoriesForComponentsWithoutStories() {
 
   // Find components without stories and create stories for them
   const componentsProcessed = new Set<string>()
-  const filePathsToInvalidate: string[] = []
+  const cacheKeysToInvalidate: string[] = []
   let storiesCreated = 0
 
   for (const instance of componentRegistry.values()) {
@@ -468,7 +516,7 @@ function createStoriesForComponentsWithoutStories() {
 
     // Mark as processed
     componentsProcessed.add(instance.meta.sourceId)
-    filePathsToInvalidate.push(instance.meta.filePath)
+    cacheKeysToInvalidate.push(getStoryCacheKey(instance.meta))
 
     // Get suggested story name
     const suggestedName = suggestStoryName(instance.props)
@@ -503,8 +551,8 @@ function createStoriesForComponentsWithoutStories() {
     // After story creation, wait a bit for processing and then update the UI
     setTimeout(() => {
       // Invalidate cache for all components that had stories created
-      for (const filePath of filePathsToInvalidate) {
-        storyFileCache.delete(filePath)
+      for (const cacheKey of cacheKeysToInvalidate) {
+        storyFileCache.delete(cacheKey)
       }
 
       // Re-render highlights and debug overlay to show updated story status
@@ -575,15 +623,16 @@ function resumeHighlightingAfterRecording() {
   wasHighlightAllActiveBeforeRecording = false
 }
 
-function emitCreateStory(
+function buildStoryRequest(
   data: {
     meta: ComponentInstance['meta']
     props: Record<string, unknown>
     serializedProps?: SerializedProps
     storyName: string
+    previewId?: string
   },
   includePlayFunction: boolean,
-) {
+): StoryRequestData {
   const getRegistry = (
     window as unknown as {
       __componentHighlighterGetRegistry?: () => Map<string, string>
@@ -608,16 +657,24 @@ function emitCreateStory(
       : {}),
   }
 
-  const componentInfo: Parameters<typeof overlayEvents.emit<'log-info'>>[1] = {
+  return {
     ...componentInfoBase,
     ...(data.serializedProps ? { serializedProps: data.serializedProps } : {}),
+    ...(data.previewId ? { previewId: data.previewId } : {}),
   }
+}
+
+function emitCreateStory(
+  data: Parameters<typeof buildStoryRequest>[0],
+  includePlayFunction: boolean,
+) {
+  const componentInfo = buildStoryRequest(data, includePlayFunction)
 
   console.log('[component-highlighter] Emitting story creation payload', {
     component: data.meta.componentName,
     storyName: data.storyName,
     includePlayFunction,
-    interactionCount: playCode?.playLines.length ?? 0,
+    interactionCount: componentInfo.playFunction?.length ?? 0,
   })
 
   overlayEvents.emit('log-info', componentInfo)
@@ -636,6 +693,102 @@ function emitCreateStory(
   window.dispatchEvent(createStoryEvent)
 }
 
+// Ask the server what a story creation would write, without writing it
+function requestStoryPreview(
+  data: StoryRequestData,
+): Promise<StoryPreviewResult | StoryCreationFailure | null> {
+  if (!overlayEvents.events['preview-story']?.length) {
+    console.warn(
+      '[component-highlighter] Story preview is unavailable (DevTools RPC not connected)',
+    )
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    overlayEvents.emit('preview-story', data, resolve)
+  })
+}
+
+function renderDiffHtml(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      let color = '#d1d5db'
+      let background = 'transparent'
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        color = '#9ca3af'
+      } else if (line.startsWith('@@')) {
+        color = '#93c5fd'
+      } else if (line.startsWith('+')) {
+        color = '#86efac'
+        background = 'rgba(34, 197, 94, 0.15)'
+      } else if (line.startsWith('-')) {
+        color = '#fca5a5'
+        background = 'rgba(239, 68, 68, 0.15)'
+      }
+      return `<div style="color: ${color}; background: ${background}; white-space: pre;">${escapeHtml(line) || ' '}</div>`
+    })
+    .join('')
+}
+
+/**
+ * Show a story preview (diff) inside the context menu with Confirm/Cancel
+ */
+function showStoryPreview(preview: StoryPreviewResult, onConfirm: () => void) {
+  if (!contextMenuElement) return
+
+  hideStoryPreview()
+
+  const panel = document.createElement('div')
+  panel.id = 'story-preview-panel'
+  panel.style.cssText = `
+    border-top: 1px solid #e5e7eb;
+    padding: 10px 12px 12px;
+  `
+
+  const actionLabel = preview.isAppend
+    ? `Append <strong>${escapeHtml(preview.storyName)}</strong> to`
+    : `Create <strong>${escapeHtml(preview.storyName)}</strong> in`
+
+  panel.innerHTML = `
+    <div style="font-size: 11px; color: #374151; margin-bottom: 6px; word-break: break-all;">
+      ${actionLabel} <span style="font-family: monospace;">${escapeHtml(preview.filePath)}</span>
+    </div>
+    <div style="max-height: 240px; overflow: auto; background: #111827; border-radius: 4px; padding: 6px 8px; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 11px; line-height: 1.4; margin-bottom: 8px;">
+      ${preview.diff ? renderDiffHtml(preview.diff.trimEnd()) : '<div style="color: #9ca3af;">No changes</div>'}
+    </div>
+    <div style="display: flex; gap: 8px;">
+      <button id="confirm-story-btn" style="background: #16a34a; color: white; border: none; padding: 8px 12px; border-radius: 4px; cursor: pointer; font-size: 12px; width: 100%; font-weight: 500;">
+        Confirm
+      </button>
+      <button id="cancel-story-preview-btn" style="background: #f3f4f6; color: #374151; border: 1px solid #d1d5db; padding: 8px 12px; border-radius: 4px; cursor: pointer; font-size: 12px; width: 100%; font-weight: 500;">
+        Cancel
+      </button>
+    </div>
+  `
+
+  contextMenuElement.appendChild(panel)
+
+  const confirmBtn = panel.querySelector(
+    '#confirm-story-btn',
+  ) as HTMLButtonElement
+  const cancelBtn = panel.querySelector(
+    '#cancel-story-preview-btn',
+  ) as HTMLButtonElement
+
+  confirmBtn.addEventListener('click', () => {
+    hideStoryPreview()
+    onConfirm()
+  })
+  cancelBtn.addEventListener('click', () => {
+    hideStoryPreview()
+  })
+}
+
+function hideStoryPreview() {
+  contextMenuElement?.querySelector('#story-preview-panel')?.remove()
+}
+
 // Context menu management
 async function showContextMenu(
   instance: ComponentInstance,
@@ -649,7 +802,7 @@ async function showContextMenu(
   const serializedProps = instance.serializedProps
 
   // Check if story file exists
-  const storyInfo = await checkStoryFile(meta.filePath)
+  const storyInfo = await checkStoryFile(meta)
 
   contextMenuElement = document.createElement('div')
   contextMenuElement.setAttribute(UI_MARKER, 'true')
@@ -698,6 +851,33 @@ async function showContextMenu(
         const slotName = key.startsWith('slot:') ? key.slice(5) : key
         return `<div style="font-family: monospace; background: #064e3b; color: #6ee7b7; padding: 2px 6px; border-radius: 3px; margin: 2px; display: inline-block; font-size: 12px;" title="${escapeHtml(vueSlotValue.source)}">${slotName}=&lt;slot&gt;</div>`
       }
+      // Check if this is slotted web component content
+      if (
+        value &&
+        typeof value === 'object' &&
+        '__isWebComponentSlot' in value &&
+        (value as { __isWebComponentSlot: boolean }).__isWebComponentSlot
+      ) {
+        const slotValue = value as unknown as {
+          __isWebComponentSlot: true
+          source: string
+        }
+        const slotName = key.startsWith('slot:') ? key.slice(5) : key
+        return `<div style="font-family: monospace; background: #064e3b; color: #6ee7b7; padding: 2px 6px; border-radius: 3px; margin: 2px; display: inline-block; font-size: 12px;" title="${escapeHtml(slotValue.source)}">${slotName}=&lt;slot&gt;</div>`
+      }
+      // Check if this is a captured Svelte snippet
+      if (
+        value &&
+        typeof value === 'object' &&
+        '__isSvelteSnippet' in value &&
+        (value as { __isSvelteSnippet: boolean }).__isSvelteSnippet
+      ) {
+        const snippetValue = value as unknown as {
+          __isSvelteSnippet: true
+          source: string
+        }
+        return `<div style="font-family: monospace; background: #7c2d12; color: #fdba74; padding: 2px 6px; border-radius: 3px; margin: 2px; display: inline-block; font-size: 12px;" title="${escapeHtml(snippetValue.source)}">${key}=&lt;snippet&gt;</div>`
+      }
       // Check if this is a function placeholder
       if (value && typeof value === 'object' && '__isFunction' in value) {
         return `<div style="font-family: monospace; background: #4a3728; color: #fbbf24; padding: 2px 6px; border-radius: 3px; margin: 2px; display: inline-block; font-size: 12px;">${key}=&lt;fn&gt;</div>`
@@ -768,6 +948,9 @@ async function showContextMenu(
             Save Story with Interactions
           </button>
         </div>
+        <button id="preview-story-btn" style="background: #f3f4f6; color: #374151; border: 1px solid #d1d5db; padding: 6px 12px; border-radius: 4px; cursor: pointer; font-size: 11px; width: 100%; margin-top: 8px;">
+          Preview changes
+        </button>
       </div>
     </div>
   `
@@ -856,6 +1039,48 @@ async function showContextMenu(
     }
   })
 
+  const previewStoryBtn = contextMenuElement.querySelector(
+    '#preview-story-btn',
+  ) as HTMLButtonElement
+
+  previewStoryBtn.addEventListener('click', async () => {
+    const storyName = storyNameInput.value.trim() || suggestedName
+    const previewPayload: Parameters<typeof buildStoryRequest>[0] = {
+      meta,
+      props,
+      storyName,
+    }
+    if (serializedProps) {
+      previewPayload.serializedProps = serializedProps
+    }
+
+    previewStoryBtn.textContent = 'Loading preview...'
+    previewStoryBtn.disabled = true
+    const preview = await requestStoryPreview(
+      buildStoryRequest(previewPayload, false),
+    )
+    previewStoryBtn.textContent = 'Preview changes'
+    previewStoryBtn.disabled = false
+
+    if (!preview) {
+      showStoryCreationFeedback('error')
+      return
+    }
+    if (!preview.ok) {
+      showStoryCreationFeedback('error', preview)
+      return
+    }
+
+    showStoryPreview(preview, () => {
+      emitCreateStory(
+        { ...previewPayload, previewId: preview.previewId },
+        false,
+      )
+      saveStoryBtn.textContent = 'Saving...'
+      saveStoryBtn.disabled = true
+    })
+  })
+
   saveStoryBtn.addEventListener('click', () => {
     console.log(
       '[component-highlighter] Save Story clicked (without interactions)',
@@ -981,7 +1206,7 @@ export function showHoverMenu(
   const meta = instance.meta
 
   // Check story status from cache (don't await, use cached value)
-  const storyInfo = storyFileCache.get(meta.filePath)
+  const storyInfo = storyFileCache.get(getStoryCacheKey(meta))
   const hasStory = storyInfo?.hasStory ?? false
 
   hoverMenuElement = document.createElement('div')
@@ -1069,6 +1294,28 @@ function createDebugOverlay(): HTMLDivElement {
   return debugOverlayElement
 }
 
+// Check story coverage of each component export not cached yet, then
+// refresh whatever shows it (highlight colors, debug overlay stats)
+function prefetchStoryChecks(instances: Iterable<ComponentInstance>) {
+  for (const instance of instances) {
+    const cacheKey = getStoryCacheKey(instance.meta)
+    if (!storyFileCache.has(cacheKey) && !pendingStoryChecks.has(cacheKey)) {
+      pendingStoryChecks.add(cacheKey)
+      // Fire off the check but don't wait - it will update the cache
+      checkStoryFile(instance.meta).then(() => {
+        pendingStoryChecks.delete(cacheKey)
+        // Trigger a re-render once we have the info (only if still showing
+        // highlights; drawing also refreshes the debug overlay)
+        if (highlightContainer) {
+          drawAllHighlights()
+        } else {
+          updateDebugOverlay()
+        }
+      })
+    }
+  }
+}
+
 function updateDebugOverlay() {
   if (!debugOverlayElement) return
 
@@ -1087,14 +1334,19 @@ function updateDebugOverlay() {
       totalComponents++
       uniqueSourceIds.add(instance.meta.sourceId)
 
-      // Check if this component has a story
-      const storyInfo = storyFileCache.get(instance.meta.filePath)
+      // Check if this component export has a story (a story for another
+      // export of the same file doesn't count)
+      const storyInfo = storyFileCache.get(getStoryCacheKey(instance.meta))
       if (storyInfo?.hasStory) {
         componentsWithStories.add(instance.meta.sourceId)
       }
     }
   }
 
+  if (componentRegistry) {
+    prefetchStoryChecks(componentRegistry.values())
+  }
+
   const uniqueCount = uniqueSourceIds.size
   const withStoriesCount = componentsWithStories.size
   const coverage =
@@ -1134,6 +1386,11 @@ function updateDebugOverlay() {
         <span style="color: #9ca3af;">Coverage:</span>
         <span style="font-weight: 600; color: ${coverageColor};">${coverage}%</span>
       </div>
+      ${renderProjectCoverage()}
+    </div>
+    <div style="display: flex; gap: 6px; margin-top: 8px; pointer-events: auto;">
+      <button id="undo-last-story-btn" style="flex: 1; background: rgba(255,255,255,0.1); color: white; border: 1px solid rgba(255,255,255,0.2); padding: 4px 6px; border-radius: 4px; cursor: pointer; font-size: 11px; font-family: inherit;">Undo last story</button>
+      <button id="story-history-btn" style="flex: 1; background: rgba(255,255,255,0.1); color: white; border: 1px solid rgba(255,255,255,0.2); padding: 4px 6px; border-radius: 4px; cursor: pointer; font-size: 11px; font-family: inherit;">History</button>
     </div>
   `
 
@@ -1152,12 +1409,190 @@ function updateDebugOverlay() {
       storybookLogo.style.backgroundColor = 'transparent'
     })
   }
+
+  const undoButton = debugOverlayElement.querySelector<HTMLButtonElement>(
+    '#undo-last-story-btn',
+  )
+  undoButton?.addEventListener('click', async () => {
+    undoButton.textContent = 'Undoing...'
+    undoButton.disabled = true
+    const reverted = await undoStory()
+    // Failures are logged by the RPC bridge; flag them like the journal panel
+    undoButton.textContent = reverted ? 'Undo last story' : '✗ Failed'
+    undoButton.disabled = false
+  })
+  debugOverlayElement
+    .querySelector('#story-history-btn')
+    ?.addEventListener('click', () => {
+      showStoryJournalPanel()
+    })
+}
+
+// Project-wide coverage line: every component in `include`, mounted or not
+function renderProjectCoverage(): string {
+  if (!projectInventory) return ''
+
+  const total = projectInventory.length
+  const withStories = projectInventory.filter((entry) => entry.hasStory).length
+  const coverage = total > 0 ? Math.round((withStories / total) * 100) : 0
+
+  return `
+      <div id="project-coverage" style="display: flex; justify-content: space-between; gap: 8px;" title="All components in the project, including ones this page doesn't render">
+        <span style="color: #9ca3af;">Project:</span>
+        <span style="font-weight: 500; color: white;">${total} components, ${coverage}% with stories</span>
+      </div>`
+}
+
+// Fetch the project-wide component inventory and refresh the debug overlay
+// (only while it is shown)
+export function refreshProjectInventory(): void {
+  if (
+    !debugOverlayElement ||
+    !overlayEvents.events['list-component-inventory']?.length
+  ) {
+    return
+  }
+
+  overlayEvents.emit('list-component-inventory', (entries) => {
+    if (!entries) return
+    projectInventory = entries
+    updateDebugOverlay()
+  })
+}
+
+// Ask the server to revert a story write (the most recent one by default)
+function undoStory(id?: string): Promise<StoryJournalSummary[] | null> {
+  if (!overlayEvents.events['undo-story']?.length) {
+    console.warn(
+      '[component-highlighter] Undo is unavailable (DevTools RPC not connected)',
+    )
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    overlayEvents.emit('undo-story', id ? { id } : {}, resolve)
+  })
+}
+
+function requestStoryJournal(): Promise<StoryJournalSummary[] | null> {
+  if (!overlayEvents.events['list-story-journal']?.length) {
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    overlayEvents.emit('list-story-journal', resolve)
+  })
+}
+
+/**
+ * Show the list of story writes made in this session, each revertable
+ */
+async function showStoryJournalPanel() {
+  const entries = await requestStoryJournal()
+
+  if (!journalPanelElement) {
+    journalPanelElement = document.createElement('div')
+    journalPanelElement.id = 'component-highlighter-story-journal'
+    journalPanelElement.setAttribute(UI_MARKER, 'true')
+    journalPanelElement.style.cssText = `
+      position: fixed;
+      bottom: 12px;
+      left: 12px;
+      width: 380px;
+      max-height: 50vh;
+      overflow-y: auto;
+      background: white;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1);
+      z-index: ${OVERLAY_Z_INDEX.menu};
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-size: 12px;
+      color: #374151;
+    `
+    document.body.appendChild(journalPanelElement)
+  }
+
+  const rowsHtml = (entries ?? [])
+    .map((entry) => {
+      const time = new Date(entry.timestamp).toLocaleTimeString()
+      const action = entry.createdFile ? 'created' : 'appended'
+      return `
+        <div style="display: flex; align-items: center; gap: 8px; padding: 6px 12px; border-top: 1px solid #f3f4f6; ${entry.reverted ? 'opacity: 0.5;' : ''}">
+          <div style="flex: 1; min-width: 0;">
+            <div><strong>${escapeHtml(entry.componentName)}</strong> · ${escapeHtml(entry.storyName)} <span style="color: #9ca3af;">(${action}, ${time})</span></div>
+            <div style="color: #6b7280; font-size: 11px; word-break: break-all;">${[entry.filePath, ...entry.relatedFilePaths].map(escapeHtml).join('<br>')}</div>
+          </div>
+          ${
+            entry.reverted
+              ? '<span style="color: #9ca3af; font-size: 11px;">Reverted</span>'
+              : `<button data-journal-entry-id="${escapeHtml(entry.id)}" style="background: #f3f4f6; color: #374151; border: 1px solid #d1d5db; padding: 4px 8px; border-radius: 4px; cursor: pointer; font-size: 11px;">Revert</button>`
+          }
+        </div>
+      `
+    })
+    .join('')
+
+  journalPanelElement.innerHTML = `
+    <div style="display: flex; align-items: center; justify-content: space-between; padding: 8px 12px;">
+      <span style="font-weight: bold;">Stories written this session</span>
+      <button id="close-story-journal-btn" aria-label="Close" style="background: transparent; border: none; color: #6b7280; cursor: pointer; font-size: 18px; line-height: 1; padding: 0 2px;">×</button>
+    </div>
+    ${
+      entries === null
+        ? '<div style="padding: 6px 12px 12px; color: #dc2626;">Session history is unavailable (DevTools RPC not connected)</div>'
+        : rowsHtml ||
+          '<div style="padding: 6px 12px 12px; color: #9ca3af;">No stories written yet</div>'
+    }
+  `
+
+  journalPanelElement
+    .querySelector('#close-story-journal-btn')
+    ?.addEventListener('click', () => {
+      hideStoryJournalPanel()
+    })
+
+  journalPanelElement
+    .querySelectorAll<HTMLButtonElement>('button[data-journal-entry-id]')
+    .forEach((button) => {
+      button.addEventListener('click', async () => {
+        button.textContent = 'Reverting...'
+        button.disabled = true
+        const reverted = await undoStory(button.dataset['journalEntryId'])
+        if (!reverted) {
+          button.textContent = '✗ Failed'
+        }
+      })
+    })
+}
+
+function hideStoryJournalPanel() {
+  if (journalPanelElement) {
+    journalPanelElement.remove()
+    journalPanelElement = null
+  }
+}
+
+/**
+ * Refresh story status after the server reverted journal entries
+ */
+export function handleStoriesReverted(entries: StoryJournalSummary[]): void {
+  for (const entry of entries) {
+    invalidateStoryCache(entry.componentPath)
+  }
+  drawAllHighlights()
+  refreshProjectInventory()
+
+  if (journalPanelElement) {
+    showStoryJournalPanel()
+  }
 }
 
 function showDebugOverlay() {
   console.log('[component-highlighter] showDebugOverlay called')
   createDebugOverlay()
   updateDebugOverlay()
+  refreshProjectInventory()
   console.log(
     '[component-highlighter] Debug overlay created:',
     !!debugOverlayElement,
@@ -1253,9 +1688,13 @@ export function isHighlightAllEnabled(): boolean {
   return isHighlightAllActive
 }
 
-// Invalidate story cache for a specific path (called after story creation)
+// Invalidate story cache for every export of a file (called after story creation)
 export function invalidateStoryCache(componentPath: string) {
-  storyFileCache.delete(componentPath)
+  for (const cacheKey of storyFileCache.keys()) {
+    if (cacheKey.startsWith(`${componentPath}#`)) {
+      storyFileCache.delete(cacheKey)
+    }
+  }
 }
 
 /**
@@ -1299,12 +1738,45 @@ function updateOpenStoriesButton(storyPath: string) {
 }
 
 /**
- * Show feedback for story creation (success or error)
+ * Show (or clear, with `null`) the reason a story could not be created,
+ * below the save buttons of the context menu
+ */
+function renderStoryCreationError(failure: StoryCreationFailure | null): void {
+  contextMenuElement?.querySelector('#story-creation-error')?.remove()
+  if (!failure || !contextMenuElement) return
+
+  const previewStoryBtn = contextMenuElement.querySelector('#preview-story-btn')
+  if (!previewStoryBtn) return
+
+  const errorElement = document.createElement('div')
+  errorElement.id = 'story-creation-error'
+  errorElement.setAttribute('data-error-code', failure.code)
+  errorElement.style.cssText =
+    'margin-top: 8px; padding: 8px; border-radius: 4px; background: #fef2f2; border: 1px solid #fecaca; color: #991b1b; font-size: 11px; line-height: 1.4;'
+  errorElement.innerHTML = `
+    <div style="font-weight: 600;">${escapeHtml(failure.message)}</div>
+    <div style="margin-top: 4px; color: #7f1d1d;">${escapeHtml(failure.suggestion)}</div>
+  `
+  previewStoryBtn.insertAdjacentElement('afterend', errorElement)
+}
+
+/**
+ * Show feedback for story creation (success or error).
+ * Errors carrying a typed failure also show the reason and a suggested fix.
  */
 export function showStoryCreationFeedback(
-  status: 'success' | 'error',
+  status: 'success',
   filePath?: string,
   componentPath?: string,
+): void
+export function showStoryCreationFeedback(
+  status: 'error',
+  failure?: StoryCreationFailure,
+): void
+export function showStoryCreationFeedback(
+  status: 'success' | 'error',
+  filePathOrFailure?: string | StoryCreationFailure,
+  componentPath?: string,
 ): void {
   const saveStoryBtn = contextMenuElement?.querySelector(
     '#save-story-btn',
@@ -1317,6 +1789,12 @@ export function showStoryCreationFeedback(
     return
   }
 
+  const filePath =
+    typeof filePathOrFailure === 'string' ? filePathOrFailure : undefined
+  const failure =
+    typeof filePathOrFailure === 'object' ? filePathOrFailure : undefined
+  renderStoryCreationError(failure ?? null)
+
   if (status === 'success') {
     saveStoryBtn.textContent = '✓ Saved!'
     saveStoryBtn.style.background = '#16a34a'
@@ -1325,15 +1803,9 @@ export function showStoryCreationFeedback(
       filePath,
     )
 
-    // Invalidate cache so the icon appears
+    // Invalidate cache so the icon appears (highlights re-check on redraw)
     if (componentPath) {
       invalidateStoryCache(componentPath)
-      // Re-check and update cache with new story path
-      checkStoryFile(componentPath).then((storyInfo) => {
-        if (storyInfo.hasStory && storyInfo.storyPath) {
-          updateOpenStoriesButton(storyInfo.storyPath)
-        }
-      })
     }
 
     // Also update if we have the filePath directly
@@ -1346,7 +1818,10 @@ export function showStoryCreationFeedback(
   } else {
     saveStoryBtn.textContent = '✗ Failed'
     saveStoryBtn.style.background = '#dc2626'
-    console.log('[component-highlighter] Story creation error feedback shown')
+    console.log(
+      '[component-highlighter] Story creation error feedback shown',
+      failure?.code,
+    )
   }
 
   // Reset button after a delay
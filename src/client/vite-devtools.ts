@@ -1,7 +1,19 @@
 /// <reference types="@vitejs/devtools-kit" />
 /// <reference types="vite/client" />
 import type { DockClientScriptContext } from '@vitejs/devtools-kit/client'
-import { overlayEvents, showStoryCreationFeedback } from './overlay'
+import type { StoryJournalSummary } from '../utils/story-journal'
+import type { StoryPreviewResult } from '../create-component-highlighter-plugin'
+import type {
+  StoryCreationFailure,
+  StoryCreationResult,
+} from '../utils/story-creation-result'
+import type { ComponentInventoryEntry } from '../utils/component-inventory'
+import {
+  overlayEvents,
+  handleStoriesReverted,
+  refreshProjectInventory,
+  showStoryCreationFeedback,
+} from './overlay'
 import { enableHighlightMode, disableHighlightMode } from './listeners'
 
 export default function clientScriptSetup(ctx: DockClientScriptContext): void {
@@ -35,18 +47,30 @@ export default function clientScriptSetup(ctx: DockClientScriptContext): void {
     try {
       // Pass serialized props and component registry to the server
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (ctx.rpc.call as any)('component-highlighter:create-story', {
-        meta: data.meta,
-        props: data.props,
-        serializedProps: data.serializedProps,
-        componentRegistry: data.componentRegistry,
-        storyName: data.storyName,
-        ...(data.playFunction ? { playFunction: data.playFunction } : {}),
-        ...(data.playImports ? { playImports: data.playImports } : {}),
-      })
+      const result: StoryCreationResult | undefined = await (ctx.rpc.call as any)(
+        'component-highlighter:create-story',
+        {
+          meta: data.meta,
+          props: data.props,
+          serializedProps: data.serializedProps,
+          componentRegistry: data.componentRegistry,
+          storyName: data.storyName,
+          ...(data.playFunction ? { playFunction: data.playFunction } : {}),
+          ...(data.playImports ? { playImports: data.playImports } : {}),
+          ...(data.previewId ? { previewId: data.previewId } : {}),
+        },
+      )
+
+      if (result && !result.ok) {
+        console.warn(
+          `[component-highlighter] Story creation failed (${result.code}): ${result.message}`,
+        )
+        showStoryCreationFeedback('error', result)
+        return
+      }
 
       console.log('[component-highlighter] RPC call successful')
-      // Feedback will be shown via HMR event from server
+      // Success feedback will be shown via HMR event from server
     } catch (error) {
       console.error('[component-highlighter] RPC call failed:', error)
       // Show error feedback in overlay
@@ -54,6 +78,82 @@ export default function clientScriptSetup(ctx: DockClientScriptContext): void {
     }
   })
 
+  // Listen for story preview requests (dry run, nothing is written)
+  overlayEvents.on('preview-story', async (data, respond) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const preview: StoryPreviewResult | StoryCreationFailure = await (ctx.rpc.call as any)(
+        'component-highlighter:preview-story',
+        {
+          meta: data.meta,
+          props: data.props,
+          serializedProps: data.serializedProps,
+          componentRegistry: data.componentRegistry,
+          storyName: data.storyName,
+          ...(data.playFunction ? { playFunction: data.playFunction } : {}),
+          ...(data.playImports ? { playImports: data.playImports } : {}),
+        },
+      )
+      if (!preview.ok) {
+        console.warn(
+          `[component-highlighter] Story preview failed (${preview.code}): ${preview.message}`,
+        )
+      }
+      respond(preview)
+    } catch (error) {
+      console.error('[component-highlighter] Story preview failed:', error)
+      respond(null)
+    }
+  })
+
+  // Session journal: list and revert story writes
+  overlayEvents.on('list-story-journal', async (respond) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const entries = await (ctx.rpc.call as any)(
+        'component-highlighter:list-story-journal',
+      )
+      respond(entries)
+    } catch (error) {
+      console.error(
+        '[component-highlighter] Failed to load story journal:',
+        error,
+      )
+      respond(null)
+    }
+  })
+
+  // Project-wide component inventory for the debug overlay's coverage
+  overlayEvents.on('list-component-inventory', async (respond) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const entries: ComponentInventoryEntry[] = await (ctx.rpc.call as any)(
+        'component-highlighter:list-component-inventory',
+      )
+      respond(entries)
+    } catch (error) {
+      console.error(
+        '[component-highlighter] Failed to load component inventory:',
+        error,
+      )
+      respond(null)
+    }
+  })
+
+  overlayEvents.on('undo-story', async (data, respond) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const reverted = await (ctx.rpc.call as any)(
+        'component-highlighter:undo-story',
+        data,
+      )
+      respond(reverted)
+    } catch (error) {
+      console.error('[component-highlighter] Undo story failed:', error)
+      respond(null)
+    }
+  })
+
   // Listen for story creation confirmation from the server via HMR
   if (import.meta.hot) {
     import.meta.hot.on(
@@ -67,6 +167,17 @@ export default function clientScriptSetup(ctx: DockClientScriptContext): void {
           `[component-highlighter] ✅ Story created for ${data.componentName}: ${data.filePath}`,
         )
         showStoryCreationFeedback('success', data.filePath, data.componentPath)
+        refreshProjectInventory()
+      },
+    )
+
+    import.meta.hot.on(
+      'component-highlighter:story-reverted',
+      (data: { entries: StoryJournalSummary[] }) => {
+        console.log(
+          `[component-highlighter] ↩️ Reverted ${data.entries.length} story write(s)`,
+        )
+        handleStoriesReverted(data.entries)
       },
     )
   }
@@ -1,11 +1,62 @@
 /// <reference types="@vitejs/devtools-kit" />
-import type { Plugin, ViteDevServer } from 'vite'
+import type { Plugin, ResolvedConfig, ViteDevServer } from 'vite'
 import { createFilter } from 'vite'
-import type { FrameworkConfig, SerializedProps } from './frameworks'
+import type {
+  ComponentArgType,
+  FrameworkConfig,
+  SerializedProps,
+} from './frameworks'
 import { defineRpcFunction } from '@vitejs/devtools-kit'
 import * as fs from 'fs'
 import * as path from 'path'
 import { fileURLToPath } from 'url'
+import {
+  getFileLanguage,
+  getRelativeImportPath,
+  getStoryFileExtension,
+  type GeneratedStory,
+  type StoryLanguage,
+  type StoryOutputFormat,
+} from './utils/story-generator'
+import { createUnifiedDiff } from './utils/unified-diff'
+import {
+  createStoryJournal,
+  type StoryJournalSummary,
+} from './utils/story-journal'
+import {
+  StoryCreationError,
+  createStoryCreationFailure,
+  findUnsupportedProp,
+  toStoryCreationFailure,
+  type StoryCreationFailure,
+  type StoryCreationResult,
+} from './utils/story-creation-result'
+import { createPathSandbox } from './utils/path-sandbox'
+import { omitDefaultProps } from './utils/prop-defaults'
+import { addStoryFileImports } from './utils/story-file-editor'
+import {
+  extractStoryFixtures,
+  resolveFixturesFilePath,
+} from './utils/story-fixtures'
+import {
+  createStoryFormatter,
+  type StoryFormatterOption,
+} from './utils/story-formatter'
+import {
+  createComponentStoryFinder,
+  createStoryIndex,
+  findStorybookPreviewFile,
+} from './utils/story-index'
+import {
+  DEFAULT_EXCLUDE,
+  getDefaultInclude,
+  scanComponentInventory,
+  type ComponentInventoryEntry,
+} from './utils/component-inventory'
+import {
+  normalizeStoryFilePattern,
+  resolveStoryFilePath,
+} from './utils/story-file-pattern'
 
 // RPC function type declarations
 declare module '@vitejs/devtools-kit' {
@@ -14,7 +65,17 @@ declare module '@vitejs/devtools-kit' {
       data: ComponentHighlightData | null,
     ) => void
     'component-highlighter:toggle-overlay': (data: { enabled: boolean }) => void
-    'component-highlighter:create-story': (data: ComponentStoryData) => void
+    'component-highlighter:create-story': (
+      data: ComponentStoryData,
+    ) => StoryCreationResult
+    'component-highlighter:preview-story': (
+      data: ComponentStoryData,
+    ) => StoryPreviewResult | StoryCreationFailure
+    'component-highlighter:list-story-journal': () => StoryJournalSummary[]
+    'component-highlighter:list-component-inventory': () => ComponentInventoryEntry[]
+    'component-highlighter:undo-story': (data: {
+      id?: string
+    }) => StoryJournalSummary[]
   }
 }
 
@@ -25,6 +86,7 @@ interface ComponentHighlightData {
     relativeFilePath?: string
     sourceId: string
     isDefaultExport?: boolean
+    tagName?: string
   }
   props: Record<string, unknown>
   serializedProps?: SerializedProps
@@ -38,6 +100,7 @@ interface ComponentStoryData {
     relativeFilePath?: string
     sourceId: string
     isDefaultExport?: boolean
+    tagName?: string
   }
   props: Record<string, unknown>
   serializedProps?: SerializedProps
@@ -49,6 +112,36 @@ interface ComponentStoryData {
   playFunction?: string[]
   /** Import statements required by the play function */
   playImports?: string[]
+  /**
+   * Write the story a preview showed instead of generating it again
+   * (create-story only)
+   */
+  previewId?: string
+}
+
+/**
+ * Result of a story preview: what would be written, without touching disk
+ */
+export interface StoryPreviewResult {
+  ok: true
+  /** Absolute path of the story file that would be written */
+  filePath: string
+  /** Full proposed file content */
+  content: string
+  /** Unified diff against the current file (or /dev/null for new files) */
+  diff: string
+  /** Whether the story would be appended to an existing file */
+  isAppend: boolean
+  /** The story export name that would be used */
+  storyName: string
+  /** Pass as `previewId` to create-story to write exactly this content */
+  previewId: string
+  /** The fixtures module update that would be written with the story */
+  fixtures?: {
+    filePath: string
+    content: string
+    diff: string
+  }
 }
 
 export interface ComponentHighlighterOptions {
@@ -56,7 +149,8 @@ export interface ComponentHighlighterOptions {
   storybookUrl?: string
   /**
    * Glob patterns to include for component instrumentation
-   * @default ["**\/*.{tsx,jsx}"] for React, varies by framework
+   * @default ["**\/*.{tsx,jsx}"] for React, varies by framework (the union of
+   * all frameworks' extensions in multi-framework mode)
    */
   include?: string[]
   /**
@@ -96,18 +190,105 @@ export interface ComponentHighlighterOptions {
   writeStoryFiles?: boolean
   /**
    * Custom directory for story files (relative to component)
-   * If not set, stories are created next to the component
+   * If not set, stories are created next to the component.
+   * Shorthand for `storyFilePattern: '{dir}/<storiesDir>/{name}.stories.{ext}'`
    */
   storiesDir?: string
+  /**
+   * Where story files live, as a path template. Tokens: `{dir}` (component
+   * directory), `{relativeDir}` (component directory relative to the Vite
+   * root), `{name}` (component file name without extension) and `{ext}` (the
+   * framework's story extension, `jsx`/`js` for JavaScript stories).
+   * Relative patterns resolve against the Vite
+   * root; `.stories.{ext}` is appended when the pattern has no `{ext}`.
+   * Generated imports are relative to the resulting file, and existing
+   * stories are looked up at the same location. Takes precedence over
+   * `storiesDir`.
+   * @example '{dir}/__stories__/{name}.stories.{ext}'
+   * @example 'stories/{relativeDir}/{name}'
+   * @default '{dir}/{name}.stories.{ext}'
+   */
+  storyFilePattern?: string
+  /**
+   * Directories outside the Vite root that components may live in and
+   * stories may be written to (e.g. sibling packages of a monorepo).
+   * Relative paths resolve against the Vite root. Component and story paths
+   * come from the browser, so anything outside the root and these
+   * directories is rejected.
+   * @default []
+   */
+  allowedPaths?: string[]
+  /**
+   * Format generated stories with the project's formatter before writing
+   * (and previewing) them. `auto` uses Biome when the project has a Biome
+   * config, otherwise Prettier, otherwise Biome; both are resolved from the
+   * project's `node_modules` with the project's config. When neither is
+   * installed, stories are written as generated.
+   * @default 'auto'
+   */
+  formatter?: StoryFormatterOption
+  /**
+   * Format of new story files: CSF3 `Meta`/`StoryObj` objects, or CSF
+   * Factories (`preview.meta()` imported from the project's
+   * `.storybook/preview`). Stories appended to an existing file follow that
+   * file's format. CSF Factories are written by the React and Vue
+   * generators; other frameworks write CSF3.
+   * @default 'csf3'
+   */
+  outputFormat?: StoryOutputFormat
+  /**
+   * Give new story files `argTypes` read from the component's props type:
+   * select controls for literal unions, actions for callbacks and JSDoc
+   * descriptions. Props types are read by the React, Preact, Solid and Vue
+   * (`defineProps<Props>()`) integrations; types imported from other files
+   * are skipped.
+   * @default true
+   */
+  argTypes?: boolean
+  /**
+   * Keep story args that equal the component's default values. By default
+   * they are left out (along with `undefined` ones), using the defaults the
+   * React, Preact, Solid and Vue integrations read from the component
+   * source: destructuring defaults, `defaultProps`, `mergeProps()`,
+   * `withDefaults()` and `props` definitions.
+   * @default false
+   */
+  keepDefaultProps?: boolean
+  /**
+   * Args whose generated code is longer than this many lines are written to
+   * the component's fixtures module and imported into the story. Args that
+   * equal an export of the module reuse it. Use `Infinity` to keep every
+   * arg inline.
+   * @default 50
+   */
+  fixtureThreshold?: number
+  /**
+   * Directory for fixtures modules (`<Component>.fixtures.ts`), relative to
+   * the Vite root. If not set, a component's fixtures module sits next to it.
+   */
+  fixturesDir?: string
 }
 
 /**
- * Create the component highlighter plugin for a specific framework
+ * Create the component highlighter plugin for one framework, or for several
+ * frameworks sharing one overlay (e.g. Vue widgets mounted in a React host).
+ *
+ * With several frameworks, each file goes to the first framework whose
+ * `detect` accepts it, so list the more specific frameworks first.
  */
 export function createComponentHighlighterPlugin(
-  framework: FrameworkConfig,
+  frameworkOrFrameworks: FrameworkConfig | FrameworkConfig[],
   options: ComponentHighlighterOptions = {},
 ): Plugin {
+  const frameworks = Array.isArray(frameworkOrFrameworks)
+    ? frameworkOrFrameworks
+    : [frameworkOrFrameworks]
+  if (frameworks.length === 0) {
+    throw new Error(
+      '[component-highlighter] At least one framework is required.',
+    )
+  }
+
   const runtimeHelperVirtualId = 'virtual:component-highlighter/runtime-helpers'
   const resolvedRuntimeHelperVirtualId = `\0${runtimeHelperVirtualId}`
   const packageRoot = path.resolve(
@@ -124,28 +305,24 @@ export function createComponentHighlighterPlugin(
     'src',
     'runtime-helpers.ts',
   )
-  const runtimeModuleSourcePath = path.join(
-    packageRoot,
-    'src',
-    `${framework.runtimeModuleFile}.ts`,
-  )
-  const runtimeModuleFilePath = path.join(
-    packageRoot,
-    'dist',
-    `${framework.runtimeModuleFile}.mjs`,
-  )
+  const runtimeModules = frameworks.map((framework) => {
+    // Third-party adapters point at their own runtime module file directly
+    const isExternalRuntimeModule = path.isAbsolute(framework.runtimeModuleFile)
+    return {
+      virtualModuleId: framework.virtualModuleId,
+      resolvedVirtualModuleId: `\0${framework.virtualModuleId}`,
+      sourcePath: isExternalRuntimeModule
+        ? framework.runtimeModuleFile
+        : path.join(packageRoot, 'src', `${framework.runtimeModuleFile}.ts`),
+      filePath: isExternalRuntimeModule
+        ? framework.runtimeModuleFile
+        : path.join(packageRoot, 'dist', `${framework.runtimeModuleFile}.mjs`),
+    }
+  })
 
   const {
-    include = framework.extensions.map((ext) => `**/*${ext}`),
-    exclude = [
-      '**/node_modules/**',
-      '**/dist/**',
-      '**/*.d.ts',
-      '**/*.stories.*',
-      '**/stories.*',
-      '**/*.story.*',
-      '**/story.*',
-    ],
+    include = getDefaultInclude(frameworks),
+    exclude = DEFAULT_EXCLUDE,
     eventName: _eventName = 'component-highlighter:create-story',
     enableOverlay: _enableOverlay = true,
     devtoolsDockId = 'component-highlighter',
@@ -154,24 +331,456 @@ export function createComponentHighlighterPlugin(
     debugMode = false,
     writeStoryFiles = true,
     storiesDir,
+    storyFilePattern: storyFilePatternOption,
+    allowedPaths = [],
+    formatter = 'auto',
+    outputFormat = 'csf3',
+    argTypes: generateArgTypes = true,
+    keepDefaultProps = false,
+    fixtureThreshold = 50,
+    fixturesDir,
   } = options
 
+  const storyFilePattern = normalizeStoryFilePattern({
+    storyFilePattern: storyFilePatternOption,
+    storiesDir,
+  })
+
   const filter = createFilter(include, exclude)
   let isServe = false
   let server: ViteDevServer | undefined
+  let resolvedConfig: ResolvedConfig | undefined
+  let projectRoot = process.cwd()
+  // Component and story paths come from the browser: only files inside the
+  // Vite root (or an allowed path) are ever probed or written
+  let pathSandbox = createPathSandbox([process.cwd(), ...allowedPaths])
+  // Component -> stories map from Storybook's index or `stories` globs
+  let storyIndex = createStoryIndex({ root: projectRoot, storybookUrl })
+  // Story lookup for one component export: the index, then conventional
+  // locations for the frameworks' own story extensions plus the common ones
+  const storyExtensions = [
+    ...new Set([
+      ...frameworks.map((framework) => framework.storyFileExtension),
+      'tsx',
+      'ts',
+      'jsx',
+      'js',
+    ]),
+  ]
+  const createStoryFinder = () =>
+    createComponentStoryFinder({
+      storyIndex,
+      root: projectRoot,
+      storyFilePattern,
+      storyExtensions,
+      isAllowedPath: (filePath) => !!pathSandbox.resolve(filePath),
+    })
+  let findComponentStories = createStoryFinder()
+  // Formats generated stories with the project's Prettier/Biome setup
+  let storyFormatter = createStoryFormatter({ root: projectRoot, formatter })
+  // Story file writes made during this dev server session, for undo
+  const storyJournal = createStoryJournal()
+  // Stories shown by preview-story, so that confirming one writes exactly
+  // what was shown
+  const storyPreviews = new Map<string, PreparedStory>()
+  let previewCounter = 0
+  // Project-wide component inventory, rescanned after any file change
+  let componentInventory: Promise<ComponentInventoryEntry[]> | null = null
+
+  /**
+   * Pick the framework that handles a file: the first one whose `detect` accepts it
+   */
+  function resolveFramework(code: string, id: string) {
+    return frameworks.find((framework) => framework.detect(code, id))
+  }
+
+  /**
+   * Pick the framework a component was instrumented by, for story generation
+   */
+  function resolveComponentFramework(componentPath: string): FrameworkConfig {
+    if (frameworks.length === 1) return frameworks[0]!
+
+    if (fs.existsSync(componentPath)) {
+      const framework = resolveFramework(
+        fs.readFileSync(componentPath, 'utf-8'),
+        componentPath,
+      )
+      if (framework) return framework
+    }
+
+    return (
+      frameworks.find((framework) =>
+        framework.extensions.some((ext) => componentPath.endsWith(ext)),
+      ) ?? frameworks[0]!
+    )
+  }
+
+  /**
+   * Where a component's story goes, and its language. JavaScript components,
+   * and every component of a project without a tsconfig, get JS stories
+   * with JSDoc types; an existing story file in either language is used as is.
+   */
+  function resolveStoryOutput(
+    componentPath: string,
+    framework: FrameworkConfig,
+  ): { outputPath: string; language: StoryLanguage } {
+    const preferred: StoryLanguage =
+      getFileLanguage(componentPath) === 'js' ||
+      !fs.existsSync(path.join(projectRoot, 'tsconfig.json'))
+        ? 'js'
+        : 'ts'
+    const languages: StoryLanguage[] =
+      preferred === 'ts' ? ['ts', 'js'] : ['js', 'ts']
+    const candidates = languages.map((language) => ({
+      language,
+      outputPath: resolveStoryFilePath(storyFilePattern, {
+        componentPath,
+        root: projectRoot,
+        extension: getStoryFileExtension(
+          framework.storyFileExtension,
+          language,
+        ),
+      }),
+    }))
+
+    return (
+      candidates.find((candidate) => fs.existsSync(candidate.outputPath)) ??
+      candidates[0]!
+    )
+  }
+
+  /**
+   * Read what story generation takes from a component's source: the arg
+   * types of its props type and its default prop values. Source that can't
+   * be read only costs the story its controls or its default filtering.
+   */
+  function analyzeComponentSource(
+    framework: FrameworkConfig,
+    meta: ComponentStoryData['meta'],
+    read: { argTypes: boolean; propDefaults: boolean },
+  ): {
+    argTypes: ComponentArgType[]
+    propDefaults: Record<string, unknown>
+  } {
+    const analysis: ReturnType<typeof analyzeComponentSource> = {
+      argTypes: [],
+      propDefaults: {},
+    }
+    if (!fs.existsSync(meta.filePath)) return analysis
+
+    const code = fs.readFileSync(meta.filePath, 'utf-8')
+    const component = {
+      componentName: meta.componentName,
+      isDefaultExport: meta.isDefaultExport ?? false,
+    }
+    const attempt = <T>(extract: () => T, fallback: T): T => {
+      try {
+        return extract()
+      } catch (error) {
+        console.warn(
+          `[component-highlighter] Failed to read the props of ${meta.filePath}:`,
+          error,
+        )
+        return fallback
+      }
+    }
+
+    return {
+      argTypes:
+        read.argTypes && framework.extractArgTypes
+          ? attempt(
+              () => framework.extractArgTypes!(code, meta.filePath, component),
+              analysis.argTypes,
+            )
+          : analysis.argTypes,
+      propDefaults:
+        read.propDefaults && framework.extractPropDefaults
+          ? attempt(
+              () =>
+                framework.extractPropDefaults!(code, meta.filePath, component),
+              analysis.propDefaults,
+            )
+          : analysis.propDefaults,
+    }
+  }
+
+  type PreparedStory = {
+    outputPath: string
+    existingContent: string | undefined
+    story: GeneratedStory
+    /** Fixtures module update, when args were moved there */
+    fixtures: {
+      filePath: string
+      existingContent: string | undefined
+      content: string
+    } | null
+  }
+
+  /**
+   * Generate story content for a create/preview request without writing it
+   */
+  async function prepareStory(
+    data: ComponentStoryData,
+  ): Promise<PreparedStory> {
+    // Convert component registry from object to Map
+    const registryMap = new Map<string, string>()
+    if (data.componentRegistry) {
+      for (const [name, filePath] of Object.entries(data.componentRegistry)) {
+        registryMap.set(name, filePath)
+      }
+    }
+
+    if (!pathSandbox.resolve(data.meta.filePath)) {
+      throw new StoryCreationError(
+        'path-outside-root',
+        `Component ${data.meta.filePath} is outside the project root and allowed paths`,
+      )
+    }
+
+    const framework = resolveComponentFramework(data.meta.filePath)
+
+    // Determine the output path and whether it holds TS or JS
+    const { outputPath, language } = resolveStoryOutput(
+      data.meta.filePath,
+      framework,
+    )
+
+    if (!pathSandbox.resolve(outputPath)) {
+      throw new StoryCreationError(
+        'path-outside-root',
+        `Story file ${outputPath} is outside the project root and allowed paths`,
+      )
+    }
+
+    // Check if file already exists
+    let existingContent: string | undefined
+    if (fs.existsSync(outputPath)) {
+      existingContent = fs.readFileSync(outputPath, 'utf-8')
+    }
+
+    // Appends keep the existing meta, so only new files get arg types
+    const { argTypes, propDefaults } = analyzeComponentSource(
+      framework,
+      data.meta,
+      {
+        argTypes: generateArgTypes && !existingContent,
+        propDefaults: !keepDefaultProps,
+      },
+    )
+    const storyProps = keepDefaultProps
+      ? (data.serializedProps ?? {})
+      : omitDefaultProps(data.serializedProps ?? {}, propDefaults)
+
+    const unsupportedProp = findUnsupportedProp(storyProps)
+    if (unsupportedProp) {
+      throw new StoryCreationError(
+        'unsupported-prop',
+        `Prop "${unsupportedProp.path}" holds a ${unsupportedProp.type}, which can't be written to a story`,
+      )
+    }
+
+    // Large args move to the component's fixtures module
+    const fixturesPath = resolveFixturesFilePath({
+      componentPath: data.meta.filePath,
+      componentName: data.meta.componentName,
+      root: projectRoot,
+      fixturesDir,
+      language,
+    })
+    if (!pathSandbox.resolve(fixturesPath)) {
+      throw new StoryCreationError(
+        'path-outside-root',
+        `Fixtures module ${fixturesPath} is outside the project root and allowed paths`,
+      )
+    }
+    const existingFixtures = fs.existsSync(fixturesPath)
+      ? fs.readFileSync(fixturesPath, 'utf-8')
+      : undefined
+    const { componentName, isDefaultExport } = data.meta
+    const propsType =
+      language === 'ts' && framework.componentPropsSource
+        ? {
+            type: `ComponentProps<typeof ${componentName}>`,
+            imports: [
+              {
+                source: framework.componentPropsSource,
+                typeNames: ['ComponentProps'],
+              },
+              {
+                source: getRelativeImportPath(
+                  path.dirname(fixturesPath),
+                  data.meta.filePath,
+                ),
+                typeNames: [
+                  isDefaultExport
+                    ? `default as ${componentName}`
+                    : componentName,
+                ],
+              },
+            ],
+          }
+        : undefined
+    const {
+      props,
+      names: fixtureNames,
+      content: fixturesContent,
+    } = extractStoryFixtures(storyProps, {
+      threshold: fixtureThreshold,
+      existingContent: existingFixtures,
+      storyContent: existingContent,
+      propsType,
+    })
+
+    // Lazily load the framework-specific story generator
+    const generateStory = await framework.loadStoryGenerator()
+
+    const story = generateStory({
+      meta: {
+        componentName: data.meta.componentName,
+        filePath: data.meta.filePath,
+        relativeFilePath:
+          data.meta.relativeFilePath ??
+          path.relative(process.cwd(), data.meta.filePath),
+        sourceId: data.meta.sourceId,
+        isDefaultExport: data.meta.isDefaultExport ?? false,
+        ...(data.meta.tagName ? { tagName: data.meta.tagName } : {}),
+      },
+      props,
+      componentRegistry: registryMap,
+      storyFilePath: outputPath,
+      ...(data.storyName ? { storyName: data.storyName } : {}),
+      ...(existingContent ? { existingContent } : {}),
+      ...(data.playFunction ? { playFunction: data.playFunction } : {}),
+      ...(data.playImports ? { playImports: data.playImports } : {}),
+      outputFormat,
+      language,
+      storybookFramework: framework.storybookFramework,
+      ...(argTypes.length > 0 ? { argTypes } : {}),
+      ...(outputFormat === 'csf-factories'
+        ? {
+            previewFilePath:
+              findStorybookPreviewFile(path.join(projectRoot, '.storybook')) ??
+              path.join(projectRoot, '.storybook', 'preview.ts'),
+          }
+        : {}),
+    })
+
+    const content =
+      fixtureNames.length > 0
+        ? addStoryFileImports(story.content, [
+            {
+              source: getRelativeImportPath(
+                path.dirname(outputPath),
+                fixturesPath,
+              ),
+              names: fixtureNames,
+            },
+          ])
+        : story.content
+
+    return {
+      outputPath,
+      existingContent,
+      story: {
+        ...story,
+        content: await storyFormatter.format(
+          content,
+          outputPath,
+          existingContent,
+        ),
+      },
+      fixtures: fixturesContent
+        ? {
+            filePath: fixturesPath,
+            existingContent: existingFixtures,
+            content: await storyFormatter.format(
+              fixturesContent,
+              fixturesPath,
+              existingFixtures,
+            ),
+          }
+        : null,
+    }
+  }
+
+  /**
+   * Keep a previewed story until it is confirmed (the latest 20 previews)
+   */
+  function storePreview(prepared: PreparedStory): string {
+    const previewId = `${Date.now().toString(36)}-${(previewCounter++).toString(36)}`
+    storyPreviews.set(previewId, prepared)
+    for (const staleId of [...storyPreviews.keys()].slice(0, -20)) {
+      storyPreviews.delete(staleId)
+    }
+    return previewId
+  }
+
+  /**
+   * Take the story a preview showed, for its confirmation to write as is.
+   * The files it was diffed against must not have changed since.
+   */
+  function takePreview(previewId: string): PreparedStory {
+    const prepared = storyPreviews.get(previewId)
+    storyPreviews.delete(previewId)
+    if (!prepared) {
+      throw new StoryCreationError(
+        'preview-outdated',
+        'The previewed story is no longer available',
+      )
+    }
+
+    const previewedFiles = [
+      { filePath: prepared.outputPath, content: prepared.existingContent },
+      ...(prepared.fixtures
+        ? [
+            {
+              filePath: prepared.fixtures.filePath,
+              content: prepared.fixtures.existingContent,
+            },
+          ]
+        : []),
+    ]
+    for (const { filePath, content } of previewedFiles) {
+      const currentContent = fs.existsSync(filePath)
+        ? fs.readFileSync(filePath, 'utf-8')
+        : undefined
+      if (currentContent !== content) {
+        throw new StoryCreationError(
+          'preview-outdated',
+          `${filePath} changed after the story was previewed`,
+        )
+      }
+    }
+    return prepared
+  }
 
   return {
     name: 'vite-plugin-experimental-storybook-devtools',
     enforce: 'pre',
     configResolved(config) {
+      resolvedConfig = config
       isServe = config.command === 'serve'
+      projectRoot = config.root
+      storyIndex = createStoryIndex({ root: projectRoot, storybookUrl })
+      pathSandbox = createPathSandbox([
+        config.root,
+        ...allowedPaths.map((allowedPath) =>
+          path.resolve(config.root, allowedPath),
+        ),
+      ])
+      findComponentStories = createStoryFinder()
+      storyFormatter = createStoryFormatter({ root: projectRoot, formatter })
     },
     config: (viteConfig) => {
+      const optimizeDeps = [
+        ...new Set(
+          frameworks.flatMap((framework) => framework.optimizeDeps ?? []),
+        ),
+      ]
+      if (!optimizeDeps.length) return
       viteConfig.optimizeDeps ??= {}
       viteConfig.optimizeDeps.include ??= []
-      viteConfig.optimizeDeps.include.push(
-        'react-element-to-jsx-string/dist/esm/index.js',
-      )
+      viteConfig.optimizeDeps.include.push(...optimizeDeps)
     },
     configureServer(srv) {
       server = srv
@@ -179,16 +788,26 @@ export function createComponentHighlighterPlugin(
       if (fs.existsSync(runtimeHelperSourcePath)) {
         srv.watcher.add(runtimeHelperSourcePath)
       }
-      if (fs.existsSync(runtimeModuleSourcePath)) {
-        srv.watcher.add(runtimeModuleSourcePath)
+      for (const runtimeModule of runtimeModules) {
+        if (fs.existsSync(runtimeModule.sourcePath)) {
+          srv.watcher.add(runtimeModule.sourcePath)
+        }
       }
 
+      // Keep the story index in sync with story files and the Storybook config
+      srv.watcher.on('all', (_event, file) => {
+        storyIndex.handleFileChange(file)
+        componentInventory = null
+      })
+
       // Add middleware to check if story files exist
       srv.middlewares.use(
         '/__component-highlighter/check-story',
-        (req, res) => {
+        async (req, res) => {
           const url = new URL(req.url || '', 'http://localhost')
           const componentPath = url.searchParams.get('componentPath')
+          // `default` or the named export the component was instrumented as
+          const exportName = url.searchParams.get('exportName') ?? undefined
 
           if (!componentPath) {
             res.statusCode = 400
@@ -198,59 +817,28 @@ export function createComponentHighlighterPlugin(
             return
           }
 
-          // Check for story file
-          const componentDir = path.dirname(componentPath)
-          const componentFileName = path.basename(
-            componentPath,
-            path.extname(componentPath),
-          )
-
-          // Check both with and without storiesDir
-          const possiblePaths = [
-            path.join(componentDir, `${componentFileName}.stories.tsx`),
-            path.join(componentDir, `${componentFileName}.stories.ts`),
-            path.join(componentDir, `${componentFileName}.stories.jsx`),
-            path.join(componentDir, `${componentFileName}.stories.js`),
-          ]
-
-          if (storiesDir) {
-            possiblePaths.push(
-              path.join(
-                componentDir,
-                storiesDir,
-                `${componentFileName}.stories.tsx`,
-              ),
-              path.join(
-                componentDir,
-                storiesDir,
-                `${componentFileName}.stories.ts`,
-              ),
-              path.join(
-                componentDir,
-                storiesDir,
-                `${componentFileName}.stories.jsx`,
-              ),
-              path.join(
-                componentDir,
-                storiesDir,
-                `${componentFileName}.stories.js`,
-              ),
+          if (!pathSandbox.resolve(componentPath)) {
+            res.statusCode = 403
+            res.end(
+              JSON.stringify({
+                error: 'componentPath is outside the project root',
+              }),
             )
+            return
           }
 
-          let storyPath: string | null = null
-          for (const p of possiblePaths) {
-            if (fs.existsSync(p)) {
-              storyPath = p
-              break
-            }
-          }
+          const storyEntries = await findComponentStories(
+            componentPath,
+            exportName,
+          )
+          const storyPath = storyEntries[0]?.filePath ?? null
 
           res.setHeader('Content-Type', 'application/json')
           res.end(
             JSON.stringify({
               hasStory: !!storyPath,
               storyPath,
+              stories: storyEntries.flatMap((entry) => entry.stories),
             }),
           )
         },
@@ -309,7 +897,9 @@ export function createComponentHighlighterPlugin(
             name: 'component-highlighter:create-story',
             type: 'action',
             setup: () => ({
-              handler: async (data: ComponentStoryData) => {
+              handler: async (
+                data: ComponentStoryData,
+              ): Promise<StoryCreationResult> => {
                 console.log(
                   '[DevTools] Create story:',
                   data.meta.componentName,
@@ -317,123 +907,271 @@ export function createComponentHighlighterPlugin(
                   data.storyName,
                 )
 
+                if (!writeStoryFiles) {
+                  return createStoryCreationFailure(
+                    'writes-disabled',
+                    'Story writing is disabled for this dev server',
+                  )
+                }
+                if (!data.serializedProps) {
+                  return createStoryCreationFailure(
+                    'missing-props',
+                    `No props were captured for ${data.meta.componentName}`,
+                  )
+                }
+
                 // Generate and write the story file
-                if (writeStoryFiles && data.serializedProps) {
-                  try {
-                    // Convert component registry from object to Map
-                    const registryMap = new Map<string, string>()
-                    if (data.componentRegistry) {
-                      for (const [name, filePath] of Object.entries(
-                        data.componentRegistry,
-                      )) {
-                        registryMap.set(name, filePath)
-                      }
-                    }
+                let targetPath: string | undefined
+                try {
+                  // A confirmed preview writes what the preview showed
+                  const { outputPath, existingContent, story, fixtures } =
+                    data.previewId
+                      ? takePreview(data.previewId)
+                      : await prepareStory(data)
+                  targetPath = outputPath
 
-                    // Determine the output path
-                    const componentDir = path.dirname(data.meta.filePath)
-                    const componentFileName = path.basename(
-                      data.meta.filePath,
-                      path.extname(data.meta.filePath),
+                  if (existingContent) {
+                    console.log(
+                      `[DevTools] Appending to existing story file: ${outputPath}`,
                     )
-                    const storyExtension =
-                      framework.name === 'vue' ? 'ts' : 'tsx'
-                    let outputPath = path.join(
-                      componentDir,
-                      `${componentFileName}.stories.${storyExtension}`,
+                  }
+
+                  if (data.playFunction?.length) {
+                    console.log(
+                      `[DevTools] Story includes a play function with ${data.playFunction.length} lines`,
                     )
-                    if (storiesDir) {
-                      outputPath = path.join(
-                        componentDir,
-                        storiesDir,
-                        `${componentFileName}.stories.${storyExtension}`,
-                      )
-                    }
+                  }
 
-                    // Check if file already exists
-                    let existingContent: string | undefined
-                    if (fs.existsSync(outputPath)) {
-                      existingContent = fs.readFileSync(outputPath, 'utf-8')
-                      console.log(
-                        `[DevTools] Appending to existing story file: ${outputPath}`,
-                      )
-                    }
+                  // Ensure the directory exists
+                  const outputDir = path.dirname(outputPath)
+                  if (!fs.existsSync(outputDir)) {
+                    fs.mkdirSync(outputDir, { recursive: true })
+                  }
+
+                  // Write the fixtures module first: the story imports it
+                  if (fixtures) {
+                    fs.mkdirSync(path.dirname(fixtures.filePath), {
+                      recursive: true,
+                    })
+                    fs.writeFileSync(
+                      fixtures.filePath,
+                      fixtures.content,
+                      'utf-8',
+                    )
+                  }
 
-                    // Dynamically import the framework-specific story generator
-                    let generateStory: typeof import('./frameworks/react/story-generator').generateStory
-
-                    if (framework.name === 'react') {
-                      const { generateStory: generateReactStory } =
-                        await import('./frameworks/react/story-generator')
-                      generateStory = generateReactStory
-                    } else if (framework.name === 'vue') {
-                      const { generateStory: generateVueStory } =
-                        await import('./frameworks/vue/story-generator')
-                      generateStory = generateVueStory
-                    } else {
-                      throw new Error(
-                        `Unsupported framework: ${framework.name}`,
+                  // Write the story file, restoring the fixtures module if
+                  // that fails so no export is left without its story
+                  try {
+                    fs.writeFileSync(outputPath, story.content, 'utf-8')
+                  } catch (error) {
+                    if (fixtures?.existingContent !== undefined) {
+                      fs.writeFileSync(
+                        fixtures.filePath,
+                        fixtures.existingContent,
+                        'utf-8',
                       )
+                    } else if (fixtures) {
+                      fs.rmSync(fixtures.filePath, { force: true })
                     }
+                    throw error
+                  }
+                  // One entry for both files: undoing the story restores the
+                  // fixtures module it imports
+                  const journalEntry = storyJournal.record({
+                    filePath: outputPath,
+                    originalContent: existingContent ?? null,
+                    newContent: story.content,
+                    componentName: data.meta.componentName,
+                    componentPath: data.meta.filePath,
+                    storyName: story.storyName,
+                    ...(fixtures
+                      ? {
+                          relatedFiles: [
+                            {
+                              filePath: fixtures.filePath,
+                              originalContent: fixtures.existingContent ?? null,
+                              newContent: fixtures.content,
+                            },
+                          ],
+                        }
+                      : {}),
+                  })
+                  console.log(
+                    `[DevTools] Story "${story.storyName}" ${existingContent ? 'added to' : 'created in'}: ${outputPath}`,
+                  )
+                  // Don't wait for the watcher: the client re-checks right away
+                  storyIndex.handleFileChange(outputPath)
+                  componentInventory = null
 
-                    const story = generateStory({
-                      meta: {
+                  // Notify the client about the created file
+                  if (server) {
+                    server.ws.send({
+                      type: 'custom',
+                      event: 'component-highlighter:story-created',
+                      data: {
+                        filePath: outputPath,
                         componentName: data.meta.componentName,
-                        filePath: data.meta.filePath,
-                        relativeFilePath:
-                          data.meta.relativeFilePath ??
-                          path.relative(process.cwd(), data.meta.filePath),
-                        sourceId: data.meta.sourceId,
-                        isDefaultExport: data.meta.isDefaultExport ?? false,
+                        componentPath: data.meta.filePath,
+                        storyName: story.storyName,
+                        isAppend: !!existingContent,
+                        journalEntryId: journalEntry.id,
                       },
-                      props: data.serializedProps,
-                      componentRegistry: registryMap,
-                      ...(data.storyName ? { storyName: data.storyName } : {}),
-                      ...(existingContent ? { existingContent } : {}),
-                      ...(data.playFunction
-                        ? { playFunction: data.playFunction }
-                        : {}),
-                      ...(data.playImports
-                        ? { playImports: data.playImports }
-                        : {}),
                     })
+                  }
 
-                    if (data.playFunction?.length) {
-                      console.log(
-                        `[DevTools] Story includes a play function with ${data.playFunction.length} lines`,
-                      )
-                    }
-
-                    // Ensure the directory exists
-                    const outputDir = path.dirname(outputPath)
-                    if (!fs.existsSync(outputDir)) {
-                      fs.mkdirSync(outputDir, { recursive: true })
-                    }
+                  return {
+                    ok: true,
+                    filePath: outputPath,
+                    storyName: story.storyName,
+                    isAppend: !!existingContent,
+                    journalEntryId: journalEntry.id,
+                  }
+                } catch (error) {
+                  console.error('[DevTools] Failed to create story:', error)
+                  return toStoryCreationFailure(error, targetPath)
+                }
+              },
+            }),
+          }),
+        )
+        ctx.rpc.register(
+          defineRpcFunction({
+            name: 'component-highlighter:preview-story',
+            type: 'query',
+            setup: () => ({
+              handler: async (
+                data: ComponentStoryData,
+              ): Promise<StoryPreviewResult | StoryCreationFailure> => {
+                console.log(
+                  '[DevTools] Preview story:',
+                  data.meta.componentName,
+                  'name:',
+                  data.storyName,
+                )
 
-                    // Write the story file
-                    fs.writeFileSync(outputPath, story.content, 'utf-8')
-                    console.log(
-                      `[DevTools] Story "${story.storyName}" ${existingContent ? 'added to' : 'created in'}: ${outputPath}`,
-                    )
+                let prepared: PreparedStory
+                try {
+                  prepared = await prepareStory(data)
+                } catch (error) {
+                  console.error('[DevTools] Failed to preview story:', error)
+                  return toStoryCreationFailure(error)
+                }
+                const { outputPath, existingContent, story, fixtures } =
+                  prepared
+                const relativeOutputPath = path.relative(
+                  projectRoot,
+                  outputPath,
+                )
 
-                    // Notify the client about the created file
-                    if (server) {
-                      server.ws.send({
-                        type: 'custom',
-                        event: 'component-highlighter:story-created',
-                        data: {
-                          filePath: outputPath,
-                          componentName: data.meta.componentName,
-                          componentPath: data.meta.filePath,
-                          storyName: story.storyName,
-                          isAppend: !!existingContent,
+                return {
+                  ok: true,
+                  filePath: outputPath,
+                  content: story.content,
+                  diff: createUnifiedDiff(
+                    existingContent ?? '',
+                    story.content,
+                    {
+                      fromFile:
+                        existingContent === undefined
+                          ? null
+                          : relativeOutputPath,
+                      toFile: relativeOutputPath,
+                    },
+                  ),
+                  isAppend: !!existingContent,
+                  storyName: story.storyName,
+                  previewId: storePreview(prepared),
+                  ...(fixtures
+                    ? {
+                        fixtures: {
+                          filePath: fixtures.filePath,
+                          content: fixtures.content,
+                          diff: createUnifiedDiff(
+                            fixtures.existingContent ?? '',
+                            fixtures.content,
+                            {
+                              fromFile:
+                                fixtures.existingContent === undefined
+                                  ? null
+                                  : path.relative(
+                                      projectRoot,
+                                      fixtures.filePath,
+                                    ),
+                              toFile: path.relative(
+                                projectRoot,
+                                fixtures.filePath,
+                              ),
+                            },
+                          ),
                         },
-                      })
-                    }
-                  } catch (error) {
-                    console.error('[DevTools] Failed to create story:', error)
-                  }
+                      }
+                    : {}),
+                }
+              },
+            }),
+          }),
+        )
+        ctx.rpc.register(
+          defineRpcFunction({
+            name: 'component-highlighter:list-component-inventory',
+            type: 'query',
+            setup: () => ({
+              handler: (): Promise<ComponentInventoryEntry[]> => {
+                componentInventory ??= scanComponentInventory({
+                  root: projectRoot,
+                  // Globs are matched from the Vite root, as for the scan
+                  filter: createFilter(include, exclude, {
+                    resolve: projectRoot,
+                  }),
+                  resolveFramework,
+                  findStories: findComponentStories,
+                }).catch((error) => {
+                  componentInventory = null
+                  throw error
+                })
+                return componentInventory
+              },
+            }),
+          }),
+        )
+
+        ctx.rpc.register(
+          defineRpcFunction({
+            name: 'component-highlighter:list-story-journal',
+            type: 'query',
+            setup: () => ({
+              handler: (): StoryJournalSummary[] => storyJournal.list(),
+            }),
+          }),
+        )
+
+        ctx.rpc.register(
+          defineRpcFunction({
+            name: 'component-highlighter:undo-story',
+            type: 'action',
+            setup: () => ({
+              handler: (data: { id?: string }): StoryJournalSummary[] => {
+                const reverted = storyJournal.revert(data.id)
+                for (const entry of reverted) {
+                  storyIndex.handleFileChange(entry.filePath)
+                  console.log(
+                    `[DevTools] Reverted story "${entry.storyName}" ${entry.createdFile ? 'by deleting' : 'in'}: ${entry.filePath}`,
+                  )
+                }
+
+                componentInventory = null
+
+                // Notify the client so story status caches are refreshed
+                if (server) {
+                  server.ws.send({
+                    type: 'custom',
+                    event: 'component-highlighter:story-reverted',
+                    data: { entries: reverted },
+                  })
                 }
+
+                return reverted
               },
             }),
           }),
@@ -447,7 +1185,11 @@ export function createComponentHighlighterPlugin(
       if (id === resolvedRuntimeHelperVirtualId) {
         return resolvedRuntimeHelperVirtualId
       }
-      if (id === framework.virtualModuleId) {
+      if (
+        runtimeModules.some(
+          (runtimeModule) => runtimeModule.virtualModuleId === id,
+        )
+      ) {
         return '\0' + id
       }
       return null
@@ -477,7 +1219,12 @@ export function createComponentHighlighterPlugin(
         }
         return fs.readFileSync(runtimeHelperFilePath, 'utf-8')
       }
-      if (id === '\0' + framework.virtualModuleId) {
+      const runtimeModule = runtimeModules.find(
+        (candidate) => candidate.resolvedVirtualModuleId === id,
+      )
+      if (runtimeModule) {
+        const runtimeModuleSourcePath = runtimeModule.sourcePath
+        const runtimeModuleFilePath = runtimeModule.filePath
         const shouldUseSource =
           isServe && fs.existsSync(runtimeModuleSourcePath)
 
@@ -535,16 +1282,23 @@ export function createComponentHighlighterPlugin(
         return
       }
 
-      // Check if this framework handles this file
-      if (!framework.detect(code, id)) {
+      // Route the file to the framework that handles it
+      const framework = resolveFramework(code, id)
+      if (!framework) {
         return
       }
 
       if (options.debugMode) {
-        console.log(`[component-highlighter] Transforming ${id}`)
+        console.log(
+          `[component-highlighter] Transforming ${id} (${framework.name})`,
+        )
       }
 
-      return framework.transform(code, id)
+      return framework.transform(
+        code,
+        id,
+        resolvedConfig ? { config: resolvedConfig } : undefined,
+      )
     },
     handleHotUpdate(ctx) {
       if (ctx.file === runtimeHelperSourcePath) {
@@ -553,9 +1307,12 @@ export function createComponentHighlighterPlugin(
         )
         return mod ? [mod] : []
       }
-      if (ctx.file === runtimeModuleSourcePath) {
+      const runtimeModule = runtimeModules.find(
+        (candidate) => candidate.sourcePath === ctx.file,
+      )
+      if (runtimeModule) {
         const mod = ctx.server.moduleGraph.getModuleById(
-          '\0' + framework.virtualModuleId,
+          runtimeModule.resolvedVirtualModuleId,
         )
         return mod ? [mod] : []
       }
@@ -11,9 +11,19 @@ export type {
   JSXSerializedValue,
   FunctionSerializedValue,
   SerializedProps,
+  RichSerializedValue,
+  ReferenceSerializedValue,
   HighlighterOptions,
   TransformFunction,
+  TransformContext,
+  TransformOutput,
+  StoryGenerator,
   FrameworkDetector,
+  ComponentScanner,
+  ScannedComponent,
+  ComponentArgType,
+  ArgTypesExtractor,
+  PropDefaultsExtractor,
   FrameworkConfig,
   ProviderDependency,
 } from './types'
@@ -0,0 +1,39 @@
+/**
+ * Preact Framework Configuration
+ *
+ * Exports the Preact-specific implementation for the component highlighter.
+ */
+
+import { extractJsxComponentArgTypes } from '../../utils/arg-types'
+import { extractJsxComponentPropDefaults } from '../../utils/prop-defaults'
+import type { FrameworkConfig } from '../types'
+import {
+  transform,
+  scanComponents,
+  detectPreact,
+  VIRTUAL_MODULE_ID,
+} from './transform'
+
+/**
+ * Preact framework configuration
+ */
+export const preactFramework: FrameworkConfig = {
+  name: 'preact',
+  displayName: 'Preact',
+  extensions: ['.tsx', '.jsx'],
+  detect: detectPreact,
+  transform,
+  scanComponents,
+  extractArgTypes: extractJsxComponentArgTypes,
+  extractPropDefaults: extractJsxComponentPropDefaults,
+  runtimeModuleFile: 'frameworks/preact/runtime-module',
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  storybookFramework: '@storybook/preact-vite',
+  componentPropsSource: 'preact',
+  storyFileExtension: 'tsx',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
+}
+
+// Re-export for convenience
+export { transform, detectPreact, VIRTUAL_MODULE_ID } from './transform'
@@ -0,0 +1,46 @@
+/**
+ * Preact Entry Point
+ *
+ * Import this to use the component highlighter with Preact:
+ * ```ts
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/preact'
+ * ```
+ */
+
+import {
+  createComponentHighlighterPlugin,
+  type ComponentHighlighterOptions,
+} from '../../create-component-highlighter-plugin'
+import { preactFramework } from '.'
+
+/**
+ * Preact Component Highlighter Plugin
+ *
+ * Works for plain Preact and for apps aliasing `react` to `preact/compat`.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { defineConfig } from 'vite'
+ * import preact from '@preact/preset-vite'
+ * import { DevTools } from '@vitejs/devtools'
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/preact'
+ *
+ * export default defineConfig({
+ *   plugins: [
+ *     preact(),
+ *     DevTools(),
+ *     componentHighlighter(),
+ *   ],
+ * })
+ * ```
+ */
+export default function componentHighlighterPreact(
+  options: ComponentHighlighterOptions = {},
+) {
+  return createComponentHighlighterPlugin(preactFramework, options)
+}
+
+// Re-export types
+export type { ComponentHighlighterOptions } from '../../create-component-highlighter-plugin'
+export { preactFramework } from '.'
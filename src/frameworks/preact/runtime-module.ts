@@ -0,0 +1,295 @@
+/// <reference path="../../runtime-module-shims.d.ts" />
+import { Fragment, h } from 'preact'
+import { useEffect, useRef } from 'preact/hooks'
+import {
+  cleanupInstanceTracking,
+  exposeComponentRegistry,
+  findFirstTrackableElement,
+  serializePropValues,
+  serializeRichValue,
+  syncInstanceTracking,
+} from 'virtual:component-highlighter/runtime-helpers'
+import { containsPreactVNode, serializeVNodeToJSX } from './vnode-to-jsx'
+
+// Injected by the virtual module loader.
+declare const __COMPONENT_HIGHLIGHTER_DEBUG__: boolean
+
+const DEBUG_MODE = __COMPONENT_HIGHLIGHTER_DEBUG__
+
+const logDebug = (...args: unknown[]) => {
+  if (DEBUG_MODE) {
+    console.log('[component-highlighter-preact]', ...args)
+  }
+}
+
+;(
+  globalThis as typeof globalThis & { logDebug?: (...args: unknown[]) => void }
+).logDebug = logDebug
+
+// Always log errors
+const logError = (...args: unknown[]) => {
+  console.error('[component-highlighter-preact]', ...args)
+}
+
+logDebug('Preact runtime loaded', { debug: DEBUG_MODE })
+
+type ComponentType = any
+type ComponentChildren = any
+
+// Component registry for tracking live instances
+const componentRegistry = new Map<
+  string,
+  {
+    id: string
+    meta: Record<string, unknown>
+    props: Record<string, unknown>
+    serializedProps: Record<string, unknown>
+    element: Element
+    rect?: DOMRect
+  }
+>()
+
+// Generate unique instance ID
+function generateInstanceId(sourceId: string) {
+  return `${sourceId}:${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Serialize props, converting vnodes to JSX source strings
+ */
+function serializeProps(props: Record<string, unknown>) {
+  return serializePropValues(props, serializeValue)
+}
+
+/**
+ * Serialize a single value, handling vnodes (JSX) specially
+ */
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
+  // Handle Preact vnodes (JSX), alone or in arrays
+  if (containsPreactVNode(value)) {
+    try {
+      const { source, componentRefs } = serializeVNodeToJSX(value, Fragment)
+      logDebug('Serialized JSX value successfully:', source.substring(0, 100))
+      return {
+        __isJSX: true,
+        source,
+        componentRefs,
+      }
+    } catch (err) {
+      logError(
+        'Failed to serialize JSX value:',
+        (err as { message?: string })?.message || err,
+        value,
+      )
+      return {
+        __isJSX: true,
+        source: '{/* Failed to serialize */}',
+        componentRefs: [],
+      }
+    }
+  }
+
+  // Regular array - recursively serialize
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeNested(item))
+  }
+
+  // Handle plain objects (but not null)
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { constructor?: unknown }).constructor === Object
+  ) {
+    const serialized: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      serialized[k] = serializeNested(v)
+    }
+    return serialized
+  }
+
+  // Handle functions - return a placeholder
+  if (typeof value === 'function') {
+    return {
+      __isFunction: true,
+      name: (value as { name?: string }).name || 'anonymous',
+    }
+  }
+
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
+  // Primitives pass through
+  return value
+}
+
+// Registry management functions
+export function registerInstance(
+  meta: Record<string, unknown>,
+  props: Record<string, unknown>,
+  element: Element,
+) {
+  const id = generateInstanceId(meta['sourceId'] as string)
+  const serializedProps = serializeProps(props)
+
+  const instance = {
+    id,
+    meta,
+    props,
+    serializedProps,
+    element,
+  }
+  componentRegistry.set(id, instance)
+
+  logDebug('registerInstance', {
+    id,
+    componentName: meta['componentName'],
+    totalComponents: componentRegistry.size,
+  })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:register', {
+    detail: instance,
+  })
+  window.dispatchEvent(event)
+  logDebug('dispatched register event for', id)
+
+  return id
+}
+
+export function unregisterInstance(id: string) {
+  // Always unregister when called - the cleanup function knows best
+  componentRegistry.delete(id)
+  logDebug('unregistered', { id, remaining: componentRegistry.size })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:unregister', {
+    detail: id,
+  })
+  window.dispatchEvent(event)
+}
+
+export function updateInstanceProps(
+  id: string,
+  props: Record<string, unknown>,
+) {
+  const instance = componentRegistry.get(id)
+  if (instance) {
+    instance.props = props
+    instance.serializedProps = serializeProps(props)
+    logDebug('updateInstanceProps', { id, props })
+
+    // Dispatch event for listeners module
+    const event = new CustomEvent('component-highlighter:update-props', {
+      detail: { id, props, serializedProps: instance.serializedProps },
+    })
+    window.dispatchEvent(event)
+  }
+}
+
+/**
+ * Get the component registry for import resolution
+ * Returns a map of component name -> file path
+ */
+export function getComponentRegistry() {
+  const registry = new Map<string, string>()
+  for (const instance of componentRegistry.values()) {
+    registry.set(
+      (instance.meta['componentName'] as string) || '',
+      instance.meta['filePath'] as string,
+    )
+  }
+  return registry
+}
+
+// Expose registry getter globally for story generation
+exposeComponentRegistry(getComponentRegistry)
+
+// Component boundary that tracks position without DOM modification
+export const ComponentHighlighterBoundary = ({
+  meta,
+  props,
+  children,
+}: {
+  meta: Record<string, unknown>
+  props: Record<string, unknown>
+  children: ComponentChildren
+}) => {
+  const ref = useRef(null as HTMLSpanElement | null)
+  // Track registration state with element reference to handle HMR correctly
+  const registrationRef = useRef({
+    id: null as string | null,
+    element: null as Element | null,
+    disconnect: null as (() => void) | null,
+  })
+
+  const resolveElementToTrack = (root: Element | null) => {
+    if (!root) return null
+    return findFirstTrackableElement(root)
+  }
+
+  const registerOrUpdateElement = (elementToTrack: Element | null) => {
+    if (!elementToTrack) return
+
+    syncInstanceTracking({
+      state: registrationRef.current,
+      element: elementToTrack,
+      props,
+      register: (element: Element, nextProps: Record<string, unknown>) =>
+        registerInstance(meta, nextProps, element),
+      unregister: unregisterInstance,
+      updateProps: updateInstanceProps,
+      getInstance: (lookupId: string) => componentRegistry.get(lookupId),
+    })
+  }
+
+  useEffect(() => {
+    if (!ref.current) return
+
+    registerOrUpdateElement(resolveElementToTrack(ref.current))
+
+    return () => {
+      cleanupInstanceTracking(registrationRef.current, unregisterInstance)
+    }
+  }, [meta])
+
+  useEffect(() => {
+    if (!ref.current) return
+
+    // Re-resolve tracked element on prop changes so components that toggle
+    // between null and rendered DOM (e.g. modals) can rebind correctly.
+    registerOrUpdateElement(resolveElementToTrack(ref.current))
+  }, [props])
+
+  return h('span', { ref, style: { display: 'contents' } }, children)
+}
+
+// Higher-order component that wraps components with boundary
+export function withComponentHighlighter(
+  Component: ComponentType,
+  meta: Record<string, unknown>,
+) {
+  // Get the original component name
+  // Priority: meta.componentName (from Babel transform, always correct)
+  //           > Component.displayName (if explicitly set)
+  //           > Component.name (might be mangled by bundlers)
+  const originalName =
+    (meta['componentName'] as string) ||
+    Component.displayName ||
+    Component.name ||
+    'Component'
+
+  const WrappedComponent = (props: Record<string, unknown>) => {
+    return h(ComponentHighlighterBoundary, { meta, props }, h(Component, props))
+  }
+
+  // Store the original name for serialization
+  ;(WrappedComponent as { __originalName?: string }).__originalName =
+    originalName
+  WrappedComponent.displayName = `withComponentHighlighter(${originalName})`
+
+  return WrappedComponent
+}
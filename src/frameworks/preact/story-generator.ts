@@ -0,0 +1,13 @@
+/**
+ * Preact-specific story generation
+ */
+
+import { createJsxStoryGenerator } from '../../utils/jsx-story-generator'
+
+/**
+ * Generate a Preact story file from component data
+ */
+export const generateStory = createJsxStoryGenerator({
+  storybookPackage: '@storybook/preact-vite',
+  componentPropsSource: 'preact',
+})
@@ -0,0 +1,44 @@
+/**
+ * Preact Transform
+ *
+ * Preact components share React's component semantics, so the React Babel
+ * instrumentation is reused; it points at the Preact runtime and never
+ * injects a `react` import (which only resolves when aliased to preact/compat).
+ */
+
+import type { TransformFunction } from '../types'
+import { createJsxTransform } from '../react/transform'
+
+/**
+ * Virtual module ID for Preact runtime
+ */
+export const VIRTUAL_MODULE_ID = 'virtual:component-highlighter/preact-runtime'
+
+/**
+ * Transform Preact JSX/TSX files to wrap components with the highlighter HOC
+ */
+export const transform: TransformFunction = createJsxTransform({
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  injectReactImport: false,
+})
+
+/**
+ * Preact components are found exactly like React's
+ */
+export { scanComponents } from '../react/transform'
+
+/**
+ * Detect if a file is a Preact file
+ */
+export function detectPreact(code: string, id: string): boolean {
+  // Check file extension
+  if (!id.match(/\.(tsx|jsx)$/)) {
+    return false
+  }
+
+  // Check for Preact imports or JSX
+  const hasPreactImport = /from\s+['"]preact(?:\/[\w-]+)?['"]/.test(code)
+  const hasJSX = /<[A-Z][a-zA-Z]*|<[a-z]+[^>]*>/.test(code)
+
+  return hasPreactImport || hasJSX
+}
@@ -0,0 +1,208 @@
+/**
+ * Preact VNode to JSX Serialization
+ *
+ * Converts Preact VNode structures into JSX source strings for story generation.
+ * Preact vnodes are not React elements, so `React.isValidElement` and
+ * `react-element-to-jsx-string` can't be used on them (even through preact/compat).
+ */
+
+/**
+ * Result of VNode serialization
+ */
+export interface VNodeJSXResult {
+  /** Generated JSX source string */
+  source: string
+  /** Component names referenced in the JSX (for imports) */
+  componentRefs: string[]
+}
+
+type PreactVNode = {
+  type: unknown
+  props: Record<string, unknown> | null
+  key?: unknown
+}
+
+/** Props Preact keeps on the vnode that never belong in the JSX source */
+const IGNORED_PROPS = new Set(['key', 'ref', '__source', '__self'])
+
+/**
+ * Check whether a value is a Preact vnode.
+ *
+ * Mirrors Preact's own `isValidElement`: vnodes carry an own `constructor`
+ * property set to `undefined` so they can't be forged from JSON.
+ */
+export function isPreactVNode(value: unknown): value is PreactVNode {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { constructor?: unknown }).constructor === undefined &&
+    'type' in value &&
+    'props' in value
+  )
+}
+
+/**
+ * Check whether a value is (or contains) Preact vnodes
+ */
+export function containsPreactVNode(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsPreactVNode)
+  return isPreactVNode(value)
+}
+
+/**
+ * Unwrap HOC display names like `withComponentHighlighter(Button)` or `memo(Button)`
+ */
+function normalizeDisplayName(name: string): string {
+  const hocMatch = name.match(/^(?:with\w+|memo|forwardRef)\((.+)\)$/)
+  if (hocMatch && hocMatch[1]) {
+    return normalizeDisplayName(hocMatch[1])
+  }
+  return name
+}
+
+/**
+ * Extract the JSX tag name from a Preact VNode type
+ * Checks for __originalName first (set by withComponentHighlighter)
+ */
+export function getPreactNodeName(type: unknown): string | null {
+  if (typeof type === 'string') return type
+  if (typeof type !== 'function') return null
+
+  const componentType = type as {
+    __originalName?: string
+    displayName?: string
+    name?: string
+  }
+
+  if (componentType.__originalName) return componentType.__originalName
+  if (componentType.displayName) {
+    return normalizeDisplayName(componentType.displayName)
+  }
+  return componentType.name || null
+}
+
+/**
+ * Escape text content so it survives as a JSX child
+ */
+export function escapeJSXText(value: string): string {
+  return /[{}<>]/.test(value) ? `{${JSON.stringify(value)}}` : value
+}
+
+/**
+ * Convert a prop value to a JSX attribute (`name="value"`, `name={...}`)
+ */
+export function toJSXAttribute(
+  name: string,
+  value: unknown,
+  componentRefs: Set<string>,
+  fragment?: unknown,
+): string | null {
+  if (value === undefined) return null
+  if (value === true) return name
+  if (typeof value === 'string') {
+    return value.includes('"')
+      ? `${name}={${JSON.stringify(value)}}`
+      : `${name}="${value}"`
+  }
+  if (
+    value === null ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return `${name}={${String(value)}}`
+  }
+  // Handlers are emitted as arrow functions so story generation swaps in fn()
+  if (typeof value === 'function') return `${name}={() => {}}`
+  if (containsPreactVNode(value)) {
+    const source = generateVNodeSource(value, componentRefs, fragment)
+    return `${name}={${Array.isArray(value) ? `<>${source}</>` : source}}`
+  }
+
+  try {
+    return `${name}={${JSON.stringify(value)}}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Generate JSX source from a VNode or VNode tree
+ *
+ * @param value - VNode, array of VNodes, or primitive child
+ * @param componentRefs - Set to collect component names for imports
+ * @param fragment - Preact's `Fragment`, so fragments render as their children
+ * @returns JSX source string
+ */
+export function generateVNodeSource(
+  value: unknown,
+  componentRefs: Set<string>,
+  fragment?: unknown,
+): string {
+  if (value === null || value === undefined || typeof value === 'boolean') {
+    return ''
+  }
+
+  if (typeof value === 'string') return escapeJSXText(value)
+  if (typeof value === 'number') return String(value)
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => generateVNodeSource(item, componentRefs, fragment))
+      .join('')
+  }
+
+  if (!isPreactVNode(value)) return ''
+
+  const props = value.props ?? {}
+  const tagName = getPreactNodeName(value.type)
+
+  if (
+    (fragment !== undefined && value.type === fragment) ||
+    tagName === 'Fragment' ||
+    !tagName
+  ) {
+    return generateVNodeSource(props['children'], componentRefs, fragment)
+  }
+
+  if (typeof value.type === 'function') {
+    componentRefs.add(tagName)
+  }
+
+  const attributes = Object.keys(props)
+    .filter((key) => key !== 'children' && !IGNORED_PROPS.has(key))
+    .sort()
+    .map((key) => toJSXAttribute(key, props[key], componentRefs, fragment))
+    .filter((attribute): attribute is string => attribute !== null)
+  const attrs = attributes.length > 0 ? ` ${attributes.join(' ')}` : ''
+
+  const childrenSource = generateVNodeSource(
+    props['children'],
+    componentRefs,
+    fragment,
+  )
+  if (childrenSource) {
+    return `<${tagName}${attrs}>${childrenSource}</${tagName}>`
+  }
+
+  return `<${tagName}${attrs} />`
+}
+
+/**
+ * Serialize a Preact VNode (or array of VNodes) into a JSX string
+ *
+ * @param vnode - VNode or VNode array from a prop value
+ * @param fragment - Preact's `Fragment`, so fragments render as their children
+ * @returns Object with JSX source and component references
+ */
+export function serializeVNodeToJSX(
+  vnode: unknown,
+  fragment?: unknown,
+): VNodeJSXResult {
+  const componentRefs = new Set<string>()
+  const source = generateVNodeSource(vnode, componentRefs, fragment)
+
+  return {
+    source: Array.isArray(vnode) ? `<>${source}</>` : source,
+    componentRefs: [...componentRefs].sort((a, b) => a.localeCompare(b)),
+  }
+}
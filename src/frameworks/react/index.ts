@@ -4,8 +4,15 @@
  * Exports the React-specific implementation for the component highlighter.
  */
 
+import { extractJsxComponentArgTypes } from '../../utils/arg-types'
+import { extractJsxComponentPropDefaults } from '../../utils/prop-defaults'
 import type { FrameworkConfig } from '../types'
-import { transform, detectReact, VIRTUAL_MODULE_ID } from './transform'
+import {
+  transform,
+  scanComponents,
+  detectReact,
+  VIRTUAL_MODULE_ID,
+} from './transform'
 
 /**
  * React framework configuration
@@ -16,9 +23,17 @@ export const reactFramework: FrameworkConfig = {
   extensions: ['.tsx', '.jsx'],
   detect: detectReact,
   transform,
+  scanComponents,
+  extractArgTypes: extractJsxComponentArgTypes,
+  extractPropDefaults: extractJsxComponentPropDefaults,
   runtimeModuleFile: 'frameworks/react/runtime-module',
   virtualModuleId: VIRTUAL_MODULE_ID,
   storybookFramework: '@storybook/react-vite',
+  componentPropsSource: 'react',
+  storyFileExtension: 'tsx',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
+  optimizeDeps: ['react-element-to-jsx-string/dist/esm/index.js'],
 }
 
 // Re-export for convenience
@@ -3,7 +3,10 @@ import React, { useEffect, useRef } from 'react'
 import reactElementToJSXString from 'react-element-to-jsx-string/dist/esm/index.js'
 import {
   cleanupInstanceTracking,
+  exposeComponentRegistry,
   findFirstTrackableElement,
+  serializePropValues,
+  serializeRichValue,
   syncInstanceTracking,
 } from 'virtual:component-highlighter/runtime-helpers'
 
@@ -162,19 +165,16 @@ function extractComponentRefs(element: unknown, refs = new Set<string>()) {
  * Serialize props, converting JSX elements to source strings
  */
 function serializeProps(props: Record<string, unknown>) {
-  const serialized: Record<string, unknown> = {}
-
-  for (const [key, value] of Object.entries(props)) {
-    serialized[key] = serializeValue(value)
-  }
-
-  return serialized
+  return serializePropValues(props, serializeValue)
 }
 
 /**
  * Serialize a single value, handling JSX elements specially
  */
-function serializeValue(value: unknown): unknown {
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
   // Handle React elements (JSX)
   if (React.isValidElement(value)) {
     try {
@@ -283,7 +283,7 @@ function serializeValue(value: unknown): unknown {
       }
     }
     // Regular array - recursively serialize
-    return value.map((item) => serializeValue(item))
+    return value.map((item) => serializeNested(item))
   }
 
   // Handle plain objects (but not null)
@@ -294,7 +294,7 @@ function serializeValue(value: unknown): unknown {
   ) {
     const serialized: Record<string, unknown> = {}
     for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-      serialized[k] = serializeValue(v)
+      serialized[k] = serializeNested(v)
     }
     return serialized
   }
@@ -307,7 +307,11 @@ function serializeValue(value: unknown): unknown {
     }
   }
 
-  // Primitives and other values pass through
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
+  // Primitives pass through
   return value
 }
 
@@ -391,13 +395,7 @@ export function getComponentRegistry() {
 }
 
 // Expose registry getter globally for story generation
-if (typeof window !== 'undefined') {
-  ;(
-    window as unknown as {
-      __componentHighlighterGetRegistry?: () => Map<string, string>
-    }
-  ).__componentHighlighterGetRegistry = getComponentRegistry
-}
+exposeComponentRegistry(getComponentRegistry)
 
 // Component boundary that tracks position without DOM modification
 export const ComponentHighlighterBoundary = ({
@@ -11,7 +11,11 @@ import traverseModule from '@babel/traverse'
 import generatorModule from '@babel/generator'
 import * as t from '@babel/types'
 import * as path from 'path'
-import type { TransformFunction } from '../types'
+import type {
+  ComponentScanner,
+  TransformFunction,
+  TransformOutput,
+} from '../types'
 
 const traverse = (traverseModule as any).default ?? traverseModule
 const generate = (generatorModule as any).default ?? generatorModule
@@ -35,231 +39,298 @@ function createHash(data: string): string {
 export const VIRTUAL_MODULE_ID = 'virtual:component-highlighter/runtime'
 
 /**
- * Transform React JSX/TSX files to wrap components with the highlighter HOC
+ * Options for building a JSX transform on top of the React instrumentation
  */
-export const transform: TransformFunction = (code: string, id: string): string | undefined => {
-  try {
-    // Parse the file as TypeScript/JSX
-    const ast = parse(code, {
-      sourceType: 'module',
-      plugins: [
-        'typescript',
-        'jsx',
-        ['decorators', { decoratorsBeforeExport: true }],
-      ],
-      sourceFilename: id,
-    })
-
-    let hasJsx = false
-    let hasReactImport = false
-    const componentsToWrap: Array<{
-      name: string
-      node:
-      | t.VariableDeclarator
-      | t.FunctionDeclaration
-      | t.ExportDefaultDeclaration
-      | t.ExportNamedDeclaration
-      isDefaultExport: boolean
-      isMemo: boolean
-      isForwardRef: boolean
-    }> = []
-    const exportedNames = new Set<string>()
-
-    // Check if file contains JSX and collect component exports
-    traverse(ast, {
-      JSXElement() {
-        hasJsx = true
-      },
-      JSXFragment() {
-        hasJsx = true
-      },
-      ImportDeclaration(path) {
-        // Check for React import
-        if (
-          path.node.source.value === 'react' ||
-          path.node.source.value === 'React'
-        ) {
-          hasReactImport = true
+export interface JsxTransformOptions {
+  /** Runtime module that provides `withComponentHighlighter` */
+  virtualModuleId: string
+  /** Inject `import React from 'react'` when the file doesn't import React */
+  injectReactImport: boolean
+}
+
+type ComponentExport = {
+  name: string
+  node:
+  | t.VariableDeclarator
+  | t.FunctionDeclaration
+  | t.ExportDefaultDeclaration
+  | t.ExportNamedDeclaration
+  isDefaultExport: boolean
+  isMemo: boolean
+  isForwardRef: boolean
+}
+
+/**
+ * Find the exported components of a parsed JSX module, and whether it
+ * contains JSX and imports React
+ */
+function collectComponentExports(ast: t.File): {
+  hasJsx: boolean
+  hasReactImport: boolean
+  componentsToWrap: ComponentExport[]
+} {
+  let hasJsx = false
+  let hasReactImport = false
+  const componentsToWrap: ComponentExport[] = []
+  const exportedNames = new Set<string>()
+
+  // Check if file contains JSX and collect component exports
+  traverse(ast, {
+    JSXElement() {
+      hasJsx = true
+    },
+    JSXFragment() {
+      hasJsx = true
+    },
+    ImportDeclaration(path) {
+      // Check for React import
+      if (
+        path.node.source.value === 'react' ||
+        path.node.source.value === 'React'
+      ) {
+        hasReactImport = true
+      }
+    },
+    ExportDefaultDeclaration(path) {
+      const { declaration } = path.node
+
+      if (isComponentDeclaration(declaration)) {
+        let name = getDeclarationName(declaration) || 'DefaultExport'
+        let isMemo = false
+        let isForwardRef = false
+
+        // Special handling for default export of identifier (e.g., export default Button)
+        if (declaration.type === 'Identifier') {
+          name = declaration.name
+          // Mark as exported for later collection of the variable declaration
+          exportedNames.add(name)
+          // Don't add the export node to componentsToWrap - the variable will be wrapped instead
+          return
+        } else {
+          isMemo =
+            declaration.type === 'CallExpression' && isMemoWrapper(declaration)
+          isForwardRef =
+            declaration.type === 'CallExpression' &&
+            isForwardRefWrapper(declaration)
         }
-      },
-      ExportDefaultDeclaration(path) {
-        const { declaration } = path.node
 
-        if (isComponentDeclaration(declaration)) {
-          let name = getDeclarationName(declaration) || 'DefaultExport'
-          let isMemo = false
-          let isForwardRef = false
-
-          // Special handling for default export of identifier (e.g., export default Button)
-          if (declaration.type === 'Identifier') {
-            name = declaration.name
-            // Mark as exported for later collection of the variable declaration
-            exportedNames.add(name)
-            // Don't add the export node to componentsToWrap - the variable will be wrapped instead
-            return
-          } else {
-            isMemo =
-              declaration.type === 'CallExpression' && isMemoWrapper(declaration)
-            isForwardRef =
-              declaration.type === 'CallExpression' &&
-              isForwardRefWrapper(declaration)
-          }
+        componentsToWrap.push({
+          name,
+          node: path.node,
+          isDefaultExport: true,
+          isMemo,
+          isForwardRef,
+        })
+      }
+    },
+    ExportNamedDeclaration(path) {
+      // Handle export declarations like "export function Component() {}" or "export const Component = () => {}"
+      if (path.node.declaration) {
+        const { declaration } = path.node
 
+        if (
+          declaration.type === 'FunctionDeclaration' &&
+          isComponentFunction(declaration)
+        ) {
+          const name = declaration.id?.name || 'ExportedFunction'
+          exportedNames.add(name)
           componentsToWrap.push({
             name,
             node: path.node,
-            isDefaultExport: true,
-            isMemo,
-            isForwardRef,
+            isDefaultExport: false,
+            isMemo: false,
+            isForwardRef: false,
           })
-        }
-      },
-      ExportNamedDeclaration(path) {
-        // Handle export declarations like "export function Component() {}" or "export const Component = () => {}"
-        if (path.node.declaration) {
-          const { declaration } = path.node
-
-          if (
-            declaration.type === 'FunctionDeclaration' &&
-            isComponentFunction(declaration)
-          ) {
-            const name = declaration.id?.name || 'ExportedFunction'
-            exportedNames.add(name)
-            componentsToWrap.push({
-              name,
-              node: path.node,
-              isDefaultExport: false,
-              isMemo: false,
-              isForwardRef: false,
-            })
-          } else if (declaration.type === 'VariableDeclaration') {
-            declaration.declarations.forEach((decl) => {
-              if (isComponentVariable(decl)) {
-                const name = getVariableName(decl)
-                exportedNames.add(name)
-                const isMemo = isMemoWrapper(decl.init)
-                const isForwardRef = isForwardRefWrapper(decl.init)
-
-                componentsToWrap.push({
-                  name,
-                  node: path.node,
-                  isDefaultExport: false,
-                  isMemo,
-                  isForwardRef,
-                })
-              }
-            })
-          }
-        } else if (path.node.specifiers) {
-          // Handle export specifiers like "export { Component }" or "export { Component as C }"
-          path.node.specifiers.forEach((specifier) => {
-            if (specifier.type === 'ExportSpecifier') {
-              exportedNames.add(specifier.exported.name)
+        } else if (declaration.type === 'VariableDeclaration') {
+          declaration.declarations.forEach((decl) => {
+            if (isComponentVariable(decl)) {
+              const name = getVariableName(decl)
+              exportedNames.add(name)
+              const isMemo = isMemoWrapper(decl.init)
+              const isForwardRef = isForwardRefWrapper(decl.init)
+
+              componentsToWrap.push({
+                name,
+                node: path.node,
+                isDefaultExport: false,
+                isMemo,
+                isForwardRef,
+              })
             }
           })
         }
-      },
-    })
-
-    // Second pass: collect top-level component declarations that are exported
-    traverse(ast, {
-      FunctionDeclaration(path) {
-        if (path.parent.type === 'Program' && isComponentFunction(path.node)) {
-          const name = path.node.id?.name
-          if (name && exportedNames.has(name)) {
-            componentsToWrap.push({
-              name,
-              node: path.node,
-              isDefaultExport: false,
-              isMemo: false,
-              isForwardRef: false,
-            })
+      } else if (path.node.specifiers) {
+        // Handle export specifiers like "export { Component }" or "export { Component as C }"
+        path.node.specifiers.forEach((specifier) => {
+          if (specifier.type === 'ExportSpecifier') {
+            exportedNames.add(specifier.exported.name)
           }
-        }
-      },
-      VariableDeclaration(path) {
-        if (path.parent.type === 'Program') {
-          path.node.declarations.forEach((decl) => {
-            if (isComponentVariable(decl)) {
-              const name = getVariableName(decl)
-              if (exportedNames.has(name)) {
-                const isMemo = isMemoWrapper(decl.init)
-                const isForwardRef = isForwardRefWrapper(decl.init)
-
-                componentsToWrap.push({
-                  name,
-                  node: decl,
-                  isDefaultExport: false,
-                  isMemo,
-                  isForwardRef,
-                })
-              }
-            }
+        })
+      }
+    },
+  })
+
+  // Second pass: collect top-level component declarations that are exported
+  traverse(ast, {
+    FunctionDeclaration(path) {
+      if (path.parent.type === 'Program' && isComponentFunction(path.node)) {
+        const name = path.node.id?.name
+        if (name && exportedNames.has(name)) {
+          componentsToWrap.push({
+            name,
+            node: path.node,
+            isDefaultExport: false,
+            isMemo: false,
+            isForwardRef: false,
           })
         }
-      },
-    })
+      }
+    },
+    VariableDeclaration(path) {
+      if (path.parent.type === 'Program') {
+        path.node.declarations.forEach((decl) => {
+          if (isComponentVariable(decl)) {
+            const name = getVariableName(decl)
+            if (exportedNames.has(name)) {
+              const isMemo = isMemoWrapper(decl.init)
+              const isForwardRef = isForwardRefWrapper(decl.init)
+
+              componentsToWrap.push({
+                name,
+                node: decl,
+                isDefaultExport: false,
+                isMemo,
+                isForwardRef,
+              })
+            }
+          }
+        })
+      }
+    },
+  })
 
-    // Skip if no JSX or no components to wrap
-    if (!hasJsx || componentsToWrap.length === 0) {
-      return undefined
-    }
+  return { hasJsx, hasReactImport, componentsToWrap }
+}
 
-    // Add import for the highlighter
-    if (!hasReactImport) {
-      // Add React import if not present
-      const reactImport = t.importDeclaration(
-        [t.importDefaultSpecifier(t.identifier('React'))],
-        t.stringLiteral('react')
-      )
-      ast.program.body.unshift(reactImport)
-    }
+/**
+ * List the components the JSX transform would instrument in a file, without
+ * transforming it (for the project-wide component inventory)
+ */
+export const scanComponents: ComponentScanner = (code, id) => {
+  const ast = parse(code, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      'jsx',
+      ['decorators', { decoratorsBeforeExport: true }],
+    ],
+    sourceFilename: id,
+  })
+
+  const { hasJsx, componentsToWrap } = collectComponentExports(ast)
+  if (!hasJsx) return []
+  return componentsToWrap.map(({ name, isDefaultExport }) => ({
+    componentName: name,
+    isDefaultExport,
+  }))
+}
 
-    // Add highlighter import
-    const highlighterImport = t.importDeclaration(
-      [
-        t.importSpecifier(
-          t.identifier('withComponentHighlighter'),
-          t.identifier('withComponentHighlighter')
-        ),
-      ],
-      t.stringLiteral(VIRTUAL_MODULE_ID)
-    )
-    ast.program.body.unshift(highlighterImport)
-
-    // Transform components
-    const relativeFilePath = path.relative(process.cwd(), id)
-    componentsToWrap.forEach(
-      ({ name, node, isDefaultExport, isMemo, isForwardRef }) => {
-        wrapComponent(
-          ast,
-          node,
-          name,
-          isDefaultExport,
-          isMemo,
-          isForwardRef,
-          id,
-          relativeFilePath
+/**
+ * Create a transform that wraps exported JSX components with the highlighter HOC.
+ * Shared by React and by frameworks with React-compatible component semantics (Preact).
+ */
+export function createJsxTransform(options: JsxTransformOptions): TransformFunction {
+  const { virtualModuleId, injectReactImport } = options
+
+  return (code: string, id: string): TransformOutput | undefined => {
+    try {
+      // Parse the file as TypeScript/JSX
+      const ast = parse(code, {
+        sourceType: 'module',
+        plugins: [
+          'typescript',
+          'jsx',
+          ['decorators', { decoratorsBeforeExport: true }],
+        ],
+        sourceFilename: id,
+      })
+
+      const { hasJsx, hasReactImport, componentsToWrap } =
+        collectComponentExports(ast)
+
+      // Skip if no JSX or no components to wrap
+      if (!hasJsx || componentsToWrap.length === 0) {
+        return undefined
+      }
+
+      // Add import for the highlighter
+      if (injectReactImport && !hasReactImport) {
+        // Add React import if not present
+        const reactImport = t.importDeclaration(
+          [t.importDefaultSpecifier(t.identifier('React'))],
+          t.stringLiteral('react')
         )
+        ast.program.body.unshift(reactImport)
       }
-    )
 
-    // Generate transformed code
-    const output = generate(ast, {
-      sourceMaps: true,
-      sourceFileName: id,
-    })
-
-    return output.code
-  } catch (error) {
-    console.warn(
-      `[component-highlighter] Failed to transform ${id}:`,
-      error
-    )
-    return undefined
+      // Add highlighter import
+      const highlighterImport = t.importDeclaration(
+        [
+          t.importSpecifier(
+            t.identifier('withComponentHighlighter'),
+            t.identifier('withComponentHighlighter')
+          ),
+        ],
+        t.stringLiteral(virtualModuleId)
+      )
+      ast.program.body.unshift(highlighterImport)
+
+      // Transform components
+      const relativeFilePath = path.relative(process.cwd(), id)
+      componentsToWrap.forEach(
+        ({ name, node, isDefaultExport, isMemo, isForwardRef }) => {
+          wrapComponent(
+            ast,
+            node,
+            name,
+            isDefaultExport,
+            isMemo,
+            isForwardRef,
+            id,
+            relativeFilePath
+          )
+        }
+      )
+
+      // Generate transformed code, mapped back to the original source
+      const output = generate(
+        ast,
+        {
+          sourceMaps: true,
+          sourceFileName: id,
+        },
+        code
+      )
+
+      return { code: output.code, map: output.map }
+    } catch (error) {
+      console.warn(
+        `[component-highlighter] Failed to transform ${id}:`,
+        error
+      )
+      return undefined
+    }
   }
 }
 
+/**
+ * Transform React JSX/TSX files to wrap components with the highlighter HOC
+ */
+export const transform: TransformFunction = createJsxTransform({
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  injectReactImport: true,
+})
+
 /**
  * Check if a function declaration is a React component (PascalCase name)
  */
@@ -0,0 +1,39 @@
+/**
+ * Solid Framework Configuration
+ *
+ * Exports the Solid-specific implementation for the component highlighter.
+ */
+
+import { extractJsxComponentArgTypes } from '../../utils/arg-types'
+import { extractJsxComponentPropDefaults } from '../../utils/prop-defaults'
+import type { FrameworkConfig } from '../types'
+import {
+  transform,
+  scanComponents,
+  detectSolid,
+  VIRTUAL_MODULE_ID,
+} from './transform'
+
+/**
+ * Solid framework configuration
+ */
+export const solidFramework: FrameworkConfig = {
+  name: 'solid',
+  displayName: 'Solid',
+  extensions: ['.tsx', '.jsx'],
+  detect: detectSolid,
+  transform,
+  scanComponents,
+  extractArgTypes: extractJsxComponentArgTypes,
+  extractPropDefaults: extractJsxComponentPropDefaults,
+  runtimeModuleFile: 'frameworks/solid/runtime-module',
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  storybookFramework: 'storybook-solidjs-vite',
+  componentPropsSource: 'solid-js',
+  storyFileExtension: 'tsx',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
+}
+
+// Re-export for convenience
+export { transform, detectSolid, VIRTUAL_MODULE_ID } from './transform'
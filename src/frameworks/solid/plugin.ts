@@ -0,0 +1,47 @@
+/**
+ * Solid Entry Point
+ *
+ * Import this to use the component highlighter with SolidJS:
+ * ```ts
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/solid'
+ * ```
+ */
+
+import {
+  createComponentHighlighterPlugin,
+  type ComponentHighlighterOptions,
+} from '../../create-component-highlighter-plugin'
+import { solidFramework } from '.'
+
+/**
+ * Solid Component Highlighter Plugin
+ *
+ * Must be listed before `solid()` so it sees the JSX source rather than
+ * the compiled DOM expressions.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { defineConfig } from 'vite'
+ * import solid from 'vite-plugin-solid'
+ * import { DevTools } from '@vitejs/devtools'
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/solid'
+ *
+ * export default defineConfig({
+ *   plugins: [
+ *     componentHighlighter(),
+ *     solid(),
+ *     DevTools(),
+ *   ],
+ * })
+ * ```
+ */
+export default function componentHighlighterSolid(
+  options: ComponentHighlighterOptions = {},
+) {
+  return createComponentHighlighterPlugin(solidFramework, options)
+}
+
+// Re-export types
+export type { ComponentHighlighterOptions } from '../../create-component-highlighter-plugin'
+export { solidFramework } from '.'
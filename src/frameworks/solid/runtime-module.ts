@@ -0,0 +1,512 @@
+/// <reference path="../../runtime-module-shims.d.ts" />
+import {
+  $PROXY,
+  children,
+  createEffect,
+  createSignal,
+  onCleanup,
+  untrack,
+} from 'solid-js'
+import {
+  cleanupInstanceTracking,
+  exposeComponentRegistry,
+  findFirstTrackableElement,
+  serializePropValues,
+  serializeRichValue,
+  syncInstanceTracking,
+} from 'virtual:component-highlighter/runtime-helpers'
+
+// Injected by the virtual module loader.
+declare const __COMPONENT_HIGHLIGHTER_DEBUG__: boolean
+
+const DEBUG_MODE = __COMPONENT_HIGHLIGHTER_DEBUG__
+
+const logDebug = (...args: unknown[]) => {
+  if (DEBUG_MODE) {
+    console.log('[component-highlighter-solid]', ...args)
+  }
+}
+
+;(
+  globalThis as typeof globalThis & { logDebug?: (...args: unknown[]) => void }
+).logDebug = logDebug
+
+logDebug('Solid runtime loaded', { debug: DEBUG_MODE })
+
+// Component registry for tracking live instances
+const componentRegistry = new Map<
+  string,
+  {
+    id: string
+    meta: Record<string, unknown>
+    props: Record<string, unknown>
+    serializedProps: Record<string, unknown>
+    element: Element
+    rect?: DOMRect
+  }
+>()
+
+type RenderedComponent = {
+  componentName: string
+  props: Record<string, unknown>
+}
+
+/**
+ * Solid JSX evaluates to real DOM nodes (or accessors resolving to them),
+ * so JSX-valued props are serialized from the DOM. These maps remember which
+ * nodes and accessors a wrapped component produced, so nested components
+ * serialize back to `<Name ... />` rather than their rendered markup.
+ */
+const renderedNodeOwners = new WeakMap<Node, RenderedComponent>()
+const renderAccessorOwners = new WeakMap<object, RenderedComponent>()
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+// Generate unique instance ID
+function generateInstanceId(sourceId: string) {
+  return `${sourceId}:${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Solid memos/signals read through `readSignal`; anything else that is a
+ * function is treated as a callback
+ */
+function isSignalAccessor(value: unknown): value is () => unknown {
+  return (
+    typeof value === 'function' &&
+    (value as { name?: string }).name === 'bound readSignal'
+  )
+}
+
+function isGetter(object: object, key: string): boolean {
+  return Boolean(Object.getOwnPropertyDescriptor(object, key)?.get)
+}
+
+/**
+ * Give the component a copy of `props` whose getters report the JSX they
+ * return, so the tracker can serialize what the component rendered instead
+ * of rendering it again. Props proxies (spreads with dynamic keys) can't be
+ * copied and are passed through.
+ */
+function observeRenderedProps(
+  props: Record<string, unknown>,
+  onRender: (key: string, value: unknown) => void,
+): Record<string, unknown> {
+  if ($PROXY in props) return props
+
+  const observed: Record<string, unknown> = {}
+  for (const key of Reflect.ownKeys(props)) {
+    const descriptor = Object.getOwnPropertyDescriptor(props, key)!
+    const get = descriptor.get
+    if (get && typeof key === 'string') {
+      descriptor.get = () => {
+        const value = get.call(props)
+        if (isRenderable(value)) onRender(key, value)
+        return value
+      }
+    }
+    Object.defineProperty(observed, key, descriptor)
+  }
+  return observed
+}
+
+function isRenderable(value: unknown): boolean {
+  if (typeof Node !== 'undefined' && value instanceof Node) return true
+  if (typeof value === 'function') {
+    return renderAccessorOwners.has(value) || isSignalAccessor(value)
+  }
+  if (Array.isArray(value)) return value.some(isRenderable)
+  return false
+}
+
+function escapeJsxText(text: string): string {
+  return /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text
+}
+
+function formatJsxAttribute(name: string, value: unknown, refs: Set<string>) {
+  if (value === true) return name
+  if (value === false || value === null || value === undefined) return ''
+  if (typeof value === 'string') {
+    return value.includes('"')
+      ? `${name}={${JSON.stringify(value)}}`
+      : `${name}="${value}"`
+  }
+  if (typeof value === 'number') return `${name}={${value}}`
+  if (isRenderable(value)) return `${name}={${valueToJsx(value, refs)}}`
+  // Handlers are emitted as arrow functions so story generation swaps in fn()
+  if (typeof value === 'function') return `${name}={() => {}}`
+  try {
+    return `${name}={${JSON.stringify(value)}}`
+  } catch {
+    return ''
+  }
+}
+
+function componentToJsx(component: RenderedComponent, refs: Set<string>) {
+  refs.add(component.componentName)
+
+  const attributes: string[] = []
+  let childrenSource = ''
+  for (const key of Object.keys(component.props)) {
+    const value = component.props[key]
+    if (key === 'children') {
+      childrenSource = valueToJsx(value, refs)
+      continue
+    }
+    const attribute = formatJsxAttribute(key, value, refs)
+    if (attribute) attributes.push(attribute)
+  }
+
+  const openTag = [component.componentName, ...attributes].join(' ')
+  return childrenSource
+    ? `<${openTag}>${childrenSource}</${component.componentName}>`
+    : `<${openTag} />`
+}
+
+function elementToJsx(element: Element, refs: Set<string>): string {
+  const tagName = element.tagName.toLowerCase()
+  const attributes = Array.from(element.attributes)
+    .filter((attribute) => attribute.name !== 'data-hk')
+    .map((attribute) => formatJsxAttribute(attribute.name, attribute.value, refs))
+  const openTag = [tagName, ...attributes].join(' ')
+
+  if (VOID_ELEMENTS.has(tagName)) return `<${openTag} />`
+
+  const childrenSource = nodesToJsx(Array.from(element.childNodes), refs)
+  return childrenSource
+    ? `<${openTag}>${childrenSource}</${tagName}>`
+    : `<${openTag} />`
+}
+
+/**
+ * Serialize sibling nodes, emitting a component once even when it rendered
+ * several root nodes
+ */
+function nodesToJsx(nodes: unknown[], refs: Set<string>): string {
+  const emitted = new Set<RenderedComponent>()
+  let source = ''
+
+  for (const node of nodes) {
+    if (typeof Node !== 'undefined' && node instanceof Node) {
+      const owner = renderedNodeOwners.get(node)
+      if (owner) {
+        if (!emitted.has(owner)) {
+          emitted.add(owner)
+          source += componentToJsx(owner, refs)
+        }
+        continue
+      }
+    }
+    source += valueToJsx(node, refs)
+  }
+
+  return source
+}
+
+function valueToJsx(value: unknown, refs: Set<string>): string {
+  if (value === null || value === undefined || typeof value === 'boolean') {
+    return ''
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return escapeJsxText(String(value))
+  }
+  if (Array.isArray(value)) return nodesToJsx(value, refs)
+
+  if (typeof value === 'function') {
+    const owner = renderAccessorOwners.get(value)
+    if (owner) return componentToJsx(owner, refs)
+    if (isSignalAccessor(value)) return valueToJsx(value(), refs)
+    return ''
+  }
+
+  if (typeof Node !== 'undefined' && value instanceof Node) {
+    const owner = renderedNodeOwners.get(value)
+    if (owner) return componentToJsx(owner, refs)
+
+    if (value.nodeType === Node.TEXT_NODE) {
+      return escapeJsxText(value.textContent ?? '')
+    }
+    if (value.nodeType === Node.ELEMENT_NODE) {
+      return elementToJsx(value as Element, refs)
+    }
+    if (value.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+      return nodesToJsx(Array.from(value.childNodes), refs)
+    }
+  }
+
+  return ''
+}
+
+/**
+ * Serialize props, converting rendered JSX back to source strings
+ */
+function serializeProps(props: Record<string, unknown>) {
+  return serializePropValues(props, serializeValue)
+}
+
+/**
+ * Serialize a single value, handling rendered JSX specially
+ */
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
+  if (isRenderable(value)) {
+    try {
+      const componentRefs = new Set<string>()
+      const source = valueToJsx(value, componentRefs)
+      return {
+        __isJSX: true,
+        source: Array.isArray(value) ? `<>${source}</>` : source,
+        componentRefs: Array.from(componentRefs),
+      }
+    } catch (err) {
+      console.error(
+        '[component-highlighter-solid] Failed to serialize JSX value:',
+        (err as { message?: string })?.message || err,
+      )
+      return {
+        __isJSX: true,
+        source: '{/* Failed to serialize */}',
+        componentRefs: [],
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeNested(item))
+  }
+
+  // Handle plain objects (including store proxies of plain objects)
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { constructor?: unknown }).constructor === Object
+  ) {
+    const serialized: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      serialized[k] = serializeNested(v)
+    }
+    return serialized
+  }
+
+  // Handle functions - return a placeholder
+  if (typeof value === 'function') {
+    return {
+      __isFunction: true,
+      name: (value as { name?: string }).name || 'anonymous',
+    }
+  }
+
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
+  // Primitives pass through
+  return value
+}
+
+// Registry management functions
+export function registerInstance(
+  meta: Record<string, unknown>,
+  props: Record<string, unknown>,
+  element: Element,
+) {
+  const id = generateInstanceId(meta['sourceId'] as string)
+  const serializedProps = serializeProps(props)
+
+  const instance = {
+    id,
+    meta,
+    props,
+    serializedProps,
+    element,
+  }
+  componentRegistry.set(id, instance)
+
+  logDebug('registerInstance', {
+    id,
+    componentName: meta['componentName'],
+    totalComponents: componentRegistry.size,
+  })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:register', {
+    detail: instance,
+  })
+  window.dispatchEvent(event)
+  logDebug('dispatched register event for', id)
+
+  return id
+}
+
+export function unregisterInstance(id: string) {
+  componentRegistry.delete(id)
+  logDebug('unregistered', { id, remaining: componentRegistry.size })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:unregister', {
+    detail: id,
+  })
+  window.dispatchEvent(event)
+}
+
+export function updateInstanceProps(
+  id: string,
+  props: Record<string, unknown>,
+) {
+  const instance = componentRegistry.get(id)
+  if (instance) {
+    instance.props = props
+    instance.serializedProps = serializeProps(props)
+    logDebug('updateInstanceProps', { id, props })
+
+    // Dispatch event for listeners module
+    const event = new CustomEvent('component-highlighter:update-props', {
+      detail: { id, props, serializedProps: instance.serializedProps },
+    })
+    window.dispatchEvent(event)
+  }
+}
+
+/**
+ * Get the component registry for import resolution
+ * Returns a map of component name -> file path
+ */
+export function getComponentRegistry() {
+  const registry = new Map<string, string>()
+  for (const instance of componentRegistry.values()) {
+    registry.set(
+      (instance.meta['componentName'] as string) || '',
+      instance.meta['filePath'] as string,
+    )
+  }
+  return registry
+}
+
+// Expose registry getter globally for story generation
+exposeComponentRegistry(getComponentRegistry)
+
+/**
+ * Wrap a Solid component so its instances are tracked by the highlighter.
+ *
+ * The component still runs exactly once and its output is passed through
+ * untouched; the wrapper only observes the resolved root nodes and reads the
+ * props from its own effect, so the component's reactive graph is unchanged.
+ */
+export function withComponentHighlighter(
+  Component: (props: Record<string, unknown>) => unknown,
+  meta: Record<string, unknown>,
+) {
+  const componentName =
+    (meta['componentName'] as string) || Component.name || 'Component'
+
+  return function WrappedComponent(props: Record<string, unknown>) {
+    const rendered: RenderedComponent = { componentName, props }
+    // JSX getters render again on every read: keep the value each one last
+    // returned (to the component, or once to the tracker) and serialize that
+    const renderedProps = new Map<string, unknown>()
+    const [renderedVersion, setRenderedVersion] = createSignal(0)
+    const componentProps = observeRenderedProps(props, (key, value) => {
+      renderedProps.set(key, value)
+      setRenderedVersion((version: number) => version + 1)
+    })
+    const registration = {
+      id: null as string | null,
+      element: null as Element | null,
+      disconnect: null as (() => void) | null,
+    }
+
+    // Solid calls components untracked; keep it that way so reactive reads
+    // in the component body don't re-run it from our memo
+    const output = untrack(() => Component(componentProps))
+    const resolved = children(() => output)
+
+    const markRootNodes = (nodes: unknown[]) => {
+      for (const node of nodes) {
+        if (node instanceof Node) renderedNodeOwners.set(node, rendered)
+      }
+    }
+    markRootNodes(resolved.toArray())
+
+    createEffect(() => {
+      const nodes: unknown[] = resolved.toArray()
+      markRootNodes(nodes)
+
+      // Reading every prop here subscribes this effect (not the component)
+      // to prop changes. JSX getters are read at most once; after that the
+      // effect reuses the nodes they rendered
+      renderedVersion()
+      const snapshot: Record<string, unknown> = {}
+      for (const key of Object.keys(props)) {
+        if (renderedProps.has(key)) {
+          snapshot[key] = renderedProps.get(key)
+          continue
+        }
+        const value = props[key]
+        if (isGetter(props, key) && isRenderable(value)) {
+          renderedProps.set(key, value)
+        }
+        snapshot[key] = value
+      }
+      // Serializing a parent's JSX reads these instead of the getters
+      rendered.props = snapshot
+
+      untrack(() => {
+        const root = nodes.find(
+          (node): node is Element =>
+            node instanceof Node && node.nodeType === Node.ELEMENT_NODE,
+        )
+        // JSX evaluated for serialization is never attached; don't track it
+        if (!root || !root.isConnected) return
+
+        const element = findFirstTrackableElement(root)
+        if (!element) {
+          logDebug('Could not find valid Element node for', componentName)
+          return
+        }
+
+        syncInstanceTracking({
+          state: registration,
+          element,
+          props: snapshot,
+          register: (nextElement: Element, nextProps: Record<string, unknown>) =>
+            registerInstance(meta, nextProps, nextElement),
+          unregister: unregisterInstance,
+          updateProps: updateInstanceProps,
+          getInstance: (lookupId: string) => componentRegistry.get(lookupId),
+        })
+      })
+    })
+
+    onCleanup(() => {
+      cleanupInstanceTracking(registration, unregisterInstance)
+    })
+
+    const render = () => resolved()
+    renderAccessorOwners.set(render, rendered)
+    return render
+  }
+}
+
+export default {
+  registerInstance,
+  unregisterInstance,
+  updateInstanceProps,
+  getComponentRegistry,
+  withComponentHighlighter,
+}
@@ -0,0 +1,13 @@
+/**
+ * Solid-specific story generation
+ */
+
+import { createJsxStoryGenerator } from '../../utils/jsx-story-generator'
+
+/**
+ * Generate a Solid story file from component data
+ */
+export const generateStory = createJsxStoryGenerator({
+  storybookPackage: 'storybook-solidjs-vite',
+  componentPropsSource: 'solid-js',
+})
@@ -0,0 +1,314 @@
+/**
+ * Solid Transform
+ *
+ * Babel-based transformation that instruments exported Solid components
+ * with the withComponentHighlighter wrapper.
+ *
+ * The file is parsed with Babel and the wrapper calls are inserted into the
+ * original source with magic-string, leaving the JSX untouched for
+ * vite-plugin-solid.
+ */
+
+import { parse } from '@babel/parser'
+import MagicString from 'magic-string'
+import type * as t from '@babel/types'
+import * as path from 'path'
+import type {
+  ComponentScanner,
+  TransformFunction,
+  TransformOutput,
+} from '../types'
+
+/**
+ * Simple hash function for generating source IDs
+ */
+function createHash(data: string): string {
+  let hash = 0
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charCodeAt(i)
+    hash = (hash << 5) - hash + char
+    hash = hash & hash // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36)
+}
+
+/**
+ * Virtual module ID for Solid runtime
+ */
+export const VIRTUAL_MODULE_ID = 'virtual:component-highlighter/solid-runtime'
+
+type ComponentTarget = {
+  name: string
+  isDefaultExport: boolean
+  /** Where to insert the opening of the wrapper call */
+  start: number
+  /** Where to insert the closing of the wrapper call */
+  end: number
+  /** Text inserted before the wrapper call (e.g. `const Button = `) */
+  prefix?: string
+}
+
+/**
+ * Transform Solid JSX/TSX files to wrap components with the highlighter
+ */
+export const transform: TransformFunction = (
+  code: string,
+  id: string,
+): TransformOutput | undefined => {
+  try {
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: [
+        'typescript',
+        'jsx',
+        ['decorators', { decoratorsBeforeExport: true }],
+      ],
+      sourceFilename: id,
+    })
+
+    if (!containsJsx(ast.program)) {
+      return undefined
+    }
+
+    const targets = collectComponentTargets(ast.program)
+    if (targets.length === 0) {
+      return undefined
+    }
+
+    const relativeFilePath = path.relative(process.cwd(), id)
+    const s = new MagicString(code)
+
+    for (const target of targets) {
+      const meta = {
+        componentName: target.name,
+        filePath: id,
+        relativeFilePath,
+        sourceId: createHash(id + ':' + target.name),
+        isDefaultExport: target.isDefaultExport,
+      }
+      s.prependRight(
+        target.start,
+        `${target.prefix ?? ''}withComponentHighlighter(`,
+      )
+      s.appendLeft(
+        target.end,
+        `, ${JSON.stringify(meta)})${target.prefix ? ';' : ''}`,
+      )
+    }
+
+    s.prepend(
+      `import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}';\n`,
+    )
+
+    return {
+      code: s.toString(),
+      map: s.generateMap({ source: id, includeContent: true, hires: true }),
+    }
+  } catch (error) {
+    console.warn(`[component-highlighter] Failed to transform ${id}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * List the components the transform would wrap, without transforming
+ */
+export const scanComponents: ComponentScanner = (code, id) => {
+  const ast = parse(code, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      'jsx',
+      ['decorators', { decoratorsBeforeExport: true }],
+    ],
+    sourceFilename: id,
+  })
+
+  if (!containsJsx(ast.program)) {
+    return []
+  }
+  return collectComponentTargets(ast.program).map(
+    ({ name, isDefaultExport }) => ({ componentName: name, isDefaultExport }),
+  )
+}
+
+/**
+ * Check if a name is PascalCase (component naming convention)
+ */
+function isComponentName(name: string | undefined): name is string {
+  if (!name) return false
+  const first = name[0]!
+  return first === first.toUpperCase() && first !== first.toLowerCase()
+}
+
+function isFunctionExpression(
+  node: t.Node | null | undefined,
+): node is t.ArrowFunctionExpression | t.FunctionExpression {
+  return (
+    node?.type === 'ArrowFunctionExpression' ||
+    node?.type === 'FunctionExpression'
+  )
+}
+
+/**
+ * Check whether any JSX appears in the program
+ */
+function containsJsx(node: unknown): boolean {
+  if (!node || typeof node !== 'object') return false
+  if (Array.isArray(node)) return node.some(containsJsx)
+
+  const { type } = node as { type?: unknown }
+  if (type === 'JSXElement' || type === 'JSXFragment') return true
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments')
+      continue
+    if (value && typeof value === 'object' && containsJsx(value)) return true
+  }
+  return false
+}
+
+/**
+ * Find the exported components of a module and where to wrap them.
+ * Only top-level declarations are considered.
+ */
+function collectComponentTargets(program: t.Program): ComponentTarget[] {
+  const targets: ComponentTarget[] = []
+
+  // Locally declared names exported via `export { A, B as C }`
+  const exportedLocals = new Set<string>()
+  for (const statement of program.body) {
+    if (
+      statement.type === 'ExportNamedDeclaration' &&
+      !statement.declaration &&
+      !statement.source
+    ) {
+      for (const specifier of statement.specifiers) {
+        if (
+          specifier.type === 'ExportSpecifier' &&
+          specifier.local.type === 'Identifier'
+        ) {
+          exportedLocals.add(specifier.local.name)
+        }
+      }
+    }
+  }
+
+  const addFunctionDeclaration = (
+    declaration: t.FunctionDeclaration,
+    isDefaultExport: boolean,
+  ) => {
+    const name = declaration.id?.name
+    if (!isComponentName(name)) return
+    targets.push({
+      name,
+      isDefaultExport,
+      start: declaration.start!,
+      end: declaration.end!,
+      prefix: `const ${name} = `,
+    })
+  }
+
+  const addVariableDeclaration = (
+    declaration: t.VariableDeclaration,
+    filter?: (name: string) => boolean,
+  ) => {
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type !== 'Identifier') continue
+      const name = declarator.id.name
+      if (!isComponentName(name) || (filter && !filter(name))) continue
+      if (!isFunctionExpression(declarator.init)) continue
+      targets.push({
+        name,
+        isDefaultExport: false,
+        start: declarator.init.start!,
+        end: declarator.init.end!,
+      })
+    }
+  }
+
+  let defaultIdentifier: t.Identifier | null = null
+
+  for (const statement of program.body) {
+    if (statement.type === 'ExportDefaultDeclaration') {
+      const { declaration } = statement
+      if (declaration.type === 'FunctionDeclaration') {
+        if (declaration.id) {
+          // `export default function Button() {}` becomes
+          // `export default withComponentHighlighter(function Button() {}, meta)`
+          if (!isComponentName(declaration.id.name)) continue
+          targets.push({
+            name: declaration.id.name,
+            isDefaultExport: true,
+            start: declaration.start!,
+            end: declaration.end!,
+          })
+        } else {
+          targets.push({
+            name: 'DefaultExport',
+            isDefaultExport: true,
+            start: declaration.start!,
+            end: declaration.end!,
+          })
+        }
+      } else if (isFunctionExpression(declaration)) {
+        targets.push({
+          name: 'DefaultExport',
+          isDefaultExport: true,
+          start: declaration.start!,
+          end: declaration.end!,
+        })
+      } else if (
+        declaration.type === 'Identifier' &&
+        isComponentName(declaration.name)
+      ) {
+        defaultIdentifier = declaration
+      }
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      const { declaration } = statement
+      if (declaration?.type === 'FunctionDeclaration') {
+        addFunctionDeclaration(declaration, false)
+      } else if (declaration?.type === 'VariableDeclaration') {
+        addVariableDeclaration(declaration)
+      }
+    } else if (statement.type === 'FunctionDeclaration') {
+      if (statement.id && exportedLocals.has(statement.id.name)) {
+        addFunctionDeclaration(statement, false)
+      }
+    } else if (statement.type === 'VariableDeclaration') {
+      addVariableDeclaration(statement, (name) => exportedLocals.has(name))
+    }
+  }
+
+  // `export default Button`: wrap at the export site unless the declaration
+  // is already wrapped as a named export
+  if (
+    defaultIdentifier &&
+    !targets.some((target) => target.name === defaultIdentifier.name)
+  ) {
+    targets.push({
+      name: defaultIdentifier.name,
+      isDefaultExport: true,
+      start: defaultIdentifier.start!,
+      end: defaultIdentifier.end!,
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Detect if a file is a Solid file
+ */
+export function detectSolid(code: string, id: string): boolean {
+  // Check file extension
+  if (!id.match(/\.(tsx|jsx)$/)) {
+    return false
+  }
+
+  // Check for Solid imports or JSX
+  const hasSolidImport = /from\s+['"]solid-js(?:\/[\w-]+)?['"]/.test(code)
+  const hasJSX = /<[A-Z][a-zA-Z]*|<[a-z]+[^>]*>/.test(code)
+
+  return hasSolidImport || hasJSX
+}
@@ -0,0 +1,35 @@
+/**
+ * Svelte Framework Configuration
+ *
+ * Exports the Svelte-specific implementation for the component highlighter.
+ */
+
+import type { FrameworkConfig } from '../types'
+import {
+  transform,
+  scanComponents,
+  detectSvelte,
+  VIRTUAL_MODULE_ID,
+} from './transform'
+
+/**
+ * Svelte framework configuration
+ */
+export const svelteFramework: FrameworkConfig = {
+  name: 'svelte',
+  displayName: 'Svelte',
+  extensions: ['.svelte'],
+  detect: detectSvelte,
+  transform,
+  scanComponents,
+  runtimeModuleFile: 'frameworks/svelte/runtime-module',
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  storybookFramework: '@storybook/svelte-vite',
+  componentPropsSource: 'svelte',
+  storyFileExtension: 'ts',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
+}
+
+// Re-export for convenience
+export { transform, detectSvelte, VIRTUAL_MODULE_ID } from './transform'
@@ -0,0 +1,47 @@
+/**
+ * Svelte Entry Point
+ *
+ * Import this to use the component highlighter with Svelte 5:
+ * ```ts
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/svelte'
+ * ```
+ */
+
+import {
+  createComponentHighlighterPlugin,
+  type ComponentHighlighterOptions,
+} from '../../create-component-highlighter-plugin'
+import { svelteFramework } from '.'
+
+/**
+ * Svelte Component Highlighter Plugin
+ *
+ * Must be listed before `svelte()` so it sees the component source
+ * rather than the compiled output.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { defineConfig } from 'vite'
+ * import { svelte } from '@sveltejs/vite-plugin-svelte'
+ * import { DevTools } from '@vitejs/devtools'
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/svelte'
+ *
+ * export default defineConfig({
+ *   plugins: [
+ *     componentHighlighter(),
+ *     svelte(),
+ *     DevTools(),
+ *   ],
+ * })
+ * ```
+ */
+export default function componentHighlighterSvelte(
+  options: ComponentHighlighterOptions = {},
+) {
+  return createComponentHighlighterPlugin(svelteFramework, options)
+}
+
+// Re-export types
+export type { ComponentHighlighterOptions } from '../../create-component-highlighter-plugin'
+export { svelteFramework } from '.'
@@ -0,0 +1,411 @@
+/// <reference path="../../runtime-module-shims.d.ts" />
+import {
+  cleanupInstanceTracking,
+  exposeComponentRegistry,
+  findFirstTrackableElement,
+  serializePropValues,
+  serializeRichValue,
+  syncInstanceTracking,
+} from 'virtual:component-highlighter/runtime-helpers'
+
+// Injected by the virtual module loader.
+declare const __COMPONENT_HIGHLIGHTER_DEBUG__: boolean
+
+const DEBUG_MODE = __COMPONENT_HIGHLIGHTER_DEBUG__
+
+// Keep in sync with ./transform.ts
+const ANCHOR_ATTRIBUTE = 'data-component-highlighter'
+const ROOT_ATTRIBUTE = 'data-component-highlighter-root'
+const SNIPPET_START_ATTRIBUTE = 'data-component-highlighter-snippet'
+const SNIPPET_END_ATTRIBUTE = 'data-component-highlighter-snippet-end'
+const SNIPPET_OWNER_ATTRIBUTE = 'data-component-highlighter-owner'
+
+const logDebug = (...args: unknown[]) => {
+  if (DEBUG_MODE) {
+    console.log('[component-highlighter-svelte]', ...args)
+  }
+}
+
+;(
+  globalThis as typeof globalThis & { logDebug?: (...args: unknown[]) => void }
+).logDebug = logDebug
+
+logDebug('Svelte runtime loaded', { debug: DEBUG_MODE })
+
+// Component registry for tracking live instances
+const componentRegistry = new Map<
+  string,
+  {
+    id: string
+    meta: Record<string, unknown>
+    props: Record<string, unknown>
+    serializedProps: Record<string, unknown>
+    element: Element
+    rect?: DOMRect
+  }
+>()
+
+// Generate unique instance ID
+function generateInstanceId(sourceId: string) {
+  return `${sourceId}:${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Serialize props, handling Svelte state proxies
+ */
+function serializeProps(props: Record<string, unknown>) {
+  return serializePropValues(props, serializeValue)
+}
+
+/**
+ * Serialize a single value
+ */
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
+  if (value && typeof value === 'object') {
+    // Already serialized snippet content
+    if ((value as { __isSvelteSnippet?: boolean }).__isSvelteSnippet) {
+      return value
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeNested(item))
+    }
+    // Plain objects (including `$state` proxies of plain objects)
+    if ((value as { constructor?: unknown }).constructor === Object) {
+      const serialized: Record<string, unknown> = {}
+      for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+        serialized[k] = serializeNested(v)
+      }
+      return serialized
+    }
+  }
+
+  // Handle functions - return a placeholder
+  if (typeof value === 'function') {
+    return {
+      __isFunction: true,
+      name: (value as { name?: string }).name || 'anonymous',
+    }
+  }
+
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
+  // Primitives pass through
+  return value
+}
+
+/**
+ * Serialize a rendered DOM node back to HTML, dropping the highlighter's
+ * own wrapper spans, root attributes, markers and Svelte's comment anchors
+ */
+function serializeRenderedNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const container = document.createElement('div')
+    container.textContent = node.textContent ?? ''
+    return container.innerHTML
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  if (element.hasAttribute(ANCHOR_ATTRIBUTE)) {
+    return Array.from(element.childNodes).map(serializeRenderedNode).join('')
+  }
+  if (element.tagName === 'TEMPLATE') return ''
+
+  const clone = element.cloneNode(true) as Element
+  clone
+    .querySelectorAll(
+      `template[${SNIPPET_START_ATTRIBUTE}], template[${SNIPPET_END_ATTRIBUTE}]`,
+    )
+    .forEach((marker) => marker.remove())
+  clone.querySelectorAll(`[${ANCHOR_ATTRIBUTE}]`).forEach((wrapper) => {
+    wrapper.replaceWith(...Array.from(wrapper.childNodes))
+  })
+  clone.removeAttribute(ROOT_ATTRIBUTE)
+  clone.querySelectorAll(`[${ROOT_ATTRIBUTE}]`).forEach((root) => {
+    root.removeAttribute(ROOT_ATTRIBUTE)
+  })
+
+  const comments: Node[] = []
+  const walker = document.createTreeWalker(clone, NodeFilter.SHOW_COMMENT)
+  while (walker.nextNode()) comments.push(walker.currentNode)
+  for (const comment of comments) comment.parentNode?.removeChild(comment)
+
+  return clone.outerHTML
+}
+
+/**
+ * Capture the rendered HTML of the children / snippets passed to this
+ * component, using the markers the parent's transform placed around them
+ */
+function captureSnippets(
+  anchors: Element[],
+  componentName: string,
+): Record<string, { __isSvelteSnippet: true; source: string }> {
+  const snippets: Record<
+    string,
+    { __isSvelteSnippet: true; source: string }
+  > = {}
+
+  anchors
+    .flatMap((anchor) =>
+      Array.from(
+        anchor.querySelectorAll(
+          `template[${SNIPPET_START_ATTRIBUTE}][${SNIPPET_OWNER_ATTRIBUTE}="${componentName}"]`,
+        ),
+      ),
+    )
+    .forEach((startMarker) => {
+      // Skip markers that belong to a nested instance of the same component
+      const owner = startMarker.parentElement?.closest(
+        `[${ANCHOR_ATTRIBUTE}="${componentName}"], [${ROOT_ATTRIBUTE}="${componentName}"]`,
+      )
+      if (!owner || !anchors.includes(owner)) return
+
+      const snippetName = startMarker.getAttribute(SNIPPET_START_ATTRIBUTE)
+      if (!snippetName || snippetName in snippets) return
+
+      let source = ''
+      for (
+        let node = startMarker.nextSibling;
+        node;
+        node = node.nextSibling
+      ) {
+        if (
+          node.nodeType === Node.ELEMENT_NODE &&
+          (node as Element).getAttribute(SNIPPET_END_ATTRIBUTE) ===
+            snippetName &&
+          (node as Element).getAttribute(SNIPPET_OWNER_ATTRIBUTE) ===
+            componentName
+        ) {
+          break
+        }
+        source += serializeRenderedNode(node)
+      }
+
+      snippets[snippetName] = { __isSvelteSnippet: true, source: source.trim() }
+    })
+
+  return snippets
+}
+
+function getStoryProps(
+  rawProps: Record<string, unknown>,
+  anchors: Element[],
+  componentName: string,
+): Record<string, unknown> {
+  const storyProps: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(rawProps)) {
+    // Legacy-mode internals ($$slots, $$events, ...)
+    if (key.startsWith('$$')) continue
+    storyProps[key] = value
+  }
+
+  // Snippets are plain functions at runtime; replace the ones we captured
+  for (const [snippetName, snippet] of Object.entries(
+    captureSnippets(anchors, componentName),
+  )) {
+    storyProps[snippetName] = snippet
+  }
+
+  return storyProps
+}
+
+// Registry management functions
+export function registerInstance(
+  meta: Record<string, unknown>,
+  props: Record<string, unknown>,
+  element: Element,
+) {
+  const id = generateInstanceId(meta['sourceId'] as string)
+  const serializedProps = serializeProps(props)
+
+  const instance = {
+    id,
+    meta,
+    props,
+    serializedProps,
+    element,
+  }
+  componentRegistry.set(id, instance)
+
+  logDebug('registerInstance', {
+    id,
+    componentName: meta['componentName'],
+    totalComponents: componentRegistry.size,
+  })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:register', {
+    detail: instance,
+  })
+  window.dispatchEvent(event)
+  logDebug('dispatched register event for', id)
+
+  return id
+}
+
+export function unregisterInstance(id: string) {
+  componentRegistry.delete(id)
+  logDebug('unregistered', { id, remaining: componentRegistry.size })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:unregister', {
+    detail: id,
+  })
+  window.dispatchEvent(event)
+}
+
+export function updateInstanceProps(
+  id: string,
+  props: Record<string, unknown>,
+) {
+  const instance = componentRegistry.get(id)
+  if (instance) {
+    instance.props = props
+    instance.serializedProps = serializeProps(props)
+    logDebug('updateInstanceProps', { id, props })
+
+    // Dispatch event for listeners module
+    const event = new CustomEvent('component-highlighter:update-props', {
+      detail: { id, props, serializedProps: instance.serializedProps },
+    })
+    window.dispatchEvent(event)
+  }
+}
+
+/**
+ * Get the component registry for import resolution
+ * Returns a map of component name -> file path
+ */
+export function getComponentRegistry() {
+  const registry = new Map<string, string>()
+  for (const instance of componentRegistry.values()) {
+    registry.set(
+      (instance.meta['componentName'] as string) || '',
+      instance.meta['filePath'] as string,
+    )
+  }
+  return registry
+}
+
+// Expose registry getter globally for story generation
+exposeComponentRegistry(getComponentRegistry)
+
+/**
+ * Track a Svelte component instance with the highlighter.
+ *
+ * Called from the component's instance script (see ./transform.ts):
+ * `attach` is used as a `use:` action on the root elements of the markup (or
+ * the wrapper around it), `update` is called with the current props
+ * whenever they change.
+ */
+export function withComponentHighlighter(meta: Record<string, unknown>) {
+  const registration = {
+    id: null as string | null,
+    element: null as Element | null,
+    disconnect: null as (() => void) | null,
+  }
+  const componentName = meta['componentName'] as string
+
+  // The root elements the action is on, or the wrapper span
+  const anchors = new Set<Element>()
+  let currentProps: Record<string, unknown> | null = null
+
+  const getAnchors = () =>
+    [...anchors].sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+    )
+
+  // The first rendered element; the wrapper span itself has no box
+  const findTrackedElement = () => {
+    for (const anchor of getAnchors()) {
+      const element = findFirstTrackableElement(anchor)
+      if (
+        element &&
+        !(element === anchor && anchor.hasAttribute(ANCHOR_ATTRIBUTE))
+      ) {
+        return element
+      }
+    }
+    return null
+  }
+
+  const registerOrUpdate = () => {
+    if (anchors.size === 0 || !currentProps) return
+
+    const element = findTrackedElement()
+    if (!element) {
+      logDebug('Could not find valid Element node for', componentName)
+      return
+    }
+
+    syncInstanceTracking({
+      state: registration,
+      element,
+      props: getStoryProps(currentProps, getAnchors(), componentName),
+      register: (nextElement: Element, nextProps: Record<string, unknown>) =>
+        registerInstance(meta, nextProps, nextElement),
+      unregister: unregisterInstance,
+      updateProps: updateInstanceProps,
+      getInstance: (lookupId: string) => componentRegistry.get(lookupId),
+    })
+  }
+
+  return {
+    update(props: Record<string, unknown>) {
+      if (typeof window === 'undefined') return
+      currentProps = props
+      registerOrUpdate()
+    },
+
+    attach(node: Element) {
+      anchors.add(node)
+      registerOrUpdate()
+
+      // Internal state changes can swap the rendered root without a props
+      // change; re-resolve the tracked element when the markup changes
+      let scheduled = false
+      const observer = new MutationObserver(() => {
+        if (scheduled) return
+        scheduled = true
+        queueMicrotask(() => {
+          scheduled = false
+          if (
+            anchors.has(node) &&
+            findTrackedElement() !== registration.element
+          ) {
+            registerOrUpdate()
+          }
+        })
+      })
+      observer.observe(node, { childList: true, subtree: true })
+
+      return {
+        destroy() {
+          observer.disconnect()
+          anchors.delete(node)
+          // Other roots (e.g. the remaining items of an `{#each}`) stay
+          if (anchors.size > 0) {
+            registerOrUpdate()
+          } else {
+            cleanupInstanceTracking(registration, unregisterInstance)
+          }
+        },
+      }
+    },
+  }
+}
+
+export default {
+  registerInstance,
+  unregisterInstance,
+  updateInstanceProps,
+  getComponentRegistry,
+  withComponentHighlighter,
+}
@@ -0,0 +1,387 @@
+/**
+ * Svelte-specific story generation
+ */
+
+import type { ComponentArgType, SerializedProps } from '../types'
+import * as path from 'path'
+import {
+  type StoryGenerationData,
+  type GeneratedStory,
+  toValidStoryName,
+  generateStoryName,
+  getRelativeImportPath,
+  hasAnyFunctionProps,
+  collectComponentRefs,
+  formatPropKey,
+  formatPropValue,
+  hoistSharedValues,
+  formatPlayFunctionForStory,
+  formatStoryExport,
+  formatCsf3Meta,
+  getStoryFileExtension,
+  type StoryLanguage,
+  extractStorybookTestImports,
+} from '../../utils/story-generator'
+import {
+  appendStoryToFile,
+  toStoryFileImport,
+  type AppendedStory,
+} from '../../utils/story-file-editor'
+
+function isSerializedSvelteSnippet(
+  value: unknown,
+): value is { __isSvelteSnippet: true; source: string } {
+  if (!value || typeof value !== 'object') return false
+
+  const snippet = value as { __isSvelteSnippet?: unknown; source?: unknown }
+  return snippet.__isSvelteSnippet === true && typeof snippet.source === 'string'
+}
+
+function hasAnySnippetProps(props: SerializedProps): boolean {
+  return Object.values(props).some(isSerializedSvelteSnippet)
+}
+
+/**
+ * `createRawSnippet` must render exactly one element, so wrap text and
+ * multi-node content in a span
+ */
+function toSingleElementHtml(source: string): string {
+  const trimmed = source.trim()
+  const singleElement = trimmed.match(/^<([a-zA-Z][\w-]*)[\s>][\s\S]*<\/\1>$/)
+  // Only trust the match when the outer tag is not repeated inside
+  if (
+    singleElement &&
+    trimmed.split(`</${singleElement[1]}>`).length === 2
+  ) {
+    return trimmed
+  }
+  return `<span>${trimmed}</span>`
+}
+
+function formatSnippetValue(source: string, indentLevel: number): string {
+  const indent = '  '.repeat(indentLevel)
+  return `createRawSnippet(() => ({
+${indent}  render: () => ${JSON.stringify(toSingleElementHtml(source))},
+${indent}}))`
+}
+
+/**
+ * Generate the args object, rendering captured snippets with `createRawSnippet`
+ */
+function generateSvelteArgsContent(
+  props: SerializedProps,
+  indentLevel: number,
+  componentRegistry?: Map<string, string>,
+): string {
+  const indent = '  '.repeat(indentLevel)
+  const innerIndent = '  '.repeat(indentLevel + 1)
+  const entries = Object.entries(props)
+
+  if (entries.length === 0) {
+    return '{}'
+  }
+
+  const propsContent = entries
+    .map(([key, value]) => {
+      const formattedValue = isSerializedSvelteSnippet(value)
+        ? formatSnippetValue(value.source, indentLevel + 1)
+        : formatPropValue(value, indentLevel + 1, componentRegistry)
+      return `${innerIndent}${formatPropKey(key)}: ${formattedValue},`
+    })
+    .join('\n')
+
+  return `{\n${propsContent}\n${indent}}`
+}
+
+/**
+ * Generate a Svelte story file from component data
+ * Svelte-specific: imports include .svelte extension, uses @storybook/svelte-vite
+ * unless the framework config names another package
+ */
+export function generateStory(data: StoryGenerationData): GeneratedStory {
+  const {
+    meta,
+    props,
+    componentRegistry,
+    storyName: customStoryName,
+    existingContent,
+    playFunction,
+    playImports,
+  } = data
+  const language = data.language ?? 'ts'
+  const { componentName, filePath } = meta
+
+  // Calculate paths
+  const componentDir = path.dirname(filePath)
+  const componentFileName = path.basename(filePath, path.extname(filePath))
+  const storyFilePath =
+    data.storyFilePath ??
+    path.join(
+      componentDir,
+      `${componentFileName}.stories.${getStoryFileExtension('ts', language)}`,
+    )
+  // Imports are relative to where the story file is written
+  const storyDir = path.dirname(storyFilePath)
+
+  // Determine story name
+  let storyName = customStoryName || generateStoryName(props)
+  storyName = toValidStoryName(storyName)
+
+  // Collect component references
+  const componentRefs = new Set<string>()
+  collectComponentRefs(props, componentRefs)
+
+  // Build imports
+  const imports: Array<{ name: string; path: string }> = []
+
+  // Main component import - Svelte components are always default exports
+  imports.push({
+    name: componentName,
+    path: getRelativeImportPath(storyDir, filePath),
+  })
+
+  // Referenced components - also need .svelte extension
+  if (componentRegistry) {
+    for (const refName of componentRefs) {
+      if (refName === componentName) continue
+
+      const refFilePath = componentRegistry.get(refName)
+      if (refFilePath) {
+        const refRelativePath = getRelativeImportPath(storyDir, refFilePath)
+        imports.push({
+          name: refName,
+          path: refRelativePath.endsWith('.svelte')
+            ? refRelativePath
+            : `${refRelativePath}.svelte`,
+        })
+      }
+    }
+  }
+
+  // Generate content
+  let content: string
+
+  if (existingContent) {
+    const appendOptions: Parameters<typeof appendStoryToExisting>[0] = {
+      existingContent,
+      storyName,
+      props,
+      imports,
+      componentName,
+      language,
+    }
+    if (componentRegistry) {
+      appendOptions.componentRegistry = componentRegistry
+    }
+    if (playFunction) {
+      appendOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      appendOptions.playImports = playImports
+    }
+    const appended = appendStoryToExisting(appendOptions)
+    content = appended.content
+    storyName = appended.storyName
+  } else {
+    const contentOptions: Parameters<typeof generateStoryContent>[0] = {
+      componentName,
+      imports,
+      props,
+      storyName,
+      language,
+      storybookPackage: data.storybookFramework ?? '@storybook/svelte-vite',
+    }
+    if (componentRegistry) {
+      contentOptions.componentRegistry = componentRegistry
+    }
+    if (playFunction) {
+      contentOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      contentOptions.playImports = playImports
+    }
+    if (data.argTypes) {
+      contentOptions.argTypes = data.argTypes
+    }
+    content = generateStoryContent(contentOptions)
+  }
+
+  return {
+    content,
+    filePath: storyFilePath,
+    imports,
+    storyName,
+  }
+}
+
+/**
+ * Generate new story file content
+ */
+function generateStoryContent(options: {
+  componentName: string
+  imports: Array<{ name: string; path: string }>
+  props: SerializedProps
+  storyName: string
+  componentRegistry?: Map<string, string>
+  playFunction?: string[]
+  playImports?: string[]
+  language: StoryLanguage
+  /** Storybook framework package `Meta` and `StoryObj` come from */
+  storybookPackage: string
+  argTypes?: ComponentArgType[]
+}): string {
+  const {
+    componentName,
+    imports,
+    props,
+    storyName,
+    playFunction,
+    playImports,
+    language,
+    storybookPackage,
+    argTypes,
+  } = options
+
+  const needsFnImport = hasAnyFunctionProps(props)
+
+  // Collect storybook/test imports
+  const storybookTestNames = new Set<string>()
+  if (needsFnImport) storybookTestNames.add('fn')
+  if (playImports) {
+    for (const playImport of playImports) {
+      for (const name of extractStorybookTestImports(playImport)) {
+        storybookTestNames.add(name)
+      }
+    }
+  }
+
+  const storybookTestImport =
+    storybookTestNames.size > 0
+      ? `import { ${[...storybookTestNames].join(', ')} } from 'storybook/test';`
+      : null
+
+  const { props: args, fixtures } = hoistSharedValues(props, {
+    componentRegistry: options.componentRegistry,
+    ...(language === 'ts'
+      ? { propsType: `ComponentProps<typeof ${componentName}>` }
+      : {}),
+  })
+
+  // Build imports
+  const importStatements = [
+    ...(language === 'ts'
+      ? [`import type { Meta, StoryObj } from '${storybookPackage}';`]
+      : []),
+    ...(hasAnySnippetProps(props)
+      ? [`import { createRawSnippet } from 'svelte';`]
+      : []),
+    ...(fixtures && language === 'ts'
+      ? [`import type { ComponentProps } from 'svelte';`]
+      : []),
+    ...(storybookTestImport ? [storybookTestImport] : []),
+    ...imports.map((imp) => `import ${imp.name} from '${imp.path}';`),
+  ].join('\n')
+  const argsContent = generateSvelteArgsContent(
+    args,
+    1,
+    options.componentRegistry,
+  )
+  const hasArgs = Object.keys(props).length > 0
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  const storyBody = `${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`
+  const metaContent = formatCsf3Meta({
+    component: componentName,
+    typeArgument: `typeof ${componentName}`,
+    storybookPackage,
+    language,
+    argTypes,
+  })
+  const storyExport = formatStoryExport(storyName, storyBody, {
+    storyType: language === 'ts' ? 'annotation' : 'jsdoc',
+  })
+
+  return `${importStatements}
+
+${metaContent}
+${fixtures}${storyExport}`
+}
+
+/**
+ * Append a story to an existing file
+ */
+function appendStoryToExisting(options: {
+  existingContent: string
+  storyName: string
+  props: SerializedProps
+  imports: Array<{ name: string; path: string }>
+  componentName: string
+  componentRegistry?: Map<string, string>
+  playFunction?: string[]
+  playImports?: string[]
+  language: StoryLanguage
+}): AppendedStory {
+  const {
+    existingContent,
+    storyName,
+    props,
+    imports,
+    componentName,
+    playFunction,
+    playImports,
+    language,
+  } = options
+
+  const storybookTestNames = new Set<string>()
+  if (hasAnyFunctionProps(props)) storybookTestNames.add('fn')
+  for (const playImport of playImports ?? []) {
+    for (const name of extractStorybookTestImports(playImport)) {
+      storybookTestNames.add(name)
+    }
+  }
+
+  const { props: args, fixtures } = hoistSharedValues(props, {
+    existingContent,
+    componentRegistry: options.componentRegistry,
+    ...(language === 'ts'
+      ? { propsType: `ComponentProps<typeof ${componentName}>` }
+      : {}),
+  })
+  const argsContent = generateSvelteArgsContent(
+    args,
+    1,
+    options.componentRegistry,
+  )
+  const hasArgs = Object.keys(props).length > 0
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  return appendStoryToFile({
+    existingContent,
+    storyName,
+    imports: [
+      ...(hasAnySnippetProps(props)
+        ? [{ source: 'svelte', names: ['createRawSnippet'] }]
+        : []),
+      ...(fixtures && language === 'ts'
+        ? [{ source: 'svelte', typeNames: ['ComponentProps'] }]
+        : []),
+      ...(storybookTestNames.size > 0
+        ? [{ source: 'storybook/test', names: [...storybookTestNames] }]
+        : []),
+      ...imports.map(toStoryFileImport),
+    ],
+    language,
+    createStory: (finalStoryName, style) =>
+      `${fixtures}${formatStoryExport(
+        finalStoryName,
+        `${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`,
+        style,
+      )}`,
+  })
+}
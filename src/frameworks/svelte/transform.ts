@@ -0,0 +1,464 @@
+/**
+ * Svelte Transform
+ *
+ * Source transformation that instruments Svelte 5 components
+ * with the component highlighter.
+ *
+ * Svelte has no public API to reach a component's DOM or props from the
+ * outside, so the component is instrumented from within:
+ * - the instance script creates a tracker and feeds it the current props
+ *   (`$effect` in runes mode, a `$:` statement in legacy mode)
+ * - a `use:` action on the component's root elements hands the rendered DOM
+ *   to the tracker; markup whose roots aren't all elements (a child
+ *   component, text, `{@render}`...) is wrapped in a `display: contents`
+ *   span carrying the action instead
+ * - content passed to child components (children / snippets / slots) is
+ *   bracketed with inert `<template>` markers so the child's runtime can
+ *   capture the rendered snippet HTML for story generation
+ */
+
+import { parse as parseSvelte } from 'svelte/compiler'
+import { parse as parseScript } from '@babel/parser'
+import MagicString from 'magic-string'
+import type * as t from '@babel/types'
+import type { ResolvedConfig } from 'vite'
+import type {
+  ComponentScanner,
+  TransformFunction,
+  TransformOutput,
+} from '../types'
+import * as path from 'path'
+
+/**
+ * Simple hash function for generating source IDs
+ */
+function createHash(data: string): string {
+  let hash = 0
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charCodeAt(i)
+    hash = (hash << 5) - hash + char
+    hash = hash & hash // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36)
+}
+
+/**
+ * Virtual module ID for Svelte runtime
+ */
+export const VIRTUAL_MODULE_ID = 'virtual:component-highlighter/svelte-runtime'
+
+/** Attribute set on the wrapper span around a component's markup */
+export const ANCHOR_ATTRIBUTE = 'data-component-highlighter'
+/** Attribute set on the root elements of a component's markup */
+export const ROOT_ATTRIBUTE = 'data-component-highlighter-root'
+/** Attribute marking the start of content passed to a child component */
+export const SNIPPET_START_ATTRIBUTE = 'data-component-highlighter-snippet'
+/** Attribute marking the end of content passed to a child component */
+export const SNIPPET_END_ATTRIBUTE = 'data-component-highlighter-snippet-end'
+/** Attribute naming the child component the content was passed to */
+export const SNIPPET_OWNER_ATTRIBUTE = 'data-component-highlighter-owner'
+
+/** Top-level nodes that must stay outside the wrapper span */
+const HOISTED_NODE_TYPES = new Set([
+  'SvelteHead',
+  'SvelteWindow',
+  'SvelteBody',
+  'SvelteDocument',
+  'SvelteOptions',
+  'SnippetBlock',
+])
+
+/** Markup nodes that render nothing themselves */
+const NON_RENDERED_NODE_TYPES = new Set(['Comment', 'ConstTag', 'DebugTag'])
+
+/** Elements that can carry the tracker's `use:` action */
+const ELEMENT_NODE_TYPES = new Set(['RegularElement', 'SvelteElement'])
+
+/** Blocks whose branches render their own root nodes */
+const BLOCK_NODE_TYPES = new Set([
+  'IfBlock',
+  'EachBlock',
+  'KeyBlock',
+  'AwaitBlock',
+])
+
+/**
+ * Rune calls, for components that set runes mode neither in
+ * `<svelte:options>` nor in the compiler options: the compiler then infers
+ * the mode from whether the component uses runes
+ */
+const RUNE_PATTERN =
+  /\$(?:props|state|derived|effect|bindable|inspect|host)\b(?:\.\w+)?\s*\(/
+
+// The modern Svelte AST is loosely typed; only the fields used here are modelled
+type SvelteNode = {
+  type: string
+  name?: string
+  start: number
+  end: number
+  fragment?: { nodes: SvelteNode[] }
+  body?: { nodes: SvelteNode[] }
+  expression?: { name?: string }
+  data?: string
+  [key: string]: unknown
+}
+
+type SvelteScript = {
+  start: number
+  end: number
+  content: { start: number; end: number }
+  attributes: Array<{ name: string; value: unknown }>
+}
+
+/**
+ * Transform Svelte component files to track instances with the highlighter
+ */
+export const transform: TransformFunction = (
+  code: string,
+  id: string,
+  context,
+): TransformOutput | undefined => {
+  try {
+    const ast = parseSvelte(code, { filename: id, modern: true }) as unknown as {
+      fragment: { nodes: SvelteNode[] }
+      instance: SvelteScript | null
+      module: SvelteScript | null
+      options: { runes?: boolean } | null
+    }
+
+    const componentName = getComponentName(id)
+    const metaObject = {
+      componentName,
+      sourceId: createHash(id),
+      filePath: id,
+      relativeFilePath: path.relative(process.cwd(), id),
+      isDefaultExport: true,
+    }
+
+    const instanceContent = ast.instance
+      ? code.slice(ast.instance.content.start, ast.instance.content.end)
+      : ''
+    const moduleContent = ast.module
+      ? code.slice(ast.module.content.start, ast.module.content.end)
+      : ''
+    const runes =
+      ast.options?.runes ??
+      getConfiguredRunes(context?.config) ??
+      (RUNE_PATTERN.test(instanceContent) || RUNE_PATTERN.test(moduleContent))
+
+    // Edit the component in place so the markup keeps its original position
+    const s = new MagicString(code)
+
+    // 1. Mark content passed to child components
+    insertSnippetMarkers(s, ast.fragment.nodes)
+
+    // 2. Hand the rendered DOM to the runtime: through the root elements if
+    // there are only elements at the top, else through a wrapper span
+    const topLevelNodes = ast.fragment.nodes
+    const renderedNodes = topLevelNodes.filter(
+      (node) =>
+        !HOISTED_NODE_TYPES.has(node.type) &&
+        !NON_RENDERED_NODE_TYPES.has(node.type) &&
+        !isWhitespace(node),
+    )
+    const rootElements = collectRootElements(renderedNodes)
+    const firstRendered = renderedNodes[0]
+    const lastRendered = renderedNodes[renderedNodes.length - 1]
+
+    if (rootElements) {
+      for (const element of rootElements) {
+        s.appendLeft(
+          element.start + 1 + element.name!.length,
+          ` ${ROOT_ATTRIBUTE}="${componentName}" use:__componentHighlighter.attach`,
+        )
+      }
+    } else if (firstRendered && lastRendered) {
+      const wrapStart = firstRendered.start
+      const wrapEnd = lastRendered.end
+
+      // Special elements and snippets must remain top-level: move them out
+      for (const node of topLevelNodes) {
+        if (
+          HOISTED_NODE_TYPES.has(node.type) &&
+          node.start > wrapStart &&
+          node.end < wrapEnd
+        ) {
+          s.appendLeft(node.end, '\n')
+          s.move(node.start, node.end, wrapStart)
+        }
+      }
+
+      s.prependRight(
+        wrapStart,
+        `<span style="display: contents" ${ANCHOR_ATTRIBUTE}="${componentName}" use:__componentHighlighter.attach>`,
+      )
+      s.appendLeft(wrapEnd, '</span>')
+    }
+
+    // 3. Create the tracker in the instance script
+    const trackerImport = `\nimport { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'\n`
+    const propsExpression = runes
+      ? getRunesPropsExpression(instanceContent)
+      : '{ ...$$props }'
+    const trackerSetup = `
+const __componentMeta = ${JSON.stringify(metaObject)}
+const __componentHighlighter = withComponentHighlighter(__componentMeta)
+${
+  runes
+    ? `$effect(() => {\n  __componentHighlighter.update(${propsExpression})\n})`
+    : `$: __componentHighlighter.update(${propsExpression})`
+}
+`
+
+    if (ast.instance) {
+      s.appendLeft(ast.instance.content.start, trackerImport)
+      s.appendLeft(ast.instance.content.end, trackerSetup)
+    } else {
+      // Match the module script's language
+      const moduleTag = ast.module
+        ? code.slice(ast.module.start, ast.module.content.start)
+        : ''
+      const lang = /\blang=["']ts["']/.test(moduleTag) ? ' lang="ts"' : ''
+      s.prepend(`<script${lang}>${trackerImport}${trackerSetup}</script>\n`)
+    }
+
+    return {
+      code: s.toString(),
+      map: s.generateMap({ source: id, includeContent: true, hires: true }),
+    }
+  } catch (error) {
+    console.warn(`[component-highlighter] Failed to transform ${id}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * List the component a `.svelte` file defines (one per file, as the default
+ * export)
+ */
+export const scanComponents: ComponentScanner = (code, id) => {
+  parseSvelte(code, { filename: id, modern: true })
+  return [{ componentName: getComponentName(id), isDefaultExport: true }]
+}
+
+/**
+ * Extract component name from file path
+ */
+function getComponentName(filePath: string): string {
+  const fileNameWithExt = path.basename(filePath)
+  return fileNameWithExt.replace(/\.svelte$/, '')
+}
+
+function isWhitespace(node: SvelteNode): boolean {
+  return node.type === 'Text' && !(node.data ?? '').trim()
+}
+
+/**
+ * The elements a component's markup renders at its root, looking into the
+ * branches of `{#if}`, `{#each}`, `{#key}` and `{#await}` blocks. Null if
+ * anything else renders at the root (a child component, text, `{@html}`,
+ * `{@render}`...), since there is no element to put the action on.
+ */
+function collectRootElements(nodes: SvelteNode[]): SvelteNode[] | null {
+  const elements: SvelteNode[] = []
+  for (const node of nodes) {
+    if (isWhitespace(node) || NON_RENDERED_NODE_TYPES.has(node.type)) continue
+    if (ELEMENT_NODE_TYPES.has(node.type)) {
+      elements.push(node)
+      continue
+    }
+    if (!BLOCK_NODE_TYPES.has(node.type)) return null
+
+    for (const branch of getChildNodes(node)) {
+      const branchElements = collectRootElements(branch)
+      if (!branchElements) return null
+      elements.push(...branchElements)
+    }
+  }
+  return elements
+}
+
+/**
+ * The `runes` compiler option of the project's Svelte config, as resolved by
+ * `@sveltejs/vite-plugin-svelte` (which exposes its options on its plugin API)
+ */
+function getConfiguredRunes(
+  config: ResolvedConfig | undefined,
+): boolean | undefined {
+  for (const plugin of config?.plugins ?? []) {
+    const runes = (
+      plugin as {
+        api?: { options?: { compilerOptions?: { runes?: unknown } } }
+      }
+    ).api?.options?.compilerOptions?.runes
+    if (typeof runes === 'boolean') return runes
+  }
+  return undefined
+}
+
+/**
+ * Build the object expression passed to the tracker in runes mode,
+ * mirroring the component's `$props()` destructuring so every prop is read
+ * (and therefore tracked) by the `$effect`.
+ */
+function getRunesPropsExpression(scriptContent: string): string {
+  if (!scriptContent.includes('$props')) return '{}'
+
+  let program: t.Program
+  try {
+    program = parseScript(scriptContent, {
+      sourceType: 'module',
+      plugins: ['typescript'],
+    }).program
+  } catch {
+    return '{}'
+  }
+
+  for (const statement of program.body) {
+    if (statement.type !== 'VariableDeclaration') continue
+
+    for (const declarator of statement.declarations) {
+      const init = declarator.init
+      if (
+        init?.type !== 'CallExpression' ||
+        init.callee.type !== 'Identifier' ||
+        init.callee.name !== '$props'
+      ) {
+        continue
+      }
+
+      if (declarator.id.type === 'Identifier') {
+        return `{ ...${declarator.id.name} }`
+      }
+      if (declarator.id.type !== 'ObjectPattern') return '{}'
+
+      const entries: string[] = []
+      for (const property of declarator.id.properties) {
+        if (property.type === 'RestElement') {
+          if (property.argument.type === 'Identifier') {
+            entries.push(`...${property.argument.name}`)
+          }
+          continue
+        }
+        if (property.computed) continue
+
+        const key =
+          property.key.type === 'Identifier'
+            ? property.key.name
+            : property.key.type === 'StringLiteral'
+              ? property.key.value
+              : null
+        const local =
+          property.value.type === 'Identifier'
+            ? property.value.name
+            : property.value.type === 'AssignmentPattern' &&
+                property.value.left.type === 'Identifier'
+              ? property.value.left.name
+              : null
+        if (!key || !local) continue
+
+        const formattedKey = /^[A-Za-z_$][\w$]*$/.test(key)
+          ? key
+          : JSON.stringify(key)
+        entries.push(key === local ? key : `${formattedKey}: ${local}`)
+      }
+
+      return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}'
+    }
+  }
+
+  return '{}'
+}
+
+function createMarker(
+  attribute: string,
+  snippetName: string,
+  ownerName: string,
+): string {
+  return `<template ${attribute}="${snippetName}" ${SNIPPET_OWNER_ATTRIBUTE}="${ownerName}"></template>`
+}
+
+/**
+ * Bracket the children and snippets passed to child components with
+ * start/end markers, recursing through the whole markup tree
+ */
+function insertSnippetMarkers(s: MagicString, nodes: SvelteNode[]): void {
+  for (const node of nodes) {
+    if (node.type === 'Component' && node.name && node.fragment) {
+      const ownerName = node.name
+      const childNodes = node.fragment.nodes
+
+      // Implicit `children` content: everything that is not a snippet block
+      const contentNodes = childNodes.filter(
+        (child) => child.type !== 'SnippetBlock' && !isWhitespace(child),
+      )
+      const firstContent = contentNodes[0]
+      const lastContent = contentNodes[contentNodes.length - 1]
+      if (firstContent && lastContent) {
+        s.appendLeft(
+          firstContent.start,
+          createMarker(SNIPPET_START_ATTRIBUTE, 'children', ownerName),
+        )
+        s.appendLeft(
+          lastContent.end,
+          createMarker(SNIPPET_END_ATTRIBUTE, 'children', ownerName),
+        )
+      }
+
+      // Named snippets: `{#snippet header()}...{/snippet}`
+      for (const child of childNodes) {
+        if (child.type !== 'SnippetBlock' || !child.expression?.name) continue
+        const bodyNodes = (child.body?.nodes ?? []).filter(
+          (bodyNode) => !isWhitespace(bodyNode),
+        )
+        const firstBody = bodyNodes[0]
+        const lastBody = bodyNodes[bodyNodes.length - 1]
+        if (!firstBody || !lastBody) continue
+
+        const snippetName = child.expression.name
+        s.appendLeft(
+          firstBody.start,
+          createMarker(SNIPPET_START_ATTRIBUTE, snippetName, ownerName),
+        )
+        s.appendLeft(
+          lastBody.end,
+          createMarker(SNIPPET_END_ATTRIBUTE, snippetName, ownerName),
+        )
+      }
+    }
+
+    for (const child of getChildNodes(node)) {
+      insertSnippetMarkers(s, child)
+    }
+  }
+}
+
+/**
+ * Collect the nested fragments of a node (element children, block branches)
+ */
+function getChildNodes(node: SvelteNode): SvelteNode[][] {
+  const fragments: SvelteNode[][] = []
+  for (const value of Object.values(node)) {
+    if (
+      value &&
+      typeof value === 'object' &&
+      Array.isArray((value as { nodes?: unknown }).nodes)
+    ) {
+      fragments.push((value as { nodes: SvelteNode[] }).nodes)
+    }
+  }
+  return fragments
+}
+
+/**
+ * Detect if a file is a Svelte component source file
+ */
+export function detectSvelte(code: string, id: string): boolean {
+  // Check file extension
+  if (!id.endsWith('.svelte')) {
+    return false
+  }
+
+  // Skip code that another plugin already compiled to JavaScript
+  return !code.includes('svelte/internal/')
+}
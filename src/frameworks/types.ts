@@ -5,6 +5,12 @@
  * These types define the contract that each framework implementation must fulfill.
  */
 
+import type { ResolvedConfig, Rollup } from 'vite'
+import type {
+  StoryGenerationData,
+  GeneratedStory,
+} from '../utils/story-generator'
+
 /**
  * Metadata about a component, injected at build time
  */
@@ -19,6 +25,8 @@ export interface ComponentMeta {
   sourceId: string
   /** Whether this is the default export */
   isDefaultExport: boolean
+  /** Custom element tag name (web components only) */
+  tagName?: string
   /** Source line number (optional) */
   line?: number
   /** Source column number (optional) */
@@ -63,11 +71,168 @@ export interface FunctionSerializedValue {
   name: string
 }
 
+/**
+ * Serialized `Date` (for story generation)
+ */
+export interface DateSerializedValue {
+  __isDate: true
+  /** ISO timestamp, or null for an invalid date */
+  iso: string | null
+}
+
+/**
+ * Serialized `Map`, keys and values serialized in turn
+ */
+export interface MapSerializedValue {
+  __isMap: true
+  entries: Array<[unknown, unknown]>
+}
+
+/**
+ * Serialized `Set`, values serialized in turn
+ */
+export interface SetSerializedValue {
+  __isSet: true
+  values: unknown[]
+}
+
+/**
+ * Serialized `bigint` (RPC payloads are JSON)
+ */
+export interface BigIntSerializedValue {
+  __isBigInt: true
+  /** Decimal digits */
+  value: string
+}
+
+/**
+ * Serialized `RegExp`
+ */
+export interface RegExpSerializedValue {
+  __isRegExp: true
+  source: string
+  flags: string
+}
+
+/**
+ * Serialized `URL`
+ */
+export interface URLSerializedValue {
+  __isURL: true
+  href: string
+}
+
+/**
+ * Serialized typed array (`Uint8Array`, `Float32Array`...)
+ */
+export interface TypedArraySerializedValue {
+  __isTypedArray: true
+  /** Constructor name */
+  type: string
+  /** Elements; those of `BigInt64Array`/`BigUint64Array` as decimal strings */
+  values: Array<number | string>
+}
+
+/**
+ * Serialized instance of a user-defined class: its own enumerable properties
+ */
+export interface ClassInstanceSerializedValue {
+  __isClassInstance: true
+  /** Constructor name */
+  className: string
+  properties: Record<string, unknown>
+}
+
+/**
+ * A value that can't be written to a story (symbols, DOM nodes, promises,
+ * other built-ins without a literal form)
+ */
+export interface UnsupportedSerializedValue {
+  __isUnsupported: true
+  /** Type or constructor name, for error messages */
+  type: string
+}
+
+/**
+ * Serialized built-in or class instance value
+ */
+export type RichSerializedValue =
+  | DateSerializedValue
+  | MapSerializedValue
+  | SetSerializedValue
+  | BigIntSerializedValue
+  | RegExpSerializedValue
+  | URLSerializedValue
+  | TypedArraySerializedValue
+  | ClassInstanceSerializedValue
+  | UnsupportedSerializedValue
+
+/**
+ * First occurrence of an object the props reference more than once. Stories
+ * declare it as a `const` fixture the other occurrences refer to.
+ */
+export interface SharedSerializedValue {
+  __isShared: true
+  id: number
+  /** Fixture name hint: the prop or property key it was first found under */
+  name: string
+  value: unknown
+}
+
+/**
+ * Another occurrence of a shared object
+ */
+export interface SharedRefSerializedValue {
+  __isSharedRef: true
+  id: number
+  /** Fixture name, set when the story generator hoists the shared object */
+  name?: string
+}
+
+/**
+ * A reference back to an object that contains it (parent pointers, stores
+ * referencing themselves)
+ */
+export interface CircularSerializedValue {
+  __isCircular: true
+}
+
+/**
+ * A value past the serializer's depth or size limit
+ */
+export interface TruncatedSerializedValue {
+  __isTruncated: true
+  reason: 'depth' | 'size'
+}
+
+/**
+ * An arg moved to the component's fixtures module, imported by name
+ */
+export interface FixtureRefSerializedValue {
+  __isFixtureRef: true
+  name: string
+}
+
+/**
+ * Serialized object graph references and cut-off values
+ */
+export type ReferenceSerializedValue =
+  | SharedSerializedValue
+  | SharedRefSerializedValue
+  | FixtureRefSerializedValue
+  | CircularSerializedValue
+  | TruncatedSerializedValue
+
 /**
  * Serialized props object
  */
 export interface SerializedProps {
-  [key: string]: JSXSerializedValue | FunctionSerializedValue | unknown
+  [key: string]:
+    | JSXSerializedValue
+    | FunctionSerializedValue
+    | RichSerializedValue
+    | ReferenceSerializedValue
+    | unknown
 }
 
 /**
@@ -84,11 +249,39 @@ export interface HighlighterOptions {
   debugMode?: boolean
 }
 
+/**
+ * Transformed code with its source map, so instrumented files keep accurate
+ * stack traces and breakpoints
+ */
+export interface TransformOutput {
+  code: string
+  map: Rollup.SourceMapInput
+}
+
+/**
+ * What a transform can read besides the file itself
+ */
+export interface TransformContext {
+  /** The resolved Vite config */
+  config: ResolvedConfig
+}
+
 /**
  * Transform function signature
- * Takes source code and file ID, returns transformed code or undefined
+ * Takes source code and file ID, returns transformed code (optionally with a
+ * source map) or undefined
+ */
+export type TransformFunction = (
+  code: string,
+  id: string,
+  context?: TransformContext,
+) => string | TransformOutput | undefined
+
+/**
+ * Story generator signature
+ * Takes captured component data, returns the story file content
  */
-export type TransformFunction = (code: string, id: string) => string | undefined
+export type StoryGenerator = (data: StoryGenerationData) => GeneratedStory
 
 /**
  * Framework detection function signature
@@ -96,6 +289,57 @@ export type TransformFunction = (code: string, id: string) => string | undefined
  */
 export type FrameworkDetector = (code: string, id: string) => boolean
 
+/**
+ * A component found by statically scanning a file
+ */
+export interface ScannedComponent {
+  /** The component's display name, as the transform would report it */
+  componentName: string
+  /** Whether this is the default export */
+  isDefaultExport: boolean
+}
+
+/**
+ * Component scanner signature
+ * Lists the components the transform would instrument in a file, without
+ * transforming it
+ */
+export type ComponentScanner = (code: string, id: string) => ScannedComponent[]
+
+/**
+ * A Storybook control for one prop, read from the component's props type
+ */
+export interface ComponentArgType {
+  /** Prop name */
+  name: string
+  /** `action` wires the prop to the Actions panel instead of a control */
+  control: 'select' | 'boolean' | 'number' | 'text' | 'object' | 'action'
+  /** Options of a `select` control */
+  options?: Array<string | number | boolean>
+  /** The prop's JSDoc description */
+  description?: string
+}
+
+/**
+ * Arg types extractor signature
+ * Reads the props type of a component found in a file
+ */
+export type ArgTypesExtractor = (
+  code: string,
+  id: string,
+  component: ScannedComponent,
+) => ComponentArgType[]
+
+/**
+ * Prop defaults extractor signature
+ * Reads the static default values of a component's props, by prop name
+ */
+export type PropDefaultsExtractor = (
+  code: string,
+  id: string,
+  component: ScannedComponent,
+) => Record<string, unknown>
+
 /**
  * Framework configuration
  */
@@ -110,12 +354,46 @@ export interface FrameworkConfig {
   detect: FrameworkDetector
   /** Transform function for this framework */
   transform: TransformFunction
-  /** Path (without extension) to the runtime module entry */
+  /**
+   * Runtime module entry: a path without extension relative to this package's
+   * `src`/`dist` folders for built-in frameworks, or an absolute file path
+   * for third-party adapters
+   */
   runtimeModuleFile: string
   /** Virtual module ID for imports */
   virtualModuleId: string
-  /** Storybook framework package name */
+  /**
+   * Storybook framework package name (e.g. `@storybook/react-vite`), which
+   * generated stories import their `Meta` and `StoryObj` types from
+   */
   storybookFramework: string
+  /**
+   * Module the framework's `ComponentProps` type is imported from, which
+   * types the exports of TS fixtures modules; frameworks without one write
+   * them untyped
+   */
+  componentPropsSource?: string
+  /** Extension of generated story files, without the leading dot */
+  storyFileExtension: string
+  /** Lazily load the story generator (keeps it out of the plugin's startup path) */
+  loadStoryGenerator: () => Promise<StoryGenerator>
+  /** Dependencies the runtime module needs pre-bundled by Vite */
+  optimizeDeps?: string[]
+  /**
+   * List a file's components for the project-wide inventory; frameworks
+   * without a scanner are left out of it
+   */
+  scanComponents?: ComponentScanner
+  /**
+   * Read a component's prop types for the `argTypes` of new stories;
+   * frameworks without an extractor generate stories without them
+   */
+  extractArgTypes?: ArgTypesExtractor
+  /**
+   * Read a component's default prop values, so story args equal to them
+   * are left out; frameworks without an extractor keep every arg
+   */
+  extractPropDefaults?: PropDefaultsExtractor
 }
 
 /**
@@ -5,7 +5,14 @@
  */
 
 import type { FrameworkConfig } from '../types'
-import { transform, detectVue, VIRTUAL_MODULE_ID } from './transform'
+import {
+  transform,
+  scanComponents,
+  extractArgTypes,
+  extractPropDefaults,
+  detectVue,
+  VIRTUAL_MODULE_ID,
+} from './transform'
 
 /**
  * Vue framework configuration
@@ -16,9 +23,15 @@ export const vueFramework: FrameworkConfig = {
   extensions: ['.vue'],
   detect: detectVue,
   transform,
+  scanComponents,
+  extractArgTypes,
+  extractPropDefaults,
   runtimeModuleFile: 'frameworks/vue/runtime-module',
   virtualModuleId: VIRTUAL_MODULE_ID,
   storybookFramework: '@storybook/vue3-vite',
+  storyFileExtension: 'ts',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
 }
 
 // Re-export for convenience
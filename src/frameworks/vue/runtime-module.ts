@@ -5,10 +5,15 @@ import {
   onUpdated,
   onUnmounted,
   getCurrentInstance,
+  isRef,
 } from 'vue'
 import {
   cleanupInstanceTracking,
+  exposeComponentRegistry,
   findFirstTrackableElement,
+  serializeGuardedValue,
+  serializePropValues,
+  serializeRichValue,
   syncInstanceTracking,
 } from 'virtual:component-highlighter/runtime-helpers'
 import { serializeVNodeToTemplate } from './vnode-to-template'
@@ -52,13 +57,7 @@ function generateInstanceId(sourceId: string) {
  * Serialize props, handling Vue reactive objects
  */
 function serializeProps(props: Record<string, unknown>) {
-  const serialized: Record<string, unknown> = {}
-
-  for (const [key, value] of Object.entries(props)) {
-    serialized[key] = serializeValue(value)
-  }
-
-  return serialized
+  return serializePropValues(props, serializeValue)
 }
 
 function toListenerPropName(eventName: string): string {
@@ -132,7 +131,7 @@ function extractSlotArgs(instance: {
       const slotResult = slotFn({})
       const { source, componentRefs } = serializeVNodeToTemplate(
         slotResult,
-        serializeValue,
+        (value) => serializeGuardedValue(value, serializeValue),
       )
 
       slotArgs[`slot:${slotName}`] = source
@@ -204,28 +203,23 @@ function getStoryProps(
 /**
  * Serialize a single value
  */
-function serializeValue(value: unknown): unknown {
-  // Handle Vue reactive objects
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
+  // Refs passed as props stand for their value
+  if (isRef(value)) {
+    return serializeNested((value as { value: unknown }).value)
+  }
+
+  // Handle arrays and plain objects (reactive proxies included)
   if (value && typeof value === 'object') {
-    if (typeof (value as { toJSON?: () => unknown }).toJSON === 'function') {
-      // Vue ref or reactive object
-      try {
-        return JSON.parse(
-          JSON.stringify(
-            (value as { toJSON?: () => unknown }).toJSON?.() ?? value,
-          ),
-        )
-      } catch {
-        return undefined
-      }
-    } else if (Array.isArray(value)) {
-      // Handle arrays
-      return value.map((item) => serializeValue(item))
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeNested(item))
     } else if ((value as { constructor?: unknown }).constructor === Object) {
-      // Plain objects
       const serialized: Record<string, unknown> = {}
       for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-        serialized[k] = serializeValue(v)
+        serialized[k] = serializeNested(v)
       }
       return serialized
     }
@@ -239,6 +233,10 @@ function serializeValue(value: unknown): unknown {
     }
   }
 
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
   // Primitives pass through
   return value
 }
@@ -322,13 +320,7 @@ export function getComponentRegistry() {
 }
 
 // Expose registry getter globally for story generation
-if (typeof window !== 'undefined') {
-  ;(
-    window as unknown as {
-      __componentHighlighterGetRegistry?: () => Map<string, string>
-    }
-  ).__componentHighlighterGetRegistry = getComponentRegistry
-}
+exposeComponentRegistry(getComponentRegistry)
 
 /**
  * Track a Vue component instance with the highlighter
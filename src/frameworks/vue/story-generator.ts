@@ -2,7 +2,7 @@
  * Vue-specific story generation
  */
 
-import type { SerializedProps } from '../types'
+import type { ComponentArgType, SerializedProps } from '../types'
 import * as path from 'path'
 import {
   type StoryGenerationData,
@@ -13,10 +13,20 @@ import {
   hasAnyFunctionProps,
   collectComponentRefs,
   generateArgsContent,
+  hoistSharedValues,
   formatPlayFunctionForStory,
+  formatStoryExport,
+  formatCsf3Meta,
+  formatArgTypes,
+  getStoryFileExtension,
+  type StoryLanguage,
   extractStorybookTestImports,
-  escapeRegex,
 } from '../../utils/story-generator'
+import {
+  appendStoryToFile,
+  toStoryFileImport,
+  type AppendedStory,
+} from '../../utils/story-file-editor'
 
 function splitVueSlotArgs(props: SerializedProps): {
   componentArgs: SerializedProps
@@ -139,6 +149,7 @@ function buildVueRenderContent(
 /**
  * Generate a Vue story file from component data
  * Vue-specific: imports include .vue extension, uses @storybook/vue3-vite
+ * unless the framework config names another package
  */
 export function generateStory(data: StoryGenerationData): GeneratedStory {
   const {
@@ -150,16 +161,21 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
     playFunction,
     playImports,
   } = data
+  const language = data.language ?? 'ts'
   const { componentName, filePath, isDefaultExport } = meta
 
   // Calculate paths
   const componentDir = path.dirname(filePath)
   const componentFileName = path.basename(filePath, path.extname(filePath))
   // Vue uses .stories.ts instead of .stories.tsx
-  const storyFilePath = path.join(
-    componentDir,
-    `${componentFileName}.stories.ts`,
-  )
+  const storyFilePath =
+    data.storyFilePath ??
+    path.join(
+      componentDir,
+      `${componentFileName}.stories.${getStoryFileExtension('ts', language)}`,
+    )
+  // Imports are relative to where the story file is written
+  const storyDir = path.dirname(storyFilePath)
 
   // Determine story name
   let storyName = customStoryName || generateStoryName(props)
@@ -178,7 +194,7 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
   // Main component import - Vue requires .vue extension
   imports.push({
     name: isDefaultExport ? componentName : `{ ${componentName} }`,
-    path: `./${componentFileName}.vue`,
+    path: getRelativeImportPath(storyDir, filePath),
   })
 
   // Referenced components - also need .vue extension
@@ -188,7 +204,7 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
 
       const refFilePath = componentRegistry.get(refName)
       if (refFilePath) {
-        const refRelativePath = getRelativeImportPath(componentDir, refFilePath)
+        const refRelativePath = getRelativeImportPath(storyDir, refFilePath)
         // Add .vue extension if not already there
         const refImportPath = refRelativePath.endsWith('.vue')
           ? refRelativePath
@@ -211,6 +227,7 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
       props,
       imports,
       componentName,
+      language,
     }
     if (componentRegistry) {
       appendOptions.componentRegistry = componentRegistry
@@ -221,7 +238,9 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
     if (playImports) {
       appendOptions.playImports = playImports
     }
-    content = appendStoryToExisting(appendOptions)
+    const appended = appendStoryToExisting(appendOptions)
+    content = appended.content
+    storyName = appended.storyName
   } else {
     const contentOptions: Parameters<typeof generateStoryContent>[0] = {
       componentName,
@@ -229,6 +248,8 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
       props,
       isDefaultExport,
       storyName,
+      language,
+      storybookPackage: data.storybookFramework ?? '@storybook/vue3-vite',
     }
     if (componentRegistry) {
       contentOptions.componentRegistry = componentRegistry
@@ -239,6 +260,16 @@ export function generateStory(data: StoryGenerationData): GeneratedStory {
     if (playImports) {
       contentOptions.playImports = playImports
     }
+    if (data.outputFormat === 'csf-factories') {
+      contentOptions.previewImportPath = getRelativeImportPath(
+        storyDir,
+        data.previewFilePath ??
+          path.join(process.cwd(), '.storybook', 'preview.ts'),
+      )
+    }
+    if (data.argTypes) {
+      contentOptions.argTypes = data.argTypes
+    }
     content = generateStoryContent(contentOptions)
   }
 
@@ -262,6 +293,12 @@ function generateStoryContent(options: {
   componentRegistry?: Map<string, string>
   playFunction?: string[]
   playImports?: string[]
+  /** Write CSF Factories, with `preview.meta()` imported from this path */
+  previewImportPath?: string
+  language: StoryLanguage
+  /** Storybook framework package `Meta` and `StoryObj` come from */
+  storybookPackage: string
+  argTypes?: ComponentArgType[]
 }): string {
   const {
     componentName,
@@ -270,6 +307,10 @@ function generateStoryContent(options: {
     storyName,
     playFunction,
     playImports,
+    previewImportPath,
+    language,
+    storybookPackage,
+    argTypes,
   } = options
 
   const { componentArgs, slotArgs } = splitVueSlotArgs(props)
@@ -292,18 +333,21 @@ function generateStoryContent(options: {
       ? `import { ${[...storybookTestNames].join(', ')} } from 'storybook/test';`
       : null
 
-  // Build imports - Vue uses @storybook/vue3-vite
+  // Build imports
   const importStatements = [
-    `import type { Meta, StoryObj } from '@storybook/vue3-vite';`,
+    ...(previewImportPath
+      ? [`import preview from '${previewImportPath}';`]
+      : language === 'ts'
+        ? [`import type { Meta, StoryObj } from '${storybookPackage}';`]
+        : []),
     ...(storybookTestImport ? [storybookTestImport] : []),
     ...imports.map((imp) => `import ${imp.name} from '${imp.path}';`),
   ].join('\n')
 
-  const argsContent = generateArgsContent(
-    componentArgs,
-    1,
-    options.componentRegistry,
-  )
+  const { props: args, fixtures } = hoistSharedValues(componentArgs, {
+    componentRegistry: options.componentRegistry,
+  })
+  const argsContent = generateArgsContent(args, 1, options.componentRegistry)
   const hasArgs = Object.keys(componentArgs).length > 0
 
   // Collect slot component refs for the render function
@@ -320,18 +364,32 @@ function generateStoryContent(options: {
     ? `\n${formatPlayFunctionForStory(playFunction!)}`
     : ''
 
-  return `${importStatements}
+  const storyBody = `${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`
+
+  if (previewImportPath) {
+    return `${importStatements}
 
-const meta: Meta<typeof ${componentName}> = {
-  component: ${componentName},
-};
+const meta = preview.meta({
+  component: ${componentName},${formatArgTypes(argTypes)}
+});
+${fixtures}${formatStoryExport(storyName, storyBody, { metaFactory: 'meta' })}`
+  }
+
+  const metaContent = formatCsf3Meta({
+    component: componentName,
+    typeArgument: `typeof ${componentName}`,
+    storybookPackage,
+    language,
+    argTypes,
+  })
+  const storyExport = formatStoryExport(storyName, storyBody, {
+    storyType: language === 'ts' ? 'annotation' : 'jsdoc',
+  })
 
-export default meta;
-type Story = StoryObj<typeof ${componentName}>;
+  return `${importStatements}
 
-export const ${storyName}: Story = {${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}
-};
-`
+${metaContent}
+${fixtures}${storyExport}`
 }
 
 /**
@@ -346,7 +404,8 @@ function appendStoryToExisting(options: {
   componentRegistry?: Map<string, string>
   playFunction?: string[]
   playImports?: string[]
-}): string {
+  language: StoryLanguage
+}): AppendedStory {
   const {
     existingContent,
     storyName,
@@ -354,136 +413,23 @@ function appendStoryToExisting(options: {
     imports,
     playFunction,
     playImports,
+    language,
   } = options
   const { componentArgs, slotArgs } = splitVueSlotArgs(props)
 
-  let finalStoryName = storyName
-  const storyExportRegex = /export\s+const\s+(\w+)\s*[=:]/g
-  const existingStories = new Set<string>()
-  let match
-  while ((match = storyExportRegex.exec(existingContent ?? '')) !== null) {
-    if (match[1]) {
-      existingStories.add(match[1])
-    }
-  }
-
-  if (existingStories.has(finalStoryName)) {
-    let counter = 2
-    while (existingStories.has(`${storyName}${counter}`)) {
-      counter++
-    }
-    finalStoryName = `${storyName}${counter}`
-  }
-
-  let updatedContent = existingContent
-
-  // Handle fn import
-  const needsFnImport = hasAnyFunctionProps(componentArgs)
-  if (needsFnImport && !existingContent.includes("from 'storybook/test'")) {
-    const lastImportMatch = updatedContent.match(
-      /^(import\s+.+from\s+['"][^'"]+['"];?\s*\n)+/m,
-    )
-    if (lastImportMatch) {
-      const insertPos = lastImportMatch.index! + lastImportMatch[0].length
-      updatedContent =
-        updatedContent.slice(0, insertPos) +
-        `import { fn } from 'storybook/test';\n` +
-        updatedContent.slice(insertPos)
-    }
-  } else if (
-    needsFnImport &&
-    existingContent.includes("from 'storybook/test'") &&
-    !existingContent.includes('fn')
-  ) {
-    updatedContent = updatedContent.replace(
-      /import\s*\{([^}]+)\}\s*from\s*['"]storybook\/test['"]/,
-      (_match, existingImports) =>
-        `import { ${existingImports.trim()}, fn } from 'storybook/test'`,
-    )
-  }
-
-  // Handle component imports
-  for (const imp of imports) {
-    const importName = imp.name.replace(/[{}]/g, '').trim()
-    if (
-      !existingContent.includes(importName) ||
-      !existingContent.includes(imp.path)
-    ) {
-      const samePathRegex = new RegExp(
-        `import\\s*\\{([^}]+)\\}\\s*from\\s*['"]${escapeRegex(imp.path)}['"]`,
-      )
-      const samePathMatch = updatedContent.match(samePathRegex)
-
-      if (samePathMatch && samePathMatch[1] && imp.name.startsWith('{')) {
-        const existingNames = samePathMatch[1]
-        if (!existingNames.includes(importName)) {
-          const newNames = `${existingNames.trim()}, ${importName}`
-          updatedContent = updatedContent.replace(
-            samePathMatch[0],
-            `import { ${newNames} } from '${imp.path}'`,
-          )
-        }
-      } else if (
-        !samePathMatch &&
-        !existingContent.includes(`from '${imp.path}'`)
-      ) {
-        const lastImportMatch = updatedContent.match(
-          /^(import\s+.+from\s+['"][^'"]+['"];?\s*\n)+/m,
-        )
-        if (lastImportMatch) {
-          const insertPos = lastImportMatch.index! + lastImportMatch[0].length
-          const newImport = `import ${imp.name} from '${imp.path}';\n`
-          updatedContent =
-            updatedContent.slice(0, insertPos) +
-            newImport +
-            updatedContent.slice(insertPos)
-        }
-      }
-    }
-  }
-
-  // Handle play imports
-  if (playImports && playImports.length > 0) {
-    for (const playImport of playImports) {
-      const newNames = extractStorybookTestImports(playImport)
-      if (newNames.length > 0) {
-        const existingMatch = updatedContent.match(
-          /import\s*\{([^}]+)\}\s*from\s*['"]storybook\/test['"]/,
-        )
-        if (existingMatch && existingMatch[1]) {
-          const existingNames = existingMatch[1]
-            .split(',')
-            .map((s) => s.trim())
-            .filter(Boolean)
-          const mergedNames = [
-            ...new Set([...existingNames, ...newNames]),
-          ].join(', ')
-          updatedContent = updatedContent.replace(
-            existingMatch[0],
-            `import { ${mergedNames} } from 'storybook/test'`,
-          )
-        } else {
-          const lastImportMatch = updatedContent.match(
-            /^(import\s+.+from\s+['"][^'"]+['"];?\s*\n)+/m,
-          )
-          if (lastImportMatch) {
-            const insertPos = lastImportMatch.index! + lastImportMatch[0].length
-            updatedContent =
-              updatedContent.slice(0, insertPos) +
-              `${playImport}\n` +
-              updatedContent.slice(insertPos)
-          }
-        }
-      }
+  const storybookTestNames = new Set<string>()
+  if (hasAnyFunctionProps(componentArgs)) storybookTestNames.add('fn')
+  for (const playImport of playImports ?? []) {
+    for (const name of extractStorybookTestImports(playImport)) {
+      storybookTestNames.add(name)
     }
   }
 
-  // Generate new story
-  const argsContent = generateArgsContent(
-    componentArgs,
-    1,
-    options.componentRegistry,
-  )
+  const { props: args, fixtures } = hoistSharedValues(componentArgs, {
+    existingContent,
+    componentRegistry: options.componentRegistry,
+  })
+  const argsContent = generateArgsContent(args, 1, options.componentRegistry)
   const hasArgs = Object.keys(componentArgs).length > 0
 
   // Collect slot component refs for the render function
@@ -499,10 +445,22 @@ function appendStoryToExisting(options: {
   const playContent = hasPlay
     ? `\n${formatPlayFunctionForStory(playFunction!)}`
     : ''
-  const newStory = `
-export const ${finalStoryName}: Story = {${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}
-};
-`
 
-  return updatedContent.trimEnd() + '\n' + newStory
+  return appendStoryToFile({
+    existingContent,
+    storyName,
+    imports: [
+      ...(storybookTestNames.size > 0
+        ? [{ source: 'storybook/test', names: [...storybookTestNames] }]
+        : []),
+      ...imports.map(toStoryFileImport),
+    ],
+    language,
+    createStory: (finalStoryName, style) =>
+      `${fixtures}${formatStoryExport(
+        finalStoryName,
+        `${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`,
+        style,
+      )}`,
+  })
 }
@@ -5,9 +5,26 @@
  * with the component highlighter wrapper.
  */
 
-import { parse as parseVue } from '@vue/compiler-sfc'
-import type { TransformFunction } from '../types'
+import { parse as parseVue, type SFCDescriptor } from '@vue/compiler-sfc'
+import MagicString from 'magic-string'
+import type * as t from '@babel/types'
+import type {
+  ArgTypesExtractor,
+  ComponentScanner,
+  PropDefaultsExtractor,
+  TransformFunction,
+  TransformOutput,
+} from '../types'
 import * as path from 'path'
+import {
+  parseComponentSource,
+  resolvePropsArgTypes,
+} from '../../utils/arg-types'
+import {
+  evaluateStaticValue,
+  getPropertyKey,
+  readPatternDefaults,
+} from '../../utils/prop-defaults'
 
 /**
  * Simple hash function for generating source IDs
@@ -33,7 +50,7 @@ export const VIRTUAL_MODULE_ID = 'virtual:component-highlighter/vue-runtime'
 export const transform: TransformFunction = (
   code: string,
   id: string,
-): string | undefined => {
+): TransformOutput | undefined => {
   try {
     // Parse the Vue SFC
     const { descriptor } = parseVue(code, { filename: id })
@@ -47,8 +64,10 @@ export const transform: TransformFunction = (
     const relativeFilePath = path.relative(process.cwd(), id)
     const sourceId = createHash(id)
 
-    // Generate the wrapper component
-    const transformedCode = generateWrappedComponent(
+    // Edit the SFC in place so every other block keeps its original position
+    const s = new MagicString(code)
+    injectHighlighterSetup(
+      s,
       descriptor,
       componentName,
       sourceId,
@@ -56,13 +75,236 @@ export const transform: TransformFunction = (
       relativeFilePath,
     )
 
-    return transformedCode
+    return {
+      code: s.toString(),
+      map: s.generateMap({ source: id, includeContent: true, hires: true }),
+    }
   } catch (error) {
     console.warn(`[component-highlighter] Failed to transform ${id}:`, error)
     return undefined
   }
 }
 
+/**
+ * List the component an SFC defines (one per file, as the default export)
+ */
+export const scanComponents: ComponentScanner = (code, id) => {
+  const { descriptor } = parseVue(code, { filename: id })
+  if (!descriptor.script && !descriptor.scriptSetup) {
+    return []
+  }
+  return [{ componentName: getComponentName(id), isDefaultExport: true }]
+}
+
+/**
+ * Read the arg types of an SFC from its `defineProps<Props>()` type,
+ * `withDefaults()` included. Runtime prop declarations are not read.
+ */
+export const extractArgTypes: ArgTypesExtractor = (code, id) => {
+  const { descriptor } = parseVue(code, { filename: id })
+  if (!descriptor.scriptSetup) {
+    return []
+  }
+
+  const { program } = parseComponentSource(descriptor.scriptSetup.content, id)
+  const propsType = findDefineProps(program)?.call.typeParameters?.params[0]
+  return propsType ? resolvePropsArgTypes(program, propsType, id) : []
+}
+
+/**
+ * Read the default prop values of an SFC: `withDefaults()`, destructuring
+ * defaults and runtime `default`s of `<script setup>`, or the `props` option
+ * of an Options API component. Boolean props without a default are `false`
+ * when absent, as Vue casts them.
+ */
+export const extractPropDefaults: PropDefaultsExtractor = (code, id) => {
+  const { descriptor } = parseVue(code, { filename: id })
+  const script = descriptor.scriptSetup ?? descriptor.script
+  if (!script) {
+    return {}
+  }
+
+  const { program } = parseComponentSource(script.content, id)
+  if (!descriptor.scriptSetup) {
+    return readRuntimePropDefaults(findPropsOption(program))
+  }
+
+  const defineProps = findDefineProps(program)
+  if (!defineProps) {
+    return {}
+  }
+
+  const { call, withDefaults, pattern } = defineProps
+  const propsType = call.typeParameters?.params[0]
+  const castDefaults: Record<string, unknown> = {}
+  if (propsType) {
+    for (const argType of resolvePropsArgTypes(program, propsType, id)) {
+      if (argType.control === 'boolean') castDefaults[argType.name] = false
+    }
+  }
+
+  const declaredDefaults: Record<string, unknown> = {}
+  if (withDefaults?.type === 'ObjectExpression') {
+    for (const property of withDefaults.properties) {
+      if (property.type !== 'ObjectProperty') continue
+      const key = getPropertyKey(property)
+      const evaluated = evaluateDefaultValue(property.value)
+      if (key !== null && evaluated) declaredDefaults[key] = evaluated.value
+    }
+  }
+
+  return {
+    ...castDefaults,
+    ...(propsType ? {} : readRuntimePropDefaults(call.arguments[0])),
+    ...declaredDefaults,
+    ...readPatternDefaults(pattern),
+  }
+}
+
+/**
+ * The top-level `defineProps()` call of `<script setup>`, with the defaults
+ * object of a wrapping `withDefaults()` and the pattern it is destructured to
+ */
+function findDefineProps(program: t.Program): {
+  call: t.CallExpression
+  withDefaults: t.Node | undefined
+  pattern: t.Node | undefined
+} | null {
+  const fromCall = (
+    node: t.Node | null | undefined,
+  ): { call: t.CallExpression; withDefaults: t.Node | undefined } | null => {
+    if (node?.type !== 'CallExpression' || node.callee.type !== 'Identifier') {
+      return null
+    }
+    if (node.callee.name === 'withDefaults') {
+      const inner = fromCall(node.arguments[0])
+      return inner && { call: inner.call, withDefaults: node.arguments[1] }
+    }
+    if (node.callee.name === 'defineProps') {
+      return { call: node, withDefaults: undefined }
+    }
+    return null
+  }
+
+  for (const statement of program.body) {
+    if (statement.type === 'ExpressionStatement') {
+      const found = fromCall(statement.expression)
+      if (found) return { ...found, pattern: undefined }
+    }
+    if (statement.type === 'VariableDeclaration') {
+      for (const declarator of statement.declarations) {
+        const found = fromCall(declarator.init)
+        if (found) return { ...found, pattern: declarator.id }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * The `props` option of `export default { ... }` or
+ * `export default defineComponent({ ... })`
+ */
+function findPropsOption(program: t.Program): t.Node | undefined {
+  for (const statement of program.body) {
+    if (statement.type !== 'ExportDefaultDeclaration') continue
+    let options: t.Node = statement.declaration
+    if (
+      options.type === 'CallExpression' &&
+      options.callee.type === 'Identifier' &&
+      options.callee.name === 'defineComponent' &&
+      options.arguments[0]
+    ) {
+      options = options.arguments[0]
+    }
+    if (options.type !== 'ObjectExpression') return undefined
+
+    const propsProperty = options.properties.find(
+      (property): property is t.ObjectProperty =>
+        property.type === 'ObjectProperty' &&
+        getPropertyKey(property) === 'props',
+    )
+    return propsProperty?.value
+  }
+  return undefined
+}
+
+/**
+ * Whether a runtime prop type (`Boolean`, `[Boolean, String]`) includes Boolean
+ */
+function isBooleanPropType(node: t.Node | undefined): boolean {
+  if (node?.type === 'Identifier') return node.name === 'Boolean'
+  if (node?.type === 'ArrayExpression') {
+    return node.elements.some(
+      (element) => element?.type === 'Identifier' && element.name === 'Boolean',
+    )
+  }
+  return false
+}
+
+/**
+ * A prop default: a static value, or the object/array a factory returns
+ */
+function evaluateDefaultValue(node: t.Node): { value: unknown } | null {
+  if (
+    node.type === 'ArrowFunctionExpression' ||
+    node.type === 'FunctionExpression'
+  ) {
+    let returned: t.Node | null | undefined = node.body
+    if (returned.type === 'BlockStatement') {
+      const [statement] = returned.body
+      returned =
+        returned.body.length === 1 && statement?.type === 'ReturnStatement'
+          ? statement.argument
+          : null
+    }
+    // Only object and array defaults are factories; other functions are the
+    // default of a Function prop itself
+    return returned?.type === 'ObjectExpression' ||
+      returned?.type === 'ArrayExpression'
+      ? evaluateStaticValue(returned)
+      : null
+  }
+  return evaluateStaticValue(node)
+}
+
+/**
+ * Defaults of a runtime props declaration (`{ size: { default: 'md' } }`)
+ */
+function readRuntimePropDefaults(
+  node: t.Node | null | undefined,
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {}
+  if (node?.type !== 'ObjectExpression') return defaults
+
+  for (const property of node.properties) {
+    if (property.type !== 'ObjectProperty') continue
+    const key = getPropertyKey(property)
+    if (key === null) continue
+
+    const { value } = property
+    if (value.type !== 'ObjectExpression') {
+      if (isBooleanPropType(value)) defaults[key] = false
+      continue
+    }
+
+    const option = (name: string) =>
+      value.properties.find(
+        (candidate): candidate is t.ObjectProperty =>
+          candidate.type === 'ObjectProperty' &&
+          getPropertyKey(candidate) === name,
+      )?.value
+    const defaultOption = option('default')
+    if (defaultOption) {
+      const evaluated = evaluateDefaultValue(defaultOption)
+      if (evaluated) defaults[key] = evaluated.value
+    } else if (isBooleanPropType(option('type'))) {
+      defaults[key] = false
+    }
+  }
+  return defaults
+}
+
 /**
  * Extract component name from file path
  */
@@ -73,32 +315,18 @@ function getComponentName(filePath: string): string {
 }
 
 /**
- * Generate the wrapped Vue component code
+ * Inject the highlighter setup at the top of `<script setup>`, or add a
+ * `<script setup>` block next to a plain `<script>` (Options API components).
+ * Template, styles and custom blocks are left untouched.
  */
-function generateWrappedComponent(
-  descriptor: any,
+function injectHighlighterSetup(
+  s: MagicString,
+  descriptor: SFCDescriptor,
   componentName: string,
   sourceId: string,
   filePath: string,
   relativeFilePath: string,
-): string {
-  // Get or create script setup block
-  const scriptSetupContent = descriptor.scriptSetup?.content || ''
-  const scriptLang =
-    descriptor.scriptSetup?.lang || descriptor.script?.lang || 'ts'
-
-  // Get template
-  const templateContent = descriptor.template?.content || ''
-
-  // Get styles
-  const styles = descriptor.styles
-    .map((style: any) => {
-      const scopedAttr = style.scoped ? ' scoped' : ''
-      const langAttr = style.lang ? ` lang="${style.lang}"` : ''
-      return `<style${scopedAttr}${langAttr}>${style.content}</style>`
-    })
-    .join('\n')
-
+): void {
   // Create metadata object
   const metaObject = {
     componentName,
@@ -108,26 +336,22 @@ function generateWrappedComponent(
     isDefaultExport: true,
   }
 
-  // Inject the highlighter setup into the script
-  const injectedSetup = `import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'
+  const injectedSetup = `
+import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'
 
 const __componentMeta = ${JSON.stringify(metaObject)}
 withComponentHighlighter(__componentMeta)
-
-${scriptSetupContent}`
-
-  // Generate new component with wrapper
-  const wrappedCode = `
-<script setup ${scriptLang === 'ts' ? 'lang="ts"' : ''}>${injectedSetup}</script>
-
-<template>
-  ${templateContent}
-</template>
-
-${styles}
 `
 
-  return wrappedCode
+  if (descriptor.scriptSetup) {
+    s.appendLeft(descriptor.scriptSetup.loc.start.offset, injectedSetup)
+    return
+  }
+
+  // Both script blocks of an SFC must use the same language
+  const scriptLang = descriptor.script?.lang
+  const langAttr = scriptLang ? ` lang="${scriptLang}"` : ''
+  s.append(`\n<script setup${langAttr}>${injectedSetup}</script>\n`)
 }
 
 /**
@@ -0,0 +1,38 @@
+/**
+ * Web Components Framework Configuration
+ *
+ * Exports the custom elements implementation (Lit or native) for the component highlighter.
+ */
+
+import type { FrameworkConfig } from '../types'
+import {
+  transform,
+  scanComponents,
+  detectWebComponents,
+  VIRTUAL_MODULE_ID,
+} from './transform'
+
+/**
+ * Web components framework configuration
+ */
+export const webComponentsFramework: FrameworkConfig = {
+  name: 'web-components',
+  displayName: 'Web Components',
+  extensions: ['.ts', '.js'],
+  detect: detectWebComponents,
+  transform,
+  scanComponents,
+  runtimeModuleFile: 'frameworks/web-components/runtime-module',
+  virtualModuleId: VIRTUAL_MODULE_ID,
+  storybookFramework: '@storybook/web-components-vite',
+  storyFileExtension: 'ts',
+  loadStoryGenerator: async () =>
+    (await import('./story-generator')).generateStory,
+}
+
+// Re-export for convenience
+export {
+  transform,
+  detectWebComponents,
+  VIRTUAL_MODULE_ID,
+} from './transform'
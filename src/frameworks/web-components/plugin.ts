@@ -0,0 +1,45 @@
+/**
+ * Web Components Entry Point
+ *
+ * Import this to use the component highlighter with Lit or native custom elements:
+ * ```ts
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/web-components'
+ * ```
+ */
+
+import {
+  createComponentHighlighterPlugin,
+  type ComponentHighlighterOptions,
+} from '../../create-component-highlighter-plugin'
+import { webComponentsFramework } from '.'
+
+/**
+ * Web Components Highlighter Plugin
+ *
+ * Tracks classes registered with `customElements.define()` or Lit's
+ * `@customElement()` in files matched by `include`.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { defineConfig } from 'vite'
+ * import { DevTools } from '@vitejs/devtools'
+ * import componentHighlighter from 'vite-plugin-experimental-storybook-devtools/web-components'
+ *
+ * export default defineConfig({
+ *   plugins: [
+ *     DevTools(),
+ *     componentHighlighter({ include: ['src/components/**\/*.ts'] }),
+ *   ],
+ * })
+ * ```
+ */
+export default function componentHighlighterWebComponents(
+  options: ComponentHighlighterOptions = {},
+) {
+  return createComponentHighlighterPlugin(webComponentsFramework, options)
+}
+
+// Re-export types
+export type { ComponentHighlighterOptions } from '../../create-component-highlighter-plugin'
+export { webComponentsFramework } from '.'
@@ -0,0 +1,386 @@
+/// <reference path="../../runtime-module-shims.d.ts" />
+import {
+  cleanupInstanceTracking,
+  exposeComponentRegistry,
+  serializePropValues,
+  serializeRichValue,
+  syncInstanceTracking,
+} from 'virtual:component-highlighter/runtime-helpers'
+
+// Injected by the virtual module loader.
+declare const __COMPONENT_HIGHLIGHTER_DEBUG__: boolean
+
+const DEBUG_MODE = __COMPONENT_HIGHLIGHTER_DEBUG__
+
+const logDebug = (...args: unknown[]) => {
+  if (DEBUG_MODE) {
+    console.log('[component-highlighter-web-components]', ...args)
+  }
+}
+
+;(
+  globalThis as typeof globalThis & { logDebug?: (...args: unknown[]) => void }
+).logDebug = logDebug
+
+logDebug('Web components runtime loaded', { debug: DEBUG_MODE })
+
+// Component registry for tracking live instances
+const componentRegistry = new Map<
+  string,
+  {
+    id: string
+    meta: Record<string, unknown>
+    props: Record<string, unknown>
+    serializedProps: Record<string, unknown>
+    element: Element
+    rect?: DOMRect
+  }
+>()
+
+type CustomElementClass = {
+  new (...args: any[]): HTMLElement
+  prototype: HTMLElement & {
+    connectedCallback?: () => void
+    disconnectedCallback?: () => void
+    updated?: (changedProperties: unknown) => void
+  }
+  /** Lit's reactive property declarations */
+  elementProperties?: Map<PropertyKey, { state?: boolean; attribute?: unknown }>
+}
+
+type ElementTracking = {
+  id: string | null
+  element: Element | null
+  disconnect: (() => void) | null
+  observer: MutationObserver | null
+}
+
+const INSTRUMENTED = Symbol.for('component-highlighter:web-component')
+const elementTracking = new WeakMap<Element, ElementTracking>()
+
+/** Host attributes that are never captured as props */
+const IGNORED_ATTRIBUTES = new Set(['style', 'slot'])
+
+// Generate unique instance ID
+function generateInstanceId(sourceId: string) {
+  return `${sourceId}:${Math.random().toString(36).substr(2, 9)}`
+}
+
+function escapeHtmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Read a custom element's public state: Lit reactive properties (internal
+ * `state` excluded), host attributes not backing one of those properties,
+ * and slotted light-DOM children as `slot:<name>` entries
+ */
+function captureProps(element: HTMLElement): Record<string, unknown> {
+  const props: Record<string, unknown> = {}
+  const elementClass = element.constructor as CustomElementClass
+  const propertyAttributes = new Set<string>()
+
+  elementClass.elementProperties?.forEach((options, name) => {
+    if (typeof name !== 'string' || options?.state) return
+    if (options?.attribute !== false) {
+      propertyAttributes.add(
+        typeof options?.attribute === 'string'
+          ? options.attribute
+          : name.toLowerCase(),
+      )
+    }
+    const value = (element as unknown as Record<string, unknown>)[name]
+    if (value !== undefined) {
+      props[name] = value
+    }
+  })
+
+  Array.from(element.attributes).forEach((attribute) => {
+    if (
+      propertyAttributes.has(attribute.name) ||
+      IGNORED_ATTRIBUTES.has(attribute.name) ||
+      attribute.name.startsWith('data-component-highlighter')
+    )
+      return
+    props[attribute.name] = attribute.value
+  })
+
+  const slots = new Map<string, string>()
+  element.childNodes.forEach((node) => {
+    let slotName = 'default'
+    let source = ''
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const child = node as Element
+      slotName = child.getAttribute('slot') || 'default'
+      source = child.outerHTML
+    } else if (node.nodeType === Node.TEXT_NODE) {
+      source = escapeHtmlText(node.textContent ?? '')
+    }
+    if (!source) return
+    slots.set(slotName, (slots.get(slotName) ?? '') + source)
+  })
+  slots.forEach((source, slotName) => {
+    const trimmed = source.trim()
+    if (!trimmed) return
+    props[`slot:${slotName}`] = {
+      __isWebComponentSlot: true,
+      source: trimmed,
+    }
+  })
+
+  return props
+}
+
+/**
+ * Serialize props for story generation
+ */
+function serializeProps(props: Record<string, unknown>) {
+  const serialized = serializePropValues(props, serializeValue)
+
+  for (const [key, value] of Object.entries(serialized)) {
+    if (value === undefined) delete serialized[key]
+  }
+
+  return serialized
+}
+
+/**
+ * Serialize a single value
+ */
+function serializeValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown {
+  // DOM nodes can't be sent to the server
+  if (typeof Node !== 'undefined' && value instanceof Node) {
+    return undefined
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeNested(item))
+  }
+
+  // Handle plain objects (but not null)
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { constructor?: unknown }).constructor === Object
+  ) {
+    const serialized: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      serialized[k] = serializeNested(v)
+    }
+    return serialized
+  }
+
+  // Handle functions - return a placeholder
+  if (typeof value === 'function') {
+    return {
+      __isFunction: true,
+      name: (value as { name?: string }).name || 'anonymous',
+    }
+  }
+
+  // Dates, maps, bigints, class instances... get tagged forms
+  const richValue = serializeRichValue(value, serializeNested)
+  if (richValue) return richValue
+
+  // Primitives pass through
+  return value
+}
+
+// Registry management functions
+export function registerInstance(
+  meta: Record<string, unknown>,
+  props: Record<string, unknown>,
+  element: Element,
+) {
+  const id = generateInstanceId(meta['sourceId'] as string)
+  const serializedProps = serializeProps(props)
+
+  const instance = {
+    id,
+    meta,
+    props,
+    serializedProps,
+    element,
+  }
+  componentRegistry.set(id, instance)
+
+  logDebug('registerInstance', {
+    id,
+    componentName: meta['componentName'],
+    totalComponents: componentRegistry.size,
+  })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:register', {
+    detail: instance,
+  })
+  window.dispatchEvent(event)
+  logDebug('dispatched register event for', id)
+
+  return id
+}
+
+export function unregisterInstance(id: string) {
+  componentRegistry.delete(id)
+  logDebug('unregistered', { id, remaining: componentRegistry.size })
+
+  // Dispatch event for listeners module
+  const event = new CustomEvent('component-highlighter:unregister', {
+    detail: id,
+  })
+  window.dispatchEvent(event)
+}
+
+export function updateInstanceProps(
+  id: string,
+  props: Record<string, unknown>,
+) {
+  const instance = componentRegistry.get(id)
+  if (instance) {
+    instance.props = props
+    instance.serializedProps = serializeProps(props)
+    logDebug('updateInstanceProps', { id, props })
+
+    // Dispatch event for listeners module
+    const event = new CustomEvent('component-highlighter:update-props', {
+      detail: { id, props, serializedProps: instance.serializedProps },
+    })
+    window.dispatchEvent(event)
+  }
+}
+
+/**
+ * Get the component registry for import resolution
+ * Returns a map of component name -> file path
+ */
+export function getComponentRegistry() {
+  const registry = new Map<string, string>()
+  for (const instance of componentRegistry.values()) {
+    registry.set(
+      (instance.meta['componentName'] as string) || '',
+      instance.meta['filePath'] as string,
+    )
+  }
+  return registry
+}
+
+// Expose registry getter globally for story generation
+exposeComponentRegistry(getComponentRegistry)
+
+function syncElement(element: HTMLElement, meta: Record<string, unknown>) {
+  const tracking = elementTracking.get(element)
+  if (!tracking || !element.isConnected) return
+
+  syncInstanceTracking({
+    state: tracking,
+    element,
+    props: captureProps(element),
+    register: (nextElement: Element, nextProps: Record<string, unknown>) =>
+      registerInstance(meta, nextProps, nextElement),
+    unregister: unregisterInstance,
+    updateProps: updateInstanceProps,
+    getInstance: (lookupId: string) => componentRegistry.get(lookupId),
+  })
+}
+
+/**
+ * Instrument a custom element class so its instances are tracked.
+ *
+ * Must run before `customElements.define()`: the browser reads the lifecycle
+ * callbacks when the element is defined, so the prototype is patched in place
+ * and the same class is returned.
+ */
+export function withComponentHighlighter<T extends CustomElementClass>(
+  ElementClass: T,
+  meta: Record<string, unknown>,
+): T {
+  const prototype = ElementClass.prototype as CustomElementClass['prototype'] & {
+    [INSTRUMENTED]?: boolean
+  }
+  if (Object.prototype.hasOwnProperty.call(prototype, INSTRUMENTED)) {
+    return ElementClass
+  }
+  prototype[INSTRUMENTED] = true
+
+  const originalConnected = prototype.connectedCallback
+  const originalDisconnected = prototype.disconnectedCallback
+  const originalUpdated = prototype.updated
+
+  prototype.connectedCallback = function (this: HTMLElement) {
+    originalConnected?.call(this)
+    // Subclasses of a tracked element are only tracked if they are instrumented too
+    if (this.constructor !== ElementClass) return
+
+    const tracking: ElementTracking = elementTracking.get(this) ?? {
+      id: null,
+      element: null,
+      disconnect: null,
+      observer: null,
+    }
+    elementTracking.set(this, tracking)
+
+    // Attribute and light-DOM changes (native elements, slotted content)
+    tracking.observer?.disconnect()
+    tracking.observer = new MutationObserver(() => syncElement(this, meta))
+    tracking.observer.observe(this, {
+      attributes: true,
+      childList: true,
+      characterData: true,
+      subtree: true,
+    })
+
+    const updateComplete = (this as { updateComplete?: Promise<unknown> })
+      .updateComplete
+    if (updateComplete) {
+      // Lit: wait for the first render so properties are initialized
+      updateComplete.then(() => syncElement(this, meta))
+    } else {
+      queueMicrotask(() => syncElement(this, meta))
+    }
+  }
+
+  prototype.disconnectedCallback = function (this: HTMLElement) {
+    originalDisconnected?.call(this)
+    const tracking = elementTracking.get(this)
+    if (!tracking) return
+
+    tracking.observer?.disconnect()
+    tracking.observer = null
+    cleanupInstanceTracking(tracking, unregisterInstance)
+  }
+
+  // Lit: re-capture reactive properties after every update
+  if (typeof originalUpdated === 'function') {
+    prototype.updated = function (this: HTMLElement, changedProperties) {
+      originalUpdated.call(this, changedProperties)
+      if (this.constructor === ElementClass) syncElement(this, meta)
+    }
+  }
+
+  return ElementClass
+}
+
+/**
+ * Class decorator form of `withComponentHighlighter`, placed after
+ * `@customElement()` so it runs before the element is defined.
+ * Works with both legacy (TypeScript) and standard decorators.
+ */
+export function trackCustomElement(meta: Record<string, unknown>) {
+  return <T extends CustomElementClass>(ElementClass: T): T =>
+    withComponentHighlighter(ElementClass, meta)
+}
+
+export default {
+  registerInstance,
+  unregisterInstance,
+  updateInstanceProps,
+  getComponentRegistry,
+  withComponentHighlighter,
+  trackCustomElement,
+}
@@ -0,0 +1,344 @@
+/**
+ * Web components story generation
+ */
+
+import type { ComponentArgType, SerializedProps } from '../types'
+import * as path from 'path'
+import {
+  type StoryGenerationData,
+  type GeneratedStory,
+  toValidStoryName,
+  generateStoryName,
+  getRelativeImportPath,
+  hasAnyFunctionProps,
+  generateArgsContent,
+  hoistSharedValues,
+  formatPlayFunctionForStory,
+  formatStoryExport,
+  formatCsf3Meta,
+  getStoryFileExtension,
+  type StoryLanguage,
+  extractStorybookTestImports,
+} from '../../utils/story-generator'
+import {
+  appendStoryToFile,
+  type AppendedStory,
+} from '../../utils/story-file-editor'
+
+function splitSlotArgs(props: SerializedProps): {
+  componentArgs: SerializedProps
+  slotArgs: Record<string, unknown>
+} {
+  const componentArgs: SerializedProps = {}
+  const slotArgs: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(props)) {
+    if (key.startsWith('slot:')) {
+      slotArgs[key] = value
+    } else {
+      componentArgs[key] = value
+    }
+  }
+
+  return { componentArgs, slotArgs }
+}
+
+function isSerializedSlot(
+  value: unknown,
+): value is { __isWebComponentSlot: true; source: string } {
+  if (!value || typeof value !== 'object') return false
+
+  const slot = value as { __isWebComponentSlot?: unknown; source?: unknown }
+  return slot.__isWebComponentSlot === true && typeof slot.source === 'string'
+}
+
+/**
+ * Escape text so it can sit inside an `html` tagged template
+ */
+function escapeTemplateLiteral(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')
+}
+
+/**
+ * Convert a component name to a custom element tag (e.g. `DsButton` -> `ds-button`)
+ */
+function toTagName(componentName: string): string {
+  return componentName
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+}
+
+/**
+ * Bind an arg on the element: lowercase string args are attributes, everything
+ * else is set as a property so objects, booleans and handlers survive as-is
+ */
+function formatBinding(key: string, value: unknown): string {
+  const isIdentifier = /^[A-Za-z_$][\w$]*$/.test(key)
+  const accessor = isIdentifier ? `args.${key}` : `args[${JSON.stringify(key)}]`
+
+  if (!isIdentifier || (typeof value === 'string' && key === key.toLowerCase())) {
+    return `${key}=\${${accessor}}`
+  }
+  return `.${key}=\${${accessor}}`
+}
+
+/**
+ * Build the story's `render` function as a lit `html` template, with slotted
+ * content inlined as static markup
+ */
+function buildRenderContent(
+  tagName: string,
+  componentArgs: SerializedProps,
+  slotArgs: Record<string, unknown>,
+): string {
+  const bindings = Object.entries(componentArgs).map(([key, value]) =>
+    formatBinding(key, value),
+  )
+  const openTag = [tagName, ...bindings].join(' ')
+
+  const slotContent = Object.values(slotArgs)
+    .filter(isSerializedSlot)
+    .map((slot) => escapeTemplateLiteral(slot.source))
+    .join('')
+
+  return `
+  render: (args) => html\`<${openTag}>${slotContent}</${tagName}>\`,`
+}
+
+/**
+ * Generate a web components story file from component data
+ * Web components are registered by importing their module for its side
+ * effects, and referenced by tag name
+ */
+export function generateStory(data: StoryGenerationData): GeneratedStory {
+  const {
+    meta,
+    props,
+    storyName: customStoryName,
+    existingContent,
+    playFunction,
+    playImports,
+  } = data
+  const language = data.language ?? 'ts'
+  const { componentName, filePath } = meta
+  const tagName = meta.tagName || toTagName(componentName)
+
+  // Calculate paths
+  const componentDir = path.dirname(filePath)
+  const componentFileName = path.basename(filePath, path.extname(filePath))
+  const storyFilePath =
+    data.storyFilePath ??
+    path.join(
+      componentDir,
+      `${componentFileName}.stories.${getStoryFileExtension('ts', language)}`,
+    )
+  // Imports are relative to where the story file is written
+  const storyDir = path.dirname(storyFilePath)
+
+  // Determine story name
+  const { componentArgs } = splitSlotArgs(props)
+  let storyName = customStoryName || generateStoryName(componentArgs)
+  storyName = toValidStoryName(storyName)
+
+  // Side-effect import that registers the element
+  const imports: Array<{ name: string; path: string }> = [
+    { name: '', path: getRelativeImportPath(storyDir, filePath) },
+  ]
+
+  // Generate content
+  let content: string
+
+  if (existingContent) {
+    const appendOptions: Parameters<typeof appendStoryToExisting>[0] = {
+      existingContent,
+      storyName,
+      props,
+      imports,
+      tagName,
+      language,
+    }
+    if (playFunction) {
+      appendOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      appendOptions.playImports = playImports
+    }
+    const appended = appendStoryToExisting(appendOptions)
+    content = appended.content
+    storyName = appended.storyName
+  } else {
+    const contentOptions: Parameters<typeof generateStoryContent>[0] = {
+      tagName,
+      imports,
+      props,
+      storyName,
+      language,
+      storybookPackage:
+        data.storybookFramework ?? '@storybook/web-components-vite',
+    }
+    if (playFunction) {
+      contentOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      contentOptions.playImports = playImports
+    }
+    if (data.argTypes) {
+      contentOptions.argTypes = data.argTypes
+    }
+    content = generateStoryContent(contentOptions)
+  }
+
+  return {
+    content,
+    filePath: storyFilePath,
+    imports,
+    storyName,
+  }
+}
+
+/**
+ * Generate new story file content
+ */
+function generateStoryContent(options: {
+  tagName: string
+  imports: Array<{ name: string; path: string }>
+  props: SerializedProps
+  storyName: string
+  playFunction?: string[]
+  playImports?: string[]
+  language: StoryLanguage
+  /** Storybook framework package `Meta` and `StoryObj` come from */
+  storybookPackage: string
+  argTypes?: ComponentArgType[]
+}): string {
+  const {
+    tagName,
+    imports,
+    props,
+    storyName,
+    playFunction,
+    playImports,
+    language,
+    storybookPackage,
+    argTypes,
+  } = options
+
+  const { componentArgs, slotArgs } = splitSlotArgs(props)
+
+  const needsFnImport = hasAnyFunctionProps(componentArgs)
+
+  // Collect storybook/test imports
+  const storybookTestNames = new Set<string>()
+  if (needsFnImport) storybookTestNames.add('fn')
+  if (playImports) {
+    for (const playImport of playImports) {
+      for (const name of extractStorybookTestImports(playImport)) {
+        storybookTestNames.add(name)
+      }
+    }
+  }
+
+  const storybookTestImport =
+    storybookTestNames.size > 0
+      ? `import { ${[...storybookTestNames].join(', ')} } from 'storybook/test';`
+      : null
+
+  // Build imports
+  const importStatements = [
+    ...(language === 'ts'
+      ? [`import type { Meta, StoryObj } from '${storybookPackage}';`]
+      : []),
+    `import { html } from 'lit';`,
+    ...(storybookTestImport ? [storybookTestImport] : []),
+    ...imports.map((imp) => `import '${imp.path}';`),
+  ].join('\n')
+
+  const { props: args, fixtures } = hoistSharedValues(componentArgs)
+  const argsContent = generateArgsContent(args, 1)
+  const hasArgs = Object.keys(componentArgs).length > 0
+  const renderContent = buildRenderContent(tagName, componentArgs, slotArgs)
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  const storyBody = `${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`
+  const metaContent = formatCsf3Meta({
+    component: `'${tagName}'`,
+    storybookPackage,
+    language,
+    argTypes,
+  })
+  const storyExport = formatStoryExport(storyName, storyBody, {
+    storyType: language === 'ts' ? 'annotation' : 'jsdoc',
+  })
+
+  return `${importStatements}
+
+${metaContent}
+${fixtures}${storyExport}`
+}
+
+/**
+ * Append a story to an existing file
+ */
+function appendStoryToExisting(options: {
+  existingContent: string
+  storyName: string
+  props: SerializedProps
+  imports: Array<{ name: string; path: string }>
+  tagName: string
+  playFunction?: string[]
+  playImports?: string[]
+  language: StoryLanguage
+}): AppendedStory {
+  const {
+    existingContent,
+    storyName,
+    props,
+    imports,
+    tagName,
+    playFunction,
+    playImports,
+    language,
+  } = options
+  const { componentArgs, slotArgs } = splitSlotArgs(props)
+
+  const storybookTestNames = new Set<string>()
+  if (hasAnyFunctionProps(componentArgs)) storybookTestNames.add('fn')
+  for (const playImport of playImports ?? []) {
+    for (const name of extractStorybookTestImports(playImport)) {
+      storybookTestNames.add(name)
+    }
+  }
+
+  const { props: args, fixtures } = hoistSharedValues(componentArgs, {
+    existingContent,
+  })
+  const argsContent = generateArgsContent(args, 1)
+  const hasArgs = Object.keys(componentArgs).length > 0
+  const renderContent = buildRenderContent(tagName, componentArgs, slotArgs)
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  return appendStoryToFile({
+    existingContent,
+    storyName,
+    imports: [
+      { source: 'lit', names: ['html'] },
+      ...(storybookTestNames.size > 0
+        ? [{ source: 'storybook/test', names: [...storybookTestNames] }]
+        : []),
+      ...imports.map((imp) => ({ source: imp.path })),
+    ],
+    language,
+    createStory: (finalStoryName, style) =>
+      `${fixtures}${formatStoryExport(
+        finalStoryName,
+        `${renderContent}${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`,
+        style,
+      )}`,
+  })
+}
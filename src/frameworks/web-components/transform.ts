@@ -0,0 +1,296 @@
+/**
+ * Web Components Transform
+ *
+ * Babel-based transformation that instruments custom elements (LitElement
+ * subclasses or any class passed to `customElements.define`) with the
+ * highlighter. The class is patched before it is registered, because the
+ * browser reads lifecycle callbacks once, at definition time.
+ */
+
+import { parse } from '@babel/parser'
+import MagicString from 'magic-string'
+import type * as t from '@babel/types'
+import * as path from 'path'
+import type {
+  ComponentScanner,
+  TransformFunction,
+  TransformOutput,
+} from '../types'
+
+/**
+ * Simple hash function for generating source IDs
+ */
+function createHash(data: string): string {
+  let hash = 0
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charCodeAt(i)
+    hash = (hash << 5) - hash + char
+    hash = hash & hash // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36)
+}
+
+/**
+ * Virtual module ID for the web components runtime
+ */
+export const VIRTUAL_MODULE_ID =
+  'virtual:component-highlighter/web-components-runtime'
+
+type ElementTarget = {
+  className: string | null
+  tagName: string | null
+  /** Wrap the define() argument spanning [start, end) */
+  wrap?: { start: number; end: number }
+  /** Insert a class decorator at this position */
+  decoratorAt?: number
+}
+
+/**
+ * Transform files that define custom elements
+ */
+export const transform: TransformFunction = (
+  code: string,
+  id: string,
+): TransformOutput | undefined => {
+  try {
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: [
+        'typescript',
+        ['decorators', { decoratorsBeforeExport: true }],
+        'decoratorAutoAccessors',
+      ],
+      sourceFilename: id,
+    })
+
+    const targets = collectElementTargets(ast.program)
+    if (targets.length === 0) {
+      return undefined
+    }
+
+    const defaultExportName = getDefaultExportName(ast.program)
+    const relativeFilePath = path.relative(process.cwd(), id)
+    const s = new MagicString(code)
+    const importedNames = new Set<string>()
+
+    for (const target of targets) {
+      const componentName =
+        target.className ?? tagNameToComponentName(target.tagName)
+      const meta = {
+        componentName,
+        filePath: id,
+        relativeFilePath,
+        sourceId: createHash(id + ':' + (target.tagName ?? componentName)),
+        isDefaultExport:
+          target.className !== null && target.className === defaultExportName,
+        ...(target.tagName ? { tagName: target.tagName } : {}),
+      }
+
+      if (target.wrap) {
+        importedNames.add('withComponentHighlighter')
+        s.prependRight(target.wrap.start, 'withComponentHighlighter(')
+        s.appendLeft(target.wrap.end, `, ${JSON.stringify(meta)})`)
+      } else if (target.decoratorAt !== undefined) {
+        // Decorators apply bottom-up, so this runs before @customElement()
+        // registers the class
+        importedNames.add('trackCustomElement')
+        s.appendLeft(
+          target.decoratorAt,
+          ` @trackCustomElement(${JSON.stringify(meta)})`,
+        )
+      }
+    }
+
+    s.prepend(
+      `import { ${[...importedNames].sort().join(', ')} } from '${VIRTUAL_MODULE_ID}';\n`,
+    )
+
+    return {
+      code: s.toString(),
+      map: s.generateMap({ source: id, includeContent: true, hires: true }),
+    }
+  } catch (error) {
+    console.warn(`[component-highlighter] Failed to transform ${id}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * List the custom elements the transform would track, without transforming
+ */
+export const scanComponents: ComponentScanner = (code, id) => {
+  const ast = parse(code, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      ['decorators', { decoratorsBeforeExport: true }],
+      'decoratorAutoAccessors',
+    ],
+    sourceFilename: id,
+  })
+
+  const defaultExportName = getDefaultExportName(ast.program)
+  return collectElementTargets(ast.program).map((target) => ({
+    componentName: target.className ?? tagNameToComponentName(target.tagName),
+    isDefaultExport:
+      target.className !== null && target.className === defaultExportName,
+  }))
+}
+
+/**
+ * Convert a custom element tag to a PascalCase name (e.g. `ds-button` -> `DsButton`)
+ */
+function tagNameToComponentName(tagName: string | null): string {
+  if (!tagName) return 'CustomElement'
+  return tagName
+    .split('-')
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+}
+
+function getStringValue(node: t.Node | undefined): string | null {
+  if (!node) return null
+  if (node.type === 'StringLiteral') return node.value
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? null
+  }
+  return null
+}
+
+/**
+ * Match `customElements.define(...)`, `window.customElements.define(...)`
+ * and `globalThis.customElements.define(...)`
+ */
+function isCustomElementsDefine(node: t.CallExpression): boolean {
+  const { callee } = node
+  if (callee.type !== 'MemberExpression') return false
+  if (callee.property.type !== 'Identifier' || callee.property.name !== 'define')
+    return false
+
+  const { object } = callee
+  if (object.type === 'Identifier') return object.name === 'customElements'
+  return (
+    object.type === 'MemberExpression' &&
+    object.property.type === 'Identifier' &&
+    object.property.name === 'customElements' &&
+    object.object.type === 'Identifier' &&
+    (object.object.name === 'window' || object.object.name === 'globalThis')
+  )
+}
+
+/**
+ * Find the tag passed to a `@customElement('tag')` class decorator
+ */
+function getCustomElementDecorator(
+  decorators: t.Decorator[] | null | undefined,
+): { tagName: string | null } | null {
+  for (const decorator of decorators ?? []) {
+    const { expression } = decorator
+    if (
+      expression.type === 'CallExpression' &&
+      expression.callee.type === 'Identifier' &&
+      expression.callee.name === 'customElement'
+    ) {
+      return { tagName: getStringValue(expression.arguments[0]) }
+    }
+  }
+  return null
+}
+
+/**
+ * Walk the AST and collect every custom element definition
+ */
+function collectElementTargets(program: t.Program): ElementTarget[] {
+  const targets: ElementTarget[] = []
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') return
+    if (Array.isArray(node)) {
+      node.forEach(visit)
+      return
+    }
+
+    const typed = node as t.Node
+    if (
+      (typed.type === 'ClassDeclaration' || typed.type === 'ClassExpression') &&
+      typed.decorators?.length
+    ) {
+      const decorator = getCustomElementDecorator(typed.decorators)
+      if (decorator) {
+        targets.push({
+          className: typed.id?.name ?? null,
+          tagName: decorator.tagName,
+          decoratorAt: typed.decorators[typed.decorators.length - 1]!.end!,
+        })
+      }
+    }
+
+    if (typed.type === 'CallExpression' && isCustomElementsDefine(typed)) {
+      const elementClass = typed.arguments[1]
+      if (elementClass && elementClass.type !== 'SpreadElement') {
+        let className: string | null = null
+        if (elementClass.type === 'Identifier') {
+          className = elementClass.name
+        } else if (elementClass.type === 'ClassExpression') {
+          className = elementClass.id?.name ?? null
+        }
+        targets.push({
+          className,
+          tagName: getStringValue(typed.arguments[0]),
+          wrap: { start: elementClass.start!, end: elementClass.end! },
+        })
+      }
+    }
+
+    for (const [key, value] of Object.entries(typed)) {
+      if (
+        key === 'loc' ||
+        key === 'leadingComments' ||
+        key === 'trailingComments' ||
+        key === 'innerComments'
+      )
+        continue
+      if (value && typeof value === 'object') visit(value)
+    }
+  }
+
+  visit(program.body)
+
+  // A class decorated with @customElement and also passed to define() is
+  // only instrumented once, at the decorator
+  const decorated = new Set(
+    targets
+      .filter((target) => target.decoratorAt !== undefined && target.className)
+      .map((target) => target.className),
+  )
+  return targets.filter(
+    (target) =>
+      target.decoratorAt !== undefined ||
+      !target.className ||
+      !decorated.has(target.className),
+  )
+}
+
+function getDefaultExportName(program: t.Program): string | null {
+  for (const statement of program.body) {
+    if (statement.type !== 'ExportDefaultDeclaration') continue
+    const { declaration } = statement
+    if (declaration.type === 'Identifier') return declaration.name
+    if (declaration.type === 'ClassDeclaration') return declaration.id?.name ?? null
+  }
+  return null
+}
+
+/**
+ * Detect if a file defines custom elements
+ */
+export function detectWebComponents(code: string, id: string): boolean {
+  // Check file extension
+  if (!id.match(/\.(ts|js|mts|mjs)$/)) {
+    return false
+  }
+
+  // Check for element registration
+  return /customElements\.define\s*\(|@customElement\s*\(/.test(code)
+}
@@ -11,6 +11,7 @@
 export {
   createComponentHighlighterPlugin,
   type ComponentHighlighterOptions,
+  type StoryPreviewResult,
 } from './create-component-highlighter-plugin'
 
 // Story generator
@@ -18,17 +19,43 @@ export { generateStoryName } from './utils/story-generator'
 export type {
   SerializedProps,
   JSXSerializedValue,
+  RichSerializedValue,
+  ReferenceSerializedValue,
   StoryGenerationData,
+  StoryOutputFormat,
+  StoryLanguage,
   GeneratedStory,
 } from './utils/story-generator'
 
+// Story journal
+export type {
+  StoryJournalEntry,
+  StoryJournalSummary,
+} from './utils/story-journal'
+
+// Story creation results
+export type {
+  StoryCreationResult,
+  StoryCreationSuccess,
+  StoryCreationFailure,
+  StoryCreationErrorCode,
+} from './utils/story-creation-result'
+
 // Framework types
 export type {
   ComponentMeta,
   ComponentInstance,
   HighlighterOptions,
   TransformFunction,
+  TransformContext,
+  TransformOutput,
+  StoryGenerator,
   FrameworkDetector,
+  ComponentScanner,
+  ScannedComponent,
+  ComponentArgType,
+  ArgTypesExtractor,
+  PropDefaultsExtractor,
   FrameworkConfig,
   ProviderDependency,
 } from './frameworks'
@@ -1,3 +1,8 @@
+import type {
+  ReferenceSerializedValue,
+  RichSerializedValue,
+} from './frameworks/types'
+
 export function findFirstTrackableElement(root: Node | null): Element | null {
   if (!root || root.nodeType !== Node.ELEMENT_NODE) return null
 
@@ -114,3 +119,298 @@ export function cleanupInstanceTracking(
   state.id = null
   state.element = null
 }
+
+type RegistryGetter = () => Map<string, string>
+
+const registryGetters = new Set<RegistryGetter>()
+
+/**
+ * Expose a runtime's component registry (name -> file path) for story import
+ * resolution. Every framework runtime on the page contributes, so
+ * `window.__componentHighlighterGetRegistry` returns one merged map.
+ */
+export function exposeComponentRegistry(getRegistry: RegistryGetter): void {
+  registryGetters.add(getRegistry)
+  if (typeof window === 'undefined') return
+
+  ;(
+    window as unknown as {
+      __componentHighlighterGetRegistry?: RegistryGetter
+    }
+  ).__componentHighlighterGetRegistry = () => {
+    const merged = new Map<string, string>()
+    registryGetters.forEach((getter) => {
+      getter().forEach((filePath, componentName) => {
+        merged.set(componentName, filePath)
+      })
+    })
+    return merged
+  }
+}
+
+const TYPED_ARRAY_TYPES = new Set([
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+])
+
+function isNativeConstructor(constructor: unknown): boolean {
+  return (
+    typeof constructor === 'function' &&
+    /\{\s*\[native code\]\s*\}\s*$/.test(
+      Function.prototype.toString.call(constructor),
+    )
+  )
+}
+
+/**
+ * Serialize values that wouldn't survive the JSON RPC payload: bigints,
+ * symbols, and objects other than arrays and plain objects. Dates, maps,
+ * sets, regexps, URLs, typed arrays and class instances get tagged forms the
+ * story generators turn back into code; symbols and other built-ins (DOM
+ * nodes, promises...) are tagged as unsupported. Returns undefined for every
+ * other value, which the runtime serializes itself; nested values go
+ * through the runtime's `serializeNested`.
+ */
+export function serializeRichValue(
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): RichSerializedValue | undefined {
+  if (typeof value === 'bigint') {
+    return { __isBigInt: true, value: value.toString() }
+  }
+  if (typeof value === 'symbol') {
+    return { __isUnsupported: true, type: 'symbol' }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined
+  }
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype === Object.prototype || prototype === null) return undefined
+
+  if (value instanceof Date) {
+    return {
+      __isDate: true,
+      iso: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+    }
+  }
+  if (value instanceof Map) {
+    return {
+      __isMap: true,
+      entries: Array.from(value, ([key, entry]): [unknown, unknown] => [
+        serializeNested(key),
+        serializeNested(entry),
+      ]),
+    }
+  }
+  if (value instanceof Set) {
+    return { __isSet: true, values: Array.from(value, serializeNested) }
+  }
+  if (value instanceof RegExp) {
+    return { __isRegExp: true, source: value.source, flags: value.flags }
+  }
+  if (typeof URL !== 'undefined' && value instanceof URL) {
+    return { __isURL: true, href: value.href }
+  }
+
+  // `[object Uint8Array]` also names typed arrays from other realms
+  const tag = Object.prototype.toString.call(value).slice(8, -1)
+  if (ArrayBuffer.isView(value) && TYPED_ARRAY_TYPES.has(tag)) {
+    return {
+      __isTypedArray: true,
+      type: tag,
+      values: Array.from(
+        value as unknown as ArrayLike<number | bigint>,
+        (item) => (typeof item === 'bigint' ? item.toString() : item),
+      ),
+    }
+  }
+
+  const constructor = (prototype as { constructor?: unknown }).constructor
+  const className =
+    typeof constructor === 'function' ? constructor.name : undefined
+  if (!className || isNativeConstructor(constructor)) {
+    return { __isUnsupported: true, type: className || tag }
+  }
+
+  const properties: Record<string, unknown> = {}
+  for (const [key, property] of Object.entries(value)) {
+    properties[key] = serializeNested(property)
+  }
+  return { __isClassInstance: true, className, properties }
+}
+
+/**
+ * Serializes one value; nested values go through `serializeNested`
+ */
+type ValueSerializer = (
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+) => unknown
+
+/** Deepest object nesting serialized; deeper values are cut off */
+const MAX_SERIALIZED_DEPTH = 20
+/** Most values serialized for one component's props */
+const MAX_SERIALIZED_VALUES = 10_000
+
+/** Values the story generators write as code rather than data */
+const CODE_VALUE_MARKERS = [
+  '__isJSX',
+  '__isFunction',
+  '__isVueSlot',
+  '__isSvelteSnippet',
+  '__isWebComponentSlot',
+  '__isUnsupported',
+]
+
+/**
+ * Whether a serialized object can be hoisted into a story fixture: data
+ * objects, arrays and built-ins, not markup or placeholders
+ */
+function isShareable(serialized: unknown): serialized is object {
+  return (
+    typeof serialized === 'object' &&
+    serialized !== null &&
+    !CODE_VALUE_MARKERS.some((marker) => marker in serialized)
+  )
+}
+
+/**
+ * Wrap a runtime's value serializer with cycle detection and depth and size
+ * limits. Objects seen a second time are serialized once: with
+ * `shareReferences`, later occurrences become references recorded in
+ * `sharedIds`; otherwise they repeat the first serialized copy.
+ */
+function createNestedSerializer(
+  serializeValue: ValueSerializer,
+  shareReferences: boolean,
+) {
+  const ancestors = new Set<object>()
+  const serializedObjects = new Map<object, unknown>()
+  const sharedIds = new Map<object, number>()
+  let depth = 0
+  let count = 0
+
+  const serializeNested = (value: unknown): unknown => {
+    if (++count > MAX_SERIALIZED_VALUES) {
+      return {
+        __isTruncated: true,
+        reason: 'size',
+      } satisfies ReferenceSerializedValue
+    }
+    if (typeof value !== 'object' || value === null) {
+      return serializeValue(value, serializeNested)
+    }
+    if (ancestors.has(value)) {
+      return { __isCircular: true } satisfies ReferenceSerializedValue
+    }
+    if (serializedObjects.has(value)) {
+      const serialized = serializedObjects.get(value)
+      if (!shareReferences || !isShareable(serialized)) return serialized
+      let id = sharedIds.get(serialized)
+      if (id === undefined) {
+        id = sharedIds.size + 1
+        sharedIds.set(serialized, id)
+      }
+      return { __isSharedRef: true, id } satisfies ReferenceSerializedValue
+    }
+    if (depth >= MAX_SERIALIZED_DEPTH) {
+      return {
+        __isTruncated: true,
+        reason: 'depth',
+      } satisfies ReferenceSerializedValue
+    }
+
+    ancestors.add(value)
+    depth++
+    let serialized: unknown
+    try {
+      serialized = serializeValue(value, serializeNested)
+    } finally {
+      ancestors.delete(value)
+      depth--
+    }
+    serializedObjects.set(value, serialized)
+    return serialized
+  }
+
+  return { serializeNested, sharedIds }
+}
+
+/**
+ * Wrap the first occurrence of each shared object in a `__isShared` marker
+ * named after the key it was found under. Arrays name their items after
+ * their own key, and markers pass their key on to their contents.
+ */
+function markSharedValues(
+  value: unknown,
+  sharedIds: Map<object, number>,
+  name: string,
+): unknown {
+  if (typeof value !== 'object' || value === null) return value
+
+  const isMarker = Object.keys(value).some((key) => key.startsWith('__is'))
+  const marked = Array.isArray(value)
+    ? value.map((item) => markSharedValues(item, sharedIds, `${name}Item`))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, property]) => [
+          key,
+          markSharedValues(property, sharedIds, isMarker ? name : key),
+        ]),
+      )
+
+  const id = sharedIds.get(value)
+  if (id === undefined) return marked
+  return {
+    __isShared: true,
+    id,
+    name,
+    value: marked,
+  } satisfies ReferenceSerializedValue
+}
+
+/**
+ * Serialize a component's props with a runtime's `serializeValue`.
+ * Circular references and values past the depth or size limits become
+ * placeholders instead of overflowing the stack, and objects referenced more
+ * than once are marked so stories can declare them once.
+ */
+export function serializePropValues(
+  props: Record<string, unknown>,
+  serializeValue: ValueSerializer,
+): Record<string, unknown> {
+  const { serializeNested, sharedIds } = createNestedSerializer(
+    serializeValue,
+    true,
+  )
+  const serialized: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(props)) {
+    serialized[key] = serializeNested(value)
+  }
+  if (sharedIds.size === 0) return serialized
+
+  const marked: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(serialized)) {
+    marked[key] = markSharedValues(value, sharedIds, key)
+  }
+  return marked
+}
+
+/**
+ * Serialize a single value with the same guards as `serializePropValues`,
+ * repeating shared objects inline (for values embedded in markup)
+ */
+export function serializeGuardedValue(
+  value: unknown,
+  serializeValue: ValueSerializer,
+): unknown {
+  return createNestedSerializer(serializeValue, false).serializeNested(value)
+}
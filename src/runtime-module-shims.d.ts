@@ -30,6 +30,27 @@ declare module 'virtual:component-highlighter/runtime-helpers' {
     },
     unregister: (id: string) => void,
   ): void
+  export function exposeComponentRegistry(
+    getRegistry: () => Map<string, string>,
+  ): void
+  export function serializeRichValue(
+    value: unknown,
+    serializeNested: (value: unknown) => unknown,
+  ): import('./frameworks/types').RichSerializedValue | undefined
+  export function serializePropValues(
+    props: Record<string, unknown>,
+    serializeValue: (
+      value: unknown,
+      serializeNested: (value: unknown) => unknown,
+    ) => unknown,
+  ): Record<string, unknown>
+  export function serializeGuardedValue(
+    value: unknown,
+    serializeValue: (
+      value: unknown,
+      serializeNested: (value: unknown) => unknown,
+    ) => unknown,
+  ): unknown
 }
 
 declare module 'react' {
@@ -50,9 +71,29 @@ declare module 'vue' {
   export const onUpdated: any
   export const onUnmounted: any
   export const getCurrentInstance: any
+  export const isRef: any
 }
 
 declare module 'react-element-to-jsx-string/dist/esm/index.js' {
   const fn: any
   export default fn
 }
+
+declare module 'solid-js' {
+  export const $PROXY: symbol
+  export const children: any
+  export const createEffect: any
+  export const createSignal: any
+  export const onCleanup: any
+  export const untrack: any
+}
+
+declare module 'preact' {
+  export const h: any
+  export const Fragment: any
+}
+
+declare module 'preact/hooks' {
+  export const useEffect: any
+  export const useRef: any
+}
@@ -0,0 +1,725 @@
+/**
+ * Arg Types
+ *
+ * Reads a component's props type to give generated metas `argTypes`: a
+ * select for literal unions, the matching control for primitives, an action
+ * for callbacks, and the prop's JSDoc as its description. This is a static
+ * pass over Babel ASTs: type literals, interfaces, aliases, intersections,
+ * `extends` and `ComponentProps<typeof Component>` are followed through the
+ * component file and the files it imports by relative path. Types imported
+ * from packages or path aliases are skipped rather than guessed.
+ */
+
+import { parse } from '@babel/parser'
+import type * as t from '@babel/types'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { ComponentArgType, ScannedComponent } from '../frameworks/types'
+
+/** Wrapper types whose first type argument holds the props */
+const PROPS_WRAPPER_TYPES = new Set([
+  'FC',
+  'FunctionComponent',
+  'VFC',
+  'Component',
+  'ParentComponent',
+  'VoidComponent',
+  'FlowComponent',
+  'PropsWithChildren',
+  'Readonly',
+])
+
+/** Types whose `typeof Component` argument stands for the component's props */
+const COMPONENT_PROPS_TYPES = new Set([
+  'ComponentProps',
+  'ComponentPropsWithoutRef',
+  'ComponentPropsWithRef',
+])
+
+/** Callback type references that are not spelled as function types */
+const CALLBACK_TYPE_PATTERN = /(?:Handler|Listener|Callback|^Function)$/
+
+/** How deep aliases and `extends` chains are followed */
+const MAX_TYPE_DEPTH = 10
+
+/** Extensions tried for relative imports without one */
+const TYPE_SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts']
+
+type TypeDeclaration = t.TSTypeAliasDeclaration | t.TSInterfaceDeclaration
+
+type LocalTypes = Map<string, TypeDeclaration>
+
+/**
+ * The types declared in and imported into one file
+ */
+interface TypeScope {
+  filePath: string | undefined
+  program: t.Program
+  types: LocalTypes
+  /** Imported bindings by local name */
+  imports: Map<string, { source: string; importedName: string }>
+  resolution: TypeResolution
+}
+
+/**
+ * State shared by the scopes of one props type resolution
+ */
+interface TypeResolution {
+  /** Scopes of the files read so far (null if unreadable) */
+  files: Map<string, TypeScope | null>
+  /** Imported types that could not be followed, for the fallback warning */
+  unresolved: Set<string>
+}
+
+/** A declaration found for a type name, with the scope it was declared in */
+type FoundType = { declaration: TypeDeclaration; scope: TypeScope }
+
+/** A props member, with the scope its type annotation is read in */
+type ScopedMember = { member: t.TSPropertySignature; scope: TypeScope }
+
+/** Files whose fallback to no argTypes was already reported */
+const reportedFallbacks = new Set<string>()
+
+/**
+ * Parse TS/JSX component source the way the transforms do
+ */
+export function parseComponentSource(code: string, id: string): t.File {
+  return parse(code, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      'jsx',
+      ['decorators', { decoratorsBeforeExport: true }],
+    ],
+    sourceFilename: id,
+  })
+}
+
+function collectLocalTypes(program: t.Program): LocalTypes {
+  const types: LocalTypes = new Map()
+  for (const statement of program.body) {
+    const declaration =
+      statement.type === 'ExportNamedDeclaration' ||
+      statement.type === 'ExportDefaultDeclaration'
+        ? statement.declaration
+        : statement
+    if (
+      declaration?.type === 'TSTypeAliasDeclaration' ||
+      declaration?.type === 'TSInterfaceDeclaration'
+    ) {
+      types.set(declaration.id.name, declaration)
+    }
+  }
+  return types
+}
+
+function collectImports(program: t.Program): TypeScope['imports'] {
+  const imports: TypeScope['imports'] = new Map()
+  for (const statement of program.body) {
+    if (statement.type !== 'ImportDeclaration') continue
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === 'ImportNamespaceSpecifier') continue
+      imports.set(specifier.local.name, {
+        source: statement.source.value,
+        importedName:
+          specifier.type === 'ImportDefaultSpecifier'
+            ? 'default'
+            : getModuleExportName(specifier.imported),
+      })
+    }
+  }
+  return imports
+}
+
+function getModuleExportName(name: t.Identifier | t.StringLiteral): string {
+  return name.type === 'Identifier' ? name.name : name.value
+}
+
+function createTypeScope(
+  program: t.Program,
+  filePath: string | undefined,
+  resolution: TypeResolution,
+): TypeScope {
+  return {
+    filePath,
+    program,
+    types: collectLocalTypes(program),
+    imports: collectImports(program),
+    resolution,
+  }
+}
+
+/**
+ * Resolve a relative import to a TypeScript file: `./types`, `./types.js`
+ * (TypeScript's ESM spelling) or `./types/index`
+ */
+function resolveRelativeImport(
+  fromFile: string,
+  source: string,
+): string | null {
+  const base = path.resolve(path.dirname(fromFile), source)
+  const stem = base.replace(/\.[cm]?jsx?$/, '')
+  const candidates = [
+    ...(/\.[cm]?tsx?$/.test(base) ? [base] : []),
+    ...TYPE_SOURCE_EXTENSIONS.map((extension) => `${stem}${extension}`),
+    ...TYPE_SOURCE_EXTENSIONS.map((extension) =>
+      path.join(base, `index${extension}`),
+    ),
+  ]
+  return (
+    candidates.find((candidate) => {
+      try {
+        return fs.statSync(candidate).isFile()
+      } catch {
+        return false
+      }
+    }) ?? null
+  )
+}
+
+/**
+ * The scope of a module imported by `scope`'s file, or null if it isn't a
+ * readable relative import
+ */
+function readImportedScope(scope: TypeScope, source: string): TypeScope | null {
+  if (!scope.filePath || !source.startsWith('.')) return null
+  const filePath = resolveRelativeImport(scope.filePath, source)
+  if (!filePath) return null
+
+  const { files } = scope.resolution
+  if (!files.has(filePath)) {
+    let imported: TypeScope | null = null
+    try {
+      const code = fs.readFileSync(filePath, 'utf-8')
+      imported = createTypeScope(
+        parseComponentSource(code, filePath).program,
+        filePath,
+        scope.resolution,
+      )
+    } catch {
+      // Unreadable or unparsable: the type stays unresolved
+    }
+    files.set(filePath, imported)
+  }
+  return files.get(filePath) ?? null
+}
+
+/**
+ * Follow an imported binding to the module that exports it
+ */
+function resolveImport(
+  scope: TypeScope,
+  localName: string,
+): { scope: TypeScope; name: string } | null {
+  const imported = scope.imports.get(localName)
+  if (!imported) return null
+
+  const importedScope = readImportedScope(scope, imported.source)
+  if (!importedScope) {
+    scope.resolution.unresolved.add(`${localName} ('${imported.source}')`)
+    return null
+  }
+  return { scope: importedScope, name: imported.importedName }
+}
+
+/**
+ * Find the declaration of a type name used in `scope`'s file
+ */
+function lookupType(
+  scope: TypeScope,
+  name: string,
+  depth = 0,
+): FoundType | null {
+  const declaration = scope.types.get(name)
+  if (declaration) return { declaration, scope }
+
+  const imported = resolveImport(scope, name)
+  return imported
+    ? findExportedType(imported.scope, imported.name, depth + 1)
+    : null
+}
+
+/**
+ * Find the type a module exports under `name`, following `export { A as B }`,
+ * `export { A } from` and `export * from`
+ */
+function findExportedType(
+  scope: TypeScope,
+  name: string,
+  depth: number,
+): FoundType | null {
+  if (depth > MAX_TYPE_DEPTH) return null
+
+  const declaration = scope.types.get(name)
+  if (declaration) return { declaration, scope }
+
+  for (const statement of scope.program.body) {
+    if (statement.type === 'ExportNamedDeclaration') {
+      for (const specifier of statement.specifiers) {
+        if (
+          specifier.type !== 'ExportSpecifier' ||
+          getModuleExportName(specifier.exported) !== name
+        ) {
+          continue
+        }
+        if (!statement.source) {
+          return lookupType(scope, specifier.local.name, depth + 1)
+        }
+        const source = readImportedScope(scope, statement.source.value)
+        return source
+          ? findExportedType(source, specifier.local.name, depth + 1)
+          : null
+      }
+    } else if (statement.type === 'ExportAllDeclaration') {
+      const source = readImportedScope(scope, statement.source.value)
+      const found = source && findExportedType(source, name, depth + 1)
+      if (found) return found
+    }
+  }
+  return null
+}
+
+/**
+ * The props type of a component referenced by name in `scope`'s file, for
+ * `ComponentProps<typeof Component>`
+ */
+function findReferencedComponentProps(
+  scope: TypeScope,
+  componentName: string,
+): { type: t.TSType; scope: TypeScope } | null {
+  const local = findComponentPropsType(scope.program, {
+    componentName,
+    isDefaultExport: false,
+  })
+  if (local) return { type: local, scope }
+
+  const imported = resolveImport(scope, componentName)
+  if (!imported) return null
+  const type = findComponentPropsType(imported.scope.program, {
+    componentName: imported.name,
+    isDefaultExport: imported.name === 'default',
+  })
+  return type ? { type, scope: imported.scope } : null
+}
+
+function getTypeReferenceName(typeName: t.TSEntityName): string {
+  return typeName.type === 'Identifier' ? typeName.name : typeName.right.name
+}
+
+/**
+ * The JSDoc text of a member, without tags
+ */
+function getDescription(node: t.Node): string | undefined {
+  const comment = node.leadingComments
+    ?.filter(
+      (candidate) =>
+        candidate.type === 'CommentBlock' && candidate.value.startsWith('*'),
+    )
+    .at(-1)
+  if (!comment) return undefined
+
+  const lines: string[] = []
+  for (const line of comment.value.split('\n')) {
+    const text = line.replace(/^\s*\*+\s?/, '').trimEnd()
+    if (text.trimStart().startsWith('@')) break
+    lines.push(text)
+  }
+  const description = lines.join(' ').replace(/\s+/g, ' ').trim()
+  return description || undefined
+}
+
+/**
+ * The property signatures of a props type
+ */
+function resolveMembers(
+  type: t.TSType,
+  scope: TypeScope,
+  depth = 0,
+): ScopedMember[] {
+  if (depth > MAX_TYPE_DEPTH) return []
+
+  const ownMembers = (members: t.TSTypeElement[]): ScopedMember[] =>
+    members
+      .filter(
+        (member): member is t.TSPropertySignature =>
+          member.type === 'TSPropertySignature',
+      )
+      .map((member) => ({ member, scope }))
+
+  switch (type.type) {
+    case 'TSTypeLiteral':
+      return ownMembers(type.members)
+    case 'TSParenthesizedType':
+      return resolveMembers(type.typeAnnotation, scope, depth + 1)
+    case 'TSIntersectionType':
+      return type.types.flatMap((member) =>
+        resolveMembers(member, scope, depth + 1),
+      )
+    case 'TSTypeReference': {
+      const name = getTypeReferenceName(type.typeName)
+      const typeArgument = type.typeParameters?.params[0]
+      if (PROPS_WRAPPER_TYPES.has(name) && typeArgument) {
+        return resolveMembers(typeArgument, scope, depth + 1)
+      }
+      if (
+        COMPONENT_PROPS_TYPES.has(name) &&
+        typeArgument?.type === 'TSTypeQuery' &&
+        typeArgument.exprName.type === 'Identifier'
+      ) {
+        const component = findReferencedComponentProps(
+          scope,
+          typeArgument.exprName.name,
+        )
+        return component
+          ? resolveMembers(component.type, component.scope, depth + 1)
+          : []
+      }
+
+      const found = lookupType(scope, name, depth)
+      if (found?.declaration.type === 'TSTypeAliasDeclaration') {
+        return resolveMembers(
+          found.declaration.typeAnnotation,
+          found.scope,
+          depth + 1,
+        )
+      }
+      if (found?.declaration.type === 'TSInterfaceDeclaration') {
+        const { declaration, scope: declarationScope } = found
+        const inherited = (declaration.extends ?? []).flatMap((heritage) =>
+          heritage.expression.type === 'Identifier'
+            ? resolveMembers(
+                {
+                  type: 'TSTypeReference',
+                  typeName: heritage.expression,
+                  typeParameters: heritage.typeParameters,
+                } as t.TSTypeReference,
+                declarationScope,
+                depth + 1,
+              )
+            : [],
+        )
+        return [
+          ...inherited,
+          ...declaration.body.body
+            .filter(
+              (member): member is t.TSPropertySignature =>
+                member.type === 'TSPropertySignature',
+            )
+            .map((member) => ({ member, scope: declarationScope })),
+        ]
+      }
+      return []
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Pick the control for a prop type; null when it can't be told statically
+ */
+function classifyType(
+  type: t.TSType,
+  scope: TypeScope,
+  depth = 0,
+): Pick<ComponentArgType, 'control' | 'options'> | null {
+  if (depth > MAX_TYPE_DEPTH) return null
+
+  switch (type.type) {
+    case 'TSStringKeyword':
+      return { control: 'text' }
+    case 'TSNumberKeyword':
+      return { control: 'number' }
+    case 'TSBooleanKeyword':
+      return { control: 'boolean' }
+    case 'TSFunctionType':
+      return { control: 'action' }
+    case 'TSTypeLiteral':
+    case 'TSArrayType':
+    case 'TSTupleType':
+      return { control: 'object' }
+    case 'TSParenthesizedType':
+      return classifyType(type.typeAnnotation, scope, depth + 1)
+    case 'TSLiteralType': {
+      const { literal } = type
+      if (
+        literal.type === 'StringLiteral' ||
+        literal.type === 'NumericLiteral' ||
+        literal.type === 'BooleanLiteral'
+      ) {
+        return { control: 'select', options: [literal.value] }
+      }
+      return null
+    }
+    case 'TSUnionType': {
+      const members = type.types.filter(
+        (member) =>
+          member.type !== 'TSUndefinedKeyword' &&
+          member.type !== 'TSNullKeyword',
+      )
+      if (members.length === 1) {
+        return classifyType(members[0]!, scope, depth + 1)
+      }
+
+      const classified = members.map((member) =>
+        classifyType(member, scope, depth + 1),
+      )
+      if (classified.every((entry) => entry?.control === 'select')) {
+        const options = classified.flatMap((entry) => entry!.options ?? [])
+        // `true | false` is how `boolean | undefined` often ends up spelled
+        if (options.every((option) => typeof option === 'boolean')) {
+          return { control: 'boolean' }
+        }
+        return { control: 'select', options: [...new Set(options)] }
+      }
+      if (classified.some((entry) => entry?.control === 'action')) {
+        return { control: 'action' }
+      }
+      return null
+    }
+    case 'TSTypeReference': {
+      const name = getTypeReferenceName(type.typeName)
+      const found = lookupType(scope, name, depth)
+      if (found?.declaration.type === 'TSTypeAliasDeclaration') {
+        return classifyType(
+          found.declaration.typeAnnotation,
+          found.scope,
+          depth + 1,
+        )
+      }
+      if (found?.declaration.type === 'TSInterfaceDeclaration') {
+        return { control: 'object' }
+      }
+      if (name === 'Array' || name === 'Record') {
+        return { control: 'object' }
+      }
+      if (CALLBACK_TYPE_PATTERN.test(name)) {
+        return { control: 'action' }
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Arg types of a props type: one per property whose control could be told.
+ * Given the component's `filePath`, types imported by relative path are
+ * followed; a props type left without arg types because an import couldn't
+ * be followed is reported once per file.
+ */
+export function resolvePropsArgTypes(
+  program: t.Program,
+  propsType: t.TSType,
+  filePath?: string,
+): ComponentArgType[] {
+  const resolution: TypeResolution = { files: new Map(), unresolved: new Set() }
+  const scope = createTypeScope(program, filePath, resolution)
+  const argTypes = new Map<string, ComponentArgType>()
+
+  for (const { member, scope: memberScope } of resolveMembers(
+    propsType,
+    scope,
+  )) {
+    const name =
+      member.key.type === 'Identifier'
+        ? member.key.name
+        : member.key.type === 'StringLiteral'
+          ? member.key.value
+          : null
+    if (!name || member.computed || !member.typeAnnotation) continue
+
+    const classified = classifyType(
+      member.typeAnnotation.typeAnnotation,
+      memberScope,
+    )
+    if (!classified) continue
+
+    const description = getDescription(member)
+    // Later members (an interface's own over what it extends) win
+    argTypes.set(name, {
+      name,
+      ...classified,
+      ...(description ? { description } : {}),
+    })
+  }
+
+  const fallbackKey = filePath ?? '<inline>'
+  if (
+    argTypes.size === 0 &&
+    resolution.unresolved.size > 0 &&
+    !reportedFallbacks.has(fallbackKey)
+  ) {
+    reportedFallbacks.add(fallbackKey)
+    console.warn(
+      `[component-highlighter] No argTypes for the props of ${fallbackKey}: could not follow ${[...resolution.unresolved].join(', ')} (only types imported by relative path are read)`,
+    )
+  }
+
+  return [...argTypes.values()]
+}
+
+/**
+ * A component declared at the top level of its file
+ */
+export interface ComponentDefinition {
+  /** Local binding of the component, which `defaultProps` is assigned to */
+  localName: string | null
+  /** The component's function or class, or the `memo()`/`forwardRef()` call */
+  node: t.Node
+  /** The `FC<Props>` style annotation of its variable, if any */
+  annotation: t.TSType | null
+}
+
+/**
+ * Find a component declared at the top level of a file
+ */
+export function findComponentDefinition(
+  program: t.Program,
+  component: ScannedComponent,
+): ComponentDefinition | null {
+  const findLocal = (name: string): ComponentDefinition | null => {
+    for (const statement of program.body) {
+      const declaration =
+        statement.type === 'ExportNamedDeclaration'
+          ? statement.declaration
+          : statement
+      if (
+        (declaration?.type === 'FunctionDeclaration' ||
+          declaration?.type === 'ClassDeclaration') &&
+        declaration.id?.name === name
+      ) {
+        return { localName: name, node: declaration, annotation: null }
+      }
+      if (declaration?.type === 'VariableDeclaration') {
+        const declarator = declaration.declarations.find(
+          (candidate) =>
+            candidate.id.type === 'Identifier' && candidate.id.name === name,
+        )
+        if (!declarator?.init) continue
+        const typeAnnotation =
+          declarator.id.type === 'Identifier' &&
+          declarator.id.typeAnnotation?.type === 'TSTypeAnnotation'
+            ? declarator.id.typeAnnotation.typeAnnotation
+            : null
+        return {
+          localName: name,
+          node: declarator.init,
+          annotation: typeAnnotation,
+        }
+      }
+    }
+    return null
+  }
+
+  if (!component.isDefaultExport) {
+    return findLocal(component.componentName)
+  }
+
+  for (const statement of program.body) {
+    if (statement.type !== 'ExportDefaultDeclaration') continue
+    const { declaration } = statement
+    if (declaration.type === 'Identifier') return findLocal(declaration.name)
+    return {
+      localName:
+        (declaration.type === 'FunctionDeclaration' ||
+          declaration.type === 'ClassDeclaration') &&
+        declaration.id
+          ? declaration.id.name
+          : null,
+      node: declaration,
+      annotation: null,
+    }
+  }
+  return null
+}
+
+/**
+ * The function of a component expression, unwrapping `memo()`,
+ * `forwardRef()` and type assertions
+ */
+export function getComponentFunction(
+  node: t.Node,
+):
+  | t.FunctionDeclaration
+  | t.FunctionExpression
+  | t.ArrowFunctionExpression
+  | null {
+  if (
+    node.type === 'FunctionDeclaration' ||
+    node.type === 'FunctionExpression' ||
+    node.type === 'ArrowFunctionExpression'
+  ) {
+    return node
+  }
+  if (node.type === 'CallExpression') {
+    const [component] = node.arguments
+    return component ? getComponentFunction(component) : null
+  }
+  if (node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression') {
+    return getComponentFunction(node.expression)
+  }
+  return null
+}
+
+/**
+ * The `Props` of a `forwardRef<Ref, Props>()` call, looking through `memo()`
+ */
+function getForwardRefPropsType(node: t.Node): t.TSType | null {
+  if (node.type !== 'CallExpression') return null
+  const callee =
+    node.callee.type === 'MemberExpression' ? node.callee.property : node.callee
+  if (callee.type === 'Identifier' && callee.name === 'forwardRef') {
+    return node.typeParameters?.params[1] ?? null
+  }
+  const [component] = node.arguments
+  return component ? getForwardRefPropsType(component) : null
+}
+
+/**
+ * Find the props type of a component declared at the top level of a file:
+ * its `FC<Props>` style annotation, its `forwardRef<Ref, Props>` type
+ * arguments, or its function's first parameter annotation
+ */
+export function findComponentPropsType(
+  program: t.Program,
+  component: ScannedComponent,
+): t.TSType | null {
+  const definition = findComponentDefinition(program, component)
+  if (!definition) return null
+
+  const { annotation, node } = definition
+  if (
+    annotation?.type === 'TSTypeReference' &&
+    PROPS_WRAPPER_TYPES.has(getTypeReferenceName(annotation.typeName)) &&
+    annotation.typeParameters?.params[0]
+  ) {
+    return annotation.typeParameters.params[0]
+  }
+
+  const forwardRefProps = getForwardRefPropsType(node)
+  if (forwardRefProps) return forwardRefProps
+
+  const [props] = getComponentFunction(node)?.params ?? []
+  if (
+    (props?.type === 'Identifier' || props?.type === 'ObjectPattern') &&
+    props.typeAnnotation?.type === 'TSTypeAnnotation'
+  ) {
+    return props.typeAnnotation.typeAnnotation
+  }
+  return null
+}
+
+/**
+ * Arg types of a component in a TS/JSX file (React, Preact, Solid)
+ */
+export function extractJsxComponentArgTypes(
+  code: string,
+  id: string,
+  component: ScannedComponent,
+): ComponentArgType[] {
+  const ast = parseComponentSource(code, id)
+  const propsType = findComponentPropsType(ast.program, component)
+  return propsType ? resolvePropsArgTypes(ast.program, propsType, id) : []
+}
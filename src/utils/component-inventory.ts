@@ -0,0 +1,127 @@
+/**
+ * Component Inventory
+ *
+ * Lists every component the plugin would instrument, by scanning the files
+ * matched by `include`/`exclude` with each framework's `scanComponents`
+ * (the same export detection the transforms use), together with the stories
+ * covering each one. Unlike the overlay's stats, which only see mounted
+ * components, this gives project-wide coverage.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { FrameworkConfig, ScannedComponent } from '../frameworks/types'
+import { findProjectFiles, type StoryIndexEntry } from './story-index'
+
+/** Files never instrumented or scanned unless `exclude` is overridden */
+export const DEFAULT_EXCLUDE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/*.d.ts',
+  '**/*.stories.*',
+  '**/stories.*',
+  '**/*.story.*',
+  '**/story.*',
+]
+
+/**
+ * Default `include`: every extension the frameworks handle
+ */
+export function getDefaultInclude(frameworks: FrameworkConfig[]): string[] {
+  return [
+    ...new Set(
+      frameworks.flatMap((framework) =>
+        framework.extensions.map((ext) => `**/*${ext}`),
+      ),
+    ),
+  ]
+}
+
+/**
+ * A component found in the project, with its story status
+ */
+export interface ComponentInventoryEntry {
+  /** The component's display name */
+  componentName: string
+  /** Absolute file path */
+  filePath: string
+  /** File path relative to the Vite root */
+  relativeFilePath: string
+  /** Whether this is the default export */
+  isDefaultExport: boolean
+  /** Name of the framework that instruments the file */
+  framework: string
+  /** Whether a story covers this component export */
+  hasStory: boolean
+  /** First story file covering it, if any */
+  storyPath: string | null
+  /** Story export names covering it */
+  stories: string[]
+}
+
+export interface ComponentInventoryOptions {
+  /** Vite root to scan */
+  root: string
+  /** The plugin's include/exclude filter */
+  filter: (filePath: string) => boolean
+  /** Pick the framework that handles a file */
+  resolveFramework: (code: string, id: string) => FrameworkConfig | undefined
+  /** Story files covering a component export (`default` for default exports) */
+  findStories: (
+    componentPath: string,
+    exportName: string,
+  ) => Promise<StoryIndexEntry[]>
+}
+
+/**
+ * Scan the project for components and look up their stories
+ */
+export async function scanComponentInventory(
+  options: ComponentInventoryOptions,
+): Promise<ComponentInventoryEntry[]> {
+  const { root, filter, resolveFramework, findStories } = options
+  const entries: ComponentInventoryEntry[] = []
+
+  const files = [...findProjectFiles(root, filter)].sort()
+  for (const filePath of files) {
+    let code: string
+    try {
+      code = fs.readFileSync(filePath, 'utf-8')
+    } catch {
+      continue
+    }
+
+    const framework = resolveFramework(code, filePath)
+    if (!framework?.scanComponents) continue
+
+    let components: ScannedComponent[]
+    try {
+      components = framework.scanComponents(code, filePath)
+    } catch (error) {
+      console.warn(
+        `[component-highlighter] Failed to scan ${filePath} for components:`,
+        error,
+      )
+      continue
+    }
+
+    for (const component of components) {
+      const stories = await findStories(
+        filePath,
+        component.isDefaultExport ? 'default' : component.componentName,
+      )
+      entries.push({
+        componentName: component.componentName,
+        filePath,
+        relativeFilePath: path.relative(root, filePath),
+        isDefaultExport: component.isDefaultExport,
+        framework: framework.name,
+        hasStory: stories.length > 0,
+        storyPath: stories[0]?.filePath ?? null,
+        stories: stories.flatMap((entry) => entry.stories),
+      })
+    }
+  }
+
+  return entries
+}
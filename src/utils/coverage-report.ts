@@ -0,0 +1,220 @@
+/**
+ * Coverage Report
+ *
+ * Summarizes a component inventory as story coverage, and renders it as
+ * JSON, Markdown or JUnit XML for CI. Components without stories are listed
+ * grouped by directory.
+ */
+
+import * as path from 'path'
+import type { ComponentInventoryEntry } from './component-inventory'
+
+export type CoverageReportFormat = 'json' | 'markdown' | 'junit'
+
+export const COVERAGE_REPORT_FORMATS: CoverageReportFormat[] = [
+  'json',
+  'markdown',
+  'junit',
+]
+
+/**
+ * A component listed in the report
+ */
+export interface CoverageReportComponent {
+  componentName: string
+  /** File path relative to the project root, with `/` separators */
+  filePath: string
+  isDefaultExport: boolean
+  hasStory: boolean
+  /** Story file covering it, relative to the project root */
+  storyPath: string | null
+}
+
+/**
+ * Components of one directory
+ */
+export interface CoverageReportDirectory {
+  /** Directory relative to the project root, with `/` separators (`.` for the root) */
+  directory: string
+  total: number
+  withStories: number
+  components: CoverageReportComponent[]
+}
+
+export interface CoverageReport {
+  total: number
+  withStories: number
+  /** Percentage of components with stories, rounded to one decimal */
+  coverage: number
+  /** Components without stories, grouped by directory */
+  missing: Record<string, CoverageReportComponent[]>
+  /** Every component, grouped by directory */
+  directories: CoverageReportDirectory[]
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/')
+}
+
+/**
+ * Build the coverage report of an inventory
+ */
+export function createCoverageReport(
+  entries: ComponentInventoryEntry[],
+  root: string,
+): CoverageReport {
+  const directories = new Map<string, CoverageReportDirectory>()
+
+  for (const entry of entries) {
+    const filePath = toPosix(path.relative(root, entry.filePath))
+    const directory = path.posix.dirname(filePath)
+    let group = directories.get(directory)
+    if (!group) {
+      group = { directory, total: 0, withStories: 0, components: [] }
+      directories.set(directory, group)
+    }
+
+    group.total++
+    if (entry.hasStory) group.withStories++
+    group.components.push({
+      componentName: entry.componentName,
+      filePath,
+      isDefaultExport: entry.isDefaultExport,
+      hasStory: entry.hasStory,
+      storyPath: entry.storyPath
+        ? toPosix(path.relative(root, entry.storyPath))
+        : null,
+    })
+  }
+
+  const sortedDirectories = [...directories.values()].sort((a, b) =>
+    a.directory.localeCompare(b.directory),
+  )
+  const total = entries.length
+  const withStories = entries.filter((entry) => entry.hasStory).length
+  const missing: Record<string, CoverageReportComponent[]> = {}
+  for (const group of sortedDirectories) {
+    const withoutStories = group.components.filter(
+      (component) => !component.hasStory,
+    )
+    if (withoutStories.length > 0) missing[group.directory] = withoutStories
+  }
+
+  return {
+    total,
+    withStories,
+    coverage: total > 0 ? Math.round((withStories / total) * 1000) / 10 : 100,
+    missing,
+    directories: sortedDirectories,
+  }
+}
+
+/**
+ * Whether a report reaches a minimum coverage percentage. The exact ratio is
+ * compared, since `coverage` is rounded: 1999 of 2000 components shows as
+ * 100% but is below it.
+ */
+export function meetsCoverage(report: CoverageReport, min: number): boolean {
+  const coverage =
+    report.total > 0 ? (report.withStories / report.total) * 100 : 100
+  return coverage >= min
+}
+
+function formatJson(report: CoverageReport): string {
+  const { directories: _directories, ...summary } = report
+  return `${JSON.stringify(summary, null, 2)}\n`
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[|\\`*_[\]<>]/g, (char) => `\\${char}`)
+}
+
+function formatMarkdown(report: CoverageReport): string {
+  const lines = [
+    '# Storybook coverage',
+    '',
+    `**${report.coverage}%** of components have stories (${report.withStories} of ${report.total}).`,
+    '',
+  ]
+
+  const missingDirectories = Object.entries(report.missing)
+  if (missingDirectories.length === 0) {
+    lines.push('Every component has a story.', '')
+    return lines.join('\n')
+  }
+
+  lines.push('## Components without stories', '')
+  for (const [directory, components] of missingDirectories) {
+    const group = report.directories.find(
+      (candidate) => candidate.directory === directory,
+    )!
+    lines.push(
+      `### ${escapeMarkdown(directory)} (${group.withStories}/${group.total} with stories)`,
+      '',
+      '| Component | File |',
+      '| --- | --- |',
+      ...components.map(
+        (component) =>
+          `| ${escapeMarkdown(component.componentName)} | ${escapeMarkdown(component.filePath)} |`,
+      ),
+      '',
+    )
+  }
+  return lines.join('\n')
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function formatJunit(report: CoverageReport): string {
+  const failures = report.total - report.withStories
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Storybook coverage" tests="${report.total}" failures="${failures}">`,
+  ]
+
+  for (const group of report.directories) {
+    lines.push(
+      `  <testsuite name="${escapeXml(group.directory)}" tests="${group.total}" failures="${group.total - group.withStories}">`,
+    )
+    for (const component of group.components) {
+      const testcase = `    <testcase classname="${escapeXml(group.directory)}" name="${escapeXml(`${component.componentName} (${component.filePath})`)}"`
+      if (component.hasStory) {
+        lines.push(`${testcase} />`)
+      } else {
+        lines.push(
+          `${testcase}>`,
+          `      <failure message="${escapeXml(`${component.componentName} has no stories`)}" />`,
+          '    </testcase>',
+        )
+      }
+    }
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>', '')
+  return lines.join('\n')
+}
+
+/**
+ * Render a coverage report
+ */
+export function formatCoverageReport(
+  report: CoverageReport,
+  format: CoverageReportFormat,
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(report)
+    case 'markdown':
+      return formatMarkdown(report)
+    case 'junit':
+      return formatJunit(report)
+  }
+}
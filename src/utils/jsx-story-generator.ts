@@ -0,0 +1,376 @@
+/**
+ * JSX Story Generation
+ *
+ * React, Preact and Solid stories are written the same way: they only differ
+ * in the Storybook package their types come from and whether JSX args need
+ * React in scope.
+ */
+
+import type {
+  ComponentArgType,
+  SerializedProps,
+  StoryGenerator,
+} from '../frameworks/types'
+import * as path from 'path'
+import {
+  type StoryGenerationData,
+  type GeneratedStory,
+  toValidStoryName,
+  generateStoryName,
+  getRelativeImportPath,
+  hasAnyJSXProps,
+  hasAnyFunctionProps,
+  collectComponentRefs,
+  generateArgsContent,
+  hoistSharedValues,
+  formatPlayFunctionForStory,
+  formatStoryExport,
+  formatCsf3Meta,
+  formatArgTypes,
+  getStoryFileExtension,
+  type StoryLanguage,
+  extractStorybookTestImports,
+} from './story-generator'
+import {
+  appendStoryToFile,
+  toStoryFileImport,
+  type AppendedStory,
+} from './story-file-editor'
+
+export interface JsxStoryGeneratorOptions {
+  /**
+   * Storybook framework package `Meta` and `StoryObj` are imported from,
+   * unless the framework config names another one
+   */
+  storybookPackage: string
+  /** Module the framework's `ComponentProps` type is imported from */
+  componentPropsSource: string
+  /** Import React in stories with JSX args (classic JSX runtime) */
+  importReact?: boolean
+}
+
+/**
+ * Create the story generator of a JSX framework
+ */
+export function createJsxStoryGenerator(
+  options: JsxStoryGeneratorOptions,
+): StoryGenerator {
+  return (data) => generateStory(data, options)
+}
+
+function generateStory(
+  data: StoryGenerationData,
+  framework: JsxStoryGeneratorOptions,
+): GeneratedStory {
+  const {
+    meta,
+    props,
+    componentRegistry,
+    storyName: customStoryName,
+    existingContent,
+    playFunction,
+    playImports,
+  } = data
+  const language = data.language ?? 'ts'
+  const { componentName, filePath, isDefaultExport } = meta
+
+  // Calculate paths
+  const componentDir = path.dirname(filePath)
+  const componentFileName = path.basename(filePath, path.extname(filePath))
+  const storyFilePath =
+    data.storyFilePath ??
+    path.join(
+      componentDir,
+      `${componentFileName}.stories.${getStoryFileExtension('tsx', language)}`,
+    )
+  // Imports are relative to where the story file is written
+  const storyDir = path.dirname(storyFilePath)
+
+  // Determine story name
+  let storyName = customStoryName || generateStoryName(props)
+  storyName = toValidStoryName(storyName)
+
+  // Collect component references
+  const componentRefs = new Set<string>()
+  collectComponentRefs(props, componentRefs)
+
+  // Build imports
+  const imports: Array<{ name: string; path: string }> = []
+
+  // Main component import (no .jsx/.tsx extension in import path)
+  imports.push({
+    name: isDefaultExport ? componentName : `{ ${componentName} }`,
+    path: getRelativeImportPath(storyDir, filePath),
+  })
+
+  // Referenced components
+  if (componentRegistry) {
+    for (const refName of componentRefs) {
+      if (refName === componentName) continue
+
+      const refFilePath = componentRegistry.get(refName)
+      if (refFilePath) {
+        const refRelativePath = getRelativeImportPath(storyDir, refFilePath)
+        imports.push({
+          name: `{ ${refName} }`,
+          path: refRelativePath,
+        })
+      }
+    }
+  }
+
+  // Generate content
+  let content: string
+
+  if (existingContent) {
+    const appendOptions: Parameters<typeof appendStoryToExisting>[0] = {
+      existingContent,
+      storyName,
+      props,
+      imports,
+      componentName,
+      language,
+      framework,
+    }
+    if (componentRegistry) {
+      appendOptions.componentRegistry = componentRegistry
+    }
+    if (playFunction) {
+      appendOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      appendOptions.playImports = playImports
+    }
+    const appended = appendStoryToExisting(appendOptions)
+    content = appended.content
+    storyName = appended.storyName
+  } else {
+    const contentOptions: Parameters<typeof generateStoryContent>[0] = {
+      componentName,
+      imports,
+      props,
+      isDefaultExport,
+      storyName,
+      language,
+      storybookPackage: data.storybookFramework ?? framework.storybookPackage,
+      framework,
+    }
+    if (componentRegistry) {
+      contentOptions.componentRegistry = componentRegistry
+    }
+    if (playFunction) {
+      contentOptions.playFunction = playFunction
+    }
+    if (playImports) {
+      contentOptions.playImports = playImports
+    }
+    if (data.outputFormat === 'csf-factories') {
+      contentOptions.previewImportPath = getRelativeImportPath(
+        storyDir,
+        data.previewFilePath ??
+          path.join(process.cwd(), '.storybook', 'preview.ts'),
+      )
+    }
+    if (data.argTypes) {
+      contentOptions.argTypes = data.argTypes
+    }
+    content = generateStoryContent(contentOptions)
+  }
+
+  return {
+    content,
+    filePath: storyFilePath,
+    imports,
+    storyName,
+  }
+}
+
+/**
+ * Generate new story file content
+ */
+function generateStoryContent(options: {
+  componentName: string
+  imports: Array<{ name: string; path: string }>
+  props: SerializedProps
+  isDefaultExport: boolean
+  storyName: string
+  componentRegistry?: Map<string, string>
+  playFunction?: string[]
+  playImports?: string[]
+  /** Write CSF Factories, with `preview.meta()` imported from this path */
+  previewImportPath?: string
+  language: StoryLanguage
+  argTypes?: ComponentArgType[]
+  /** Storybook framework package `Meta` and `StoryObj` come from */
+  storybookPackage: string
+  framework: JsxStoryGeneratorOptions
+}): string {
+  const {
+    componentName,
+    imports,
+    props,
+    storyName,
+    playFunction,
+    playImports,
+    previewImportPath,
+    language,
+    argTypes,
+    storybookPackage,
+    framework,
+  } = options
+
+  const needsFnImport = hasAnyFunctionProps(props)
+  const needsReactImport = !!framework.importReact && hasAnyJSXProps(props)
+
+  // Collect storybook/test imports
+  const storybookTestNames = new Set<string>()
+  if (needsFnImport) storybookTestNames.add('fn')
+  if (playImports) {
+    for (const playImport of playImports) {
+      for (const name of extractStorybookTestImports(playImport)) {
+        storybookTestNames.add(name)
+      }
+    }
+  }
+
+  const storybookTestImport =
+    storybookTestNames.size > 0
+      ? `import { ${[...storybookTestNames].join(', ')} } from 'storybook/test';`
+      : null
+
+  const { props: args, fixtures } = hoistSharedValues(props, {
+    componentRegistry: options.componentRegistry,
+    ...(language === 'ts'
+      ? { propsType: `ComponentProps<typeof ${componentName}>` }
+      : {}),
+  })
+
+  // Build imports
+  const importStatements = [
+    ...(needsReactImport ? [`import React from 'react';`] : []),
+    ...(fixtures && language === 'ts'
+      ? [
+          `import type { ComponentProps } from '${framework.componentPropsSource}';`,
+        ]
+      : []),
+    ...(previewImportPath
+      ? [`import preview from '${previewImportPath}';`]
+      : language === 'ts'
+        ? [`import type { Meta, StoryObj } from '${storybookPackage}';`]
+        : []),
+    ...(storybookTestImport ? [storybookTestImport] : []),
+    ...imports.map((imp) => `import ${imp.name} from '${imp.path}';`),
+  ].join('\n')
+
+  const argsContent = generateArgsContent(args, 1, options.componentRegistry)
+  const hasArgs = Object.keys(props).length > 0
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  const storyBody = `${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`
+
+  if (previewImportPath) {
+    return `${importStatements}
+
+const meta = preview.meta({
+  component: ${componentName},${formatArgTypes(argTypes)}
+});
+${fixtures}${formatStoryExport(storyName, storyBody, { metaFactory: 'meta' })}`
+  }
+
+  const metaContent = formatCsf3Meta({
+    component: componentName,
+    typeArgument: `typeof ${componentName}`,
+    storybookPackage,
+    language,
+    argTypes,
+  })
+  const storyExport = formatStoryExport(storyName, storyBody, {
+    storyType: language === 'ts' ? 'annotation' : 'jsdoc',
+  })
+
+  return `${importStatements}
+
+${metaContent}
+${fixtures}${storyExport}`
+}
+
+/**
+ * Append a story to an existing file
+ */
+function appendStoryToExisting(options: {
+  existingContent: string
+  storyName: string
+  props: SerializedProps
+  imports: Array<{ name: string; path: string }>
+  componentName: string
+  componentRegistry?: Map<string, string>
+  playFunction?: string[]
+  playImports?: string[]
+  language: StoryLanguage
+  framework: JsxStoryGeneratorOptions
+}): AppendedStory {
+  const {
+    existingContent,
+    storyName,
+    props,
+    imports,
+    playFunction,
+    playImports,
+    language,
+    framework,
+  } = options
+
+  const storybookTestNames = new Set<string>()
+  if (hasAnyFunctionProps(props)) storybookTestNames.add('fn')
+  for (const playImport of playImports ?? []) {
+    for (const name of extractStorybookTestImports(playImport)) {
+      storybookTestNames.add(name)
+    }
+  }
+
+  const { props: args, fixtures } = hoistSharedValues(props, {
+    existingContent,
+    componentRegistry: options.componentRegistry,
+    ...(language === 'ts'
+      ? { propsType: `ComponentProps<typeof ${options.componentName}>` }
+      : {}),
+  })
+  const argsContent = generateArgsContent(args, 1, options.componentRegistry)
+  const hasArgs = Object.keys(props).length > 0
+  const hasPlay = playFunction && playFunction.length > 0
+  const playContent = hasPlay
+    ? `\n${formatPlayFunctionForStory(playFunction!)}`
+    : ''
+
+  return appendStoryToFile({
+    existingContent,
+    storyName,
+    imports: [
+      ...(framework.importReact && hasAnyJSXProps(props)
+        ? [{ source: 'react', defaultName: 'React' }]
+        : []),
+      ...(fixtures && language === 'ts'
+        ? [
+            {
+              source: framework.componentPropsSource,
+              typeNames: ['ComponentProps'],
+            },
+          ]
+        : []),
+      ...(storybookTestNames.size > 0
+        ? [{ source: 'storybook/test', names: [...storybookTestNames] }]
+        : []),
+      ...imports.map(toStoryFileImport),
+    ],
+    language,
+    createStory: (finalStoryName, style) =>
+      `${fixtures}${formatStoryExport(
+        finalStoryName,
+        `${hasArgs ? `\n  args: ${argsContent},` : ''}${playContent}`,
+        style,
+      )}`,
+  })
+}
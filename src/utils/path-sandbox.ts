@@ -0,0 +1,90 @@
+/**
+ * Path Sandbox
+ *
+ * Component and story paths reach the dev server from the browser (query
+ * parameters, RPC payloads), so any file the plugin probes or writes must
+ * resolve inside the Vite root or an explicitly allowed directory. Paths are
+ * compared after resolving symlinks, so a link inside the root can't be used
+ * to reach files outside of it.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+export interface PathSandbox {
+  /** Real paths of the directories files may live in */
+  readonly roots: string[]
+  /**
+   * Resolve an absolute path through any symlinks and check it against the
+   * allowed roots. Paths that don't exist yet are resolved through their
+   * nearest existing ancestor.
+   *
+   * @returns The real path, or null if it is outside every root
+   */
+  resolve(filePath: string): string | null
+}
+
+function isSymlink(filePath: string): boolean {
+  try {
+    return fs.lstatSync(filePath).isSymbolicLink()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve symlinks in a path that may not exist yet
+ */
+function resolveRealPath(target: string): string | null {
+  const missingSegments: string[] = []
+  let current = target
+
+  for (;;) {
+    try {
+      const realPath = fs.realpathSync(current)
+      return path.join(realPath, ...[...missingSegments].reverse())
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return null
+      // A dangling symlink reports ENOENT too, but writing through it would
+      // create its target, wherever that is
+      if (isSymlink(current)) return null
+
+      const parent = path.dirname(current)
+      if (parent === current) return null
+      missingSegments.push(path.basename(current))
+      current = parent
+    }
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return (
+    relative === '' ||
+    (relative !== '..' &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  )
+}
+
+/**
+ * Create a sandbox that only accepts paths inside the given directories
+ */
+export function createPathSandbox(directories: string[]): PathSandbox {
+  const roots = directories.map((directory) => {
+    const absolute = path.resolve(directory)
+    return resolveRealPath(absolute) ?? absolute
+  })
+
+  return {
+    roots,
+    resolve(filePath: string): string | null {
+      if (!path.isAbsolute(filePath) || filePath.includes('\0')) return null
+
+      const realPath = resolveRealPath(path.resolve(filePath))
+      if (!realPath) return null
+
+      return roots.some((root) => isInside(root, realPath)) ? realPath : null
+    },
+  }
+}
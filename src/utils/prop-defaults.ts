@@ -0,0 +1,266 @@
+/**
+ * Prop Defaults
+ *
+ * Runtimes serialize every prop a component receives, defaults included, so
+ * stories would repeat `disabled: false` or `size: undefined` for props the
+ * story never set. This pass reads a component's default values from its
+ * source (destructuring defaults, `defaultProps`, Solid's `mergeProps()`)
+ * so the plugin can drop args that equal them. Only static values (literals
+ * and object/array literals of them) are read.
+ */
+
+import type * as t from '@babel/types'
+import type { ScannedComponent, SerializedProps } from '../frameworks/types'
+import {
+  findComponentDefinition,
+  getComponentFunction,
+  parseComponentSource,
+} from './arg-types'
+
+/**
+ * The value of a static expression, or null when it isn't one
+ */
+export function evaluateStaticValue(node: t.Node): { value: unknown } | null {
+  switch (node.type) {
+    case 'StringLiteral':
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return { value: node.value }
+    case 'NullLiteral':
+      return { value: null }
+    case 'Identifier':
+      return node.name === 'undefined' ? { value: undefined } : null
+    case 'TemplateLiteral':
+      return node.expressions.length === 0
+        ? { value: node.quasis[0]?.value.cooked ?? '' }
+        : null
+    case 'UnaryExpression': {
+      const argument = evaluateStaticValue(node.argument)
+      if (node.operator === '-' && typeof argument?.value === 'number') {
+        return { value: -argument.value }
+      }
+      return null
+    }
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+      return evaluateStaticValue(node.expression)
+    case 'ArrayExpression': {
+      const items: unknown[] = []
+      for (const element of node.elements) {
+        const item = element && evaluateStaticValue(element)
+        if (!item) return null
+        items.push(item.value)
+      }
+      return { value: items }
+    }
+    case 'ObjectExpression': {
+      const entries = readStaticObject(node)
+      return entries ? { value: Object.fromEntries(entries) } : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * The key of a non-computed object property or pattern property
+ */
+export function getPropertyKey(
+  property: t.ObjectProperty | t.ObjectMethod,
+): string | null {
+  if (property.computed) return null
+  if (property.key.type === 'Identifier') return property.key.name
+  if (property.key.type === 'StringLiteral') return property.key.value
+  return null
+}
+
+/**
+ * The entries of an object literal whose values are all static
+ */
+function readStaticObject(
+  node: t.ObjectExpression,
+): Array<[string, unknown]> | null {
+  const entries: Array<[string, unknown]> = []
+  for (const property of node.properties) {
+    if (property.type !== 'ObjectProperty') return null
+    const key = getPropertyKey(property)
+    const evaluated = evaluateStaticValue(property.value)
+    if (key === null || !evaluated) return null
+    entries.push([key, evaluated.value])
+  }
+  return entries
+}
+
+/**
+ * Static defaults of an object literal, skipping entries that aren't static
+ */
+export function readStaticDefaults(
+  node: t.Node | null | undefined,
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {}
+  if (node?.type !== 'ObjectExpression') return defaults
+
+  for (const property of node.properties) {
+    if (property.type !== 'ObjectProperty') continue
+    const key = getPropertyKey(property)
+    const evaluated = evaluateStaticValue(property.value)
+    if (key !== null && evaluated) defaults[key] = evaluated.value
+  }
+  return defaults
+}
+
+/**
+ * Defaults of a destructured props parameter (`{ size = 'medium' }`)
+ */
+export function readPatternDefaults(
+  pattern: t.Node | null | undefined,
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {}
+  if (pattern?.type !== 'ObjectPattern') return defaults
+
+  for (const property of pattern.properties) {
+    if (
+      property.type !== 'ObjectProperty' ||
+      property.value.type !== 'AssignmentPattern'
+    ) {
+      continue
+    }
+    const key = getPropertyKey(property)
+    const evaluated = evaluateStaticValue(property.value.right)
+    if (key !== null && evaluated) defaults[key] = evaluated.value
+  }
+  return defaults
+}
+
+/**
+ * Defaults passed to Solid's `mergeProps({ ... }, props)` in a component body
+ */
+function readMergePropsDefaults(
+  fn: t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression,
+): Record<string, unknown> {
+  if (fn.body.type !== 'BlockStatement') return {}
+
+  for (const statement of fn.body.body) {
+    if (statement.type !== 'VariableDeclaration') continue
+    for (const { init } of statement.declarations) {
+      if (
+        init?.type === 'CallExpression' &&
+        init.callee.type === 'Identifier' &&
+        init.callee.name === 'mergeProps'
+      ) {
+        return readStaticDefaults(init.arguments[0])
+      }
+    }
+  }
+  return {}
+}
+
+/**
+ * Defaults assigned to `Component.defaultProps` at the top level, or
+ * declared as a class component's `static defaultProps`
+ */
+function readDefaultPropsAssignment(
+  program: t.Program,
+  localName: string | null,
+  node: t.Node,
+): Record<string, unknown> {
+  if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+    const member = node.body.body.find(
+      (candidate): candidate is t.ClassProperty =>
+        candidate.type === 'ClassProperty' &&
+        candidate.static &&
+        candidate.key.type === 'Identifier' &&
+        candidate.key.name === 'defaultProps',
+    )
+    if (member) return readStaticDefaults(member.value)
+  }
+  if (!localName) return {}
+
+  for (const statement of program.body) {
+    if (
+      statement.type === 'ExpressionStatement' &&
+      statement.expression.type === 'AssignmentExpression' &&
+      statement.expression.left.type === 'MemberExpression' &&
+      statement.expression.left.object.type === 'Identifier' &&
+      statement.expression.left.object.name === localName &&
+      statement.expression.left.property.type === 'Identifier' &&
+      statement.expression.left.property.name === 'defaultProps'
+    ) {
+      return readStaticDefaults(statement.expression.right)
+    }
+  }
+  return {}
+}
+
+/**
+ * Default prop values of a component in a TS/JSX file (React, Preact, Solid)
+ */
+export function extractJsxComponentPropDefaults(
+  code: string,
+  id: string,
+  component: ScannedComponent,
+): Record<string, unknown> {
+  const { program } = parseComponentSource(code, id)
+  const definition = findComponentDefinition(program, component)
+  if (!definition) return {}
+
+  const fn = getComponentFunction(definition.node)
+  return {
+    ...readDefaultPropsAssignment(
+      program,
+      definition.localName,
+      definition.node,
+    ),
+    ...(fn ? readMergePropsDefaults(fn) : {}),
+    ...(fn ? readPatternDefaults(fn.params[0]) : {}),
+  }
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqualValue(item, b[index]))
+    )
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    return false
+  }
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isEqualValue(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      ),
+    )
+  )
+}
+
+/**
+ * Drop props that equal the component's defaults. `undefined` is every
+ * optional prop's default, so undefined props are dropped too.
+ */
+export function omitDefaultProps(
+  props: SerializedProps,
+  defaults: Record<string, unknown>,
+): SerializedProps {
+  return Object.fromEntries(
+    Object.entries(props).filter(
+      ([key, value]) =>
+        value !== undefined &&
+        !(Object.hasOwn(defaults, key) && isEqualValue(value, defaults[key])),
+    ),
+  )
+}
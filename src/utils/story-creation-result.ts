@@ -0,0 +1,241 @@
+/**
+ * Story Creation Results
+ *
+ * Typed outcome of a create-story request. Failures carry a machine-readable
+ * code, the concrete reason and a suggested fix, so the overlay can explain
+ * why nothing was written instead of leaving the request unanswered.
+ */
+
+import type {
+  SerializedProps,
+  UnsupportedSerializedValue,
+} from '../frameworks/types'
+
+export type StoryCreationErrorCode =
+  /** The framework's story generator threw */
+  | 'generator-error'
+  /** The story file (or its directory) is not writable */
+  | 'write-permission-denied'
+  /** Any other file system error while writing the story */
+  | 'write-failed'
+  /** A prop value can't be emitted as story source */
+  | 'unsupported-prop'
+  /** The component or story file is outside the project root and allowed paths */
+  | 'path-outside-root'
+  /** The request carried no serialized props */
+  | 'missing-props'
+  /** Story writing is turned off with `writeStoryFiles: false` */
+  | 'writes-disabled'
+  /** The confirmed preview expired, or a file it diffed against changed */
+  | 'preview-outdated'
+
+export interface StoryCreationSuccess {
+  ok: true
+  /** Absolute path of the story file that was written */
+  filePath: string
+  /** Story export name that was written */
+  storyName: string
+  /** Whether the story was appended to an existing file */
+  isAppend: boolean
+  /** Journal entry recording the write (for undo) */
+  journalEntryId: string
+}
+
+export interface StoryCreationFailure {
+  ok: false
+  code: StoryCreationErrorCode
+  /** What went wrong, in user-facing terms */
+  message: string
+  /** How to fix it */
+  suggestion: string
+  /** Story file the request targeted, when known */
+  filePath?: string
+}
+
+export type StoryCreationResult = StoryCreationSuccess | StoryCreationFailure
+
+const DEFAULT_SUGGESTIONS: Record<StoryCreationErrorCode, string> = {
+  'generator-error':
+    'Check the dev server log for the stack trace, and report it if the component renders fine in the app.',
+  'write-permission-denied':
+    'Make the story file and its folder writable by the dev server, then try again.',
+  'write-failed':
+    'Check that the disk is not full and the story path is valid, then try again.',
+  'unsupported-prop':
+    'Remove or simplify the prop (plain objects, arrays and primitives are supported), or write this story by hand.',
+  'path-outside-root':
+    'Keep components and `storiesDir` inside the Vite root, or add the folder to the `allowedPaths` plugin option.',
+  'missing-props':
+    'Reload the page so the component is re-registered, then try again.',
+  'writes-disabled':
+    'Set `writeStoryFiles: true` in the plugin options to let the plugin write stories.',
+  'preview-outdated':
+    'Preview the story again to see the current changes, then confirm.',
+}
+
+/**
+ * Error thrown while preparing or writing a story, with its failure code
+ */
+export class StoryCreationError extends Error {
+  readonly code: StoryCreationErrorCode
+  readonly suggestion: string
+
+  constructor(
+    code: StoryCreationErrorCode,
+    message: string,
+    suggestion: string = DEFAULT_SUGGESTIONS[code],
+  ) {
+    super(message)
+    this.name = 'StoryCreationError'
+    this.code = code
+    this.suggestion = suggestion
+  }
+}
+
+/**
+ * Build a failure result, using the default suggestion for the code
+ */
+export function createStoryCreationFailure(
+  code: StoryCreationErrorCode,
+  message: string,
+  filePath?: string,
+): StoryCreationFailure {
+  return {
+    ok: false,
+    code,
+    message,
+    suggestion: DEFAULT_SUGGESTIONS[code],
+    ...(filePath ? { filePath } : {}),
+  }
+}
+
+const PERMISSION_ERROR_CODES = new Set(['EACCES', 'EPERM', 'EROFS'])
+
+/**
+ * Classify an error thrown while creating a story
+ */
+export function toStoryCreationFailure(
+  error: unknown,
+  filePath?: string,
+): StoryCreationFailure {
+  if (error instanceof StoryCreationError) {
+    return {
+      ok: false,
+      code: error.code,
+      message: error.message,
+      suggestion: error.suggestion,
+      ...(filePath ? { filePath } : {}),
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const errno = (error as { code?: unknown; syscall?: unknown } | null) ?? {}
+
+  if (typeof errno.code === 'string' && PERMISSION_ERROR_CODES.has(errno.code)) {
+    return createStoryCreationFailure(
+      'write-permission-denied',
+      `Permission denied writing ${filePath ?? 'the story file'} (${errno.code})`,
+      filePath,
+    )
+  }
+
+  if (typeof errno.code === 'string' && typeof errno.syscall === 'string') {
+    return createStoryCreationFailure(
+      'write-failed',
+      `Could not write ${filePath ?? 'the story file'}: ${message}`,
+      filePath,
+    )
+  }
+
+  return createStoryCreationFailure(
+    'generator-error',
+    `Story generation failed: ${message}`,
+    filePath,
+  )
+}
+
+/**
+ * Markers of serialized values the story generators emit as a whole. Tagged
+ * built-ins (`__isMap`, `__isClassInstance`...) are walked like plain
+ * objects instead, since they may hold unsupported values.
+ */
+const SERIALIZED_MARKERS = [
+  '__isJSX',
+  '__isFunction',
+  '__isVueSlot',
+  '__isSvelteSnippet',
+  '__isWebComponentSlot',
+]
+
+function describeValueType(value: unknown): string {
+  if (typeof value !== 'object' || value === null) return typeof value
+  return (value as { constructor?: { name?: string } }).constructor?.name || 'object'
+}
+
+/**
+ * Find the first prop value that can't be written as story source: values
+ * the runtime tagged as unsupported (symbols, DOM nodes, promises...), and
+ * symbols, bigints or class instances a runtime passed through untagged,
+ * which would be emitted as broken or misleading code
+ *
+ * @returns The prop path and value type, or null if every value is supported
+ */
+export function findUnsupportedProp(
+  props: SerializedProps,
+): { path: string; type: string } | null {
+  const visit = (
+    value: unknown,
+    valuePath: string,
+  ): { path: string; type: string } | null => {
+    if (
+      value === null ||
+      value === undefined ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean' ||
+      typeof value === 'function'
+    ) {
+      return null
+    }
+
+    if (typeof value !== 'object') {
+      return { path: valuePath, type: typeof value }
+    }
+
+    if ('__isUnsupported' in value) {
+      return {
+        path: valuePath,
+        type: (value as UnsupportedSerializedValue).type,
+      }
+    }
+
+    if (SERIALIZED_MARKERS.some((marker) => marker in value)) {
+      return null
+    }
+
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; i++) {
+        const found = visit(value[i], `${valuePath}[${i}]`)
+        if (found) return found
+      }
+      return null
+    }
+
+    const prototype = Object.getPrototypeOf(value)
+    if (prototype !== Object.prototype && prototype !== null) {
+      return { path: valuePath, type: describeValueType(value) }
+    }
+
+    for (const [key, nested] of Object.entries(value)) {
+      const found = visit(nested, `${valuePath}.${key}`)
+      if (found) return found
+    }
+    return null
+  }
+
+  for (const [key, value] of Object.entries(props)) {
+    const found = visit(value, key)
+    if (found) return found
+  }
+  return null
+}
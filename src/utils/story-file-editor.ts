@@ -0,0 +1,359 @@
+/**
+ * Story File Editor
+ *
+ * Appends a generated story to an existing story file. The file is parsed
+ * with Babel and edited in place with `magic-string`, so imports are merged
+ * by what they actually import (multi-line and commented imports included)
+ * and everything the generator doesn't touch keeps its formatting and
+ * comments. Whether the file is written as CSF3 or CSF Factories is read
+ * from its meta, and whether it declares a `Story` type from its type alias
+ * or JSDoc typedef, so appended stories match the stories already there.
+ */
+
+import { parse } from '@babel/parser'
+import type * as t from '@babel/types'
+import MagicString from 'magic-string'
+import type { StoryExportStyle, StoryLanguage } from './story-generator'
+
+/**
+ * An import the appended story needs. With neither `defaultName` nor
+ * `names`, it is a side-effect import (`import './my-element'`).
+ */
+export interface StoryFileImport {
+  source: string
+  /** Local name of the default import */
+  defaultName?: string
+  /** Named imports */
+  names?: string[]
+  /**
+   * Named type-only imports, added to an `import type` declaration
+   * (`default as Button` imports the type of a default export)
+   */
+  typeNames?: string[]
+}
+
+export interface AppendStoryOptions {
+  existingContent: string
+  /** Preferred story export name; suffixed with a counter when taken */
+  storyName: string
+  imports: StoryFileImport[]
+  /**
+   * Source of the story export, given the final story name and how the
+   * file's stories are written
+   */
+  createStory: (storyName: string, style: StoryExportStyle) => string
+  /**
+   * Language of the file: typed stories use a TS annotation or a JSDoc
+   * `@type` accordingly
+   * @default 'ts'
+   */
+  language?: StoryLanguage
+}
+
+export interface AppendedStory {
+  content: string
+  /** The story export name that was used */
+  storyName: string
+}
+
+/**
+ * Parse a `{ Foo }` / `Foo` import name from the generators' import list
+ */
+export function toStoryFileImport(imp: {
+  name: string
+  path: string
+}): StoryFileImport {
+  const name = imp.name.trim()
+  if (name.startsWith('{')) {
+    return {
+      source: imp.path,
+      names: name
+        .replace(/[{}]/g, '')
+        .split(',')
+        .map((part) => part.trim())
+        .filter(Boolean),
+    }
+  }
+  return name ? { source: imp.path, defaultName: name } : { source: imp.path }
+}
+
+/**
+ * Names bound at the top level of the file: imports, declarations and exports
+ */
+function collectTopLevelNames(program: t.Program): Set<string> {
+  const names = new Set<string>()
+  const addDeclaration = (declaration: t.Node | null | undefined) => {
+    if (!declaration) return
+    if (declaration.type === 'VariableDeclaration') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === 'Identifier') names.add(declarator.id.name)
+      }
+    } else if (
+      (declaration.type === 'FunctionDeclaration' ||
+        declaration.type === 'ClassDeclaration' ||
+        declaration.type === 'TSTypeAliasDeclaration' ||
+        declaration.type === 'TSInterfaceDeclaration' ||
+        declaration.type === 'TSEnumDeclaration') &&
+      declaration.id
+    ) {
+      names.add(declaration.id.name)
+    }
+  }
+
+  for (const statement of program.body) {
+    if (statement.type === 'ImportDeclaration') {
+      for (const specifier of statement.specifiers) {
+        names.add(specifier.local.name)
+      }
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      addDeclaration(statement.declaration)
+      for (const specifier of statement.specifiers) {
+        if (specifier.exported.type === 'Identifier') {
+          names.add(specifier.exported.name)
+        }
+      }
+    } else {
+      addDeclaration(statement)
+    }
+  }
+  return names
+}
+
+/**
+ * Name of the top-level `const meta = preview.meta({ ... })` of a CSF
+ * Factories file, or null when the file uses CSF3 objects
+ */
+function findMetaFactory(program: t.Program): string | null {
+  for (const statement of program.body) {
+    const declaration =
+      statement.type === 'ExportNamedDeclaration'
+        ? statement.declaration
+        : statement
+    if (declaration?.type !== 'VariableDeclaration') continue
+
+    for (const declarator of declaration.declarations) {
+      const init = declarator.init
+      if (
+        declarator.id.type === 'Identifier' &&
+        init?.type === 'CallExpression' &&
+        init.callee.type === 'MemberExpression' &&
+        !init.callee.computed &&
+        init.callee.property.type === 'Identifier' &&
+        init.callee.property.name === 'meta'
+      ) {
+        return declarator.id.name
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Whether the file declares a `Story` type: a TS alias (collected with the
+ * top-level names) or a JSDoc `@typedef`
+ */
+function hasStoryType(
+  comments: t.Comment[] | null | undefined,
+  topLevelNames: Set<string>,
+): boolean {
+  return (
+    topLevelNames.has('Story') ||
+    (comments ?? []).some((comment) =>
+      /@typedef\s+\{[\s\S]*\}\s+Story\b/.test(comment.value),
+    )
+  )
+}
+
+/**
+ * Combine imports from the same module, so each is added once
+ */
+function mergeImports(imports: StoryFileImport[]): StoryFileImport[] {
+  const bySource = new Map<string, StoryFileImport[]>()
+  for (const imp of imports) {
+    bySource.set(imp.source, [...(bySource.get(imp.source) ?? []), imp])
+  }
+
+  return [...bySource.values()].flatMap((group) => {
+    const names = [...new Set(group.flatMap((imp) => imp.names ?? []))]
+    const typeNames = [...new Set(group.flatMap((imp) => imp.typeNames ?? []))]
+    const defaultNames = [
+      ...new Set(group.flatMap((imp) => imp.defaultName ?? [])),
+    ]
+    const namedImports = {
+      ...(names.length ? { names } : {}),
+      ...(typeNames.length ? { typeNames } : {}),
+    }
+    if (defaultNames.length === 0) {
+      return [{ source: group[0]!.source, ...namedImports }]
+    }
+    // Several default imports of one module need their own declarations
+    return defaultNames.map((defaultName, index) => ({
+      source: group[0]!.source,
+      defaultName,
+      ...(index === 0 ? namedImports : {}),
+    }))
+  })
+}
+
+/**
+ * Parse a story file (TS, JSX and decorators allowed)
+ */
+function parseStoryFile(content: string) {
+  return parse(content, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      'jsx',
+      ['decorators', { decoratorsBeforeExport: true }],
+    ],
+  })
+}
+
+/**
+ * Add imports to a story file's own import declarations. Names the file
+ * already binds (`takenNames`) are skipped.
+ */
+function insertImports(
+  s: MagicString,
+  content: string,
+  program: t.Program,
+  imports: StoryFileImport[],
+  takenNames: Set<string>,
+): void {
+  const importDeclarations = program.body.filter(
+    (statement): statement is t.ImportDeclaration =>
+      statement.type === 'ImportDeclaration',
+  )
+  const lastImport = importDeclarations.at(-1)
+
+  // Match the file's quote and semicolon style in added imports
+  const quote = lastImport
+    ? content[lastImport.source.start!] === '"'
+      ? '"'
+      : "'"
+    : "'"
+  const semicolon =
+    lastImport && content[lastImport.end! - 1] !== ';' ? '' : ';'
+  const newImports: string[] = []
+
+  for (const imp of mergeImports(imports)) {
+    // `import type` declarations don't provide runtime bindings
+    const valueImports = importDeclarations.filter(
+      (declaration) =>
+        declaration.source.value === imp.source &&
+        declaration.importKind !== 'type',
+    )
+    const importStatement = (clause: string) =>
+      `import ${clause}${quote}${imp.source}${quote}${semicolon}`
+
+    if (!imp.defaultName && !imp.names?.length && !imp.typeNames?.length) {
+      if (valueImports.length === 0) newImports.push(importStatement(''))
+      continue
+    }
+
+    const missingTypeNames = (imp.typeNames ?? []).filter(
+      (name) => !takenNames.has(name.split(' as ').at(-1)!),
+    )
+    if (missingTypeNames.length > 0) {
+      const typeImport = importDeclarations.find(
+        (declaration) =>
+          declaration.source.value === imp.source &&
+          declaration.importKind === 'type' &&
+          declaration.specifiers.some(
+            (specifier) => specifier.type === 'ImportSpecifier',
+          ),
+      )
+      if (typeImport) {
+        const lastSpecifier = typeImport.specifiers.at(-1)!
+        s.appendLeft(lastSpecifier.end!, `, ${missingTypeNames.join(', ')}`)
+      } else {
+        newImports.push(
+          importStatement(`type { ${missingTypeNames.join(', ')} } from `),
+        )
+      }
+    }
+
+    // Names the file already binds are left alone: either they are imported
+    // already, or adding them would redeclare a local binding
+    if (imp.defaultName && !takenNames.has(imp.defaultName)) {
+      newImports.push(importStatement(`${imp.defaultName} from `))
+    }
+
+    const missingNames = (imp.names ?? []).filter(
+      (name) => !takenNames.has(name),
+    )
+    if (missingNames.length === 0) continue
+
+    // Extend an existing `import { ... }` from the same module
+    const namedImport = valueImports.find((declaration) =>
+      declaration.specifiers.some(
+        (specifier) => specifier.type === 'ImportSpecifier',
+      ),
+    )
+    if (namedImport) {
+      const lastSpecifier = namedImport.specifiers.at(-1)!
+      s.appendLeft(lastSpecifier.end!, `, ${missingNames.join(', ')}`)
+    } else {
+      newImports.push(importStatement(`{ ${missingNames.join(', ')} } from `))
+    }
+  }
+
+  if (newImports.length > 0) {
+    if (lastImport) {
+      s.appendLeft(lastImport.end!, `\n${newImports.join('\n')}`)
+    } else {
+      s.prepend(`${newImports.join('\n')}\n`)
+    }
+  }
+}
+
+/**
+ * Add imports to a story file, merged into its import declarations like
+ * those of an appended story
+ */
+export function addStoryFileImports(
+  content: string,
+  imports: StoryFileImport[],
+): string {
+  const ast = parseStoryFile(content)
+  const s = new MagicString(content)
+  insertImports(
+    s,
+    content,
+    ast.program,
+    imports,
+    collectTopLevelNames(ast.program),
+  )
+  return s.toString()
+}
+
+/**
+ * Append a story export to an existing story file, adding the imports it
+ * needs to the file's own import declarations
+ */
+export function appendStoryToFile(options: AppendStoryOptions): AppendedStory {
+  const { existingContent, createStory, language = 'ts' } = options
+
+  const ast = parseStoryFile(existingContent)
+  const s = new MagicString(existingContent)
+
+  const takenNames = collectTopLevelNames(ast.program)
+  let storyName = options.storyName
+  for (let counter = 2; takenNames.has(storyName); counter++) {
+    storyName = `${options.storyName}${counter}`
+  }
+
+  insertImports(s, existingContent, ast.program, options.imports, takenNames)
+
+  return {
+    content: `${s.toString().trimEnd()}\n${createStory(storyName, {
+      metaFactory: findMetaFactory(ast.program),
+      storyType: hasStoryType(ast.comments, takenNames)
+        ? language === 'js'
+          ? 'jsdoc'
+          : 'annotation'
+        : null,
+    })}`,
+    storyName,
+  }
+}
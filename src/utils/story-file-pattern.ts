@@ -0,0 +1,103 @@
+/**
+ * Story File Pattern
+ *
+ * Resolves where the story file of a component lives, from a template such as
+ * `{dir}/__stories__/{name}.stories.{ext}` or `stories/{relativeDir}/{name}`.
+ * Used both to write stories and to look existing ones up, so the two always
+ * agree.
+ */
+
+import * as path from 'path'
+
+/**
+ * Tokens available in a story file pattern
+ */
+const PATTERN_TOKENS = {
+  /** Absolute directory of the component */
+  dir: true,
+  /** Component directory relative to the Vite root */
+  relativeDir: true,
+  /** Component file name without extension */
+  name: true,
+  /** The framework's story file extension (e.g. `tsx`, `ts`) */
+  ext: true,
+} as const
+
+type PatternToken = keyof typeof PATTERN_TOKENS
+
+/** Stories next to their component */
+export const DEFAULT_STORY_FILE_PATTERN = '{dir}/{name}.stories.{ext}'
+
+export interface StoryFilePatternContext {
+  /** Absolute path of the component file */
+  componentPath: string
+  /** Vite root; relative patterns resolve against it */
+  root: string
+  /** Story file extension, without the leading dot */
+  extension: string
+}
+
+/**
+ * Build the story file pattern for the plugin options: `storyFilePattern`
+ * wins, `storiesDir` maps to `{dir}/<storiesDir>/{name}.stories.{ext}`.
+ * Patterns without `{ext}` get `.stories.{ext}` appended.
+ *
+ * @throws If the pattern uses an unknown token or has no `{name}`
+ */
+export function normalizeStoryFilePattern(options: {
+  storyFilePattern?: string | undefined
+  storiesDir?: string | undefined
+}): string {
+  const { storyFilePattern, storiesDir } = options
+
+  let pattern = DEFAULT_STORY_FILE_PATTERN
+  if (storyFilePattern) {
+    pattern = storyFilePattern.includes('{ext}')
+      ? storyFilePattern
+      : `${storyFilePattern}.stories.{ext}`
+  } else if (storiesDir) {
+    pattern = `{dir}/${storiesDir}/{name}.stories.{ext}`
+  }
+
+  for (const [, token] of pattern.matchAll(/\{([^}]*)\}/g)) {
+    if (!(token! in PATTERN_TOKENS)) {
+      throw new Error(
+        `[component-highlighter] Unknown token {${token}} in storyFilePattern "${pattern}". Available tokens: ${Object.keys(
+          PATTERN_TOKENS,
+        )
+          .map((name) => `{${name}}`)
+          .join(', ')}`,
+      )
+    }
+  }
+  if (!pattern.includes('{name}')) {
+    throw new Error(
+      `[component-highlighter] storyFilePattern "${pattern}" must contain {name}, or every component would share one story file`,
+    )
+  }
+
+  return pattern
+}
+
+/**
+ * Resolve the absolute story file path of a component
+ */
+export function resolveStoryFilePath(
+  pattern: string,
+  context: StoryFilePatternContext,
+): string {
+  const { componentPath, root, extension } = context
+  const componentDir = path.dirname(componentPath)
+  const values: Record<PatternToken, string> = {
+    dir: componentDir,
+    relativeDir: path.relative(root, componentDir),
+    name: path.basename(componentPath, path.extname(componentPath)),
+    ext: extension,
+  }
+
+  const filePath = pattern.replace(
+    /\{([^}]*)\}/g,
+    (_match, token: PatternToken) => values[token],
+  )
+  return path.resolve(root, filePath)
+}
@@ -0,0 +1,195 @@
+/**
+ * Story Fixtures
+ *
+ * Large captured args (a list of 200 tasks...) would bury a story in data.
+ * Args whose code runs past a line threshold are moved to the component's
+ * fixtures module (`Button.fixtures.ts` next to the component, or in a
+ * configured directory) and imported by name. An arg equal to an export the
+ * module already has reuses that export, so the stories of a component
+ * share their fixtures.
+ */
+
+import { parse } from '@babel/parser'
+import * as path from 'path'
+import type { SerializedProps } from '../frameworks/types'
+import { addStoryFileImports, type StoryFileImport } from './story-file-editor'
+import {
+  escapeRegex,
+  formatPropValue,
+  getPropTypeAtPath,
+  toFixtureIdentifier,
+  type StoryLanguage,
+} from './story-generator'
+
+/**
+ * Markers of values that only make sense in the story file: markup and
+ * `fn()` need the story's imports, shared references its own fixtures
+ */
+const STORY_ONLY_MARKERS = [
+  '__isJSX',
+  '__isFunction',
+  '__isVueSlot',
+  '__isSvelteSnippet',
+  '__isWebComponentSlot',
+  '__isShared',
+  '__isSharedRef',
+]
+
+export interface ExtractedFixtures {
+  /** Props with the moved args replaced by references to their exports */
+  props: SerializedProps
+  /** Exports the story imports from the fixtures module */
+  names: string[]
+  /** The fixtures module with the new exports, or null when none were added */
+  content: string | null
+}
+
+/**
+ * Path of a component's fixtures module: `<Component>.fixtures.<ts|js>` next
+ * to the component, or in `fixturesDir` (relative to the root)
+ */
+export function resolveFixturesFilePath(options: {
+  componentPath: string
+  componentName: string
+  root: string
+  fixturesDir?: string | undefined
+  language: StoryLanguage
+}): string {
+  const { componentPath, componentName, root, fixturesDir, language } = options
+  const dir = fixturesDir
+    ? path.resolve(root, fixturesDir)
+    : path.dirname(componentPath)
+  return path.join(dir, `${componentName}.fixtures.${language}`)
+}
+
+function isFixtureData(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return true
+  if (STORY_ONLY_MARKERS.some((marker) => marker in value)) return false
+  return Object.values(value).every(isFixtureData)
+}
+
+/**
+ * The `export const` declarations of a fixtures module, keyed by their
+ * value's tokens so that formatting, quotes and trailing commas don't matter.
+ * A `satisfies` type is not part of the value.
+ */
+function readFixtureExports(content: string): Map<string, string> {
+  const file = parse(content, {
+    sourceType: 'module',
+    plugins: ['typescript'],
+    tokens: true,
+  })
+  const tokens = (file.tokens ?? []).filter(
+    (token) => typeof token.type !== 'string',
+  ) as Array<{
+    type: { label: string }
+    value?: unknown
+    start: number
+    end: number
+  }>
+
+  const exports = new Map<string, string>()
+  for (const statement of file.program.body) {
+    if (
+      statement.type !== 'ExportNamedDeclaration' ||
+      statement.declaration?.type !== 'VariableDeclaration'
+    ) {
+      continue
+    }
+    for (const { id, init } of statement.declaration.declarations) {
+      if (id.type !== 'Identifier' || !init) continue
+      const value =
+        init.type === 'TSSatisfiesExpression' ? init.expression : init
+      const valueTokens = tokens.filter(
+        (token) => token.start >= value.start! && token.end <= value.end!,
+      )
+      const key = valueTokens
+        .filter(
+          (token, index) =>
+            token.type.label !== ',' ||
+            !/^[\])}]$/.test(valueTokens[index + 1]?.type.label ?? ''),
+        )
+        .map((token) => `${token.type.label}:${JSON.stringify(token.value)}`)
+        .join(' ')
+      if (!exports.has(key)) exports.set(key, id.name)
+    }
+  }
+  return exports
+}
+
+/**
+ * Move args whose code is longer than `threshold` lines to the fixtures
+ * module. Only data moves: args holding markup, functions or shared
+ * references stay in the story. New exports are named after their prop,
+ * clear of the module's exports and the names the story file uses.
+ *
+ * Given the component's `propsType` (TS modules), each new export
+ * `satisfies` the type of its prop, so literals such as `status: 'todo'`
+ * keep the union types the prop expects, and the module gets the imports
+ * the type needs.
+ */
+export function extractStoryFixtures(
+  props: SerializedProps,
+  options: {
+    threshold: number
+    /** Current content of the fixtures module, if it exists */
+    existingContent?: string | undefined
+    /** Current content of the story file, if it exists */
+    storyContent?: string | undefined
+    /** The component's props type and the imports it needs */
+    propsType?: { type: string; imports: StoryFileImport[] } | undefined
+  },
+): ExtractedFixtures {
+  const { threshold, existingContent, storyContent = '', propsType } = options
+  const exportsByValue = existingContent
+    ? readFixtureExports(existingContent)
+    : new Map<string, string>()
+  const takenNames = new Set(exportsByValue.values())
+  const isTaken = (name: string) =>
+    takenNames.has(name) ||
+    new RegExp(`(?<![\\w$])${escapeRegex(name)}(?![\\w$])`).test(storyContent)
+
+  const extracted: SerializedProps = {}
+  const names: string[] = []
+  const declarations: string[] = []
+
+  for (const [key, value] of Object.entries(props)) {
+    const code = formatPropValue(value, 0)
+    if (code.split('\n').length <= threshold || !isFixtureData(value)) {
+      extracted[key] = value
+      continue
+    }
+
+    const valueKey = [
+      ...readFixtureExports(`export const value = ${code};`).keys(),
+    ][0]!
+    let name = exportsByValue.get(valueKey)
+    if (!name) {
+      const baseName = toFixtureIdentifier(key)
+      name = baseName
+      for (let counter = 2; isTaken(name); counter++) {
+        name = `${baseName}${counter}`
+      }
+      takenNames.add(name)
+      exportsByValue.set(valueKey, name)
+      const typeCheck = propsType
+        ? ` satisfies ${getPropTypeAtPath(propsType.type, [key])}`
+        : ''
+      declarations.push(`export const ${name} = ${code}${typeCheck};`)
+    }
+
+    if (!names.includes(name)) names.push(name)
+    extracted[key] = { __isFixtureRef: true, name }
+  }
+
+  if (declarations.length === 0) {
+    return { props: extracted, names, content: null }
+  }
+  const header = propsType
+    ? addStoryFileImports(existingContent ?? '', propsType.imports)
+    : existingContent
+  const content = `${[header?.trimEnd(), ...declarations]
+    .filter(Boolean)
+    .join('\n\n')}\n`
+  return { props: extracted, names, content }
+}
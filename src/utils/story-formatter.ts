@@ -0,0 +1,312 @@
+/**
+ * Story Formatter
+ *
+ * Generated stories are built from template strings, so their quoting,
+ * semicolons and trailing commas rarely match the project's style. Before a
+ * story is written (or previewed), it is run through the project's own
+ * formatter: Biome when the project has a Biome config, else Prettier when
+ * it has a Prettier config, each resolved from the project's `node_modules`
+ * so its version and config apply. Without either, content is written as
+ * generated. When a story is appended to an existing file, only the lines
+ * the append added are formatted, so the rest of the file stays as it was.
+ */
+
+import { spawn } from 'child_process'
+import * as fs from 'fs'
+import { createRequire } from 'module'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { findAddedLines } from './unified-diff'
+
+export type StoryFormatterName = 'prettier' | 'biome'
+
+/**
+ * `auto` picks Biome or Prettier, whichever the project has a config for;
+ * `false` turns formatting off
+ */
+export type StoryFormatterOption = 'auto' | StoryFormatterName | false
+
+export interface StoryFormatterOptions {
+  /** Project root the formatter and its config are resolved from */
+  root: string
+  /** @default 'auto' */
+  formatter?: StoryFormatterOption
+  /**
+   * Milliseconds a Biome run may take before it is killed and the story is
+   * written unformatted
+   * @default 10000
+   */
+  timeout?: number
+}
+
+export interface StoryFormatter {
+  /** The formatter in use, or null if none is available */
+  detect(): Promise<StoryFormatterName | null>
+  /**
+   * Format story file content as the project's formatter would format the
+   * file at `filePath`. Given the file's `existingContent`, only the lines
+   * added to it are formatted. Returns the content unchanged when no
+   * formatter is available, the file is ignored by the formatter, or
+   * formatting fails.
+   */
+  format(
+    content: string,
+    filePath: string,
+    existingContent?: string,
+  ): Promise<string>
+}
+
+/** The part of Prettier's API used here */
+type PrettierApi = {
+  format(source: string, options: Record<string, unknown>): Promise<string>
+  resolveConfig(
+    filePath: string,
+    options?: { editorconfig?: boolean },
+  ): Promise<Record<string, unknown> | null>
+  resolveConfigFile(filePath: string): Promise<string | null>
+  getFileInfo(
+    filePath: string,
+    options?: { ignorePath?: string | string[] },
+  ): Promise<{ ignored: boolean }>
+}
+
+const BIOME_CONFIG_FILES = ['biome.json', 'biome.jsonc']
+
+/**
+ * Find a Biome config in the root or any parent directory (monorepo roots)
+ */
+function hasBiomeConfig(root: string): boolean {
+  let directory = root
+  for (;;) {
+    if (
+      BIOME_CONFIG_FILES.some((file) =>
+        fs.existsSync(path.join(directory, file)),
+      )
+    ) {
+      return true
+    }
+    const parent = path.dirname(directory)
+    if (parent === directory) return false
+    directory = parent
+  }
+}
+
+function resolveFromRoot(root: string, request: string): string | null {
+  try {
+    return createRequire(path.join(root, 'package.json')).resolve(request)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find the Biome CLI launcher installed for the project (its package has an
+ * `exports` map, so it is located through `node_modules` rather than require)
+ */
+function resolveBiomeBin(root: string): string | null {
+  let directory = root
+  for (;;) {
+    const packageDir = path.join(directory, 'node_modules', '@biomejs', 'biome')
+    try {
+      const { bin } = JSON.parse(
+        fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'),
+      ) as { bin?: string | Record<string, string> }
+      const binPath = typeof bin === 'string' ? bin : bin?.['biome']
+      if (binPath) return path.join(packageDir, binPath)
+    } catch {
+      // Not installed at this level
+    }
+    const parent = path.dirname(directory)
+    if (parent === directory) return null
+    directory = parent
+  }
+}
+
+/**
+ * Run `biome format` on stdin, as if the content were the file at `filePath`.
+ * A run that outlasts `timeout` (a lock, a bad config) is killed, so story
+ * requests don't wait on it forever.
+ */
+function runBiome(
+  biomeBin: string,
+  root: string,
+  content: string,
+  filePath: string,
+  timeout: number,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // The launcher runs Biome's native binary as its own child: give them a
+    // process group, so both are killed together
+    const detached = process.platform !== 'win32'
+    const child = spawn(
+      process.execPath,
+      [biomeBin, 'format', `--stdin-file-path=${filePath}`],
+      { cwd: root, stdio: ['pipe', 'pipe', 'pipe'], detached },
+    )
+    const timer = setTimeout(() => {
+      try {
+        process.kill(detached ? -child.pid! : child.pid!, 'SIGKILL')
+      } catch {
+        // Already exited
+      }
+      reject(new Error(`biome did not finish within ${timeout}ms`))
+    }, timeout)
+    let stdout = ''
+    let stderr = ''
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => {
+      stdout += chunk
+    })
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => {
+      stderr += chunk
+    })
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', (exitCode) => {
+      clearTimeout(timer)
+      if (exitCode === 0) {
+        resolve(stdout)
+      } else {
+        reject(new Error(stderr.trim() || `biome exited with code ${exitCode}`))
+      }
+    })
+    // A killed or crashed Biome closes stdin early; `close` reports it
+    child.stdin.on('error', () => {})
+    child.stdin.end(content)
+  })
+}
+
+/**
+ * Format the lines added to `existingContent` one run at a time, each as a
+ * module of its own. A run that isn't made of whole statements (e.g. a name
+ * added inside a multi-line import) fails to parse and is kept as is.
+ */
+async function formatAddedLines(
+  content: string,
+  existingContent: string,
+  formatSource: (source: string) => Promise<string>,
+): Promise<string> {
+  const lines = content.split('\n')
+  const ranges = findAddedLines(existingContent, content)
+
+  for (const { start, end } of ranges.reverse()) {
+    let first = start
+    let last = end
+    while (first < last && !lines[first]!.trim()) first++
+    while (last > first && !lines[last - 1]!.trim()) last--
+    if (first === last) continue
+
+    let formatted: string
+    try {
+      formatted = await formatSource(`${lines.slice(first, last).join('\n')}\n`)
+    } catch {
+      continue
+    }
+    lines.splice(first, last - first, ...formatted.trimEnd().split('\n'))
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Create a formatter for story files, detected lazily on first use
+ */
+export function createStoryFormatter(
+  options: StoryFormatterOptions,
+): StoryFormatter {
+  const { root, formatter = 'auto', timeout = 10_000 } = options
+
+  let detection: Promise<
+    | { name: 'prettier'; prettier: PrettierApi }
+    | { name: 'biome'; biomeBin: string }
+    | null
+  > | null = null
+
+  const loadPrettier = async (): Promise<PrettierApi | null> => {
+    const prettierPath = resolveFromRoot(root, 'prettier')
+    if (!prettierPath) return null
+    const prettierModule = await import(pathToFileURL(prettierPath).href)
+    return (prettierModule.default ?? prettierModule) as PrettierApi
+  }
+
+  // In auto mode an installed formatter only counts with a project config:
+  // it may just be a dependency of another tool
+  const detectFormatter = async () => {
+    if (formatter === false) return null
+
+    const biomeBin = formatter === 'prettier' ? null : resolveBiomeBin(root)
+    if (biomeBin && (formatter === 'biome' || hasBiomeConfig(root))) {
+      return { name: 'biome' as const, biomeBin }
+    }
+
+    if (formatter !== 'biome') {
+      const prettier = await loadPrettier()
+      if (
+        prettier &&
+        (formatter === 'prettier' ||
+          (await prettier.resolveConfigFile(path.join(root, 'package.json'))))
+      ) {
+        return { name: 'prettier' as const, prettier }
+      }
+    }
+
+    if (formatter !== 'auto') {
+      console.warn(
+        `[component-highlighter] formatter "${formatter}" is not installed in ${root}; stories are written unformatted`,
+      )
+    }
+    return null
+  }
+
+  const getFormatter = () => {
+    detection ??= detectFormatter().catch((error) => {
+      console.warn(
+        '[component-highlighter] Failed to load the story formatter; stories are written unformatted:',
+        error,
+      )
+      return null
+    })
+    return detection
+  }
+
+  return {
+    async detect() {
+      return (await getFormatter())?.name ?? null
+    },
+    async format(content, filePath, existingContent) {
+      const detected = await getFormatter()
+      if (!detected) return content
+
+      try {
+        let formatSource: (source: string) => Promise<string>
+        if (detected.name === 'biome') {
+          formatSource = (source) =>
+            runBiome(detected.biomeBin, root, source, filePath, timeout)
+        } else {
+          const { prettier } = detected
+          const { ignored } = await prettier.getFileInfo(filePath, {
+            ignorePath: path.join(root, '.prettierignore'),
+          })
+          if (ignored) return content
+
+          const config = await prettier.resolveConfig(filePath, {
+            editorconfig: true,
+          })
+          formatSource = (source) =>
+            prettier.format(source, { ...config, filepath: filePath })
+        }
+
+        return existingContent === undefined
+          ? await formatSource(content)
+          : await formatAddedLines(content, existingContent, formatSource)
+      } catch (error) {
+        console.warn(
+          `[component-highlighter] ${detected.name} could not format ${filePath}; writing it unformatted:`,
+          error instanceof Error ? error.message : error,
+        )
+        return content
+      }
+    },
+  }
+}
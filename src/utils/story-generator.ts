@@ -1,13 +1,33 @@
 import type {
+  ComponentArgType,
   ComponentMeta,
   SerializedProps,
   JSXSerializedValue,
   FunctionSerializedValue,
+  RichSerializedValue,
+  ReferenceSerializedValue,
+  SharedSerializedValue,
+  SharedRefSerializedValue,
 } from '../frameworks/types'
 import * as path from 'path'
 
 // Re-export types for consumers
-export type { SerializedProps, JSXSerializedValue, FunctionSerializedValue }
+export type {
+  SerializedProps,
+  JSXSerializedValue,
+  FunctionSerializedValue,
+  RichSerializedValue,
+  ReferenceSerializedValue,
+}
+
+/**
+ * Story file style: CSF3 `Meta`/`StoryObj` objects, or CSF Factories
+ * (`preview.meta()` / `meta.story()`)
+ */
+export type StoryOutputFormat = 'csf3' | 'csf-factories'
+
+/** Story file language: TypeScript, or JavaScript typed with JSDoc */
+export type StoryLanguage = 'ts' | 'js'
 
 export interface StoryGenerationData {
   meta: ComponentMeta
@@ -16,12 +36,45 @@ export interface StoryGenerationData {
   componentRegistry?: Map<string, string>
   /** Custom story name (defaults to auto-generated name) */
   storyName?: string
+  /**
+   * Where the story file will be written; imports are relative to it
+   * (defaults to `<Component>.stories.<ext>` next to the component)
+   */
+  storyFilePath?: string
   /** Existing file content to append to */
   existingContent?: string
   /** Play function code lines generated from recorded interactions */
   playFunction?: string[]
   /** Import statements required by the play function */
   playImports?: string[]
+  /**
+   * Format of new story files; appends follow the existing file's format.
+   * Generators without CSF Factories support always write CSF3.
+   * @default 'csf3'
+   */
+  outputFormat?: StoryOutputFormat
+  /**
+   * The project's `.storybook/preview` file, imported by CSF Factories
+   * stories (defaults to `.storybook/preview.ts` in the working directory)
+   */
+  previewFilePath?: string
+  /**
+   * Write TypeScript, or JavaScript with JSDoc types in place of TS syntax
+   * (new files and appends alike)
+   * @default 'ts'
+   */
+  language?: StoryLanguage
+  /**
+   * Controls read from the component's props type, written to the meta of
+   * new files (appends keep the existing meta)
+   */
+  argTypes?: ComponentArgType[]
+  /**
+   * Storybook framework package the story types are imported from: the
+   * framework config's `storybookFramework` (defaults to the package of the
+   * generator's framework)
+   */
+  storybookFramework?: string
 }
 
 export interface GeneratedStory {
@@ -110,6 +163,47 @@ export function isFunctionSerializedValue(
   )
 }
 
+/** Markers of the serialized built-in and class instance values */
+const RICH_VALUE_MARKERS = [
+  '__isDate',
+  '__isMap',
+  '__isSet',
+  '__isBigInt',
+  '__isRegExp',
+  '__isURL',
+  '__isTypedArray',
+  '__isClassInstance',
+  '__isUnsupported',
+] as const
+
+/** Type guard for serialized built-in and class instance values */
+export function isRichSerializedValue(
+  value: unknown,
+): value is RichSerializedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    RICH_VALUE_MARKERS.some(
+      (marker) => (value as Record<string, unknown>)[marker] === true,
+    )
+  )
+}
+
+/** Type guard for shared object references, cycles and cut-off values */
+export function isReferenceSerializedValue(
+  value: unknown,
+): value is ReferenceSerializedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ('__isShared' in value ||
+      '__isSharedRef' in value ||
+      '__isFixtureRef' in value ||
+      '__isCircular' in value ||
+      '__isTruncated' in value)
+  )
+}
+
 /** Check if props contain any JSX values */
 export function hasAnyJSXProps(props: SerializedProps): boolean {
   for (const value of Object.values(props)) {
@@ -458,6 +552,23 @@ export function formatPropValue(
     return 'fn()'
   }
 
+  if (isRichSerializedValue(value)) {
+    return formatRichValue(value, indentLevel, componentRegistry)
+  }
+
+  if (isReferenceSerializedValue(value)) {
+    // Shared objects not hoisted by `hoistSharedValues` are written inline
+    if ('__isShared' in value) {
+      return formatPropValue(value.value, indentLevel, componentRegistry)
+    }
+    if ('__isSharedRef' in value) {
+      return value.name ?? 'undefined /* shared reference */'
+    }
+    if ('__isFixtureRef' in value) return value.name
+    if ('__isCircular' in value) return 'undefined /* circular reference */'
+    return `undefined /* ${value.reason} limit reached */`
+  }
+
   if (value === null) return 'null'
   if (value === undefined) return 'undefined'
 
@@ -507,6 +618,222 @@ export function formatPropValue(
   return String(value)
 }
 
+/** Format a serialized built-in or class instance as the expression that rebuilds it */
+function formatRichValue(
+  value: RichSerializedValue,
+  indentLevel: number,
+  componentRegistry?: Map<string, string>,
+): string {
+  if ('__isDate' in value) {
+    return value.iso
+      ? `new Date(${JSON.stringify(value.iso)})`
+      : 'new Date(NaN)'
+  }
+  if ('__isBigInt' in value) return `${value.value}n`
+  if ('__isRegExp' in value) return `/${value.source}/${value.flags}`
+  if ('__isURL' in value) return `new URL(${JSON.stringify(value.href)})`
+  if ('__isMap' in value) {
+    return value.entries.length > 0
+      ? `new Map(${formatPropValue(value.entries, indentLevel, componentRegistry)})`
+      : 'new Map()'
+  }
+  if ('__isSet' in value) {
+    return value.values.length > 0
+      ? `new Set(${formatPropValue(value.values, indentLevel, componentRegistry)})`
+      : 'new Set()'
+  }
+  if ('__isTypedArray' in value) {
+    const suffix = value.type.startsWith('Big') ? 'n' : ''
+    const items = value.values.map((item) => `${item}${suffix}`).join(', ')
+    return `new ${value.type}([${items}])`
+  }
+  if ('__isClassInstance' in value) {
+    // Constructor arguments can't be recovered, so the instance is written
+    // as its data, labelled with its class
+    return `/* ${value.className} */ ${formatPropValue(value.properties, indentLevel, componentRegistry)}`
+  }
+  // Rejected before generation (findUnsupportedProp)
+  return `undefined /* ${value.type} */`
+}
+
+/** Names fixtures can't take: reserved words and common story bindings */
+const RESERVED_FIXTURE_NAMES = new Set([
+  'arguments',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'eval',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+  'args',
+  'expect',
+  'fn',
+  'meta',
+  'preview',
+  'userEvent',
+  'within',
+])
+
+/** camelCase identifier from a fixture name hint (`user-list` -> `userList`) */
+export function toFixtureIdentifier(hint: string): string {
+  const identifier = (hint.match(/[A-Za-z0-9_$]+/g) ?? [])
+    .map((part, index) =>
+      index === 0
+        ? part.charAt(0).toLowerCase() + part.slice(1)
+        : part.charAt(0).toUpperCase() + part.slice(1),
+    )
+    .join('')
+  if (!identifier || /^[0-9]/.test(identifier)) return `shared${identifier}`
+  return RESERVED_FIXTURE_NAMES.has(identifier)
+    ? `${identifier}Value`
+    : identifier
+}
+
+/**
+ * The type of the value at `path` in props of type `propsType`, e.g.
+ * `NonNullable<Props['tasks']>[number]` for `['tasks', number]`
+ */
+export function getPropTypeAtPath(
+  propsType: string,
+  path: Array<string | number>,
+): string {
+  return path.reduce<string>((type, key, index) => {
+    const objectType = index === 0 ? type : `NonNullable<${type}>`
+    return typeof key === 'number'
+      ? `${objectType}[number]`
+      : `${objectType}['${key.replace(/['\\]/g, '\\$&')}']`
+  }, propsType)
+}
+
+/**
+ * Hoist the objects props reference more than once into `const` fixtures.
+ * Returns the props with every occurrence replaced by a reference to the
+ * fixture, and the fixture declarations to write before the story (an empty
+ * string when nothing is shared). Fixture names avoid identifiers already
+ * used in `existingContent`; a fixture is declared after the fixtures it
+ * references.
+ *
+ * Given the component's `propsType` (a TS type expression), each fixture
+ * `satisfies` the type of the prop it first appears in, so its literals keep
+ * the union types the prop expects instead of widening to `string`.
+ */
+export function hoistSharedValues(
+  props: SerializedProps,
+  options: {
+    existingContent?: string | undefined
+    componentRegistry?: Map<string, string> | undefined
+    propsType?: string | undefined
+  } = {},
+): { props: SerializedProps; fixtures: string } {
+  const { existingContent = '', componentRegistry, propsType } = options
+  const names = new Map<number, string>()
+  const declarations: string[] = []
+
+  const isTaken = (name: string) =>
+    [...names.values()].includes(name) ||
+    new RegExp(`(?<![\\w$])${escapeRegex(name)}(?![\\w$])`).test(
+      existingContent,
+    )
+
+  // `path` is null inside values the props type can't index into
+  const declare = (
+    shared: SharedSerializedValue,
+    path: Array<string | number> | null,
+  ) => {
+    const value = replace(shared.value, path)
+    const baseName = toFixtureIdentifier(shared.name)
+    let name = baseName
+    for (let counter = 2; isTaken(name); counter++) {
+      name = `${baseName}${counter}`
+    }
+    names.set(shared.id, name)
+    const typeCheck =
+      propsType && path
+        ? ` satisfies ${getPropTypeAtPath(propsType, path)}`
+        : ''
+    declarations.push(
+      `const ${name} = ${formatPropValue(value, 0, componentRegistry)}${typeCheck};`,
+    )
+    return name
+  }
+
+  const replace = (
+    value: unknown,
+    path: Array<string | number> | null,
+  ): unknown => {
+    if (typeof value !== 'object' || value === null) return value
+    if ('__isShared' in value) {
+      const shared = value as SharedSerializedValue
+      return { __isSharedRef: true, id: shared.id, name: declare(shared, path) }
+    }
+    if ('__isSharedRef' in value) {
+      const { id } = value as SharedRefSerializedValue
+      const name = names.get(id)
+      return name ? { __isSharedRef: true, id, name } : value
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => replace(item, path && [...path, 0]))
+    }
+    // Entries, values and properties of these are not keys of the prop type
+    const isOpaque =
+      '__isMap' in value || '__isSet' in value || '__isClassInstance' in value
+    return Object.fromEntries(
+      Object.entries(value).map(([key, property]) => [
+        key,
+        replace(property, path && !isOpaque ? [...path, key] : null),
+      ]),
+    )
+  }
+
+  const hoisted = replace(props, []) as SerializedProps
+  return {
+    props: hoisted,
+    fixtures: declarations.map((declaration) => `\n${declaration}\n`).join(''),
+  }
+}
+
 /** Extract storybook/test imports from import statement */
 export function extractStorybookTestImports(importStatement: string): string[] {
   const match = importStatement.match(/import\s*\{([^}]+)\}/)
@@ -522,6 +849,123 @@ export function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
 
+/**
+ * How a story export is written
+ */
+export interface StoryExportStyle {
+  /** CSF Factories meta the story is created from (`meta` in `meta.story()`) */
+  metaFactory?: string | null
+  /**
+   * How a CSF3 story is typed with the file's `Story` type: a TS annotation
+   * or a JSDoc `@type`; null leaves it untyped
+   */
+  storyType?: 'annotation' | 'jsdoc' | null
+}
+
+/**
+ * Story file extension for a language: the framework's TS extension, or
+ * its JS counterpart
+ */
+export function getStoryFileExtension(
+  extension: string,
+  language: StoryLanguage,
+): string {
+  if (language === 'ts') return extension
+  return extension.replace(/^ts(x?)$/, 'js$1')
+}
+
+/**
+ * Language of a story or component file, from its extension
+ */
+export function getFileLanguage(filePath: string): StoryLanguage {
+  return /\.[mc]?jsx?$/i.test(filePath) ? 'js' : 'ts'
+}
+
+/**
+ * Format the CSF3 meta of a new story file and declare its `Story` type,
+ * as TS types or JSDoc
+ */
+export function formatCsf3Meta(options: {
+  /** The meta's `component` expression */
+  component: string
+  /** Type argument of `Meta` and `StoryObj`, if any */
+  typeArgument?: string
+  storybookPackage: string
+  language: StoryLanguage
+  argTypes?: ComponentArgType[] | undefined
+}): string {
+  const { component, storybookPackage, language } = options
+  const typeArgument = options.typeArgument ? `<${options.typeArgument}>` : ''
+  const argTypes = formatArgTypes(options.argTypes)
+
+  if (language === 'js') {
+    return `/** @type {import('${storybookPackage}').Meta${typeArgument}} */
+const meta = {
+  component: ${component},${argTypes}
+};
+
+export default meta;
+/** @typedef {import('${storybookPackage}').StoryObj${typeArgument}} Story */`
+  }
+
+  return `const meta: Meta${typeArgument} = {
+  component: ${component},${argTypes}
+};
+
+export default meta;
+type Story = StoryObj${typeArgument};`
+}
+
+/**
+ * Format the `argTypes` entry of a meta object, or an empty string when
+ * there are none. Callbacks are wired to the Actions panel by name.
+ */
+export function formatArgTypes(
+  argTypes: ComponentArgType[] | undefined,
+): string {
+  if (!argTypes?.length) return ''
+
+  const entries = argTypes.map(({ name, control, options, description }) => {
+    const fields =
+      control === 'action'
+        ? [`action: ${JSON.stringify(name)}`]
+        : [
+            `control: ${JSON.stringify(control)}`,
+            ...(options
+              ? [
+                  `options: [${options.map((option) => JSON.stringify(option)).join(', ')}]`,
+                ]
+              : []),
+          ]
+    if (description) fields.push(`description: ${JSON.stringify(description)}`)
+    return `    ${formatPropKey(name)}: {\n${fields.map((field) => `      ${field},`).join('\n')}\n    },`
+  })
+
+  return `\n  argTypes: {\n${entries.join('\n')}\n  },`
+}
+
+/**
+ * Format a story export from the lines of its story object
+ */
+export function formatStoryExport(
+  storyName: string,
+  storyBody: string,
+  style: StoryExportStyle = { storyType: 'annotation' },
+): string {
+  if (style.metaFactory) {
+    return `
+export const ${storyName} = ${style.metaFactory}.story({${storyBody}
+});
+`
+  }
+  const jsdoc = style.storyType === 'jsdoc' ? '/** @type {Story} */\n' : ''
+  const annotation = style.storyType === 'annotation' ? ': Story' : ''
+  return `
+${jsdoc}export const ${storyName}${annotation} = {${storyBody}
+};
+`
+}
+
 /** Format play function for story */
 export function formatPlayFunctionForStory(playLines: string[]): string {
   return playLines
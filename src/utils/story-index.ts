@@ -0,0 +1,804 @@
+/**
+ * Story Index
+ *
+ * Maps components to the story files that cover them, using the same sources
+ * Storybook does: a running Storybook's `index.json`, or the `stories` globs
+ * of `.storybook/main.*`. Each story file is parsed for the component its
+ * meta references (and which export of the component module that is), so
+ * stories are found wherever they live and whatever they are named, and a
+ * file exporting several components only counts the exports that have stories.
+ */
+
+import { parse } from '@babel/parser'
+import type * as t from '@babel/types'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createFilter } from 'vite'
+import {
+  DEFAULT_STORY_FILE_PATTERN,
+  resolveStoryFilePath,
+} from './story-file-pattern'
+
+/** Storybook's default `files` for `{ directory }` story specifiers */
+const DEFAULT_STORIES_FILES = '**/*.@(mdx|stories.@(js|jsx|mjs|ts|tsx))'
+
+const STORYBOOK_MAIN_FILES = [
+  'main.ts',
+  'main.mts',
+  'main.cts',
+  'main.js',
+  'main.mjs',
+  'main.cjs',
+]
+
+const STORYBOOK_PREVIEW_FILES = [
+  'preview.ts',
+  'preview.tsx',
+  'preview.mts',
+  'preview.js',
+  'preview.jsx',
+  'preview.mjs',
+]
+
+/** Extensions tried when resolving an extensionless component import */
+const COMPONENT_EXTENSIONS = [
+  '.tsx',
+  '.ts',
+  '.jsx',
+  '.js',
+  '.mts',
+  '.mjs',
+  '.vue',
+  '.svelte',
+]
+
+/** Directories never walked when expanding story globs */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist'])
+
+/**
+ * A component referenced by a story file
+ */
+export interface StoryComponentRef {
+  /** Import specifier as written in the story file */
+  source: string
+  /** Export of that module (`default` for default imports), or null if unknown */
+  exportName: string | null
+}
+
+/**
+ * What a story file declares
+ */
+export interface ParsedStoryFile {
+  /** Components the file documents (the meta `component`, or MDX imports) */
+  components: StoryComponentRef[]
+  /** Story export names */
+  stories: string[]
+}
+
+/**
+ * A story file matched to the component file it covers
+ */
+export interface StoryIndexEntry {
+  /** Absolute story file path */
+  filePath: string
+  /** Absolute path of the covered component file */
+  componentPath: string
+  /** Covered export of the component file, or null if it can't be told apart */
+  componentExport: string | null
+  /** Story export names */
+  stories: string[]
+}
+
+/**
+ * Where the index was built from
+ */
+export type StoryIndexSource = 'storybook-index' | 'storybook-config' | 'none'
+
+export interface StoryIndex {
+  /**
+   * Story files covering a component file. With an export name, only files
+   * whose meta references that export (or an export that can't be told apart)
+   * are returned.
+   */
+  findStories(
+    componentPath: string,
+    exportName?: string,
+  ): Promise<StoryIndexEntry[]>
+  /** Where the current index comes from */
+  getSource(): Promise<StoryIndexSource>
+  /** Rebuild the index on next use if the file is a story or Storybook config */
+  handleFileChange(filePath: string): void
+}
+
+export interface StoryIndexOptions {
+  /** Vite root: globs and `index.json` import paths resolve against it */
+  root: string
+  /** Storybook URL to read `index.json` from, when Storybook is running */
+  storybookUrl?: string
+  /** Storybook config directory @default '<root>/.storybook' */
+  configDir?: string
+  /** How long to wait for `index.json` before falling back to the config @default 1500 */
+  fetchTimeout?: number
+}
+
+type ImportBinding = { source: string; imported: string }
+
+function unwrapExpression(node: t.Node | null | undefined): t.Node | null {
+  let current = node ?? null
+  while (
+    current &&
+    (current.type === 'TSSatisfiesExpression' ||
+      current.type === 'TSAsExpression' ||
+      current.type === 'TSTypeAssertion' ||
+      current.type === 'TSNonNullExpression' ||
+      current.type === 'ParenthesizedExpression')
+  ) {
+    current = current.expression
+  }
+  return current
+}
+
+/**
+ * Find the meta object: `export default { ... }`, `export default meta`, or
+ * the argument of a meta factory such as `preview.meta({ ... })`
+ */
+function findMetaObject(
+  program: t.Program,
+  declarations: Map<string, t.Node>,
+): t.ObjectExpression | null {
+  const toObject = (node: t.Node | null): t.ObjectExpression | null => {
+    let current = unwrapExpression(node)
+    if (current?.type === 'Identifier') {
+      current = unwrapExpression(declarations.get(current.name))
+    }
+    if (current?.type === 'CallExpression') {
+      current = unwrapExpression(current.arguments[0] as t.Node | undefined)
+    }
+    return current?.type === 'ObjectExpression' ? current : null
+  }
+
+  for (const statement of program.body) {
+    if (statement.type === 'ExportDefaultDeclaration') {
+      return toObject(statement.declaration)
+    }
+  }
+
+  // CSF factories: `const meta = preview.meta({ ... })` without a default export
+  for (const node of declarations.values()) {
+    const init = unwrapExpression(node)
+    if (
+      init?.type === 'CallExpression' &&
+      init.callee.type === 'MemberExpression' &&
+      init.callee.property.type === 'Identifier' &&
+      init.callee.property.name === 'meta'
+    ) {
+      return toObject(init)
+    }
+  }
+  return null
+}
+
+function getPropertyName(property: t.ObjectProperty): string | null {
+  if (property.key.type === 'Identifier') return property.key.name
+  if (property.key.type === 'StringLiteral') return property.key.value
+  return null
+}
+
+/**
+ * Parse a CSF story file for its meta `component` and story exports
+ */
+function parseCsfFile(code: string, filePath: string): ParsedStoryFile {
+  const ast = parse(code, {
+    sourceType: 'module',
+    plugins: [
+      'typescript',
+      'jsx',
+      ['decorators', { decoratorsBeforeExport: true }],
+    ],
+    sourceFilename: filePath,
+  })
+
+  const imports = new Map<string, ImportBinding>()
+  const declarations = new Map<string, t.Node>()
+  const stories: string[] = []
+
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ImportDeclaration') {
+      for (const specifier of statement.specifiers) {
+        let imported = '*'
+        if (specifier.type === 'ImportDefaultSpecifier') {
+          imported = 'default'
+        } else if (specifier.type === 'ImportSpecifier') {
+          imported =
+            specifier.imported.type === 'Identifier'
+              ? specifier.imported.name
+              : specifier.imported.value
+        }
+        imports.set(specifier.local.name, {
+          source: statement.source.value,
+          imported,
+        })
+      }
+      continue
+    }
+
+    const declaration =
+      statement.type === 'ExportNamedDeclaration'
+        ? statement.declaration
+        : statement
+    if (declaration?.type === 'VariableDeclaration') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type !== 'Identifier' || !declarator.init) continue
+        declarations.set(declarator.id.name, declarator.init)
+        if (statement.type === 'ExportNamedDeclaration') {
+          stories.push(declarator.id.name)
+        }
+      }
+    } else if (
+      declaration?.type === 'FunctionDeclaration' &&
+      statement.type === 'ExportNamedDeclaration' &&
+      declaration.id
+    ) {
+      stories.push(declaration.id.name)
+    }
+
+    if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+      for (const specifier of statement.specifiers) {
+        if (specifier.type !== 'ExportSpecifier') continue
+        stories.push(
+          specifier.exported.type === 'Identifier'
+            ? specifier.exported.name
+            : specifier.exported.value,
+        )
+      }
+    }
+  }
+
+  const components: StoryComponentRef[] = []
+  const meta = findMetaObject(ast.program, declarations)
+  const componentProperty = meta?.properties.find(
+    (property): property is t.ObjectProperty =>
+      property.type === 'ObjectProperty' &&
+      getPropertyName(property) === 'component',
+  )
+  const componentValue = unwrapExpression(
+    componentProperty?.value as t.Node | undefined,
+  )
+
+  if (componentValue?.type === 'Identifier') {
+    const binding = imports.get(componentValue.name)
+    if (binding) {
+      components.push({
+        source: binding.source,
+        exportName: binding.imported === '*' ? null : binding.imported,
+      })
+    }
+  } else if (
+    componentValue?.type === 'MemberExpression' &&
+    componentValue.object.type === 'Identifier' &&
+    componentValue.property.type === 'Identifier'
+  ) {
+    // `component: Components.Button` with `import * as Components`
+    const binding = imports.get(componentValue.object.name)
+    if (binding?.imported === '*') {
+      components.push({
+        source: binding.source,
+        exportName: componentValue.property.name,
+      })
+    }
+  }
+
+  return {
+    components,
+    stories: stories.filter((name) => name !== '__namedExportsOrder'),
+  }
+}
+
+/**
+ * Parse an MDX docs file: it documents the components it imports directly
+ * (imports of other story files are docs for those stories, already indexed)
+ */
+function parseMdxFile(code: string): ParsedStoryFile {
+  const components: StoryComponentRef[] = []
+  const importRegex =
+    /^import\s+(?:(\w+)\s*,?\s*)?(?:\{([^}]*)\}|\*\s+as\s+\w+)?\s*from\s*['"]([^'"]+)['"]/gm
+
+  let match
+  while ((match = importRegex.exec(code)) !== null) {
+    const [, defaultImport, namedImports, source] = match
+    if (!source || /\.(stories|story)(\.\w+)?$/.test(source)) continue
+    if (source.startsWith('@storybook/') || !source.startsWith('.')) continue
+
+    if (defaultImport) {
+      components.push({ source, exportName: 'default' })
+    }
+    for (const named of namedImports?.split(',') ?? []) {
+      const exportName = named.trim().split(/\s+as\s+/)[0]
+      if (exportName) components.push({ source, exportName })
+    }
+  }
+
+  return { components, stories: [] }
+}
+
+/**
+ * Parse a story file (CSF or MDX) for the components it covers and its stories
+ */
+export function parseStoryFile(
+  code: string,
+  filePath: string,
+): ParsedStoryFile {
+  if (filePath.endsWith('.mdx')) {
+    return parseMdxFile(code)
+  }
+  return parseCsfFile(code, filePath)
+}
+
+/**
+ * Resolve a relative component import from a story file to a file on disk
+ */
+export function resolveComponentImport(
+  source: string,
+  fromFile: string,
+): string | null {
+  if (!source.startsWith('.')) return null
+
+  const basePath = path.resolve(path.dirname(fromFile), source)
+  const candidates = [
+    basePath,
+    ...COMPONENT_EXTENSIONS.map((extension) => `${basePath}${extension}`),
+    ...COMPONENT_EXTENSIONS.map((extension) =>
+      path.join(basePath, `index${extension}`),
+    ),
+  ]
+  // `./Button.js` may point at `Button.ts` (TypeScript ESM imports)
+  const jsMatch = basePath.match(/^(.*)\.(m?)js$/)
+  if (jsMatch) {
+    candidates.push(`${jsMatch[1]}.${jsMatch[2]}ts`, `${jsMatch[1]}.tsx`)
+  }
+
+  return (
+    candidates.find((candidate) => {
+      try {
+        return fs.statSync(candidate).isFile()
+      } catch {
+        return false
+      }
+    }) ?? null
+  )
+}
+
+/**
+ * Find `.storybook/preview.*`, which CSF Factories stories import their
+ * `preview.meta()` from
+ */
+export function findStorybookPreviewFile(configDir: string): string | null {
+  return (
+    STORYBOOK_PREVIEW_FILES.map((file) => path.join(configDir, file)).find(
+      (file) => fs.existsSync(file),
+    ) ?? null
+  )
+}
+
+/**
+ * Read the `stories` globs from `.storybook/main.*`, resolved against the
+ * config directory. Only static entries (strings and
+ * `{ directory, files }` objects) are understood.
+ */
+export function readStorybookStoriesGlobs(configDir: string): string[] | null {
+  const mainFile = STORYBOOK_MAIN_FILES.map((file) =>
+    path.join(configDir, file),
+  ).find((file) => fs.existsSync(file))
+  if (!mainFile) return null
+
+  let ast: ReturnType<typeof parse>
+  try {
+    ast = parse(fs.readFileSync(mainFile, 'utf-8'), {
+      sourceType: 'module',
+      plugins: ['typescript'],
+      sourceFilename: mainFile,
+    })
+  } catch (error) {
+    console.warn(`[component-highlighter] Failed to parse ${mainFile}:`, error)
+    return null
+  }
+
+  let storiesArray: t.ArrayExpression | null = null
+  const visit = (node: unknown): void => {
+    if (storiesArray || !node || typeof node !== 'object') return
+    if (Array.isArray(node)) {
+      node.forEach(visit)
+      return
+    }
+
+    const typed = node as t.Node
+    if (
+      typed.type === 'ObjectProperty' &&
+      getPropertyName(typed) === 'stories'
+    ) {
+      const value = unwrapExpression(typed.value)
+      if (value?.type === 'ArrayExpression') {
+        storiesArray = value
+        return
+      }
+    }
+
+    for (const [key, value] of Object.entries(typed)) {
+      if (key === 'loc' || key.endsWith('Comments')) continue
+      if (value && typeof value === 'object') visit(value)
+    }
+  }
+  visit(ast.program.body)
+
+  if (!storiesArray) return null
+
+  const getString = (node: t.Node | null | undefined): string | null => {
+    const value = unwrapExpression(node)
+    if (value?.type === 'StringLiteral') return value.value
+    if (value?.type === 'TemplateLiteral' && value.expressions.length === 0) {
+      return value.quasis[0]?.value.cooked ?? null
+    }
+    return null
+  }
+
+  const globs: string[] = []
+  for (const element of (storiesArray as t.ArrayExpression).elements) {
+    const glob = getString(element as t.Node | null)
+    if (glob) {
+      globs.push(path.posix.join(configDir, glob))
+      continue
+    }
+
+    const specifier = unwrapExpression(element as t.Node | null)
+    if (specifier?.type !== 'ObjectExpression') continue
+    const readProperty = (name: string) =>
+      getString(
+        (
+          specifier.properties.find(
+            (property): property is t.ObjectProperty =>
+              property.type === 'ObjectProperty' &&
+              getPropertyName(property) === name,
+          ) as t.ObjectProperty | undefined
+        )?.value as t.Node | undefined,
+      )
+    const directory = readProperty('directory')
+    if (!directory) continue
+    globs.push(
+      path.posix.join(
+        configDir,
+        directory,
+        readProperty('files') ?? DEFAULT_STORIES_FILES,
+      ),
+    )
+  }
+
+  return globs
+}
+
+/**
+ * The directory a glob is rooted at (everything before its first magic segment)
+ */
+function getGlobBase(glob: string): string {
+  const segments = glob.split('/')
+  const magicIndex = segments.findIndex((segment) =>
+    /[*?[\]{}()!@+]/.test(segment),
+  )
+  const baseSegments =
+    magicIndex === -1 ? segments.slice(0, -1) : segments.slice(0, magicIndex)
+  return baseSegments.join('/') || '/'
+}
+
+/**
+ * List the files under a directory accepted by a filter, skipping
+ * dependency, VCS and build output directories
+ */
+export function findProjectFiles(
+  directory: string,
+  filter: (filePath: string) => boolean,
+  files: Set<string> = new Set(),
+): Set<string> {
+  let dirents: fs.Dirent[]
+  try {
+    dirents = fs.readdirSync(directory, { withFileTypes: true })
+  } catch {
+    return files
+  }
+  for (const dirent of dirents) {
+    const fullPath = path.join(directory, dirent.name)
+    if (dirent.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(dirent.name)) {
+        findProjectFiles(fullPath, filter, files)
+      }
+    } else if (dirent.isFile() && filter(fullPath)) {
+      files.add(fullPath)
+    }
+  }
+  return files
+}
+
+/**
+ * List the files matching story globs
+ */
+export function expandStoryGlobs(globs: string[]): string[] {
+  const filter = createFilter(globs, null, { resolve: false })
+  const files = new Set<string>()
+  for (const base of new Set(globs.map(getGlobBase))) {
+    findProjectFiles(base, filter, files)
+  }
+  return [...files].sort()
+}
+
+type StorybookIndexJson = {
+  entries?: Record<
+    string,
+    { importPath?: string; componentPath?: string; type?: string }
+  >
+}
+
+/**
+ * Read the story files known to a running Storybook from its `index.json`
+ *
+ * @returns Story file paths with the component path Storybook resolved (if any),
+ * or null if Storybook is not reachable
+ */
+async function fetchStorybookIndex(
+  storybookUrl: string,
+  root: string,
+  timeout: number,
+): Promise<Map<string, string | null> | null> {
+  try {
+    const indexUrl = new URL('index.json', `${storybookUrl.replace(/\/$/, '')}/`)
+    const response = await fetch(indexUrl, {
+      signal: AbortSignal.timeout(timeout),
+    })
+    if (!response.ok) return null
+
+    const index = (await response.json()) as StorybookIndexJson
+    const files = new Map<string, string | null>()
+    for (const entry of Object.values(index.entries ?? {})) {
+      if (!entry.importPath) continue
+      const filePath = path.resolve(root, entry.importPath)
+      const componentPath = entry.componentPath?.startsWith('.')
+        ? path.resolve(root, entry.componentPath)
+        : null
+      if (!files.get(filePath)) files.set(filePath, componentPath)
+    }
+    return files
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a story file and match it to the component files it covers. When no
+ * component reference can be resolved (a path alias, a web component tag,
+ * a file that doesn't parse mid-edit), it is attributed to
+ * `knownComponentPath` without a specific export.
+ */
+function readStoryFileEntries(
+  filePath: string,
+  knownComponentPath: string | null,
+): StoryIndexEntry[] {
+  let code: string
+  try {
+    code = fs.readFileSync(filePath, 'utf-8')
+  } catch {
+    return []
+  }
+
+  let parsed: ParsedStoryFile = { components: [], stories: [] }
+  try {
+    parsed = parseStoryFile(code, filePath)
+  } catch {
+    // Unparseable: only the known component path can be assumed
+  }
+
+  const matched = parsed.components
+    .map((component) => ({
+      componentPath: resolveComponentImport(component.source, filePath),
+      componentExport: component.exportName,
+    }))
+    .filter(
+      (component): component is {
+        componentPath: string
+        componentExport: string | null
+      } => component.componentPath !== null,
+    )
+
+  if (matched.length === 0 && knownComponentPath) {
+    matched.push({ componentPath: knownComponentPath, componentExport: null })
+  }
+
+  return matched.map((component) => ({
+    filePath,
+    ...component,
+    stories: parsed.stories,
+  }))
+}
+
+function coversComponent(
+  entry: StoryIndexEntry,
+  componentPath: string,
+  exportName: string | undefined,
+): boolean {
+  return (
+    entry.componentPath === componentPath &&
+    (exportName === undefined ||
+      entry.componentExport === null ||
+      entry.componentExport === exportName)
+  )
+}
+
+/**
+ * Parse story files and match them to the component files they cover
+ */
+export function indexStoryFiles(
+  storyFiles: Map<string, string | null>,
+): StoryIndexEntry[] {
+  return [...storyFiles].flatMap(([filePath, knownComponentPath]) =>
+    readStoryFileEntries(filePath, knownComponentPath),
+  )
+}
+
+/**
+ * Check whether a story file found by convention (next to the component, at
+ * the story file pattern location) covers a component export: its meta must
+ * reference that export, unless the reference can't be resolved at all
+ *
+ * @returns The matching entry, or null if the file covers other components
+ */
+export function matchStoryFile(
+  filePath: string,
+  componentPath: string,
+  exportName?: string,
+): StoryIndexEntry | null {
+  const resolvedPath = path.resolve(componentPath)
+  return (
+    readStoryFileEntries(filePath, resolvedPath).find((entry) =>
+      coversComponent(entry, resolvedPath, exportName),
+    ) ?? null
+  )
+}
+
+const STORY_FILE_REGEX = /\.(stories|story)\.[^./]+$|\.mdx$/
+
+/**
+ * Create a lazily built, self-invalidating story index
+ */
+export function createStoryIndex(options: StoryIndexOptions): StoryIndex {
+  const {
+    root,
+    storybookUrl,
+    configDir = path.join(root, '.storybook'),
+    fetchTimeout = 1500,
+  } = options
+
+  let pending: Promise<{
+    source: StoryIndexSource
+    entries: StoryIndexEntry[]
+  }> | null = null
+  // Story files named outside the usual conventions, matched by the config globs
+  let isConfiguredStoryFile: (filePath: string) => boolean = () => false
+
+  const build = async () => {
+    if (storybookUrl) {
+      const indexFiles = await fetchStorybookIndex(
+        storybookUrl,
+        root,
+        fetchTimeout,
+      )
+      if (indexFiles) {
+        return {
+          source: 'storybook-index' as const,
+          entries: indexStoryFiles(indexFiles),
+        }
+      }
+    }
+
+    const globs = readStorybookStoriesGlobs(configDir)
+    if (globs) {
+      isConfiguredStoryFile = createFilter(globs, null, { resolve: false })
+      const files = new Map(
+        expandStoryGlobs(globs).map((file) => [file, null] as const),
+      )
+      return {
+        source: 'storybook-config' as const,
+        entries: indexStoryFiles(files),
+      }
+    }
+
+    return { source: 'none' as const, entries: [] }
+  }
+
+  const getIndex = () => {
+    pending ??= build()
+    return pending
+  }
+
+  return {
+    async findStories(componentPath, exportName) {
+      const resolvedPath = path.resolve(componentPath)
+      const { entries } = await getIndex()
+      return entries.filter((entry) =>
+        coversComponent(entry, resolvedPath, exportName),
+      )
+    },
+    async getSource() {
+      return (await getIndex()).source
+    },
+    handleFileChange(filePath) {
+      if (
+        STORY_FILE_REGEX.test(filePath) ||
+        isConfiguredStoryFile(filePath) ||
+        path.dirname(path.resolve(filePath)) === path.resolve(configDir)
+      ) {
+        pending = null
+      }
+    },
+  }
+}
+
+export interface ComponentStoryFinderOptions {
+  storyIndex: StoryIndex
+  /** Vite root, for root-relative story file patterns */
+  root: string
+  /** Normalized story file pattern (see `normalizeStoryFilePattern`) */
+  storyFilePattern: string
+  /** Story file extensions to probe, without the leading dot */
+  storyExtensions: string[]
+  /** Whether a probed story path may be read @default every path */
+  isAllowedPath?: (filePath: string) => boolean
+}
+
+/**
+ * Story files covering a component export: the ones Storybook knows about,
+ * else a file at the story file pattern location or next to the component
+ * (covers stories written since Storybook last indexed)
+ */
+export type ComponentStoryFinder = (
+  componentPath: string,
+  exportName?: string,
+) => Promise<StoryIndexEntry[]>
+
+/**
+ * Create the story lookup shared by check-story, the component inventory
+ * and the coverage command
+ */
+export function createComponentStoryFinder(
+  options: ComponentStoryFinderOptions,
+): ComponentStoryFinder {
+  const {
+    storyIndex,
+    root,
+    storyFilePattern,
+    storyExtensions,
+    isAllowedPath = () => true,
+  } = options
+  const storyPatterns = [
+    ...new Set([DEFAULT_STORY_FILE_PATTERN, storyFilePattern]),
+  ]
+
+  return async (componentPath, exportName) => {
+    const indexedStories = await storyIndex.findStories(
+      componentPath,
+      exportName,
+    )
+    if (indexedStories.length > 0) return indexedStories
+
+    const possiblePaths = storyPatterns.flatMap((pattern) =>
+      storyExtensions.map((extension) =>
+        resolveStoryFilePath(pattern, { componentPath, root, extension }),
+      ),
+    )
+
+    // A file at a conventional location only counts if its meta references
+    // this export: `Card.stories.tsx` for `Card` doesn't cover `CardHeader`
+    // exported from the same file
+    for (const p of possiblePaths) {
+      if (!isAllowedPath(p) || !fs.existsSync(p)) continue
+      const entry = matchStoryFile(p, componentPath, exportName)
+      if (entry) return [entry]
+    }
+    return []
+  }
+}
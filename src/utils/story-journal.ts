@@ -0,0 +1,187 @@
+/**
+ * Story Journal
+ *
+ * Records every story file write made during a dev server session so that
+ * generated stories can be reverted without resorting to git.
+ */
+
+import * as fs from 'fs'
+
+/**
+ * A file write recorded by a journal entry
+ */
+export interface StoryJournalFile {
+  /** Absolute path of the file that was written */
+  filePath: string
+  /** File content before the write, or `null` if the file did not exist */
+  originalContent: string | null
+  /** File content after the write */
+  newContent: string
+}
+
+export interface StoryJournalEntry extends StoryJournalFile {
+  /** Unique entry ID */
+  id: string
+  /** Files written along with the story file (its fixtures module) */
+  relatedFiles: StoryJournalFile[]
+  /** Name of the component the story was generated for */
+  componentName: string
+  /** Absolute path of the component file */
+  componentPath: string
+  /** Story export name that was written */
+  storyName: string
+  /** Time of the write (ms since epoch) */
+  timestamp: number
+  /** Whether this entry has been reverted */
+  reverted: boolean
+}
+
+/**
+ * Journal entry without file contents, as sent to the client
+ */
+export type StoryJournalSummary = Omit<
+  StoryJournalEntry,
+  'originalContent' | 'newContent' | 'relatedFiles'
+> & {
+  /** Whether the write created the file (as opposed to appending to it) */
+  createdFile: boolean
+  /** Paths of the files written along with the story file */
+  relatedFilePaths: string[]
+}
+
+export interface StoryJournal {
+  /** Record a story file write, and the files written along with it */
+  record(
+    entry: Omit<
+      StoryJournalEntry,
+      'id' | 'timestamp' | 'reverted' | 'relatedFiles'
+    > & { relatedFiles?: StoryJournalFile[] },
+  ): StoryJournalEntry
+  /** All entries, most recent first */
+  list(): StoryJournalSummary[]
+  /**
+   * Revert an entry (or the most recent active entry when no ID is given),
+   * restoring every file it wrote. Later active entries that wrote one of
+   * those files are reverted along with it, since their content was built
+   * on top of the reverted write. Returns the reverted entries, most recent
+   * first.
+   */
+  revert(id?: string): StoryJournalSummary[]
+}
+
+function toSummary(entry: StoryJournalEntry): StoryJournalSummary {
+  const {
+    originalContent,
+    newContent: _newContent,
+    relatedFiles,
+    ...summary
+  } = entry
+  return {
+    ...summary,
+    createdFile: originalContent === null,
+    relatedFilePaths: relatedFiles.map((file) => file.filePath),
+  }
+}
+
+/** The story file and the files written along with it, in write order */
+function getEntryFiles(entry: StoryJournalEntry): StoryJournalFile[] {
+  return [...entry.relatedFiles, entry]
+}
+
+/**
+ * Create an in-memory journal for the current dev server session
+ */
+export function createStoryJournal(): StoryJournal {
+  const entries: StoryJournalEntry[] = []
+  let counter = 0
+
+  return {
+    record(entry) {
+      const recorded: StoryJournalEntry = {
+        relatedFiles: [],
+        ...entry,
+        id: `${Date.now().toString(36)}-${(counter++).toString(36)}`,
+        timestamp: Date.now(),
+        reverted: false,
+      }
+      entries.push(recorded)
+      return recorded
+    },
+
+    list() {
+      return [...entries].reverse().map(toSummary)
+    },
+
+    revert(id) {
+      const target = id
+        ? entries.find((entry) => entry.id === id)
+        : [...entries].reverse().find((entry) => !entry.reverted)
+
+      if (!target) {
+        throw new Error(
+          id ? `Unknown journal entry: ${id}` : 'Nothing to undo',
+        )
+      }
+      if (target.reverted) {
+        throw new Error(`Journal entry ${target.id} was already reverted`)
+      }
+
+      // Later entries that wrote over any of the reverted files go too
+      const revertedEntries = [target]
+      const filePaths = new Set(
+        getEntryFiles(target).map((file) => file.filePath),
+      )
+      for (const entry of entries.slice(entries.indexOf(target) + 1)) {
+        const files = getEntryFiles(entry)
+        if (
+          entry.reverted ||
+          !files.some((file) => filePaths.has(file.filePath))
+        ) {
+          continue
+        }
+        revertedEntries.push(entry)
+        for (const file of files) filePaths.add(file.filePath)
+      }
+
+      // Each file goes back to its content before the first reverted write
+      // to it, and must still hold the content of the last one
+      const restores = [...filePaths].map((filePath) => {
+        const writes = revertedEntries.flatMap((entry) =>
+          getEntryFiles(entry).filter((file) => file.filePath === filePath),
+        )
+        return {
+          filePath,
+          originalContent: writes[0]!.originalContent,
+          newContent: writes[writes.length - 1]!.newContent,
+        }
+      })
+
+      // Refuse to clobber edits made after the story was written
+      for (const { filePath, newContent } of restores) {
+        const currentContent = fs.existsSync(filePath)
+          ? fs.readFileSync(filePath, 'utf-8')
+          : null
+        if (currentContent !== newContent) {
+          throw new Error(
+            `${filePath} was modified after the story was written; revert it manually`,
+          )
+        }
+      }
+
+      // Story files first, so none is left importing a removed fixture
+      for (const { filePath, originalContent } of restores.reverse()) {
+        if (originalContent === null) {
+          fs.rmSync(filePath, { force: true })
+        } else {
+          fs.writeFileSync(filePath, originalContent, 'utf-8')
+        }
+      }
+
+      for (const entry of revertedEntries) {
+        entry.reverted = true
+      }
+
+      return revertedEntries.reverse().map(toSummary)
+    },
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Minimal line-based unified diff, used to preview story file changes
+ * before they are written to disk.
+ */
+
+type DiffOp = {
+  type: ' ' | '-' | '+'
+  line: string
+  /** 0-based line index in the old content (for ' ' and '-') */
+  oldIndex: number
+  /** 0-based line index in the new content (for ' ' and '+') */
+  newIndex: number
+}
+
+export interface UnifiedDiffOptions {
+  /** Label for the original file (use `null` when the file does not exist) */
+  fromFile?: string | null
+  /** Label for the updated file */
+  toFile?: string
+  /** Number of context lines around each change */
+  context?: number
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') return []
+  const lines = content.split('\n')
+  // A trailing newline does not introduce an extra (empty) line
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/** Compute the line edit script between two line arrays (LCS based) */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  // Trim common prefix/suffix so the LCS table only covers the changed region
+  let start = 0
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++
+  }
+
+  let oldEnd = oldLines.length
+  let newEnd = newLines.length
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--
+    newEnd--
+  }
+
+  const n = oldEnd - start
+  const m = newEnd - start
+  const width = m + 1
+  const table = new Uint32Array((n + 1) * width)
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        oldLines[start + i] === newLines[start + j]
+          ? table[(i + 1) * width + j + 1]! + 1
+          : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!)
+    }
+  }
+
+  const ops: DiffOp[] = []
+  for (let k = 0; k < start; k++) {
+    ops.push({ type: ' ', line: oldLines[k]!, oldIndex: k, newIndex: k })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[start + i] === newLines[start + j]) {
+      ops.push({
+        type: ' ',
+        line: oldLines[start + i]!,
+        oldIndex: start + i,
+        newIndex: start + j,
+      })
+      i++
+      j++
+    } else if (
+      i < n &&
+      (j >= m || table[(i + 1) * width + j]! >= table[i * width + j + 1]!)
+    ) {
+      // Prefer deletions first so replaced lines read as "-old" then "+new"
+      ops.push({
+        type: '-',
+        line: oldLines[start + i]!,
+        oldIndex: start + i,
+        newIndex: start + j,
+      })
+      i++
+    } else {
+      ops.push({
+        type: '+',
+        line: newLines[start + j]!,
+        oldIndex: start + i,
+        newIndex: start + j,
+      })
+      j++
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    ops.push({
+      type: ' ',
+      line: oldLines[oldEnd + k]!,
+      oldIndex: oldEnd + k,
+      newIndex: newEnd + k,
+    })
+  }
+
+  return ops
+}
+
+function formatRange(startIndex: number, count: number): string {
+  // Unified diff ranges are 1-based; an empty range points at the line before
+  const start = count === 0 ? startIndex : startIndex + 1
+  return count === 1 ? `${start}` : `${start},${count}`
+}
+
+/**
+ * The runs of lines added in `newContent`, as 0-based `[start, end)` line
+ * ranges. A run is moved down as far as equal lines allow, so a block
+ * appended after lines it repeats (e.g. a closing `};`) is reported whole.
+ */
+export function findAddedLines(
+  oldContent: string,
+  newContent: string,
+): Array<{ start: number; end: number }> {
+  const newLines = splitLines(newContent)
+  const ranges: Array<{ start: number; end: number }> = []
+
+  for (const op of diffLines(splitLines(oldContent), newLines)) {
+    if (op.type !== '+') continue
+    const last = ranges[ranges.length - 1]
+    if (last && last.end === op.newIndex) {
+      last.end++
+    } else {
+      ranges.push({ start: op.newIndex, end: op.newIndex + 1 })
+    }
+  }
+
+  ranges.forEach((range, index) => {
+    const limit = ranges[index + 1]?.start ?? newLines.length
+    while (range.end < limit && newLines[range.end] === newLines[range.start]) {
+      range.start++
+      range.end++
+    }
+  })
+  return ranges
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  const { fromFile, toFile = 'file', context = 3 } = options
+  const ops = diffLines(splitLines(oldContent), splitLines(newContent))
+
+  const changeIndexes: number[] = []
+  ops.forEach((op, index) => {
+    if (op.type !== ' ') changeIndexes.push(index)
+  })
+  if (changeIndexes.length === 0) return ''
+
+  // Group changes whose context windows touch into the same hunk
+  const hunks: Array<{ from: number; to: number }> = []
+  for (const index of changeIndexes) {
+    const from = Math.max(0, index - context)
+    const to = Math.min(ops.length - 1, index + context)
+    const last = hunks[hunks.length - 1]
+    if (last && from <= last.to + 1) {
+      last.to = to
+    } else {
+      hunks.push({ from, to })
+    }
+  }
+
+  const output = [
+    `--- ${fromFile === null ? '/dev/null' : `a/${fromFile ?? toFile}`}`,
+    `+++ b/${toFile}`,
+  ]
+
+  for (const hunk of hunks) {
+    const hunkOps = ops.slice(hunk.from, hunk.to + 1)
+    const first = hunkOps[0]!
+    const oldCount = hunkOps.filter((op) => op.type !== '+').length
+    const newCount = hunkOps.filter((op) => op.type !== '-').length
+
+    output.push(
+      `@@ -${formatRange(first.oldIndex, oldCount)} +${formatRange(first.newIndex, newCount)} @@`,
+    )
+    for (const op of hunkOps) {
+      output.push(`${op.type}${op.line}`)
+    }
+  }
+
+  return output.join('\n') + '\n'
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { runCoverageCommand } from '../../src/cli/coverage'
+
+function createIO() {
+  const output = { stdout: '', stderr: '' }
+  return {
+    output,
+    io: {
+      stdout: (text: string) => {
+        output.stdout += text
+      },
+      stderr: (text: string) => {
+        output.stderr += text
+      },
+    },
+  }
+}
+
+describe('storybook-devtools coverage', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-cli-'))
+    fs.writeFileSync(
+      path.join(tmpDir, 'package.json'),
+      JSON.stringify({ dependencies: { react: '^19.0.0', vue: '^3.5.0' } }),
+    )
+    fs.mkdirSync(path.join(tmpDir, 'src', 'ui'), { recursive: true })
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'ui', 'Card.tsx'),
+      'export const Card = () => <div />\nexport const CardHeader = () => <h1 />\n',
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'ui', 'Card.stories.tsx'),
+      "import { Card } from './Card'\nexport default { component: Card }\nexport const Basic = {}\n",
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Modal.vue'),
+      '<script setup lang="ts">\nconst open = true\n</script>\n<template><div v-if="open" /></template>\n',
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('reports components without stories for the detected frameworks', async () => {
+    const { io, output } = createIO()
+
+    expect(
+      await runCoverageCommand(['--root', tmpDir, '--format', 'json'], io),
+    ).toBe(0)
+    expect(JSON.parse(output.stdout)).toMatchObject({
+      total: 3,
+      withStories: 1,
+      missing: {
+        src: [{ componentName: 'Modal', filePath: 'src/Modal.vue' }],
+        'src/ui': [{ componentName: 'CardHeader' }],
+      },
+    })
+  })
+
+  it('fails below --min and writes the requested report files', async () => {
+    const { io, output } = createIO()
+    const junitPath = path.join(tmpDir, 'reports', 'coverage.xml')
+
+    expect(
+      await runCoverageCommand(
+        ['--root', tmpDir, '--min', '50', '--junit', junitPath],
+        io,
+      ),
+    ).toBe(1)
+    expect(output.stdout).toContain('# Storybook coverage')
+    expect(output.stderr).toContain(
+      'Story coverage 33.3% is below the minimum of 50%',
+    )
+    expect(fs.readFileSync(junitPath, 'utf-8')).toContain(
+      'failures="2"',
+    )
+  })
+
+  it('rejects unknown options and frameworks with usage', async () => {
+    const { io, output } = createIO()
+
+    expect(await runCoverageCommand(['--root', tmpDir, '--bogus'], io)).toBe(2)
+    expect(
+      await runCoverageCommand(['--root', tmpDir, '--framework', 'angular'], io),
+    ).toBe(2)
+    expect(output.stderr).toContain('Unknown framework "angular"')
+    expect(output.stderr).toContain('Usage: storybook-devtools coverage')
+  })
+})
@@ -0,0 +1,1206 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FrameworkConfig } from '../src/frameworks'
+import { createComponentHighlighterPlugin } from '../src/create-component-highlighter-plugin'
+import { reactFramework } from '../src/frameworks/react'
+
+// Writes to matching paths fail, as on a full disk
+const failingWrites = vi.hoisted(() => ({ pattern: null as RegExp | null }))
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>()
+  return {
+    ...actual,
+    writeFileSync: (...args: Parameters<typeof actual.writeFileSync>) => {
+      if (failingWrites.pattern?.test(String(args[0]))) {
+        throw new Error('ENOSPC: no space left on device')
+      }
+      actual.writeFileSync(...args)
+    },
+  }
+})
+
+type RegisteredRpc = {
+  name: string
+  setup: () => { handler: (...args: any[]) => any }
+}
+
+function setupDevtools(
+  plugin: ReturnType<typeof createComponentHighlighterPlugin>,
+  root: string,
+) {
+  ;(plugin as any).configResolved({ command: 'serve', root })
+  const rpcs = new Map<string, RegisteredRpc>()
+  const ctx = {
+    docks: { register: () => {} },
+    rpc: {
+      register: (definition: RegisteredRpc) => {
+        rpcs.set(definition.name, definition)
+      },
+    },
+  }
+  ;(plugin as any).devtools.setup(ctx)
+
+  return (name: string, ...args: unknown[]) =>
+    rpcs.get(name)!.setup().handler(...args)
+}
+
+async function checkStory(
+  plugin: ReturnType<typeof createComponentHighlighterPlugin>,
+  componentPath: string,
+  exportName?: string,
+) {
+  let middleware: (req: unknown, res: unknown) => Promise<void> | void = () => {}
+  ;(plugin as any).configureServer({
+    watcher: { add: () => {}, on: () => {} },
+    middlewares: {
+      use: (_route: string, handler: typeof middleware) => {
+        middleware = handler
+      },
+    },
+  })
+  const res = { statusCode: 200, body: '', setHeader: () => {} } as {
+    statusCode: number
+    body: string
+    setHeader: () => void
+    end?: (body: string) => void
+  }
+  res.end = (body: string) => {
+    res.body = body
+  }
+  const params = new URLSearchParams({ componentPath })
+  if (exportName) params.set('exportName', exportName)
+  await middleware({ url: `/?${params}` }, res)
+  return { statusCode: res.statusCode, body: JSON.parse(res.body) }
+}
+
+describe('createComponentHighlighterPlugin with a custom framework', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-plugin-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const customFramework: FrameworkConfig = {
+    name: 'lit-preact',
+    displayName: 'Lit + Preact',
+    extensions: ['.ts'],
+    detect: () => true,
+    transform: () => undefined,
+    runtimeModuleFile: '/abs/path/to/runtime.js',
+    virtualModuleId: 'virtual:custom-runtime',
+    storybookFramework: '@storybook/web-components-vite',
+    storyFileExtension: 'js',
+    loadStoryGenerator: async () => (data) => ({
+      content: `// story for ${data.meta.componentName}: ${data.storyName}\n`,
+      filePath: '',
+      imports: [],
+      storyName: data.storyName ?? 'Default',
+    }),
+  }
+
+  it('uses the adapter story generator and story file extension', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(customFramework),
+      tmpDir,
+    )
+    const componentPath = path.join(tmpDir, 'MyElement.ts')
+
+    const preview = await call('component-highlighter:preview-story', {
+      meta: {
+        componentName: 'MyElement',
+        filePath: componentPath,
+        sourceId: 'my-element',
+      },
+      props: {},
+      serializedProps: {},
+      storyName: 'Primary',
+    })
+
+    expect(preview.filePath).toBe(path.join(tmpDir, 'MyElement.stories.js'))
+    expect(preview.content).toBe('// story for MyElement: Primary\n')
+    expect(preview.isAppend).toBe(false)
+  })
+
+  it('only pre-bundles dependencies the adapter asks for', () => {
+    const plugin = createComponentHighlighterPlugin(customFramework)
+    const viteConfig: { optimizeDeps?: { include?: string[] } } = {}
+    ;(plugin as any).config(viteConfig)
+    expect(viteConfig.optimizeDeps).toBeUndefined()
+
+    const withDeps = createComponentHighlighterPlugin({
+      ...customFramework,
+      optimizeDeps: ['some-serializer'],
+    })
+    ;(withDeps as any).config(viteConfig)
+    expect(viteConfig.optimizeDeps?.include).toEqual(['some-serializer'])
+  })
+})
+
+describe('createComponentHighlighterPlugin with several frameworks', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-multi-'))
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function createFramework(
+    name: string,
+    extension: string,
+    marker: string,
+  ): FrameworkConfig {
+    return {
+      name,
+      displayName: name,
+      extensions: [extension],
+      detect: (code, id) => id.endsWith(extension) && code.includes(marker),
+      transform: (code) => `/* ${name} */ ${code}`,
+      runtimeModuleFile: `/abs/path/to/${name}-runtime.js`,
+      virtualModuleId: `virtual:${name}-runtime`,
+      storybookFramework: `@storybook/${name}-vite`,
+      storyFileExtension: extension === '.vue' ? 'ts' : 'tsx',
+      loadStoryGenerator: async () => (data) => ({
+        content: `// ${name} story for ${data.meta.componentName} (${data.storybookFramework})\n`,
+        filePath: '',
+        imports: [],
+        storyName: data.storyName ?? 'Default',
+      }),
+      optimizeDeps: [`${name}-serializer`, 'shared-dep'],
+    }
+  }
+
+  const vue = createFramework('vue', '.vue', '<template')
+  const react = createFramework('react', '.tsx', 'react')
+
+  it('routes each file to the framework whose detect accepts it', () => {
+    const plugin = createComponentHighlighterPlugin([vue, react]) as any
+    plugin.configResolved({ command: 'serve', root: tmpDir })
+
+    expect(plugin.transform('<template><div /></template>', '/app/Widget.vue'))
+      .toBe('/* vue */ <template><div /></template>')
+    expect(plugin.transform("import React from 'react'", '/app/Shell.tsx'))
+      .toBe("/* react */ import React from 'react'")
+    expect(plugin.transform('export const a = 1', '/app/util.tsx'))
+      .toBeUndefined()
+  })
+
+  it('serves every framework runtime and merges pre-bundled deps', () => {
+    const plugin = createComponentHighlighterPlugin([vue, react]) as any
+
+    expect(plugin.resolveId('virtual:vue-runtime')).toBe('\0virtual:vue-runtime')
+    expect(plugin.resolveId('virtual:react-runtime')).toBe(
+      '\0virtual:react-runtime',
+    )
+    expect(plugin.resolveId('virtual:other-runtime')).toBeNull()
+
+    const viteConfig: { optimizeDeps?: { include?: string[] } } = {}
+    plugin.config(viteConfig)
+    expect(viteConfig.optimizeDeps?.include).toEqual([
+      'vue-serializer',
+      'shared-dep',
+      'react-serializer',
+    ])
+  })
+
+  it('generates stories with the framework that instrumented the component', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin([vue, react]),
+      tmpDir,
+    )
+    const widgetPath = path.join(tmpDir, 'Widget.vue')
+    const shellPath = path.join(tmpDir, 'Shell.tsx')
+    fs.writeFileSync(widgetPath, '<template><div /></template>')
+    fs.writeFileSync(shellPath, "import React from 'react'")
+
+    const preview = (filePath: string, componentName: string) =>
+      call('component-highlighter:preview-story', {
+        meta: { componentName, filePath, sourceId: componentName },
+        props: {},
+        serializedProps: {},
+        storyName: 'Primary',
+      })
+
+    const widget = await preview(widgetPath, 'Widget')
+    expect(widget.filePath).toBe(path.join(tmpDir, 'Widget.stories.ts'))
+    expect(widget.content).toBe(
+      '// vue story for Widget (@storybook/vue-vite)\n',
+    )
+
+    const shell = await preview(shellPath, 'Shell')
+    expect(shell.filePath).toBe(path.join(tmpDir, 'Shell.stories.tsx'))
+    expect(shell.content).toBe(
+      '// react story for Shell (@storybook/react-vite)\n',
+    )
+  })
+
+  it('requires at least one framework', () => {
+    expect(() => createComponentHighlighterPlugin([])).toThrow(
+      'At least one framework is required',
+    )
+  })
+})
+
+describe('create-story results', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-create-'))
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function createFramework(
+    generate: (storyName: string) => string,
+  ): FrameworkConfig {
+    return {
+      name: 'test',
+      displayName: 'Test',
+      extensions: ['.ts'],
+      detect: () => true,
+      transform: () => undefined,
+      runtimeModuleFile: '/abs/path/to/runtime.js',
+      virtualModuleId: 'virtual:test-runtime',
+      storybookFramework: '@storybook/test-vite',
+      storyFileExtension: 'ts',
+      loadStoryGenerator: async () => (data) => ({
+        content: generate(data.storyName ?? 'Default'),
+        filePath: '',
+        imports: [],
+        storyName: data.storyName ?? 'Default',
+      }),
+    }
+  }
+
+  function request(serializedProps: Record<string, unknown> = {}) {
+    return {
+      meta: {
+        componentName: 'Button',
+        filePath: path.join(tmpDir, 'Button.ts'),
+        sourceId: 'button',
+      },
+      props: {},
+      serializedProps,
+      storyName: 'Primary',
+    }
+  }
+
+  const storyFor = (storyName: string) => `export const ${storyName} = {}\n`
+
+  it('returns the written story on success', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor)),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', request())
+
+    expect(result).toMatchObject({
+      ok: true,
+      filePath: path.join(tmpDir, 'Button.stories.ts'),
+      storyName: 'Primary',
+      isAppend: false,
+    })
+    expect(fs.readFileSync(result.filePath, 'utf-8')).toBe(storyFor('Primary'))
+  })
+
+  it('reports generator errors with the thrown message', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(
+        createFramework(() => {
+          throw new Error('unexpected token')
+        }),
+      ),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', request())
+
+    expect(result).toMatchObject({
+      ok: false,
+      code: 'generator-error',
+      message: 'Story generation failed: unexpected token',
+    })
+    expect(result.suggestion).toBeTruthy()
+  })
+
+  it('rejects props that cannot be written as story source', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor)),
+      tmpDir,
+    )
+
+    const result = await call(
+      'component-highlighter:create-story',
+      request({ user: { createdAt: new Date(0) } }),
+    )
+
+    expect(result).toMatchObject({ ok: false, code: 'unsupported-prop' })
+    expect(result.message).toContain('user.createdAt')
+    expect(result.message).toContain('Date')
+    expect(fs.existsSync(path.join(tmpDir, 'Button.stories.ts'))).toBe(false)
+  })
+
+  it('refuses to write stories outside the project root', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor), {
+        storiesDir: '../outside',
+      }),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', request())
+
+    expect(result).toMatchObject({ ok: false, code: 'path-outside-root' })
+  })
+
+  it('explains when story writing is disabled', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor), {
+        writeStoryFiles: false,
+      }),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', request())
+
+    expect(result).toMatchObject({ ok: false, code: 'writes-disabled' })
+  })
+  it('returns typed failures from previews', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor), {
+        storiesDir: '../outside',
+      }),
+      tmpDir,
+    )
+
+    const preview = await call('component-highlighter:preview-story', request())
+
+    expect(preview).toMatchObject({ ok: false, code: 'path-outside-root' })
+    expect(preview.suggestion).toBeTruthy()
+  })
+
+  it('writes the previewed story when a preview is confirmed', async () => {
+    let generation = 0
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(
+        createFramework(() => `// generation ${++generation}\n`),
+      ),
+      tmpDir,
+    )
+
+    const preview = await call('component-highlighter:preview-story', request())
+    const result = await call('component-highlighter:create-story', {
+      ...request(),
+      previewId: preview.previewId,
+    })
+
+    expect(result).toMatchObject({ ok: true })
+    expect(fs.readFileSync(result.filePath, 'utf-8')).toBe('// generation 1\n')
+  })
+
+  it('refuses to confirm a preview whose story file changed since', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(createFramework(storyFor)),
+      tmpDir,
+    )
+
+    const preview = await call('component-highlighter:preview-story', request())
+    fs.writeFileSync(preview.filePath, 'export const Edited = {}\n')
+    const result = await call('component-highlighter:create-story', {
+      ...request(),
+      previewId: preview.previewId,
+    })
+
+    expect(result).toMatchObject({ ok: false, code: 'preview-outdated' })
+    expect(fs.readFileSync(preview.filePath, 'utf-8')).toBe(
+      'export const Edited = {}\n',
+    )
+    expect(
+      await call('component-highlighter:create-story', {
+        ...request(),
+        previewId: preview.previewId,
+      }),
+    ).toMatchObject({ ok: false, code: 'preview-outdated' })
+  })
+})
+
+describe('path sandboxing', () => {
+  let tmpDir: string
+  let root: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-sandbox-')),
+    )
+    root = path.join(tmpDir, 'app')
+    fs.mkdirSync(root)
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), '{}')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const framework: FrameworkConfig = {
+    name: 'test',
+    displayName: 'Test',
+    extensions: ['.ts'],
+    detect: () => true,
+    transform: () => undefined,
+    runtimeModuleFile: '/abs/path/to/runtime.js',
+    virtualModuleId: 'virtual:test-runtime',
+    storybookFramework: '@storybook/test-vite',
+    storyFileExtension: 'ts',
+    loadStoryGenerator: async () => (data) => ({
+      content: `export const ${data.storyName} = {}\n`,
+      filePath: '',
+      imports: [],
+      storyName: data.storyName ?? 'Default',
+    }),
+  }
+
+  function request(filePath: string) {
+    return {
+      meta: { componentName: 'Button', filePath, sourceId: 'button' },
+      props: {},
+      serializedProps: {},
+      storyName: 'Primary',
+    }
+  }
+
+  it('rejects check-story probes outside the root', async () => {
+    const plugin = createComponentHighlighterPlugin(framework)
+    ;(plugin as any).configResolved({ command: 'serve', root })
+    fs.writeFileSync(path.join(tmpDir, 'Secret.stories.ts'), '')
+
+    expect(await checkStory(plugin, path.join(tmpDir, 'Secret.ts'))).toEqual({
+      statusCode: 403,
+      body: { error: 'componentPath is outside the project root' },
+    })
+    expect(await checkStory(plugin, path.join(root, 'Button.ts'))).toEqual({
+      statusCode: 200,
+      body: { hasStory: false, storyPath: null, stories: [] },
+    })
+  })
+
+  it('does not write through a story path symlinked outside the root', async () => {
+    const outside = path.join(tmpDir, 'outside')
+    fs.mkdirSync(outside)
+    fs.symlinkSync(outside, path.join(root, 'linked'))
+    const call = setupDevtools(createComponentHighlighterPlugin(framework), root)
+
+    const result = await call(
+      'component-highlighter:create-story',
+      request(path.join(root, 'linked', 'Button.ts')),
+    )
+
+    expect(result).toMatchObject({ ok: false, code: 'path-outside-root' })
+    expect(fs.readdirSync(outside)).toEqual([])
+  })
+
+  it('writes stories for components in allowed paths', async () => {
+    const shared = path.join(tmpDir, 'shared')
+    fs.mkdirSync(shared)
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(framework, {
+        allowedPaths: ['../shared'],
+      }),
+      root,
+    )
+
+    const result = await call(
+      'component-highlighter:create-story',
+      request(path.join(shared, 'Button.ts')),
+    )
+
+    expect(result).toMatchObject({
+      ok: true,
+      filePath: path.join(shared, 'Button.stories.ts'),
+    })
+  })
+})
+
+describe('storyFilePattern', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-pattern-')),
+    )
+    fs.mkdirSync(path.join(tmpDir, 'src', 'components'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('writes to the pattern location with imports relative to it', async () => {
+    const componentPath = path.join(tmpDir, 'src', 'components', 'Button.tsx')
+    const iconPath = path.join(tmpDir, 'src', 'icons', 'Icon.tsx')
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, {
+        storyFilePattern: 'stories/{relativeDir}/{name}',
+      }),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', {
+      meta: { componentName: 'Button', filePath: componentPath, sourceId: 'b' },
+      props: {},
+      serializedProps: {
+        icon: { __isJSX: true, source: '<Icon />', componentRefs: ['Icon'] },
+      },
+      componentRegistry: { Icon: iconPath },
+      storyName: 'Primary',
+    })
+
+    const storyPath = path.join(
+      tmpDir,
+      'stories',
+      'src',
+      'components',
+      'Button.stories.tsx',
+    )
+    expect(result).toMatchObject({ ok: true, filePath: storyPath })
+    const content = fs.readFileSync(storyPath, 'utf-8')
+    expect(content).toContain(
+      "import { Button } from '../../../src/components/Button';",
+    )
+    expect(content).toContain("import { Icon } from '../../../src/icons/Icon';")
+  })
+
+  it('imports CSF Factories meta from the project preview file', async () => {
+    fs.mkdirSync(path.join(tmpDir, '.storybook'))
+    fs.writeFileSync(
+      path.join(tmpDir, '.storybook', 'preview.tsx'),
+      'export default {}\n',
+    )
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, {
+        storyFilePattern: 'stories/{relativeDir}/{name}',
+        outputFormat: 'csf-factories',
+      }),
+      tmpDir,
+    )
+
+    const result = await call('component-highlighter:create-story', {
+      meta: {
+        componentName: 'Button',
+        filePath: path.join(tmpDir, 'src', 'components', 'Button.tsx'),
+        sourceId: 'b',
+      },
+      props: {},
+      serializedProps: {},
+      storyName: 'Primary',
+    })
+
+    const content = fs.readFileSync(result.filePath, 'utf-8')
+    expect(content).toContain(
+      "import preview from '../../../.storybook/preview';",
+    )
+    expect(content).toContain('export const Primary = meta.story({')
+  })
+
+  it('looks existing stories up at the pattern location', async () => {
+    const plugin = createComponentHighlighterPlugin(reactFramework, {
+      storyFilePattern: '{dir}/__stories__/{name}.stories.{ext}',
+    })
+    ;(plugin as any).configResolved({ command: 'serve', root: tmpDir })
+    const storyPath = path.join(
+      tmpDir,
+      'src',
+      'components',
+      '__stories__',
+      'Button.stories.tsx',
+    )
+    fs.mkdirSync(path.dirname(storyPath))
+    fs.writeFileSync(storyPath, '')
+
+    expect(
+      await checkStory(
+        plugin,
+        path.join(tmpDir, 'src', 'components', 'Button.tsx'),
+      ),
+    ).toEqual({ statusCode: 200, body: { hasStory: true, storyPath, stories: [] } })
+  })
+})
+
+describe('story discovery', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-discovery-'))
+    fs.mkdirSync(path.join(tmpDir, '.storybook'))
+    fs.writeFileSync(
+      path.join(tmpDir, '.storybook', 'main.ts'),
+      "export default { stories: ['../docs/**/*.story.tsx'] }\n",
+    )
+    fs.mkdirSync(path.join(tmpDir, 'src'))
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Buttons.tsx'),
+      'export const Button = () => <button />\nexport const IconButton = () => <button />\n',
+    )
+    fs.mkdirSync(path.join(tmpDir, 'docs'))
+    fs.writeFileSync(
+      path.join(tmpDir, 'docs', 'Button.story.tsx'),
+      [
+        "import { Button } from '../src/Buttons'",
+        'export default { component: Button }',
+        'export const Primary = {}',
+        'export const Secondary = {}',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('finds stories through the Storybook stories globs, per export', async () => {
+    const plugin = createComponentHighlighterPlugin(reactFramework)
+    ;(plugin as any).configResolved({ command: 'serve', root: tmpDir })
+    const componentPath = path.join(tmpDir, 'src', 'Buttons.tsx')
+
+    expect(await checkStory(plugin, componentPath, 'Button')).toEqual({
+      statusCode: 200,
+      body: {
+        hasStory: true,
+        storyPath: path.join(tmpDir, 'docs', 'Button.story.tsx'),
+        stories: ['Primary', 'Secondary'],
+      },
+    })
+    expect(await checkStory(plugin, componentPath, 'IconButton')).toEqual({
+      statusCode: 200,
+      body: { hasStory: false, storyPath: null, stories: [] },
+    })
+  })
+  it('only counts a conventional story file for the export its meta references', async () => {
+    const plugin = createComponentHighlighterPlugin(reactFramework)
+    ;(plugin as any).configResolved({ command: 'serve', root: tmpDir })
+    const componentPath = path.join(tmpDir, 'src', 'Card.tsx')
+    fs.writeFileSync(
+      componentPath,
+      'export const Card = () => null\nexport const CardHeader = () => null\n',
+    )
+    const storyPath = path.join(tmpDir, 'src', 'Card.stories.tsx')
+    fs.writeFileSync(
+      storyPath,
+      "import { Card } from './Card'\nexport default { component: Card }\nexport const Basic = {}\n",
+    )
+
+    expect((await checkStory(plugin, componentPath, 'Card')).body).toEqual({
+      hasStory: true,
+      storyPath,
+      stories: ['Basic'],
+    })
+    expect((await checkStory(plugin, componentPath, 'CardHeader')).body).toEqual(
+      { hasStory: false, storyPath: null, stories: [] },
+    )
+  })
+  it('lists the project inventory over RPC, including components no page renders', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    const inventory = await call(
+      'component-highlighter:list-component-inventory',
+    )
+    expect(
+      inventory.map(
+        (entry: { componentName: string; hasStory: boolean }) => [
+          entry.componentName,
+          entry.hasStory,
+        ],
+      ),
+    ).toEqual([
+      ['Button', true],
+      ['IconButton', false],
+    ])
+  })
+})
+
+describe('story formatting', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-format-')),
+    )
+    fs.writeFileSync(path.join(tmpDir, 'package.json'), '{}')
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+    fs.mkdirSync(path.join(tmpDir, 'node_modules'))
+    fs.symlinkSync(
+      path.resolve('node_modules/prettier'),
+      path.join(tmpDir, 'node_modules', 'prettier'),
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, '.prettierrc'),
+      JSON.stringify({ semi: false, singleQuote: true }),
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function request(storyName: string) {
+    return {
+      meta: {
+        componentName: 'Button',
+        filePath: path.join(tmpDir, 'Button.tsx'),
+        sourceId: 'b',
+      },
+      props: {},
+      serializedProps: { label: 'Save' },
+      storyName,
+    }
+  }
+
+  it('formats written and appended stories with the project formatter', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    await call('component-highlighter:create-story', request('Primary'))
+    await call('component-highlighter:create-story', request('Secondary'))
+
+    const content = fs.readFileSync(
+      path.join(tmpDir, 'Button.stories.tsx'),
+      'utf-8',
+    )
+    expect(content).toContain("import { Button } from './Button'\n")
+    expect(content).toContain('export const Secondary: Story = {')
+    expect(content).not.toMatch(/;$/m)
+  })
+
+  it('writes stories as generated with formatter: false', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, { formatter: false }),
+      tmpDir,
+    )
+
+    await call('component-highlighter:create-story', request('Primary'))
+
+    expect(
+      fs.readFileSync(path.join(tmpDir, 'Button.stories.tsx'), 'utf-8'),
+    ).toMatch(/;$/m)
+  })
+})
+
+describe('JavaScript story output', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-js-')),
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function request(componentFile: string, storyName: string) {
+    return {
+      meta: {
+        componentName: 'Button',
+        filePath: path.join(tmpDir, componentFile),
+        sourceId: 'b',
+      },
+      props: {},
+      serializedProps: { label: 'Save', onClick: { __isFunction: true } },
+      storyName,
+    }
+  }
+
+  it('writes JSDoc-typed .stories.jsx files for JS components', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    const result = await call(
+      'component-highlighter:create-story',
+      request('Button.jsx', 'Primary'),
+    )
+    await call(
+      'component-highlighter:create-story',
+      request('Button.jsx', 'Secondary'),
+    )
+
+    expect(result.filePath).toBe(path.join(tmpDir, 'Button.stories.jsx'))
+    const content = fs.readFileSync(result.filePath, 'utf-8')
+    expect(content).not.toContain('import type')
+    expect(content).toContain(
+      "/** @type {import('@storybook/react-vite').Meta<typeof Button>} */\nconst meta = {",
+    )
+    expect(content).toContain('/** @type {Story} */\nexport const Primary = {')
+    expect(content).toContain(
+      '/** @type {Story} */\nexport const Secondary = {',
+    )
+  })
+
+  it('writes JS stories in projects without a tsconfig, but appends to existing TS ones', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    const created = await call(
+      'component-highlighter:create-story',
+      request('Button.tsx', 'Primary'),
+    )
+    expect(created.filePath).toBe(path.join(tmpDir, 'Button.stories.jsx'))
+
+    fs.rmSync(created.filePath)
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.stories.tsx'),
+      [
+        "import type { Meta, StoryObj } from '@storybook/react-vite'",
+        "import { Button } from './Button'",
+        'const meta = { component: Button } satisfies Meta<typeof Button>',
+        'export default meta',
+        'type Story = StoryObj<typeof meta>',
+        'export const Primary: Story = {}',
+      ].join('\n'),
+    )
+    const appended = await call(
+      'component-highlighter:create-story',
+      request('Button.tsx', 'Secondary'),
+    )
+    expect(appended).toMatchObject({
+      isAppend: true,
+      filePath: path.join(tmpDir, 'Button.stories.tsx'),
+    })
+    expect(fs.readFileSync(appended.filePath, 'utf-8')).toContain(
+      'export const Secondary: Story = {',
+    )
+  })
+})
+
+describe('argTypes from props types', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-argtypes-')),
+    )
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `export interface ButtonProps {
+  /** Button size */
+  size?: 'small' | 'large'
+  onClick?: () => void
+}
+
+export function Button(props: ButtonProps) {
+  return <button />
+}
+`,
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const request = (storyName: string) => ({
+    meta: {
+      componentName: 'Button',
+      filePath: path.join(tmpDir, 'Button.tsx'),
+      sourceId: 'b',
+    },
+    props: {},
+    serializedProps: { size: 'small' },
+    storyName,
+  })
+
+  it('writes argTypes to the meta of new story files only', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    const created = await call(
+      'component-highlighter:create-story',
+      request('Small'),
+    )
+    await call('component-highlighter:create-story', request('Other'))
+
+    const content = fs.readFileSync(created.filePath, 'utf-8')
+    expect(content).toContain(`  component: Button,
+  argTypes: {
+    size: {
+      control: "select",
+      options: ["small", "large"],
+      description: "Button size",
+    },
+    onClick: {
+      action: "onClick",
+    },
+  },
+};`)
+    expect(content.match(/argTypes/g)).toHaveLength(1)
+  })
+
+  it('can be turned off', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, { argTypes: false }),
+      tmpDir,
+    )
+
+    const created = await call(
+      'component-highlighter:create-story',
+      request('Small'),
+    )
+    expect(fs.readFileSync(created.filePath, 'utf-8')).not.toContain(
+      'argTypes',
+    )
+  })
+})
+
+describe('default props', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-defaults-')),
+    )
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `export function Button({ size = 'medium', disabled = false, label }) {
+  return <button disabled={disabled}>{label}</button>
+}
+`,
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const createRequest = () => ({
+    meta: {
+      componentName: 'Button',
+      filePath: path.join(tmpDir, 'Button.tsx'),
+      sourceId: 'b',
+    },
+    props: {},
+    storyName: 'Large',
+    serializedProps: {
+      size: 'large',
+      disabled: false,
+      label: 'Save',
+      icon: undefined,
+    },
+  })
+
+  it('leaves out args equal to the component defaults', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+
+    const created = await call(
+      'component-highlighter:create-story',
+      createRequest(),
+    )
+    const content = fs.readFileSync(created.filePath, 'utf-8')
+    expect(content).toContain(`  args: {
+    size: "large",
+    label: "Save",
+  },`)
+  })
+
+  it('keeps them with keepDefaultProps', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, {
+        keepDefaultProps: true,
+      }),
+      tmpDir,
+    )
+
+    const created = await call(
+      'component-highlighter:create-story',
+      createRequest(),
+    )
+    expect(fs.readFileSync(created.filePath, 'utf-8')).toContain(
+      'disabled: false,',
+    )
+  })
+})
+
+describe('fixtures modules', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'highlighter-fixtures-')),
+    )
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}')
+    fs.writeFileSync(
+      path.join(tmpDir, 'TaskList.tsx'),
+      `export function TaskList({ tasks }) {
+  return <ul>{tasks.map((task) => <li>{task.title}</li>)}</ul>
+}
+`,
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const createRequest = (storyName: string, count: number) => ({
+    meta: {
+      componentName: 'TaskList',
+      filePath: path.join(tmpDir, 'TaskList.tsx'),
+      sourceId: 't',
+    },
+    props: {},
+    storyName,
+    serializedProps: {
+      title: 'Inbox',
+      tasks: Array.from({ length: count }, (_, i) => ({
+        id: i,
+        title: `Task ${i}`,
+      })),
+    },
+  })
+
+  it('moves large args to the fixtures module and reuses equal exports', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+    const fixturesPath = path.join(tmpDir, 'TaskList.fixtures.ts')
+
+    const created = await call(
+      'component-highlighter:create-story',
+      createRequest('Full', 20),
+    )
+    const story = fs.readFileSync(created.filePath, 'utf-8')
+    expect(story).toContain(
+      "import { TaskList } from './TaskList';\nimport { tasks } from './TaskList.fixtures';",
+    )
+    expect(story).toContain(`  args: {
+    title: "Inbox",
+    tasks: tasks,
+  },`)
+    const fixtures = fs.readFileSync(fixturesPath, 'utf-8')
+    expect(fixtures).toMatch(
+      /^import type \{ ComponentProps \} from 'react';\nimport type \{ TaskList \} from '\.\/TaskList';\n\nexport const tasks = \[\n {2}\{\n {4}id: 0,/,
+    )
+    expect(fixtures).toContain(
+      "] satisfies ComponentProps<typeof TaskList>['tasks'];",
+    )
+
+    await call('component-highlighter:create-story', createRequest('Again', 20))
+    expect(fs.readFileSync(fixturesPath, 'utf-8')).toBe(fixtures)
+
+    await call('component-highlighter:create-story', createRequest('More', 21))
+    const appended = fs.readFileSync(created.filePath, 'utf-8')
+    expect(appended).toContain(
+      "import { tasks, tasks2 } from './TaskList.fixtures';",
+    )
+    expect(appended).toMatch(
+      /export const Again: Story = \{\n {2}args: \{\n {4}title: "Inbox",\n {4}tasks: tasks,/,
+    )
+    expect(fs.readFileSync(fixturesPath, 'utf-8')).toContain(
+      'export const tasks2 = [',
+    )
+  })
+
+  it('undoes the story and its fixtures module as one journal entry', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+    const fixturesPath = path.join(tmpDir, 'TaskList.fixtures.ts')
+
+    const created = await call(
+      'component-highlighter:create-story',
+      createRequest('Full', 20),
+    )
+    const [entry] = call('component-highlighter:list-story-journal')
+    expect(entry).toMatchObject({
+      id: created.journalEntryId,
+      filePath: created.filePath,
+      relatedFilePaths: [fixturesPath],
+    })
+
+    call('component-highlighter:undo-story', {})
+    expect(fs.existsSync(created.filePath)).toBe(false)
+    expect(fs.existsSync(fixturesPath)).toBe(false)
+  })
+
+  it('restores the fixtures module when the story write fails', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework),
+      tmpDir,
+    )
+    const fixturesPath = path.join(tmpDir, 'TaskList.fixtures.ts')
+    fs.writeFileSync(fixturesPath, 'export const other = 1\n')
+    failingWrites.pattern = /\.stories\.tsx$/
+
+    const result = await call(
+      'component-highlighter:create-story',
+      createRequest('Full', 20),
+    )
+    failingWrites.pattern = null
+
+    expect(result.ok).toBe(false)
+    expect(fs.readFileSync(fixturesPath, 'utf-8')).toBe(
+      'export const other = 1\n',
+    )
+    expect(call('component-highlighter:list-story-journal')).toEqual([])
+  })
+
+  it('writes fixtures modules to fixturesDir and keeps small args inline', async () => {
+    const call = setupDevtools(
+      createComponentHighlighterPlugin(reactFramework, {
+        fixturesDir: 'fixtures',
+      }),
+      tmpDir,
+    )
+
+    const preview = await call(
+      'component-highlighter:preview-story',
+      createRequest('Full', 20),
+    )
+    expect(preview.fixtures.filePath).toBe(
+      path.join(tmpDir, 'fixtures', 'TaskList.fixtures.ts'),
+    )
+    expect(preview.fixtures.diff).toContain('+export const tasks = [')
+    expect(preview.content).toContain(
+      "import { tasks } from './fixtures/TaskList.fixtures';",
+    )
+
+    const small = await call(
+      'component-highlighter:preview-story',
+      createRequest('Short', 2),
+    )
+    expect(small.fixtures).toBeUndefined()
+    expect(small.content).toContain('title: "Task 1",')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { generateStory } from '../../../src/frameworks/preact/story-generator'
+import { transform } from '../../../src/frameworks/preact/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const meta = {
+  componentName: 'Button',
+  filePath: '/repo/src/components/Button.tsx',
+  relativeFilePath: 'src/components/Button.tsx',
+  sourceId: 'button-preact-source-id',
+  isDefaultExport: false,
+}
+
+describe('preact transform', () => {
+  it('wraps components against the Preact runtime without importing react', () => {
+    const { code: result } = transform(
+      `export function Button({ label }) {
+  return <button>{label}</button>
+}
+`,
+      '/repo/src/components/Button.tsx',
+    ) as TransformOutput
+
+    expect(result).toContain(
+      "import { withComponentHighlighter } from \"virtual:component-highlighter/preact-runtime\";",
+    )
+    expect(result).toContain('export const Button = withComponentHighlighter(')
+    expect(result).not.toContain("from \"react\"")
+  })
+})
+
+describe('preact story generation', () => {
+  it('generates a CSF story for @storybook/preact-vite', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        label: 'Save',
+        icon: {
+          __isJSX: true,
+          source: '<Icon name="save" onLoad={() => {}} />',
+          componentRefs: ['Icon'],
+        },
+        onClick: { __isFunction: true, name: 'handleClick' },
+      },
+      componentRegistry: new Map([
+        ['Button', '/repo/src/components/Button.tsx'],
+        ['Icon', '/repo/src/components/Icon.tsx'],
+      ]),
+      storyName: 'Primary',
+    })
+
+    expect(story.filePath).toBe('/repo/src/components/Button.stories.tsx')
+    expect(story.content).toContain(
+      "import type { Meta, StoryObj } from '@storybook/preact-vite';",
+    )
+    expect(story.content).not.toContain("from 'react'")
+    expect(story.content).toContain("import { Button } from './Button';")
+    expect(story.content).toContain("import { Icon } from './Icon';")
+    expect(story.content).toContain('icon: <Icon name="save" onLoad={fn()} />')
+    expect(story.content).toContain('onClick: fn()')
+  })
+
+  it('writes CSF Factories with preview.meta()', () => {
+    const story = generateStory({
+      meta,
+      props: { label: 'Save' },
+      storyName: 'Primary',
+      outputFormat: 'csf-factories',
+      previewFilePath: '/repo/.storybook/preview.tsx',
+    })
+
+    expect(story.content).toContain(
+      "import preview from '../../.storybook/preview';",
+    )
+    expect(story.content).toContain('export const Primary = meta.story({')
+  })
+})
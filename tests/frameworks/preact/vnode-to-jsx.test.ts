@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isPreactVNode,
+  containsPreactVNode,
+  getPreactNodeName,
+  escapeJSXText,
+  toJSXAttribute,
+  serializeVNodeToJSX,
+} from '../../../src/frameworks/preact/vnode-to-jsx'
+
+// Minimal stand-in for preact's createElement: vnodes carry an own
+// `constructor: undefined`, which is what Preact's isValidElement checks
+function h(
+  type: unknown,
+  props: Record<string, unknown> | null,
+  ...children: unknown[]
+) {
+  const normalizedProps: Record<string, unknown> = { ...props }
+  if (children.length > 0) {
+    normalizedProps['children'] = children.length === 1 ? children[0] : children
+  }
+  return {
+    type,
+    props: normalizedProps,
+    key: props?.['key'],
+    constructor: undefined,
+  }
+}
+
+function Fragment(props: { children?: unknown }) {
+  return props.children
+}
+
+function Icon() {
+  return null
+}
+
+const Wrapped = Object.assign(() => null, {
+  displayName: 'withComponentHighlighter(Badge)',
+})
+
+describe('isPreactVNode', () => {
+  it('recognizes vnodes by their undefined constructor', () => {
+    expect(isPreactVNode(h('div', null))).toBe(true)
+    expect(isPreactVNode({ type: 'div', props: {} })).toBe(false)
+    expect(isPreactVNode('div')).toBe(false)
+    expect(isPreactVNode(null)).toBe(false)
+  })
+
+  it('finds vnodes inside arrays', () => {
+    expect(containsPreactVNode(['text', h('b', null)])).toBe(true)
+    expect(containsPreactVNode(['a', 'b'])).toBe(false)
+  })
+})
+
+describe('getPreactNodeName', () => {
+  it('prefers __originalName, then unwrapped displayName, then name', () => {
+    const tracked = Object.assign(() => null, { __originalName: 'Button' })
+    expect(getPreactNodeName(tracked)).toBe('Button')
+    expect(getPreactNodeName(Wrapped)).toBe('Badge')
+    expect(getPreactNodeName(Icon)).toBe('Icon')
+    expect(getPreactNodeName('span')).toBe('span')
+    expect(getPreactNodeName(undefined)).toBeNull()
+  })
+})
+
+describe('escapeJSXText', () => {
+  it('wraps text with JSX-significant characters in an expression', () => {
+    expect(escapeJSXText('Hello')).toBe('Hello')
+    expect(escapeJSXText('a < b')).toBe('{"a < b"}')
+  })
+})
+
+describe('toJSXAttribute', () => {
+  it('formats primitives, handlers and objects', () => {
+    const refs = new Set<string>()
+    expect(toJSXAttribute('label', 'Save', refs)).toBe('label="Save"')
+    expect(toJSXAttribute('title', 'Say "hi"', refs)).toBe(
+      'title={"Say \\"hi\\""}',
+    )
+    expect(toJSXAttribute('disabled', true, refs)).toBe('disabled')
+    expect(toJSXAttribute('open', false, refs)).toBe('open={false}')
+    expect(toJSXAttribute('count', 3, refs)).toBe('count={3}')
+    expect(toJSXAttribute('onClick', () => {}, refs)).toBe(
+      'onClick={() => {}}',
+    )
+    expect(toJSXAttribute('style', { color: 'red' }, refs)).toBe(
+      'style={{"color":"red"}}',
+    )
+    expect(toJSXAttribute('hidden', undefined, refs)).toBeNull()
+  })
+})
+
+describe('serializeVNodeToJSX', () => {
+  it('serializes elements with sorted props and children', () => {
+    const result = serializeVNodeToJSX(
+      h('a', { href: '/docs', class: 'link', key: 'k' }, 'Read ', h('b', null, 'more')),
+    )
+
+    expect(result.source).toBe('<a class="link" href="/docs">Read <b>more</b></a>')
+    expect(result.componentRefs).toEqual([])
+  })
+
+  it('collects component refs, including vnodes passed as props', () => {
+    const result = serializeVNodeToJSX(
+      h(Wrapped, { icon: h(Icon, { name: 'star' }), onSelect: () => {} }, 'New'),
+    )
+
+    expect(result.source).toBe(
+      '<Badge icon={<Icon name="star" />} onSelect={() => {}}>New</Badge>',
+    )
+    expect(result.componentRefs).toEqual(['Badge', 'Icon'])
+  })
+
+  it('unwraps fragments and wraps arrays in a fragment', () => {
+    expect(
+      serializeVNodeToJSX(h(Fragment, null, h('li', null, 'a'), h('li', null, 'b')), Fragment)
+        .source,
+    ).toBe('<li>a</li><li>b</li>')
+    expect(serializeVNodeToJSX([h('i', null), 'text', null, false]).source).toBe(
+      '<><i />text</>',
+    )
+  })
+})
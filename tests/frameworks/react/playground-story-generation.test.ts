@@ -87,3 +87,73 @@ export const Default: Story = {
     expect(story.content).toContain("import { TaskList } from './TaskList';")
   })
 })
+
+describe('react CSF Factories output', () => {
+  const meta = {
+    componentName: 'TaskList',
+    filePath: '/repo/src/components/TaskList.tsx',
+    relativeFilePath: 'src/components/TaskList.tsx',
+    sourceId: 'tasklist-source-id',
+    isDefaultExport: false,
+  }
+
+  it('writes preview.meta() and meta.story() with the preview import', () => {
+    const story = generateStory({
+      meta,
+      props: { title: 'All Tasks', onAction: { __isFunction: true } },
+      storyName: 'Captured',
+      outputFormat: 'csf-factories',
+      previewFilePath: '/repo/.storybook/preview.tsx',
+    })
+
+    expect(story.content).toBe(`import preview from '../../.storybook/preview';
+import { fn } from 'storybook/test';
+import { TaskList } from './TaskList';
+
+const meta = preview.meta({
+  component: TaskList,
+});
+
+export const Captured = meta.story({
+  args: {
+    title: "All Tasks",
+    onAction: fn(),
+  },
+});
+`)
+  })
+
+  it('follows the format of the file it appends to', () => {
+    const factoriesFile = `import preview from '../../.storybook/preview'
+import { TaskList } from './TaskList'
+
+const taskListMeta = preview.meta({ component: TaskList })
+
+export const Default = taskListMeta.story({})
+`
+    const appended = generateStory({
+      meta,
+      props: { title: 'Done' },
+      storyName: 'Done',
+      existingContent: factoriesFile,
+    })
+    expect(appended.content).toContain(
+      'export const Done = taskListMeta.story({',
+    )
+
+    const csf3File = generateStory({
+      meta,
+      props: {},
+      storyName: 'Default',
+    }).content
+    const csf3Appended = generateStory({
+      meta,
+      props: {},
+      storyName: 'Empty',
+      existingContent: csf3File,
+      outputFormat: 'csf-factories',
+    })
+    expect(csf3Appended.content).toContain('export const Empty: Story = {')
+    expect(csf3Appended.content).not.toContain('preview')
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TraceMap,
+  originalPositionFor,
+  type SourceMapInput,
+} from '@jridgewell/trace-mapping'
+import { transform } from '../../../src/frameworks/react/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const id = '/repo/src/components/Button.tsx'
+
+const source = `import { useState } from 'react'
+
+export function Button({ label }: { label: string }) {
+  const [count, setCount] = useState(0)
+  return <button onClick={() => setCount(count + 1)}>{label}</button>
+}
+`
+
+function run(code: string) {
+  const result = transform(code, id)
+  expect(result).toBeTypeOf('object')
+  return result as TransformOutput
+}
+
+/** Find the 1-based line / 0-based column of a snippet in generated code */
+function locate(code: string, snippet: string) {
+  const index = code.indexOf(snippet)
+  expect(index).toBeGreaterThan(-1)
+  const before = code.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1]!.length }
+}
+
+describe('react transform source maps', () => {
+  it('returns the wrapped code together with a source map', () => {
+    const { code, map } = run(source)
+
+    expect(code).toContain('withComponentHighlighter(')
+    const rawMap = map as { sources: string[]; sourcesContent: string[] }
+    expect(rawMap.sources).toEqual([id])
+    expect(rawMap.sourcesContent).toEqual([source])
+  })
+
+  it('maps component code back to its original position', () => {
+    const { code, map } = run(source)
+    const tracer = new TraceMap(map as SourceMapInput)
+
+    const position = originalPositionFor(
+      tracer,
+      locate(code, 'useState(0)'),
+    )
+    expect(position).toMatchObject({ source: id, line: 4, column: 28 })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { createComponent, createRoot, createSignal } from 'solid-js'
+import { withComponentHighlighter } from '../../../src/frameworks/solid/runtime-module'
+
+const meta = {
+  componentName: 'Card',
+  filePath: '/repo/src/components/Card.tsx',
+  relativeFilePath: 'src/components/Card.tsx',
+  sourceId: 'card-solid-source-id',
+  isDefaultExport: false,
+}
+
+describe('solid runtime', () => {
+  it('tracks prop changes without rendering JSX props again', () => {
+    let childRuns = 0
+    let iconRuns = 0
+    const Child = () => {
+      childRuns++
+      return document.createElement('span')
+    }
+    const Icon = () => {
+      iconRuns++
+      return document.createElement('i')
+    }
+    const Card = withComponentHighlighter((props) => {
+      const element = document.createElement('div')
+      element.append(props['icon'] as Node, props['children'] as Node)
+      return element
+    }, meta)
+
+    const updates: Array<{
+      props: Record<string, unknown>
+      serializedProps: Record<string, unknown>
+    }> = []
+    window.addEventListener('component-highlighter:update-props', (event) => {
+      updates.push((event as CustomEvent).detail)
+    })
+
+    const [title, setTitle] = createSignal('First')
+    const dispose = createRoot((dispose) => {
+      const render = createComponent(Card, {
+        get title() {
+          return title()
+        },
+        get icon() {
+          return createComponent(Icon, {})
+        },
+        // Never read by Card: the tracker renders it once itself
+        get badge() {
+          return createComponent(Icon, {})
+        },
+        get children() {
+          return createComponent(Child, {})
+        },
+      }) as () => Node
+      document.body.append(render())
+      return dispose
+    })
+
+    setTitle('Second')
+    setTitle('Third')
+
+    expect(childRuns).toBe(1)
+    expect(iconRuns).toBe(2)
+    expect(updates.map(({ props }) => props['title'])).toEqual([
+      'Second',
+      'Third',
+    ])
+    expect(updates.at(-1)!.serializedProps).toEqual({
+      title: 'Third',
+      icon: { __isJSX: true, source: '<i />', componentRefs: [] },
+      badge: { __isJSX: true, source: '<i />', componentRefs: [] },
+      children: { __isJSX: true, source: '<span />', componentRefs: [] },
+    })
+    dispose()
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { generateStory } from '../../../src/frameworks/solid/story-generator'
+
+const meta = {
+  componentName: 'Button',
+  filePath: '/repo/src/components/Button.tsx',
+  relativeFilePath: 'src/components/Button.tsx',
+  sourceId: 'button-solid-source-id',
+  isDefaultExport: false,
+}
+
+describe('solid story generation', () => {
+  it('generates a CSF story for storybook-solidjs-vite', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        label: 'Save',
+        onClick: { __isFunction: true, name: 'handleClick' },
+      },
+      storyName: 'Primary',
+    })
+
+    expect(story.filePath).toBe('/repo/src/components/Button.stories.tsx')
+    expect(story.content).toContain(
+      "import type { Meta, StoryObj } from 'storybook-solidjs-vite';",
+    )
+    expect(story.content).toContain("import { fn } from 'storybook/test';")
+    expect(story.content).toContain("import { Button } from './Button';")
+    expect(story.content).toContain('label: "Save"')
+    expect(story.content).toContain('onClick: fn()')
+  })
+
+  it('emits JSX props without a React import and imports referenced components', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        icon: {
+          __isJSX: true,
+          source: '<Icon name="save" onLoad={() => {}} />',
+          componentRefs: ['Icon'],
+        },
+      },
+      componentRegistry: new Map([
+        ['Button', '/repo/src/components/Button.tsx'],
+        ['Icon', '/repo/src/components/icons/Icon.tsx'],
+      ]),
+      storyName: 'WithIcon',
+    })
+
+    expect(story.content).not.toContain("from 'react'")
+    expect(story.content).toContain("import { Icon } from './icons/Icon';")
+    expect(story.content).toContain('icon: <Icon name="save" onLoad={fn()} />')
+  })
+  it('declares shared objects as fixtures before the story', () => {
+    const props = {
+      owner: {
+        __isShared: true,
+        id: 1,
+        name: 'owner',
+        value: { name: 'Ada' },
+      },
+      reviewer: { __isSharedRef: true, id: 1 },
+    }
+    const story = generateStory({ meta, props, storyName: 'Assigned' })
+
+    expect(story.content).toContain(
+      "import type { ComponentProps } from 'solid-js';",
+    )
+    expect(story.content).toContain(`type Story = StoryObj<typeof Button>;
+
+const owner = {
+  name: "Ada",
+} satisfies ComponentProps<typeof Button>['owner'];
+
+export const Assigned: Story = {
+  args: {
+    owner: owner,
+    reviewer: owner,
+  },
+};`)
+
+    const appended = generateStory({
+      meta,
+      props,
+      storyName: 'Reviewed',
+      existingContent: story.content,
+    })
+    expect(appended.content).toContain(`const owner2 = {
+  name: "Ada",
+} satisfies ComponentProps<typeof Button>['owner'];
+
+export const Reviewed: Story = {
+  args: {
+    owner: owner2,
+    reviewer: owner2,
+  },
+};`)
+  })
+
+  it('writes CSF Factories with preview.meta()', () => {
+    const story = generateStory({
+      meta,
+      props: { label: 'Save' },
+      storyName: 'Primary',
+      outputFormat: 'csf-factories',
+      previewFilePath: '/repo/.storybook/preview.tsx',
+    })
+
+    expect(story.content).toBe(`import preview from '../../.storybook/preview';
+import { Button } from './Button';
+
+const meta = preview.meta({
+  component: Button,
+});
+
+export const Primary = meta.story({
+  args: {
+    label: "Save",
+  },
+});
+`)
+  })
+})
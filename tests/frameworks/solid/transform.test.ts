@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TraceMap,
+  originalPositionFor,
+  type SourceMapInput,
+} from '@jridgewell/trace-mapping'
+import {
+  detectSolid,
+  transform,
+  VIRTUAL_MODULE_ID,
+} from '../../../src/frameworks/solid/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const id = '/repo/src/components/Button.tsx'
+
+function run(code: string) {
+  const result = transform(code, id)
+  expect(result).toBeTypeOf('object')
+  return (result as TransformOutput).code
+}
+
+function locate(code: string, snippet: string) {
+  const index = code.indexOf(snippet)
+  expect(index).toBeGreaterThan(-1)
+  const before = code.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1]!.length }
+}
+
+function metaFor(result: string, name: string) {
+  const match = result.match(
+    new RegExp(`(\\{"componentName":"${name}"[^}]*\\})\\)`),
+  )
+  expect(match).not.toBeNull()
+  return JSON.parse(match![1]!) as Record<string, unknown>
+}
+
+describe('solid transform', () => {
+  it('wraps exported arrow components and injects the runtime import', () => {
+    const result = run(`import type { JSX } from 'solid-js'
+
+export const Button = (props: { label: string }) => <button>{props.label}</button>
+`)
+
+    expect(result.startsWith(
+      `import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}';\n`,
+    )).toBe(true)
+    expect(result).toContain(
+      'export const Button = withComponentHighlighter((props: { label: string }) => <button>{props.label}</button>, {',
+    )
+    expect(metaFor(result, 'Button')).toMatchObject({
+      componentName: 'Button',
+      filePath: id,
+      isDefaultExport: false,
+    })
+  })
+
+  it('turns exported function declarations into wrapped constants', () => {
+    const result = run(`export function Card(props) {
+  return <div>{props.children}</div>
+}
+`)
+
+    expect(result).toContain('const Card = withComponentHighlighter(function Card(props) {')
+    expect(result).not.toContain('export function Card')
+    expect(result).toMatch(/\}\);\n$/)
+    expect(metaFor(result, 'Card')['isDefaultExport']).toBe(false)
+  })
+
+  it('wraps default exports in place', () => {
+    const named = run(`export default function Header() {
+  return <header />
+}
+`)
+    expect(named).toContain(
+      'export default withComponentHighlighter(function Header() {',
+    )
+    expect(metaFor(named, 'Header')['isDefaultExport']).toBe(true)
+
+    const anonymous = run(`export default () => <footer />\n`)
+    expect(anonymous).toContain(
+      'export default withComponentHighlighter(() => <footer />, {',
+    )
+    expect(metaFor(anonymous, 'DefaultExport')['isDefaultExport']).toBe(true)
+  })
+
+  it('wraps locals exported through export lists', () => {
+    const result = run(`const Badge = () => <span />
+function Avatar() {
+  return <img />
+}
+const Hidden = () => <i />
+
+export { Badge, Avatar as UserAvatar }
+`)
+
+    expect(result).toContain('const Badge = withComponentHighlighter(() => <span />, {')
+    expect(result).toContain('const Avatar = withComponentHighlighter(function Avatar() {')
+    expect(result).toContain('const Hidden = () => <i />')
+  })
+
+  it('wraps `export default Name` only when the declaration is not already wrapped', () => {
+    const wrappedAtExport = run(`const Tag = () => <em />
+export default Tag
+`)
+    expect(wrappedAtExport).toContain('const Tag = () => <em />')
+    expect(wrappedAtExport).toContain('export default withComponentHighlighter(Tag, {')
+
+    const alreadyWrapped = run(`export const Tag = () => <em />
+export default Tag
+`)
+    expect(alreadyWrapped).toContain('export default Tag\n')
+    expect(alreadyWrapped.match(/withComponentHighlighter\(/g)).toHaveLength(1)
+  })
+
+  it('maps component code back to its original position', () => {
+    const source = `import { createSignal } from 'solid-js'
+
+export function Counter() {
+  const [count, setCount] = createSignal(0)
+  return <button onClick={() => setCount(count() + 1)}>{count()}</button>
+}
+`
+    const { code, map } = transform(source, id) as TransformOutput
+    const tracer = new TraceMap(map as SourceMapInput)
+
+    expect(
+      originalPositionFor(tracer, locate(code, 'createSignal(0)')),
+    ).toMatchObject({ source: id, line: 4, column: 28 })
+    expect(originalPositionFor(tracer, locate(code, '<button'))).toMatchObject({
+      source: id,
+      line: 5,
+      column: 9,
+    })
+  })
+
+  it('skips lowercase exports and files without JSX', () => {
+    expect(
+      transform(`export const useCounter = () => <div />\n`, id),
+    ).toBeUndefined()
+    expect(
+      transform(`export const Value = () => 42\n`, '/repo/src/value.tsx'),
+    ).toBeUndefined()
+  })
+
+  it('detects Solid JSX files', () => {
+    expect(detectSolid(`import { createSignal } from 'solid-js'`, id)).toBe(true)
+    expect(detectSolid(`export const A = () => <div />`, id)).toBe(true)
+    expect(detectSolid(`import { createSignal } from 'solid-js'`, '/repo/a.ts')).toBe(false)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { generateStory } from '../../../src/frameworks/svelte/story-generator'
+
+const meta = {
+  componentName: 'Button',
+  filePath: '/repo/src/lib/Button.svelte',
+  relativeFilePath: 'src/lib/Button.svelte',
+  sourceId: 'button-svelte-source-id',
+  isDefaultExport: true,
+}
+
+describe('svelte story generation', () => {
+  it('generates a CSF story for @storybook/svelte-vite', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        label: 'Save',
+        size: 'md',
+        onclick: { __isFunction: true, name: 'handleClick' },
+      },
+      storyName: 'Primary',
+    })
+
+    expect(story.filePath).toBe('/repo/src/lib/Button.stories.ts')
+    expect(story.content).toContain(
+      "import type { Meta, StoryObj } from '@storybook/svelte-vite';",
+    )
+    expect(story.content).toContain("import { fn } from 'storybook/test';")
+    expect(story.content).toContain("import Button from './Button.svelte';")
+    expect(story.content).toContain('component: Button')
+    expect(story.content).toContain('label: "Save"')
+    expect(story.content).toContain('onclick: fn()')
+    expect(story.content).not.toContain('createRawSnippet')
+  })
+
+  it('renders captured snippets with createRawSnippet', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        children: { __isSvelteSnippet: true, source: 'Save <b>now</b>' },
+        icon: { __isSvelteSnippet: true, source: '<svg><path></path></svg>' },
+      },
+      storyName: 'WithSnippets',
+    })
+
+    expect(story.content).toContain("import { createRawSnippet } from 'svelte';")
+    expect(story.content).toContain(`    children: createRawSnippet(() => ({
+      render: () => "<span>Save <b>now</b></span>",
+    })),`)
+    expect(story.content).toContain(
+      'render: () => "<svg><path></path></svg>"',
+    )
+  })
+
+  it('appends a story and adds the createRawSnippet import', () => {
+    const existingContent = `import type { Meta, StoryObj } from '@storybook/svelte-vite';
+import Button from './Button.svelte';
+
+const meta: Meta<typeof Button> = {
+  component: Button,
+};
+
+export default meta;
+type Story = StoryObj<typeof Button>;
+
+export const Primary: Story = {
+  args: {
+    label: "Save",
+  },
+};
+`
+
+    const story = generateStory({
+      meta,
+      props: {
+        children: { __isSvelteSnippet: true, source: '<em>Go</em>' },
+      },
+      existingContent,
+      storyName: 'Primary',
+    })
+
+    expect(story.content).toContain('export const Primary: Story')
+    expect(story.content).toContain('export const Primary2: Story')
+    expect(story.content).toContain(
+      "import Button from './Button.svelte';\nimport { createRawSnippet } from 'svelte';",
+    )
+    expect(story.content.match(/import Button/g)).toHaveLength(1)
+  })
+})
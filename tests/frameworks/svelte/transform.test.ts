@@ -0,0 +1,219 @@
+import { compile } from 'svelte/compiler'
+import { describe, expect, it } from 'vitest'
+import {
+  TraceMap,
+  originalPositionFor,
+  type SourceMapInput,
+} from '@jridgewell/trace-mapping'
+import {
+  detectSvelte,
+  transform,
+  VIRTUAL_MODULE_ID,
+} from '../../../src/frameworks/svelte/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const id = '/repo/src/lib/Button.svelte'
+
+function transformAndCompile(
+  code: string,
+  context?: Parameters<typeof transform>[2],
+  runes?: boolean,
+) {
+  const output = transform(code, id, context)
+  expect(output).toBeTypeOf('object')
+  const { code: transformed } = output as TransformOutput
+  // Throws if the instrumented component is not valid Svelte
+  compile(transformed, {
+    filename: id,
+    generate: 'client',
+    dev: true,
+    ...(runes === undefined ? {} : { runes }),
+  })
+  return transformed
+}
+
+function locate(code: string, snippet: string) {
+  const index = code.indexOf(snippet)
+  expect(index).toBeGreaterThan(-1)
+  const before = code.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1]!.length }
+}
+
+/** A resolved Vite config with vite-plugin-svelte's resolved options */
+function withSvelteConfig(compilerOptions: { runes?: boolean }) {
+  return {
+    config: {
+      plugins: [
+        { name: 'vite-plugin-svelte', api: { options: { compilerOptions } } },
+      ],
+    },
+  } as unknown as Parameters<typeof transform>[2]
+}
+
+describe('svelte transform', () => {
+  it('tracks runes-mode props through an $effect', () => {
+    const output = transformAndCompile(`<script lang="ts">
+  let { label, size = 'md', 'aria-label': ariaLabel, ...rest }: Props = $props()
+</script>
+
+<button {...rest} aria-label={ariaLabel}>{label} {size}</button>
+`)
+
+    expect(output).toContain(
+      `import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'`,
+    )
+    expect(output).toContain('"componentName":"Button"')
+    expect(output).toContain(
+      '__componentHighlighter.update({ label, size, "aria-label": ariaLabel, ...rest })',
+    )
+    expect(output).toContain('$effect(() => {')
+    expect(output).toContain(
+      '<button data-component-highlighter-root="Button" use:__componentHighlighter.attach {...rest}',
+    )
+    expect(output).not.toContain('<span')
+  })
+
+  it('tracks legacy-mode props with a reactive statement', () => {
+    const output = transformAndCompile(`<script>
+  export let label = 'Click'
+</script>
+
+<button>{label}</button>
+`)
+
+    expect(output).toContain('$: __componentHighlighter.update({ ...$$props })')
+    expect(output).not.toContain('$effect')
+  })
+
+  it('follows the runes option of the resolved Svelte config', () => {
+    const markup = '<p>Hello</p>\n'
+
+    const runesOutput = transformAndCompile(
+      markup,
+      withSvelteConfig({ runes: true }),
+      true,
+    )
+    expect(runesOutput).toContain('$effect(() => {')
+    expect(runesOutput).not.toContain('$$props')
+
+    const optedOut = transformAndCompile(
+      `<svelte:options runes={false} />\n${markup}`,
+      withSvelteConfig({ runes: true }),
+    )
+    expect(optedOut).toContain('$: __componentHighlighter.update')
+  })
+
+  it('adds an instance script to markup-only components', () => {
+    const output = transformAndCompile('<p>Hello</p>\n')
+
+    expect(output.startsWith('<script>')).toBe(true)
+    expect(output).toContain(
+      '<p data-component-highlighter-root="Button" use:__componentHighlighter.attach>Hello</p>',
+    )
+  })
+
+  it('tracks root elements in blocks without adding elements around them', () => {
+    const output = transformAndCompile(`<script>
+  let { rows, expanded } = $props()
+</script>
+
+{#each rows as row (row.id)}
+  <tr><td>{row.name}</td></tr>
+{:else}
+  <tr><td>No rows</td></tr>
+{/each}
+{#if expanded}<tr class="details"></tr>{/if}
+`)
+
+    expect(output).not.toContain('<span')
+    expect(output.match(/use:__componentHighlighter\.attach/g)).toHaveLength(3)
+    expect(output).toContain(
+      '<tr data-component-highlighter-root="Button" use:__componentHighlighter.attach class="details">',
+    )
+  })
+
+  it('wraps markup whose root is not an element', () => {
+    const output = transformAndCompile(`<script>
+  import Card from './Card.svelte'
+</script>
+
+<Card />
+`)
+
+    expect(output).toContain(
+      '<span style="display: contents" data-component-highlighter="Button" use:__componentHighlighter.attach><Card /></span>',
+    )
+  })
+
+  it('keeps special elements and snippets outside the wrapper span', () => {
+    const output = transformAndCompile(`<script>
+  let { title } = $props()
+</script>
+
+Title: {title}
+<svelte:head><title>{title}</title></svelte:head>
+{#snippet row(item)}<li>{item}</li>{/snippet}
+<ul>{@render row(title)}</ul>
+<svelte:window on:resize={() => {}} />
+`)
+
+    const wrapperStart = output.indexOf('<span style="display: contents"')
+    expect(output.indexOf('<svelte:head>')).toBeLessThan(wrapperStart)
+    expect(output.indexOf('{#snippet row')).toBeLessThan(wrapperStart)
+    expect(output.indexOf('<svelte:window')).toBeGreaterThan(
+      output.indexOf('</span>', output.indexOf('</ul>')),
+    )
+  })
+
+  it('brackets children and snippets passed to child components', () => {
+    const output = transformAndCompile(`<script>
+  import Card from './Card.svelte'
+  let { title } = $props()
+</script>
+
+<Card>
+  Hello <b>{title}</b>
+  {#snippet header()}<h2>{title}</h2>{/snippet}
+</Card>
+`)
+
+    expect(output).toContain(
+      '<Card><template data-component-highlighter-snippet="children" data-component-highlighter-owner="Card"></template>\n  Hello <b>{title}</b><template data-component-highlighter-snippet-end="children" data-component-highlighter-owner="Card"></template>',
+    )
+    expect(output).toContain(
+      '{#snippet header()}<template data-component-highlighter-snippet="header" data-component-highlighter-owner="Card"></template><h2>{title}</h2><template data-component-highlighter-snippet-end="header" data-component-highlighter-owner="Card"></template>{/snippet}',
+    )
+  })
+
+  it('maps script and markup code back to the original component', () => {
+    const source = `<script>
+  let { label } = $props()
+</script>
+
+{#snippet icon()}<i></i>{/snippet}
+Label: <button>{label}</button>
+`
+    const { code, map } = transform(source, id) as TransformOutput
+    const tracer = new TraceMap(map as SourceMapInput)
+
+    expect(originalPositionFor(tracer, locate(code, '$props'))).toMatchObject({
+      source: id,
+      line: 2,
+      column: 18,
+    })
+    expect(originalPositionFor(tracer, locate(code, '<button>'))).toMatchObject(
+      { source: id, line: 6, column: 7 },
+    )
+    expect(
+      originalPositionFor(tracer, locate(code, '{#snippet icon')),
+    ).toMatchObject({ source: id, line: 5, column: 0 })
+  })
+
+  it('only handles Svelte source files', () => {
+    expect(detectSvelte('<p>Hi</p>', id)).toBe(true)
+    expect(detectSvelte('<p>Hi</p>', '/repo/src/Button.vue')).toBe(false)
+    expect(
+      detectSvelte("import 'svelte/internal/disclose-version';", id),
+    ).toBe(false)
+  })
+})
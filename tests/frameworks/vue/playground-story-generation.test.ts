@@ -65,3 +65,30 @@ export const Default: Story = {
     expect(story.content).toContain('export const Capturedfromruntime: Story')
   })
 })
+
+describe('vue CSF Factories output', () => {
+  it('writes preview.meta() and meta.story() with the preview import', () => {
+    const story = generateStory({
+      meta: {
+        componentName: 'TaskList',
+        filePath: '/repo/src/components/TaskList.vue',
+        relativeFilePath: 'src/components/TaskList.vue',
+        sourceId: 'tasklist-vue-source-id',
+        isDefaultExport: true,
+      },
+      props: { title: 'All Tasks' },
+      storyName: 'Captured',
+      outputFormat: 'csf-factories',
+      previewFilePath: '/repo/.storybook/preview.ts',
+    })
+
+    expect(story.content).toContain(
+      "import preview from '../../.storybook/preview';",
+    )
+    expect(story.content).not.toContain('@storybook/vue3-vite')
+    expect(story.content).toContain(
+      'const meta = preview.meta({\n  component: TaskList,\n});',
+    )
+    expect(story.content).toContain('export const Captured = meta.story({')
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TraceMap,
+  originalPositionFor,
+  type SourceMapInput,
+} from '@jridgewell/trace-mapping'
+import {
+  extractPropDefaults,
+  transform,
+  VIRTUAL_MODULE_ID,
+} from '../../../src/frameworks/vue/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const id = '/repo/src/components/Button.vue'
+
+function run(code: string) {
+  const result = transform(code, id)
+  expect(result).toBeTypeOf('object')
+  return result as TransformOutput
+}
+
+/** Find the 1-based line / 0-based column of a snippet in generated code */
+function locate(code: string, snippet: string) {
+  const index = code.indexOf(snippet)
+  expect(index).toBeGreaterThan(-1)
+  const before = code.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1]!.length }
+}
+
+describe('vue transform', () => {
+  it('injects the highlighter at the top of <script setup> and keeps other blocks', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps<{ label: string }>()
+</script>
+
+<template lang="html">
+  <button>{{ props.label }}</button>
+</template>
+
+<i18n>{ "en": { "save": "Save" } }</i18n>
+
+<style scoped>
+button { color: red; }
+</style>
+`
+    const { code } = run(source)
+
+    expect(code).toContain(
+      `<script setup lang="ts">\nimport { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'`,
+    )
+    expect(code).toContain('withComponentHighlighter(__componentMeta)')
+    expect(code).toContain('<template lang="html">')
+    expect(code).toContain('<i18n>{ "en": { "save": "Save" } }</i18n>')
+    expect(code.endsWith(source.slice(source.indexOf('\nconst props')))).toBe(
+      true,
+    )
+  })
+
+  it('adds a <script setup> block next to an Options API <script>', () => {
+    const source = `<script>
+export default { props: ['label'] }
+</script>
+
+<template><button>{{ label }}</button></template>
+`
+    const { code } = run(source)
+
+    expect(code.startsWith(source)).toBe(true)
+    expect(code).toContain(
+      `<script setup>\nimport { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}'`,
+    )
+  })
+
+  it('maps script and template code back to the original SFC', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps<{ label: string }>()
+</script>
+
+<template>
+  <button>{{ props.label }}</button>
+</template>
+`
+    const { code, map } = run(source)
+    const tracer = new TraceMap(map as SourceMapInput)
+
+    expect(
+      originalPositionFor(tracer, locate(code, 'defineProps')),
+    ).toMatchObject({ source: id, line: 2, column: 14 })
+    expect(
+      originalPositionFor(tracer, locate(code, '<button>')),
+    ).toMatchObject({ source: id, line: 6, column: 2 })
+  })
+
+  it('skips files without a script block', () => {
+    expect(transform('<template><div /></template>', id)).toBeUndefined()
+  })
+})
+
+describe('vue extractPropDefaults', () => {
+  const component = { componentName: 'Button', isDefaultExport: true }
+
+  it('reads withDefaults() and casts boolean props to false', () => {
+    const code = `<script setup lang="ts">
+interface Props {
+  size?: 'small' | 'large'
+  disabled?: boolean
+  tags?: string[]
+  label: string
+}
+withDefaults(defineProps<Props>(), {
+  size: 'small',
+  tags: () => ['new'],
+  label: computeLabel(),
+})
+</script>`
+
+    expect(extractPropDefaults(code, id, component)).toEqual({
+      size: 'small',
+      disabled: false,
+      tags: ['new'],
+    })
+  })
+
+  it('reads destructuring defaults and runtime declarations', () => {
+    const code = `<script setup>
+const { variant = 'primary' } = defineProps({
+  variant: String,
+  outlined: Boolean,
+  count: { type: Number, default: 1 },
+  loading: { type: [Boolean, String] },
+})
+</script>`
+
+    expect(extractPropDefaults(code, id, component)).toEqual({
+      variant: 'primary',
+      outlined: false,
+      count: 1,
+      loading: false,
+    })
+  })
+
+  it('reads the props option of Options API components', () => {
+    const code = `<script>
+import { defineComponent } from 'vue'
+export default defineComponent({
+  props: {
+    size: { type: String, default: 'medium' },
+    options: { type: Object, default: () => ({ dense: true }) },
+  },
+})
+</script>`
+
+    expect(extractPropDefaults(code, id, component)).toEqual({
+      size: 'medium',
+      options: { dense: true },
+    })
+  })
+})
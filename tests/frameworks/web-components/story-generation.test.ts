@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { generateStory } from '../../../src/frameworks/web-components/story-generator'
+
+const meta = {
+  componentName: 'DsButton',
+  filePath: '/repo/src/components/ds-button.ts',
+  relativeFilePath: 'src/components/ds-button.ts',
+  sourceId: 'ds-button-source-id',
+  isDefaultExport: false,
+  tagName: 'ds-button',
+}
+
+describe('web components story generation', () => {
+  it('generates an html render function with attribute and property bindings', () => {
+    const story = generateStory({
+      meta,
+      props: {
+        variant: 'primary',
+        disabled: false,
+        items: [1, 2],
+        'aria-label': 'Save file',
+        onPress: { __isFunction: true, name: 'handlePress' },
+        'slot:default': { __isWebComponentSlot: true, source: 'Save `now`' },
+        'slot:icon': {
+          __isWebComponentSlot: true,
+          source: '<svg slot="icon"></svg>',
+        },
+      },
+      storyName: 'Primary',
+    })
+
+    expect(story.filePath).toBe('/repo/src/components/ds-button.stories.ts')
+    expect(story.content).toContain(
+      "import type { Meta, StoryObj } from '@storybook/web-components-vite';",
+    )
+    expect(story.content).toContain("import { html } from 'lit';")
+    expect(story.content).toContain("import { fn } from 'storybook/test';")
+    expect(story.content).toContain("import './ds-button';")
+    expect(story.content).toContain("component: 'ds-button'")
+    expect(story.content).toContain(
+      'render: (args) => html`<ds-button variant=${args.variant} .disabled=${args.disabled} .items=${args.items} aria-label=${args["aria-label"]} .onPress=${args.onPress}>Save \\`now\\`<svg slot="icon"></svg></ds-button>`,',
+    )
+    expect(story.content).toContain('onPress: fn()')
+    expect(story.content).not.toContain('slot:')
+  })
+
+  it('appends a story and adds missing imports', () => {
+    const existingContent = `import type { Meta, StoryObj } from '@storybook/web-components-vite';
+import './ds-button';
+
+const meta: Meta = {
+  component: 'ds-button',
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Primary: Story = {};
+`
+
+    const story = generateStory({
+      meta,
+      props: { variant: 'primary' },
+      storyName: 'Primary',
+      existingContent,
+    })
+
+    expect(story.content).toContain(`import './ds-button';
+import { html } from 'lit';
+
+const meta`)
+    expect(story.content.match(/import '\.\/ds-button';/g)).toHaveLength(1)
+    expect(story.content).toContain('export const Primary2: Story = {')
+    expect(story.content).toContain(
+      'render: (args) => html`<ds-button variant=${args.variant}></ds-button>`,',
+    )
+  })
+
+  it('writes JavaScript stories with JSDoc types', () => {
+    const story = generateStory({
+      meta: { ...meta, filePath: '/repo/src/components/ds-button.js' },
+      props: { variant: 'primary' },
+      storyName: 'Primary',
+      language: 'js',
+    })
+
+    expect(story.filePath).toBe('/repo/src/components/ds-button.stories.js')
+    expect(story.content).not.toContain('import type')
+    expect(story.content).toContain(
+      "/** @type {import('@storybook/web-components-vite').Meta} */\nconst meta = {\n  component: 'ds-button',",
+    )
+    expect(story.content).toContain(
+      "/** @typedef {import('@storybook/web-components-vite').StoryObj} Story */",
+    )
+    expect(story.content).toContain(
+      '/** @type {Story} */\nexport const Primary = {',
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TraceMap,
+  originalPositionFor,
+  type SourceMapInput,
+} from '@jridgewell/trace-mapping'
+import {
+  detectWebComponents,
+  transform,
+  VIRTUAL_MODULE_ID,
+} from '../../../src/frameworks/web-components/transform'
+import type { TransformOutput } from '../../../src/frameworks/types'
+
+const id = '/repo/src/components/ds-button.ts'
+
+function run(code: string) {
+  const result = transform(code, id)
+  expect(result).toBeTypeOf('object')
+  return (result as TransformOutput).code
+}
+
+function locate(code: string, snippet: string) {
+  const index = code.indexOf(snippet)
+  expect(index).toBeGreaterThan(-1)
+  const before = code.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1]!.length }
+}
+
+function metaIn(result: string) {
+  const match = result.match(/(\{"componentName":[^}]*\})/)
+  expect(match).not.toBeNull()
+  return JSON.parse(match![1]!) as Record<string, unknown>
+}
+
+describe('web components transform', () => {
+  it('wraps the class passed to customElements.define', () => {
+    const result = run(`export class DsButton extends HTMLElement {}
+
+if (!customElements.get('ds-button')) {
+  customElements.define('ds-button', DsButton)
+}
+`)
+
+    expect(result.startsWith(
+      `import { withComponentHighlighter } from '${VIRTUAL_MODULE_ID}';\n`,
+    )).toBe(true)
+    expect(result).toContain(
+      "customElements.define('ds-button', withComponentHighlighter(DsButton, {",
+    )
+    expect(metaIn(result)).toMatchObject({
+      componentName: 'DsButton',
+      filePath: id,
+      tagName: 'ds-button',
+      isDefaultExport: false,
+    })
+  })
+
+  it('names anonymous classes after their tag', () => {
+    const result = run(
+      `window.customElements.define('ds-card', class extends HTMLElement {})\n`,
+    )
+
+    expect(result).toContain(
+      "window.customElements.define('ds-card', withComponentHighlighter(class extends HTMLElement {}, {",
+    )
+    expect(metaIn(result)['componentName']).toBe('DsCard')
+  })
+
+  it('adds a decorator that runs before @customElement', () => {
+    const result = run(`import { LitElement, html } from 'lit'
+import { customElement, property } from 'lit/decorators.js'
+
+@customElement('ds-badge')
+export default class DsBadge extends LitElement {
+  @property() label = ''
+  render() {
+    return html\`<span>\${this.label}</span>\`
+  }
+}
+`)
+
+    expect(result).toContain(
+      `import { trackCustomElement } from '${VIRTUAL_MODULE_ID}';`,
+    )
+    expect(result).toMatch(
+      /@customElement\('ds-badge'\) @trackCustomElement\(\{[^}]*\}\)\nexport default class DsBadge/,
+    )
+    expect(metaIn(result)).toMatchObject({
+      componentName: 'DsBadge',
+      tagName: 'ds-badge',
+      isDefaultExport: true,
+    })
+  })
+
+  it('maps element code back to its original position', () => {
+    const source = `export class DsButton extends HTMLElement {
+  connectedCallback() {
+    this.textContent = 'Click'
+  }
+}
+
+customElements.define('ds-button', DsButton)
+`
+    const { code, map } = transform(source, id) as TransformOutput
+    const tracer = new TraceMap(map as SourceMapInput)
+
+    expect(
+      originalPositionFor(tracer, locate(code, 'this.textContent')),
+    ).toMatchObject({ source: id, line: 3, column: 4 })
+    expect(
+      originalPositionFor(tracer, locate(code, "customElements.define('ds")),
+    ).toMatchObject({ source: id, line: 7, column: 0 })
+  })
+
+  it('leaves files without element definitions alone', () => {
+    expect(transform(`export const sum = (a: number, b: number) => a + b\n`, id))
+      .toBeUndefined()
+  })
+
+  it('detects files that register custom elements', () => {
+    expect(detectWebComponents(`customElements.define('x-a', A)`, id)).toBe(true)
+    expect(detectWebComponents(`@customElement('x-a') class A {}`, id)).toBe(true)
+    expect(detectWebComponents(`export const a = 1`, id)).toBe(false)
+    expect(
+      detectWebComponents(`customElements.define('x-a', A)`, '/repo/a.tsx'),
+    ).toBe(false)
+  })
+})
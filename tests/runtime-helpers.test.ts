@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import {
+  serializeGuardedValue,
+  serializePropValues,
+  serializeRichValue,
+} from '../src/runtime-helpers'
+
+const serialize = (value: unknown): unknown =>
+  serializeRichValue(value, serialize) ?? value
+
+/** A runtime `serializeValue` for plain data */
+const serializeData = (
+  value: unknown,
+  serializeNested: (value: unknown) => unknown,
+): unknown => {
+  if (Array.isArray(value)) return value.map(serializeNested)
+  if (typeof value === 'object' && value !== null) {
+    return (
+      serializeRichValue(value, serializeNested) ??
+      Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          serializeNested(item),
+        ]),
+      )
+    )
+  }
+  return value
+}
+
+describe('serializeRichValue', () => {
+  it('tags built-ins with a literal or constructor form', () => {
+    expect(serialize(new Date('2024-05-01T12:00:00.000Z'))).toEqual({
+      __isDate: true,
+      iso: '2024-05-01T12:00:00.000Z',
+    })
+    expect(serialize(new Date('nope'))).toEqual({ __isDate: true, iso: null })
+    expect(serialize(2n ** 64n)).toEqual({
+      __isBigInt: true,
+      value: '18446744073709551616',
+    })
+    expect(serialize(/a\/b/gi)).toEqual({
+      __isRegExp: true,
+      source: 'a\\/b',
+      flags: 'gi',
+    })
+    expect(serialize(new URL('https://example.com/a?b=1'))).toEqual({
+      __isURL: true,
+      href: 'https://example.com/a?b=1',
+    })
+    expect(serialize(new Uint8Array([1, 2]))).toEqual({
+      __isTypedArray: true,
+      type: 'Uint8Array',
+      values: [1, 2],
+    })
+    expect(serialize(new BigInt64Array([-1n]))).toEqual({
+      __isTypedArray: true,
+      type: 'BigInt64Array',
+      values: ['-1'],
+    })
+  })
+
+  it('serializes the contents of maps, sets and class instances', () => {
+    class Point {
+      constructor(
+        public x: number,
+        public at: Date,
+      ) {}
+    }
+
+    expect(
+      serialize(new Map<unknown, unknown>([['origin', new Set([1n])]])),
+    ).toEqual({
+      __isMap: true,
+      entries: [
+        [
+          'origin',
+          { __isSet: true, values: [{ __isBigInt: true, value: '1' }] },
+        ],
+      ],
+    })
+    expect(serialize(new Point(1, new Date(0)))).toEqual({
+      __isClassInstance: true,
+      className: 'Point',
+      properties: {
+        x: 1,
+        at: { __isDate: true, iso: '1970-01-01T00:00:00.000Z' },
+      },
+    })
+  })
+
+  it('tags symbols and other built-ins as unsupported', () => {
+    expect(serialize(Symbol('id'))).toEqual({
+      __isUnsupported: true,
+      type: 'symbol',
+    })
+    expect(serialize(Promise.resolve())).toEqual({
+      __isUnsupported: true,
+      type: 'Promise',
+    })
+  })
+
+  it('leaves primitives, arrays and plain objects to the runtime', () => {
+    for (const value of ['a', 1, null, undefined, [1], { a: 1 }]) {
+      expect(serializeRichValue(value, serialize)).toBeUndefined()
+    }
+  })
+})
+
+describe('serializePropValues', () => {
+  it('replaces references back to a containing object', () => {
+    const root: Record<string, unknown> = { name: 'root', children: [] }
+    ;(root['children'] as unknown[]).push({ name: 'leaf', parent: root })
+
+    expect(serializePropValues({ tree: root }, serializeData)).toEqual({
+      tree: {
+        name: 'root',
+        children: [{ name: 'leaf', parent: { __isCircular: true } }],
+      },
+    })
+  })
+
+  it('marks objects referenced more than once', () => {
+    const owner = { name: 'Ada' }
+    const tags = new Set(['a'])
+
+    expect(
+      serializePropValues(
+        { task: { owner, tags }, assignees: [owner], labels: tags },
+        serializeData,
+      ),
+    ).toEqual({
+      task: {
+        owner: {
+          __isShared: true,
+          id: 1,
+          name: 'owner',
+          value: { name: 'Ada' },
+        },
+        tags: {
+          __isShared: true,
+          id: 2,
+          name: 'tags',
+          value: { __isSet: true, values: ['a'] },
+        },
+      },
+      assignees: [{ __isSharedRef: true, id: 1 }],
+      labels: { __isSharedRef: true, id: 2 },
+    })
+  })
+
+  it('cuts off values past the depth and size limits', () => {
+    let deep: Record<string, unknown> = { leaf: true }
+    for (let i = 0; i < 30; i++) deep = { child: deep }
+    let node = serializePropValues({ deep }, serializeData)['deep']
+    let depth = 0
+    while ((node as { child?: unknown }).child) {
+      node = (node as { child: unknown }).child
+      depth++
+    }
+    expect(node).toEqual({ __isTruncated: true, reason: 'depth' })
+    expect(depth).toBe(20)
+
+    const items = serializePropValues(
+      { items: Array.from({ length: 20_000 }, (_, i) => i) },
+      serializeData,
+    )['items'] as unknown[]
+    expect(items[9_998]).toBe(9_998)
+    expect(items[9_999]).toEqual({ __isTruncated: true, reason: 'size' })
+  })
+})
+
+describe('serializeGuardedValue', () => {
+  it('repeats shared objects inline', () => {
+    const point = { x: 1 }
+    expect(serializeGuardedValue([point, point], serializeData)).toEqual([
+      { x: 1 },
+      { x: 1 },
+    ])
+  })
+})
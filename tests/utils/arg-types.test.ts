@@ -0,0 +1,260 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { extractJsxComponentArgTypes } from '../../src/utils/arg-types'
+import { extractArgTypes as extractVueArgTypes } from '../../src/frameworks/vue/transform'
+import { formatArgTypes } from '../../src/utils/story-generator'
+
+describe('extractJsxComponentArgTypes', () => {
+  it('reads controls, options and JSDoc descriptions from an interface', () => {
+    const code = `
+import type { MouseEventHandler, ReactNode } from 'react'
+
+type Size = 'small' | 'medium' | 'large'
+
+interface BaseProps {
+  /** Extra class names */
+  className?: string
+}
+
+export interface ButtonProps extends BaseProps {
+  /**
+   * How large the button is
+   * @default 'medium'
+   */
+  size?: Size
+  /** Disables the button */
+  disabled?: boolean
+  count: number
+  tone?: 1 | 2 | 3
+  items?: string[]
+  onClick?: (event: MouseEvent) => void
+  onHover?: MouseEventHandler<HTMLButtonElement>
+  children?: ReactNode
+}
+
+export function Button({ size = 'medium', ...props }: ButtonProps) {
+  return <button {...props} />
+}
+`
+    expect(
+      extractJsxComponentArgTypes(code, '/src/Button.tsx', {
+        componentName: 'Button',
+        isDefaultExport: false,
+      }),
+    ).toEqual([
+      { name: 'className', control: 'text', description: 'Extra class names' },
+      {
+        name: 'size',
+        control: 'select',
+        options: ['small', 'medium', 'large'],
+        description: 'How large the button is',
+      },
+      {
+        name: 'disabled',
+        control: 'boolean',
+        description: 'Disables the button',
+      },
+      { name: 'count', control: 'number' },
+      { name: 'tone', control: 'select', options: [1, 2, 3] },
+      { name: 'items', control: 'object' },
+      { name: 'onClick', control: 'action' },
+      { name: 'onHover', control: 'action' },
+    ])
+  })
+
+  it('finds the props of FC, memo and forwardRef components', () => {
+    const code = `
+import { forwardRef, memo, type FC } from 'react'
+
+type Props = { variant: 'solid' | 'ghost' } & { label?: string }
+
+export const Badge: FC<Props> = (props) => <span />
+export const Chip = memo(function Chip(props: { selected: boolean }) {
+  return <span />
+})
+const Input = forwardRef<HTMLInputElement, { value?: string }>((props, ref) => (
+  <input ref={ref} />
+))
+export default Input
+`
+    const read = (componentName: string, isDefaultExport = false) =>
+      extractJsxComponentArgTypes(code, '/src/parts.tsx', {
+        componentName,
+        isDefaultExport,
+      }).map(({ name, control }) => `${name}:${control}`)
+
+    expect(read('Badge')).toEqual(['variant:select', 'label:text'])
+    expect(read('Chip')).toEqual(['selected:boolean'])
+    expect(read('Input', true)).toEqual(['value:text'])
+  })
+
+  describe('imported types', () => {
+    let tmpDir: string
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arg-types-'))
+      fs.mkdirSync(path.join(tmpDir, 'types'))
+      fs.writeFileSync(
+        path.join(tmpDir, 'types', 'index.ts'),
+        `export * from './button'\nexport type { Tone as ButtonTone } from './tone'\n`,
+      )
+      fs.writeFileSync(
+        path.join(tmpDir, 'types', 'tone.ts'),
+        `export type Tone = 'neutral' | 'danger'\n`,
+      )
+      fs.writeFileSync(
+        path.join(tmpDir, 'types', 'button.ts'),
+        `import type { Tone } from './tone'
+
+export type Size = 'small' | 'large'
+
+export interface ButtonProps {
+  /** How large the button is */
+  size?: Size
+  tone?: Tone
+  onPress?: () => void
+}
+`,
+      )
+      fs.writeFileSync(
+        path.join(tmpDir, 'Button.tsx'),
+        `import type { ButtonProps } from './types'
+
+export function Button(props: ButtonProps) {
+  return <button />
+}
+`,
+      )
+    })
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+      vi.restoreAllMocks()
+    })
+
+    const read = (code: string, fileName: string, componentName: string) =>
+      extractJsxComponentArgTypes(code, path.join(tmpDir, fileName), {
+        componentName,
+        isDefaultExport: false,
+      }).map(({ name, control, options }) =>
+        options
+          ? `${name}:${control}:${options.join('|')}`
+          : `${name}:${control}`,
+      )
+
+    it('follows props types imported by relative path', () => {
+      const code = fs.readFileSync(path.join(tmpDir, 'Button.tsx'), 'utf-8')
+
+      expect(read(code, 'Button.tsx', 'Button')).toEqual([
+        'size:select:small|large',
+        'tone:select:neutral|danger',
+        'onPress:action',
+      ])
+    })
+
+    it('follows ComponentProps<typeof Component> and re-exported types', () => {
+      const code = `import type { ComponentProps } from 'react'
+import { Button } from './Button'
+import type { ButtonTone } from './types'
+
+type IconButtonProps = ComponentProps<typeof Button> & { accent: ButtonTone }
+
+export const IconButton = (props: IconButtonProps) => <Button {...props} />
+`
+
+      expect(read(code, 'IconButton.tsx', 'IconButton')).toEqual([
+        'size:select:small|large',
+        'tone:select:neutral|danger',
+        'onPress:action',
+        'accent:select:neutral|danger',
+      ])
+    })
+
+    it('warns once when an import it cannot follow leaves no arg types', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const code = `import type { CardProps } from '@/types'
+export const Card = (props: CardProps) => <div />`
+
+      expect(read(code, 'Card.tsx', 'Card')).toEqual([])
+      expect(read(code, 'Card.tsx', 'Card')).toEqual([])
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn.mock.calls[0]![0]).toContain("CardProps ('@/types')")
+    })
+  })
+})
+
+describe('Vue extractArgTypes', () => {
+  it('reads the defineProps type argument through withDefaults', () => {
+    const code = `<script setup lang="ts">
+interface Props {
+  /** Visual style */
+  variant?: 'primary' | 'secondary'
+  label: string
+  onClose?: () => void
+}
+
+const props = withDefaults(defineProps<Props>(), { variant: 'primary' })
+</script>
+
+<template><button>{{ label }}</button></template>
+`
+    expect(
+      extractVueArgTypes(code, '/src/MyButton.vue', {
+        componentName: 'MyButton',
+        isDefaultExport: true,
+      }),
+    ).toEqual([
+      {
+        name: 'variant',
+        control: 'select',
+        options: ['primary', 'secondary'],
+        description: 'Visual style',
+      },
+      { name: 'label', control: 'text' },
+      { name: 'onClose', control: 'action' },
+    ])
+  })
+
+  it('returns nothing for Options API components', () => {
+    expect(
+      extractVueArgTypes(
+        `<script>export default { props: { label: String } }</script>`,
+        '/src/Legacy.vue',
+        { componentName: 'Legacy', isDefaultExport: true },
+      ),
+    ).toEqual([])
+  })
+})
+
+describe('formatArgTypes', () => {
+  it('formats controls and wires callbacks to actions', () => {
+    expect(
+      formatArgTypes([
+        {
+          name: 'size',
+          control: 'select',
+          options: ['small', 'large'],
+          description: 'Button size',
+        },
+        { name: 'onClick', control: 'action' },
+        { name: 'aria-label', control: 'text' },
+      ]),
+    ).toBe(`
+  argTypes: {
+    size: {
+      control: "select",
+      options: ["small", "large"],
+      description: "Button size",
+    },
+    onClick: {
+      action: "onClick",
+    },
+    "aria-label": {
+      control: "text",
+    },
+  },`)
+    expect(formatArgTypes([])).toBe('')
+  })
+})
@@ -0,0 +1,102 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createFilter } from 'vite'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { FrameworkConfig } from '../../src/frameworks'
+import { reactFramework } from '../../src/frameworks/react'
+import { vueFramework } from '../../src/frameworks/vue'
+import { scanComponentInventory } from '../../src/utils/component-inventory'
+import { createStoryIndex } from '../../src/utils/story-index'
+
+const frameworks: FrameworkConfig[] = [reactFramework, vueFramework]
+
+describe('scanComponentInventory', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'component-inventory-'))
+    fs.mkdirSync(path.join(tmpDir, 'src'))
+    fs.mkdirSync(path.join(tmpDir, 'node_modules', 'lib'), { recursive: true })
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Card.tsx'),
+      [
+        'export function Card() { return <div /> }',
+        'export const CardHeader = () => <header />',
+        'export const formatTitle = (title: string) => title.trim()',
+      ].join('\n'),
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Modal.vue'),
+      '<script setup lang="ts">\ndefineProps<{ open: boolean }>()\n</script>\n<template><div /></template>\n',
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'node_modules', 'lib', 'Hidden.tsx'),
+      'export const Hidden = () => <div />',
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Broken.tsx'),
+      'export const Broken = () => <div',
+    )
+    fs.mkdirSync(path.join(tmpDir, '.storybook'))
+    fs.writeFileSync(
+      path.join(tmpDir, '.storybook', 'main.ts'),
+      "export default { stories: ['../src/**/*.stories.ts'] }",
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Card.stories.ts'),
+      "import { Card } from './Card'\nexport default { component: Card }\nexport const Basic = {}\n",
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('lists every instrumentable component with its story status', async () => {
+    const storyIndex = createStoryIndex({ root: tmpDir })
+    const inventory = await scanComponentInventory({
+      root: tmpDir,
+      filter: createFilter(['**/*.tsx', '**/*.vue'], ['**/node_modules/**'], {
+        resolve: tmpDir,
+      }),
+      resolveFramework: (code, id) =>
+        frameworks.find((framework) => framework.detect(code, id)),
+      findStories: (componentPath, exportName) =>
+        storyIndex.findStories(componentPath, exportName),
+    })
+
+    expect(
+      inventory.map(({ componentName, relativeFilePath, hasStory, stories }) => ({
+        componentName,
+        relativeFilePath,
+        hasStory,
+        stories,
+      })),
+    ).toEqual([
+      {
+        componentName: 'Card',
+        relativeFilePath: path.join('src', 'Card.tsx'),
+        hasStory: true,
+        stories: ['Basic'],
+      },
+      {
+        componentName: 'CardHeader',
+        relativeFilePath: path.join('src', 'Card.tsx'),
+        hasStory: false,
+        stories: [],
+      },
+      {
+        componentName: 'Modal',
+        relativeFilePath: path.join('src', 'Modal.vue'),
+        hasStory: false,
+        stories: [],
+      },
+    ])
+    expect(inventory.map((entry) => entry.framework)).toEqual([
+      'react',
+      'react',
+      'vue',
+    ])
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { ComponentInventoryEntry } from '../../src/utils/component-inventory'
+import {
+  createCoverageReport,
+  formatCoverageReport,
+  meetsCoverage,
+} from '../../src/utils/coverage-report'
+
+function entry(
+  relativeFilePath: string,
+  componentName: string,
+  hasStory: boolean,
+): ComponentInventoryEntry {
+  return {
+    componentName,
+    filePath: `/repo/${relativeFilePath}`,
+    relativeFilePath,
+    isDefaultExport: false,
+    framework: 'react',
+    hasStory,
+    storyPath: hasStory
+      ? `/repo/${relativeFilePath.replace('.tsx', '.stories.tsx')}`
+      : null,
+    stories: hasStory ? ['Primary'] : [],
+  }
+}
+
+const report = createCoverageReport(
+  [
+    entry('src/ui/Card.tsx', 'Card', true),
+    entry('src/ui/Card.tsx', 'CardHeader', false),
+    entry('src/App.tsx', 'App', false),
+  ],
+  '/repo',
+)
+
+describe('createCoverageReport', () => {
+  it('summarizes coverage and groups missing components by directory', () => {
+    expect(report.total).toBe(3)
+    expect(report.withStories).toBe(1)
+    expect(report.coverage).toBe(33.3)
+    expect(Object.keys(report.missing)).toEqual(['src', 'src/ui'])
+    expect(report.missing['src/ui']).toEqual([
+      {
+        componentName: 'CardHeader',
+        filePath: 'src/ui/Card.tsx',
+        isDefaultExport: false,
+        hasStory: false,
+        storyPath: null,
+      },
+    ])
+  })
+
+  it('counts an empty project as fully covered', () => {
+    expect(createCoverageReport([], '/repo').coverage).toBe(100)
+  })
+})
+
+describe('meetsCoverage', () => {
+  it('compares the exact ratio rather than the rounded percentage', () => {
+    const almostCovered = createCoverageReport(
+      Array.from({ length: 2000 }, (_, index) =>
+        entry(`src/C${index}.tsx`, `C${index}`, index > 0),
+      ),
+      '/repo',
+    )
+
+    expect(almostCovered.coverage).toBe(100)
+    expect(meetsCoverage(almostCovered, 100)).toBe(false)
+    expect(meetsCoverage(almostCovered, 99.95)).toBe(true)
+    expect(meetsCoverage(report, 33.3)).toBe(true)
+  })
+})
+
+describe('formatCoverageReport', () => {
+  it('renders Markdown tables per directory', () => {
+    const markdown = formatCoverageReport(report, 'markdown')
+    expect(markdown).toContain(
+      '**33.3%** of components have stories (1 of 3).',
+    )
+    expect(markdown).toContain('### src/ui (1/2 with stories)')
+    expect(markdown).toContain('| CardHeader | src/ui/Card.tsx |')
+  })
+
+  it('renders a JUnit suite per directory with a failure per missing story', () => {
+    const junit = formatCoverageReport(report, 'junit')
+    expect(junit).toContain(
+      '<testsuites name="Storybook coverage" tests="3" failures="2">',
+    )
+    expect(junit).toContain(
+      '<testcase classname="src/ui" name="Card (src/ui/Card.tsx)" />',
+    )
+    expect(junit).toContain(
+      '<failure message="CardHeader has no stories" />',
+    )
+  })
+
+  it('renders JSON with the components without stories', () => {
+    expect(JSON.parse(formatCoverageReport(report, 'json'))).toEqual({
+      total: 3,
+      withStories: 1,
+      coverage: 33.3,
+      missing: report.missing,
+    })
+  })
+})
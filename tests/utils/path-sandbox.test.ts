@@ -0,0 +1,67 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPathSandbox } from '../../src/utils/path-sandbox'
+
+describe('createPathSandbox', () => {
+  let tmpDir: string
+  let root: string
+  let outside: string
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'path-sandbox-')),
+    )
+    root = path.join(tmpDir, 'app')
+    outside = path.join(tmpDir, 'outside')
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true })
+    fs.mkdirSync(outside)
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('accepts existing and not-yet-created paths inside the root', () => {
+    const sandbox = createPathSandbox([root])
+
+    expect(sandbox.resolve(path.join(root, 'src'))).toBe(path.join(root, 'src'))
+    expect(
+      sandbox.resolve(path.join(root, 'src', 'stories', 'Button.stories.tsx')),
+    ).toBe(path.join(root, 'src', 'stories', 'Button.stories.tsx'))
+  })
+
+  it('rejects traversal, relative paths and sibling directories', () => {
+    const sandbox = createPathSandbox([root])
+
+    expect(sandbox.resolve(path.join(root, '..', 'outside', 'x.ts'))).toBeNull()
+    expect(sandbox.resolve(`${root}-evil/Button.tsx`)).toBeNull()
+    expect(sandbox.resolve('src/Button.tsx')).toBeNull()
+    expect(sandbox.resolve(path.join(root, 'src', 'a\0.ts'))).toBeNull()
+  })
+
+  it('rejects symlinks that escape the root', () => {
+    fs.symlinkSync(outside, path.join(root, 'src', 'linked'))
+    fs.symlinkSync(
+      path.join(outside, 'missing.ts'),
+      path.join(root, 'src', 'dangling.stories.ts'),
+    )
+    const sandbox = createPathSandbox([root])
+
+    expect(
+      sandbox.resolve(path.join(root, 'src', 'linked', 'Button.stories.ts')),
+    ).toBeNull()
+    expect(
+      sandbox.resolve(path.join(root, 'src', 'dangling.stories.ts')),
+    ).toBeNull()
+  })
+
+  it('accepts paths inside an allowed directory', () => {
+    const sandbox = createPathSandbox([root, outside])
+
+    expect(sandbox.resolve(path.join(outside, 'Button.tsx'))).toBe(
+      path.join(outside, 'Button.tsx'),
+    )
+  })
+})
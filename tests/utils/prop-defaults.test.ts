@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  extractJsxComponentPropDefaults,
+  omitDefaultProps,
+} from '../../src/utils/prop-defaults'
+
+describe('extractJsxComponentPropDefaults', () => {
+  const read = (code: string, componentName: string, isDefaultExport = false) =>
+    extractJsxComponentPropDefaults(code, '/src/Button.tsx', {
+      componentName,
+      isDefaultExport,
+    })
+
+  it('reads destructuring defaults, skipping values that are not static', () => {
+    expect(
+      read(
+        `export function Button({
+  size = 'medium',
+  disabled = false,
+  offset = -1,
+  items = [],
+  style = { color: 'red' },
+  id = crypto.randomUUID(),
+  label,
+}: ButtonProps) {
+  return <button />
+}`,
+        'Button',
+      ),
+    ).toEqual({
+      size: 'medium',
+      disabled: false,
+      offset: -1,
+      items: [],
+      style: { color: 'red' },
+    })
+  })
+
+  it('reads defaultProps of wrapped and class components', () => {
+    const code = `
+import { memo, Component } from 'react'
+
+const Badge = memo(({ tone = 'info' }) => <span />)
+Badge.defaultProps = { pill: true }
+export default Badge
+
+export class Card extends Component {
+  static defaultProps = { elevated: false }
+  render() {
+    return <div />
+  }
+}
+`
+    expect(read(code, 'Badge', true)).toEqual({ pill: true, tone: 'info' })
+    expect(read(code, 'Card')).toEqual({ elevated: false })
+  })
+
+  it("reads Solid's mergeProps() defaults", () => {
+    expect(
+      read(
+        `export const Counter = (props) => {
+  const merged = mergeProps({ step: 1, label: 'Count' }, props)
+  return <button>{merged.label}</button>
+}`,
+        'Counter',
+      ),
+    ).toEqual({ step: 1, label: 'Count' })
+  })
+})
+
+describe('omitDefaultProps', () => {
+  it('drops props equal to their default and undefined props', () => {
+    expect(
+      omitDefaultProps(
+        {
+          size: 'medium',
+          disabled: false,
+          items: ['a'],
+          style: { color: 'red' },
+          label: 'Save',
+          icon: undefined,
+          onClick: { __isFunction: true },
+        },
+        {
+          size: 'medium',
+          disabled: true,
+          items: ['a'],
+          style: { color: 'red' },
+        },
+      ),
+    ).toEqual({
+      disabled: false,
+      label: 'Save',
+      onClick: { __isFunction: true },
+    })
+  })
+})
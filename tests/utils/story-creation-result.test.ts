@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  StoryCreationError,
+  findUnsupportedProp,
+  toStoryCreationFailure,
+} from '../../src/utils/story-creation-result'
+
+function errnoError(code: string, syscall: string) {
+  return Object.assign(new Error(`${code}: ${syscall} failed`), {
+    code,
+    syscall,
+  })
+}
+
+describe('toStoryCreationFailure', () => {
+  it('keeps the code and suggestion of a StoryCreationError', () => {
+    const failure = toStoryCreationFailure(
+      new StoryCreationError('missing-props', 'No props', 'Reload'),
+    )
+    expect(failure).toEqual({
+      ok: false,
+      code: 'missing-props',
+      message: 'No props',
+      suggestion: 'Reload',
+    })
+  })
+
+  it('classifies permission errors from the file system', () => {
+    const failure = toStoryCreationFailure(
+      errnoError('EACCES', 'open'),
+      '/repo/src/Button.stories.tsx',
+    )
+    expect(failure).toMatchObject({
+      code: 'write-permission-denied',
+      message:
+        'Permission denied writing /repo/src/Button.stories.tsx (EACCES)',
+      filePath: '/repo/src/Button.stories.tsx',
+    })
+  })
+
+  it('classifies other file system errors as write failures', () => {
+    expect(toStoryCreationFailure(errnoError('ENOSPC', 'write')).code).toBe(
+      'write-failed',
+    )
+  })
+
+  it('treats anything else as a generator error', () => {
+    expect(toStoryCreationFailure(new TypeError('boom'))).toMatchObject({
+      code: 'generator-error',
+      message: 'Story generation failed: boom',
+    })
+  })
+})
+
+describe('findUnsupportedProp', () => {
+  it('accepts primitives, plain objects, arrays and serialized markers', () => {
+    expect(
+      findUnsupportedProp({
+        label: 'Save',
+        count: 2,
+        items: [{ id: 1 }, null],
+        onClick: { __isFunction: true, name: 'onClick' },
+        icon: { __isJSX: true, source: '<Icon />', componentRefs: ['Icon'] },
+      }),
+    ).toBeNull()
+  })
+
+  it('reports the path and type of the first unsupported value', () => {
+    expect(
+      findUnsupportedProp({ filters: [{ since: new Date(0) }] }),
+    ).toEqual({ path: 'filters[0].since', type: 'Date' })
+    expect(findUnsupportedProp({ id: 10n })).toEqual({
+      path: 'id',
+      type: 'bigint',
+    })
+  })
+
+  it('walks tagged built-ins and reports values tagged as unsupported', () => {
+    expect(
+      findUnsupportedProp({
+        since: { __isDate: true, iso: '2024-01-01T00:00:00.000Z' },
+        lookup: {
+          __isMap: true,
+          entries: [['a', { __isUnsupported: true, type: 'Promise' }]],
+        },
+      }),
+    ).toEqual({ path: 'lookup.entries[0][1]', type: 'Promise' })
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addStoryFileImports,
+  appendStoryToFile,
+  toStoryFileImport,
+} from '../../src/utils/story-file-editor'
+import { formatStoryExport } from '../../src/utils/story-generator'
+
+const createStory = (storyName: string) =>
+  `\nexport const ${storyName}: Story = {};\n`
+
+describe('appendStoryToFile', () => {
+  it('merges into multi-line imports and keeps comments and formatting', () => {
+    const existingContent = `// Button stories
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import {
+  expect, // assertions
+  userEvent,
+} from 'storybook/test';
+import { Button } from './Button';
+
+const meta = {
+  component: Button,
+} satisfies Meta<typeof Button>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** The default look */
+export const Primary: Story = {};
+`
+
+    const { content, storyName } = appendStoryToFile({
+      existingContent,
+      storyName: 'Primary',
+      imports: [
+        { source: 'storybook/test', names: ['fn', 'expect'] },
+        toStoryFileImport({ name: '{ Button }', path: './Button' }),
+        toStoryFileImport({ name: '{ Icon }', path: './Icon' }),
+      ],
+      createStory,
+    })
+
+    expect(storyName).toBe('Primary2')
+    expect(content).toBe(`// Button stories
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import {
+  expect, // assertions
+  userEvent, fn,
+} from 'storybook/test';
+import { Button } from './Button';
+import { Icon } from './Icon';
+
+const meta = {
+  component: Button,
+} satisfies Meta<typeof Button>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** The default look */
+export const Primary: Story = {};
+
+export const Primary2: Story = {};
+`)
+  })
+
+  it('checks imported bindings rather than substrings', () => {
+    const { content } = appendStoryToFile({
+      existingContent: [
+        "import type { Meta } from '@storybook/react-vite'",
+        "import { within } from 'storybook/test'",
+        "import Button from './Button'",
+        'const fnLabel = "fn"',
+        'export default { component: Button } as Meta',
+      ].join('\n'),
+      storyName: 'Secondary',
+      imports: [
+        { source: 'storybook/test', names: ['fn'] },
+        { source: './Button', defaultName: 'Button' },
+      ],
+      createStory,
+    })
+
+    expect(content).toContain("import { within, fn } from 'storybook/test'\n")
+    expect(content.match(/from '\.\/Button'/g)).toHaveLength(1)
+  })
+
+  it('adds value imports next to type-only ones, in the file style', () => {
+    const { content } = appendStoryToFile({
+      existingContent: [
+        'import type { Meta } from "@storybook/web-components-vite"',
+        'import type { Tag } from "./my-tag"',
+        'export default { component: "my-tag" } satisfies Meta',
+      ].join('\n'),
+      storyName: 'Plain',
+      imports: [{ source: 'lit', names: ['html'] }, { source: './my-tag' }],
+      createStory,
+    })
+
+    expect(content).toContain(
+      [
+        'import type { Tag } from "./my-tag"',
+        'import { html } from "lit"',
+        'import "./my-tag"',
+      ].join('\n'),
+    )
+  })
+
+  it('does not redeclare names the file already binds', () => {
+    const { content, storyName } = appendStoryToFile({
+      existingContent: [
+        "import * as React from 'react'",
+        "import { Card } from './Card'",
+        'const Featured = {}',
+        'export default { component: Card }',
+      ].join('\n'),
+      storyName: 'Featured',
+      imports: [{ source: 'react', defaultName: 'React' }],
+      createStory,
+    })
+
+    expect(storyName).toBe('Featured2')
+    expect(content.match(/from 'react'/g)).toHaveLength(1)
+  })
+
+  it('types appended stories the way the file declares its Story type', () => {
+    const append = (existingContent: string, language: 'ts' | 'js') =>
+      appendStoryToFile({
+        existingContent,
+        storyName: 'Large',
+        imports: [],
+        language,
+        createStory: (storyName, style) =>
+          formatStoryExport(storyName, "\n  args: { size: 'large' },", style),
+      }).content
+
+    expect(
+      append(
+        [
+          "import { Button } from './Button'",
+          "/** @type {import('@storybook/react-vite').Meta<typeof Button>} */",
+          'export default { component: Button }',
+          "/** @typedef {import('@storybook/react-vite').StoryObj<typeof Button>} Story */",
+        ].join('\n'),
+        'js',
+      ),
+    ).toContain('/** @type {Story} */\nexport const Large = {')
+    expect(
+      append(
+        "import { Button } from './Button'\nexport default { component: Button }",
+        'ts',
+      ),
+    ).toContain('\nexport const Large = {')
+  })
+})
+
+describe('addStoryFileImports', () => {
+  it('extends imports of the same module and skips bound names', () => {
+    expect(
+      addStoryFileImports(
+        [
+          "import { Tasks } from './Tasks'",
+          "import { tasks } from './Tasks.fixtures'",
+          'export default { component: Tasks }',
+        ].join('\n'),
+        [{ source: './Tasks.fixtures', names: ['tasks', 'tasks2'] }],
+      ),
+    ).toBe(
+      [
+        "import { Tasks } from './Tasks'",
+        "import { tasks, tasks2 } from './Tasks.fixtures'",
+        'export default { component: Tasks }',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import {
+  normalizeStoryFilePattern,
+  resolveStoryFilePath,
+} from '../../src/utils/story-file-pattern'
+
+const context = {
+  componentPath: '/repo/src/components/Button.tsx',
+  root: '/repo',
+  extension: 'tsx',
+}
+
+describe('normalizeStoryFilePattern', () => {
+  it('keeps stories next to the component by default', () => {
+    const pattern = normalizeStoryFilePattern({})
+    expect(resolveStoryFilePath(pattern, context)).toBe(
+      '/repo/src/components/Button.stories.tsx',
+    )
+  })
+
+  it('maps storiesDir to a folder under the component directory', () => {
+    const pattern = normalizeStoryFilePattern({ storiesDir: '__stories__' })
+    expect(resolveStoryFilePath(pattern, context)).toBe(
+      '/repo/src/components/__stories__/Button.stories.tsx',
+    )
+  })
+
+  it('prefers storyFilePattern and appends the story extension when missing', () => {
+    const pattern = normalizeStoryFilePattern({
+      storyFilePattern: 'stories/{relativeDir}/{name}',
+      storiesDir: '__stories__',
+    })
+    expect(pattern).toBe('stories/{relativeDir}/{name}.stories.{ext}')
+    expect(resolveStoryFilePath(pattern, context)).toBe(
+      '/repo/stories/src/components/Button.stories.tsx',
+    )
+  })
+
+  it('rejects unknown tokens and patterns without {name}', () => {
+    expect(() =>
+      normalizeStoryFilePattern({ storyFilePattern: '{dir}/{file}' }),
+    ).toThrow('Unknown token {file}')
+    expect(() =>
+      normalizeStoryFilePattern({ storyFilePattern: '{dir}/all.stories.{ext}' }),
+    ).toThrow('must contain {name}')
+  })
+})
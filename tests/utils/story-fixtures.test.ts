@@ -0,0 +1,192 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import {
+  extractStoryFixtures,
+  resolveFixturesFilePath,
+} from '../../src/utils/story-fixtures'
+
+describe('extractStoryFixtures', () => {
+  it('moves args longer than the threshold and keeps the rest', () => {
+    const { props, names, content } = extractStoryFixtures(
+      {
+        label: 'Save',
+        'user-list': [{ name: 'Ada' }],
+        icon: { __isJSX: true, source: '<Icon />', componentRefs: [] },
+      },
+      { threshold: 2 },
+    )
+
+    expect(props).toEqual({
+      label: 'Save',
+      'user-list': { __isFixtureRef: true, name: 'userList' },
+      icon: { __isJSX: true, source: '<Icon />', componentRefs: [] },
+    })
+    expect(names).toEqual(['userList'])
+    expect(content).toBe(`export const userList = [
+  {
+    name: "Ada",
+  },
+];
+`)
+  })
+
+  it('reuses equal exports whatever their formatting', () => {
+    const existingContent = `export const items = [{ id: 1, tags: ['a', 'b'] }]
+
+export const selected = { id: 2 }
+`
+    const result = extractStoryFixtures(
+      {
+        items: [{ id: 1, tags: ['a', 'b'] }],
+        selected: { id: 3 },
+      },
+      { threshold: 1, existingContent, storyContent: 'const selected2 = 1' },
+    )
+
+    expect(result.props).toEqual({
+      items: { __isFixtureRef: true, name: 'items' },
+      selected: { __isFixtureRef: true, name: 'selected3' },
+    })
+    expect(result.content).toBe(`${existingContent}
+export const selected3 = {
+  id: 3,
+};
+`)
+  })
+
+  it('types new exports with the props type and imports it', () => {
+    const propsType = {
+      type: 'ComponentProps<typeof TaskList>',
+      imports: [
+        { source: 'react', typeNames: ['ComponentProps'] },
+        { source: './TaskList', typeNames: ['default as TaskList'] },
+      ],
+    }
+    const first = extractStoryFixtures(
+      { tasks: [{ status: 'todo' }] },
+      { threshold: 1, propsType },
+    )
+
+    expect(first.content).toBe(`import type { ComponentProps } from 'react';
+import type { default as TaskList } from './TaskList';
+
+export const tasks = [
+  {
+    status: "todo",
+  },
+] satisfies ComponentProps<typeof TaskList>['tasks'];
+`)
+
+    const second = extractStoryFixtures(
+      { tasks: [{ status: 'todo' }], 'selected-task': { status: 'done' } },
+      { threshold: 1, existingContent: first.content!, propsType },
+    )
+
+    expect(second.props).toEqual({
+      tasks: { __isFixtureRef: true, name: 'tasks' },
+      'selected-task': { __isFixtureRef: true, name: 'selectedTask' },
+    })
+    expect(second.content).toBe(`${first.content}
+export const selectedTask = {
+  status: "done",
+} satisfies ComponentProps<typeof TaskList>['selected-task'];
+`)
+  })
+
+  it('writes exports that type-check against union-typed props', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-fixtures-'))
+    try {
+      fs.writeFileSync(
+        path.join(tmpDir, 'modules.d.ts'),
+        `declare module 'react' {
+  export type ComponentProps<T> = T extends (props: infer P) => unknown ? P : never
+}
+`,
+      )
+      fs.writeFileSync(
+        path.join(tmpDir, 'TaskList.ts'),
+        `export default function TaskList(props: {
+  tasks: Array<{ id: number; status: 'todo' | 'done' }>
+}) {
+  return props.tasks.length
+}
+`,
+      )
+      const { content } = extractStoryFixtures(
+        { tasks: [{ id: 1, status: 'todo' }] },
+        {
+          threshold: 1,
+          propsType: {
+            type: 'ComponentProps<typeof TaskList>',
+            imports: [
+              { source: 'react', typeNames: ['ComponentProps'] },
+              { source: './TaskList', typeNames: ['default as TaskList'] },
+            ],
+          },
+        },
+      )
+      fs.writeFileSync(path.join(tmpDir, 'TaskList.fixtures.ts'), content!)
+      fs.writeFileSync(
+        path.join(tmpDir, 'usage.ts'),
+        `import TaskList from './TaskList'
+import { tasks } from './TaskList.fixtures'
+
+TaskList({ tasks })
+`,
+      )
+
+      const program = ts.createProgram(
+        [path.join(tmpDir, 'modules.d.ts'), path.join(tmpDir, 'usage.ts')],
+        {
+          strict: true,
+          noEmit: true,
+          module: ts.ModuleKind.ESNext,
+          moduleResolution: ts.ModuleResolutionKind.Bundler,
+          target: ts.ScriptTarget.ES2022,
+          types: [],
+        },
+      )
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) =>
+          ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        )
+
+      expect(diagnostics).toEqual([])
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('changes nothing when every arg is small', () => {
+    expect(extractStoryFixtures({ count: 1 }, { threshold: 50 })).toEqual({
+      props: { count: 1 },
+      names: [],
+      content: null,
+    })
+  })
+})
+
+describe('resolveFixturesFilePath', () => {
+  it('places fixtures next to the component or in fixturesDir', () => {
+    const options = {
+      componentPath: '/repo/src/tasks/TaskList.tsx',
+      componentName: 'TaskList',
+      root: '/repo',
+      language: 'ts' as const,
+    }
+    expect(resolveFixturesFilePath(options)).toBe(
+      '/repo/src/tasks/TaskList.fixtures.ts',
+    )
+    expect(
+      resolveFixturesFilePath({
+        ...options,
+        fixturesDir: 'src/fixtures',
+        language: 'js',
+      }),
+    ).toBe('/repo/src/fixtures/TaskList.fixtures.js')
+  })
+})
@@ -0,0 +1,176 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createStoryFormatter } from '../../src/utils/story-formatter'
+
+const unformatted = `import type { Meta, StoryObj } from "@storybook/react";
+import { Button } from "./Button";
+
+const meta = {
+  component: Button
+} satisfies Meta<typeof Button>;
+export default meta;
+`
+
+describe('createStoryFormatter', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-formatter-'))
+    fs.writeFileSync(path.join(tmpDir, 'package.json'), '{}')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function installPrettier() {
+    fs.mkdirSync(path.join(tmpDir, 'node_modules'))
+    fs.symlinkSync(
+      path.resolve('node_modules/prettier'),
+      path.join(tmpDir, 'node_modules', 'prettier'),
+    )
+  }
+
+  it('formats with the project Prettier and its config', async () => {
+    installPrettier()
+    fs.writeFileSync(
+      path.join(tmpDir, '.prettierrc'),
+      JSON.stringify({ semi: false, singleQuote: true, trailingComma: 'all' }),
+    )
+    const formatter = createStoryFormatter({ root: tmpDir })
+
+    expect(await formatter.detect()).toBe('prettier')
+    expect(
+      await formatter.format(
+        unformatted,
+        path.join(tmpDir, 'Button.stories.tsx'),
+      ),
+    ).toBe(`import type { Meta, StoryObj } from '@storybook/react'
+import { Button } from './Button'
+
+const meta = {
+  component: Button,
+} satisfies Meta<typeof Button>
+export default meta
+`)
+  })
+
+  it('formats only the lines an append added', async () => {
+    installPrettier()
+    fs.writeFileSync(
+      path.join(tmpDir, '.prettierrc'),
+      JSON.stringify({ semi: false, singleQuote: true }),
+    )
+    const formatter = createStoryFormatter({ root: tmpDir })
+    const existing = `import type { Meta, StoryObj } from "@storybook/react";
+import { Button } from "./Button";
+
+const meta = { component: Button } satisfies Meta<typeof Button>;
+export default meta;
+`
+    const appended = `import type { Meta, StoryObj } from "@storybook/react";
+import { fn } from "storybook/test";
+import { Button } from "./Button";
+
+const meta = { component: Button } satisfies Meta<typeof Button>;
+export default meta;
+
+export const Primary: StoryObj<typeof meta> = {
+  args: { onClick: fn() }
+};
+`
+
+    expect(
+      await formatter.format(
+        appended,
+        path.join(tmpDir, 'Button.stories.tsx'),
+        existing,
+      ),
+    ).toBe(`import type { Meta, StoryObj } from "@storybook/react";
+import { fn } from 'storybook/test'
+import { Button } from "./Button";
+
+const meta = { component: Button } satisfies Meta<typeof Button>;
+export default meta;
+
+export const Primary: StoryObj<typeof meta> = {
+  args: { onClick: fn() },
+}
+`)
+  })
+
+  it('leaves files ignored by .prettierignore alone', async () => {
+    installPrettier()
+    fs.writeFileSync(path.join(tmpDir, '.prettierrc'), '{}')
+    fs.writeFileSync(path.join(tmpDir, '.prettierignore'), '*.stories.tsx\n')
+    const formatter = createStoryFormatter({ root: tmpDir })
+
+    expect(
+      await formatter.format(
+        unformatted,
+        path.join(tmpDir, 'Button.stories.tsx'),
+      ),
+    ).toBe(unformatted)
+  })
+
+  it('needs a Prettier config to pick Prettier automatically', async () => {
+    installPrettier()
+
+    expect(await createStoryFormatter({ root: tmpDir }).detect()).toBeNull()
+    const explicit = createStoryFormatter({
+      root: tmpDir,
+      formatter: 'prettier',
+    })
+    expect(await explicit.detect()).toBe('prettier')
+  })
+
+  it('falls back to the generated content without a formatter', async () => {
+    const formatter = createStoryFormatter({ root: tmpDir })
+
+    expect(await formatter.detect()).toBeNull()
+    expect(
+      await formatter.format(
+        unformatted,
+        path.join(tmpDir, 'Button.stories.tsx'),
+      ),
+    ).toBe(unformatted)
+  })
+
+  it('kills a Biome run that does not finish and keeps the content', async () => {
+    const biomeDir = path.join(tmpDir, 'node_modules', '@biomejs', 'biome')
+    const pidPath = path.join(tmpDir, 'biome.pid')
+    fs.mkdirSync(biomeDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(biomeDir, 'package.json'),
+      JSON.stringify({ name: '@biomejs/biome', bin: { biome: 'biome.js' } }),
+    )
+    fs.writeFileSync(
+      path.join(biomeDir, 'biome.js'),
+      `require('fs').writeFileSync(${JSON.stringify(pidPath)}, String(process.pid))
+setInterval(() => {}, 1000)
+`,
+    )
+    fs.writeFileSync(path.join(tmpDir, 'biome.json'), '{}')
+    const formatter = createStoryFormatter({ root: tmpDir, timeout: 2000 })
+
+    expect(await formatter.detect()).toBe('biome')
+    expect(
+      await formatter.format(
+        unformatted,
+        path.join(tmpDir, 'Button.stories.tsx'),
+      ),
+    ).toBe(unformatted)
+    const pid = Number(fs.readFileSync(pidPath, 'utf-8'))
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(() => process.kill(pid, 0)).toThrow()
+  })
+
+  it('can be turned off', async () => {
+    installPrettier()
+    const formatter = createStoryFormatter({ root: tmpDir, formatter: false })
+
+    expect(await formatter.detect()).toBeNull()
+  })
+})
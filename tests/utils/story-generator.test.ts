@@ -0,0 +1,235 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { generateStory } from '../../src/frameworks/react/story-generator'
+import {
+  generateArgsContent,
+  hoistSharedValues,
+} from '../../src/utils/story-generator'
+
+describe('generateArgsContent', () => {
+  it('rebuilds tagged built-ins with constructor expressions', () => {
+    expect(
+      generateArgsContent(
+        {
+          since: { __isDate: true, iso: '2024-05-01T12:00:00.000Z' },
+          invalid: { __isDate: true, iso: null },
+          id: { __isBigInt: true, value: '9007199254740993' },
+          pattern: { __isRegExp: true, source: 'a\\/b', flags: 'gi' },
+          link: { __isURL: true, href: 'https://example.com/' },
+          bytes: { __isTypedArray: true, type: 'Uint8Array', values: [1, 2] },
+          big: { __isTypedArray: true, type: 'BigInt64Array', values: ['-1'] },
+          tags: { __isSet: true, values: ['a'] },
+          empty: { __isMap: true, entries: [] },
+          lookup: { __isMap: true, entries: [['a', 1]] },
+          origin: {
+            __isClassInstance: true,
+            className: 'Point',
+            properties: { x: 0 },
+          },
+        },
+        1,
+      ),
+    ).toBe(`{
+    since: new Date("2024-05-01T12:00:00.000Z"),
+    invalid: new Date(NaN),
+    id: 9007199254740993n,
+    pattern: /a\\/b/gi,
+    link: new URL("https://example.com/"),
+    bytes: new Uint8Array([1, 2]),
+    big: new BigInt64Array([-1n]),
+    tags: new Set([
+      "a",
+    ]),
+    empty: new Map(),
+    lookup: new Map([
+      [
+        "a",
+        1,
+      ],
+    ]),
+    origin: /* Point */ {
+      x: 0,
+    },
+  }`)
+  })
+})
+
+describe('hoistSharedValues', () => {
+  it('declares shared objects once and refers to them by name', () => {
+    const { props, fixtures } = hoistSharedValues(
+      {
+        task: {
+          owner: {
+            __isShared: true,
+            id: 1,
+            name: 'owner',
+            value: {
+              name: 'Ada',
+              team: { __isShared: true, id: 2, name: 'team', value: ['a'] },
+            },
+          },
+        },
+        assignee: { __isSharedRef: true, id: 1 },
+        teams: [{ __isSharedRef: true, id: 2 }],
+        parent: { __isCircular: true },
+      },
+      { existingContent: 'const owner = {};\nconst team = [];' },
+    )
+
+    expect(fixtures).toBe(`
+const team2 = [
+  "a",
+];
+
+const owner2 = {
+  name: "Ada",
+  team: team2,
+};
+`)
+    expect(generateArgsContent(props, 1)).toBe(`{
+    task: {
+      owner: owner2,
+    },
+    assignee: owner2,
+    teams: [
+      team2,
+    ],
+    parent: undefined /* circular reference */,
+  }`)
+  })
+
+  it('checks fixtures against the type of the prop they first appear in', () => {
+    const { fixtures } = hoistSharedValues(
+      {
+        tasks: [
+          {
+            owner: {
+              __isShared: true,
+              id: 1,
+              name: 'owner',
+              value: { role: 'admin' },
+            },
+          },
+        ],
+        lead: { __isSharedRef: true, id: 1 },
+      },
+      { propsType: 'ComponentProps<typeof Board>' },
+    )
+
+    expect(fixtures).toBe(`
+const owner = {
+  role: "admin",
+} satisfies NonNullable<NonNullable<ComponentProps<typeof Board>['tasks']>[number]>['owner'];
+`)
+  })
+
+  it('leaves fixtures inside maps, sets and class instances unchecked', () => {
+    const owner = {
+      __isShared: true,
+      id: 1,
+      name: 'owner',
+      value: { role: 'admin' },
+    }
+    const { fixtures } = hoistSharedValues(
+      {
+        owners: { __isMap: true, entries: [['ada', owner]] },
+        lead: { __isSharedRef: true, id: 1 },
+      },
+      { propsType: 'ComponentProps<typeof Board>' },
+    )
+
+    expect(fixtures).toBe(`
+const owner = {
+  role: "admin",
+};
+`)
+  })
+
+  it('writes fixtures that type-check against union-typed props', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-fixtures-'))
+    try {
+      fs.writeFileSync(
+        path.join(tmpDir, 'modules.d.ts'),
+        `declare module 'react' {
+  export type ComponentProps<T> = T extends (props: infer P) => unknown ? P : never
+}
+declare module '@storybook/react-vite' {
+  type Args<T> = Partial<import('react').ComponentProps<T>>
+  export type Meta<T> = { component: T; args?: Args<T> }
+  export type StoryObj<T> = { args?: Args<T> }
+}
+`,
+      )
+      fs.writeFileSync(
+        path.join(tmpDir, 'Board.ts'),
+        `type Owner = { role: 'admin' | 'member' }
+
+export function Board(props: {
+  tasks: Array<{ status: 'todo' | 'done'; owner: Owner }>
+  lead?: Owner
+}) {
+  return props.tasks.length
+}
+`,
+      )
+      const story = generateStory({
+        meta: {
+          componentName: 'Board',
+          filePath: path.join(tmpDir, 'Board.ts'),
+          relativeFilePath: 'Board.ts',
+          sourceId: 'board',
+          isDefaultExport: false,
+        },
+        props: {
+          tasks: [
+            {
+              status: 'todo',
+              owner: {
+                __isShared: true,
+                id: 1,
+                name: 'owner',
+                value: { role: 'admin' },
+              },
+            },
+          ],
+          lead: { __isSharedRef: true, id: 1 },
+        },
+        storyName: 'Assigned',
+      })
+      fs.writeFileSync(story.filePath, story.content)
+
+      const program = ts.createProgram(
+        [path.join(tmpDir, 'modules.d.ts'), story.filePath],
+        {
+          strict: true,
+          noEmit: true,
+          module: ts.ModuleKind.ESNext,
+          moduleResolution: ts.ModuleResolutionKind.Bundler,
+          target: ts.ScriptTarget.ES2022,
+          jsx: ts.JsxEmit.Preserve,
+          types: [],
+        },
+      )
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) =>
+          ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        )
+
+      expect(story.content).toContain('satisfies')
+      expect(diagnostics).toEqual([])
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('leaves props without shared objects alone', () => {
+    expect(hoistSharedValues({ label: 'Save' })).toEqual({
+      props: { label: 'Save' },
+      fixtures: '',
+    })
+  })
+})
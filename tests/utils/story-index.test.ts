@@ -0,0 +1,219 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createStoryIndex,
+  expandStoryGlobs,
+  parseStoryFile,
+  matchStoryFile,
+  readStorybookStoriesGlobs,
+} from '../../src/utils/story-index'
+
+describe('parseStoryFile', () => {
+  it('reads the meta component and story exports', () => {
+    const parsed = parseStoryFile(
+      [
+        "import type { Meta } from '@storybook/react'",
+        "import { Button } from './Button'",
+        'const meta = { component: Button } satisfies Meta<typeof Button>',
+        'export default meta',
+        'export const Primary = {}',
+        'export function Custom() {}',
+        "export const __namedExportsOrder = ['Primary', 'Custom']",
+      ].join('\n'),
+      '/repo/Button.stories.tsx',
+    )
+
+    expect(parsed).toEqual({
+      components: [{ source: './Button', exportName: 'Button' }],
+      stories: ['Primary', 'Custom'],
+    })
+  })
+
+  it('tells default, renamed and namespace imports apart', () => {
+    expect(
+      parseStoryFile(
+        "import Card from './Card'\nexport default { component: Card }",
+        '/repo/Card.stories.ts',
+      ).components,
+    ).toEqual([{ source: './Card', exportName: 'default' }])
+    expect(
+      parseStoryFile(
+        "import { Card as C } from './Card'\nexport default { component: C } as Meta",
+        '/repo/Card.stories.ts',
+      ).components,
+    ).toEqual([{ source: './Card', exportName: 'Card' }])
+    expect(
+      parseStoryFile(
+        "import * as Cards from './Cards'\nexport default { component: Cards.Card }",
+        '/repo/Card.stories.ts',
+      ).components,
+    ).toEqual([{ source: './Cards', exportName: 'Card' }])
+  })
+
+  it('reads CSF factories meta', () => {
+    const parsed = parseStoryFile(
+      [
+        "import preview from '../.storybook/preview'",
+        "import { Button } from './Button'",
+        'const meta = preview.meta({ component: Button })',
+        'export const Primary = meta.story({})',
+      ].join('\n'),
+      '/repo/Button.stories.tsx',
+    )
+
+    expect(parsed.components).toEqual([
+      { source: './Button', exportName: 'Button' },
+    ])
+    expect(parsed.stories).toEqual(['Primary'])
+  })
+
+  it('treats relative non-story MDX imports as documented components', () => {
+    const parsed = parseStoryFile(
+      [
+        "import { Meta } from '@storybook/blocks'",
+        "import * as ButtonStories from './Button.stories'",
+        "import { Button } from './Button'",
+        '',
+        '<Meta of={ButtonStories} />',
+      ].join('\n'),
+      '/repo/Button.mdx',
+    )
+
+    expect(parsed).toEqual({
+      components: [{ source: './Button', exportName: 'Button' }],
+      stories: [],
+    })
+  })
+})
+
+describe('Storybook stories globs', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-index-'))
+    fs.mkdirSync(path.join(tmpDir, '.storybook'))
+    fs.mkdirSync(path.join(tmpDir, 'src', 'components'), { recursive: true })
+    fs.mkdirSync(path.join(tmpDir, 'stories'))
+    fs.mkdirSync(path.join(tmpDir, 'node_modules', 'lib'), { recursive: true })
+    fs.writeFileSync(
+      path.join(tmpDir, '.storybook', 'main.ts'),
+      [
+        "import type { StorybookConfig } from '@storybook/react-vite'",
+        'const config: StorybookConfig = {',
+        "  stories: ['../src/**/*.stories.@(ts|tsx)', { directory: '../stories' }],",
+        '}',
+        'export default config',
+      ].join('\n'),
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'components', 'Button.tsx'),
+      'export default function Button() {}\nexport function Link() {}\n',
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'components', 'Button.stories.tsx'),
+      "import Button from './Button'\nexport default { component: Button }\nexport const Primary = {}\n",
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'stories', 'Link.stories.tsx'),
+      "import { Link } from '../src/components/Button'\nexport default { component: Link }\nexport const External = {}\n",
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, 'node_modules', 'lib', 'Ignored.stories.tsx'),
+      '',
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('reads string and directory specifiers from main.ts', () => {
+    const configDir = path.join(tmpDir, '.storybook')
+
+    expect(readStorybookStoriesGlobs(configDir)).toEqual([
+      path.posix.join(tmpDir, 'src/**/*.stories.@(ts|tsx)'),
+      path.posix.join(
+        tmpDir,
+        'stories/**/*.@(mdx|stories.@(js|jsx|mjs|ts|tsx))',
+      ),
+    ])
+    expect(expandStoryGlobs(readStorybookStoriesGlobs(configDir)!)).toEqual([
+      path.join(tmpDir, 'src', 'components', 'Button.stories.tsx'),
+      path.join(tmpDir, 'stories', 'Link.stories.tsx'),
+    ])
+  })
+
+  it('matches story files to the component export they cover', async () => {
+    const index = createStoryIndex({ root: tmpDir })
+    const componentPath = path.join(tmpDir, 'src', 'components', 'Button.tsx')
+
+    expect(await index.getSource()).toBe('storybook-config')
+    expect(await index.findStories(componentPath, 'default')).toEqual([
+      {
+        filePath: path.join(tmpDir, 'src', 'components', 'Button.stories.tsx'),
+        componentPath,
+        componentExport: 'default',
+        stories: ['Primary'],
+      },
+    ])
+    expect(
+      (await index.findStories(componentPath, 'Link')).map(
+        (entry) => entry.filePath,
+      ),
+    ).toEqual([path.join(tmpDir, 'stories', 'Link.stories.tsx')])
+    expect(await index.findStories(componentPath)).toHaveLength(2)
+  })
+
+  it('rebuilds after a story file changes', async () => {
+    const index = createStoryIndex({ root: tmpDir })
+    const componentPath = path.join(tmpDir, 'src', 'components', 'Button.tsx')
+    expect(await index.findStories(componentPath, 'Link')).toHaveLength(1)
+
+    const storyPath = path.join(tmpDir, 'stories', 'Link.stories.tsx')
+    fs.rmSync(storyPath)
+    expect(await index.findStories(componentPath, 'Link')).toHaveLength(1)
+
+    index.handleFileChange(storyPath)
+    expect(await index.findStories(componentPath, 'Link')).toEqual([])
+  })
+
+  it('reports no source without a Storybook config', async () => {
+    fs.rmSync(path.join(tmpDir, '.storybook'), { recursive: true })
+    const index = createStoryIndex({ root: tmpDir })
+
+    expect(await index.getSource()).toBe('none')
+    expect(
+      await index.findStories(
+        path.join(tmpDir, 'src', 'components', 'Button.tsx'),
+      ),
+    ).toEqual([])
+  })
+  it('matches a conventional story file only to the exports it references', () => {
+    const componentPath = path.join(tmpDir, 'src', 'components', 'Button.tsx')
+    const storyPath = path.join(tmpDir, 'stories', 'Link.stories.tsx')
+
+    expect(matchStoryFile(storyPath, componentPath, 'Link')).toMatchObject({
+      componentExport: 'Link',
+      stories: ['External'],
+    })
+    expect(matchStoryFile(storyPath, componentPath, 'default')).toBeNull()
+  })
+
+  it('attributes story files without a resolvable component to the component', () => {
+    const componentPath = path.join(tmpDir, 'src', 'components', 'Button.tsx')
+    const storyPath = path.join(tmpDir, 'src', 'components', 'Tag.stories.ts')
+    fs.writeFileSync(
+      storyPath,
+      "export default { component: 'my-tag' }\nexport const Plain = {}\n",
+    )
+
+    expect(matchStoryFile(storyPath, componentPath, 'Link')).toEqual({
+      filePath: storyPath,
+      componentPath,
+      componentExport: null,
+      stories: ['Plain'],
+    })
+  })
+})
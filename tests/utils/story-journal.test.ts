@@ -0,0 +1,156 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createStoryJournal,
+  type StoryJournalFile,
+} from '../../src/utils/story-journal'
+
+describe('createStoryJournal', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-journal-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function write(
+    journal: ReturnType<typeof createStoryJournal>,
+    filePath: string,
+    content: string,
+    storyName: string,
+    relatedFiles: StoryJournalFile[] = [],
+  ) {
+    const originalContent = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, 'utf-8')
+      : null
+    fs.writeFileSync(filePath, content, 'utf-8')
+    return journal.record({
+      filePath,
+      originalContent,
+      newContent: content,
+      componentName: 'Button',
+      componentPath: path.join(tmpDir, 'Button.tsx'),
+      storyName,
+      relatedFiles,
+    })
+  }
+
+  it('lists entries most recent first without file contents', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+
+    write(journal, storyPath, 'v1', 'Primary')
+    write(journal, storyPath, 'v2', 'Secondary')
+
+    const entries = journal.list()
+    expect(entries.map((entry) => entry.storyName)).toEqual([
+      'Secondary',
+      'Primary',
+    ])
+    expect(entries[0]!.createdFile).toBe(false)
+    expect(entries[1]!.createdFile).toBe(true)
+    expect(entries[0]).not.toHaveProperty('newContent')
+  })
+
+  it('undoes the last write by restoring the previous content', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+
+    write(journal, storyPath, 'v1', 'Primary')
+    write(journal, storyPath, 'v2', 'Secondary')
+
+    const reverted = journal.revert()
+    expect(reverted.map((entry) => entry.storyName)).toEqual(['Secondary'])
+    expect(fs.readFileSync(storyPath, 'utf-8')).toBe('v1')
+  })
+
+  it('deletes files that did not exist before the write', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+
+    write(journal, storyPath, 'v1', 'Primary')
+    journal.revert()
+
+    expect(fs.existsSync(storyPath)).toBe(false)
+  })
+
+  it('reverts later writes to the same file along with an earlier entry', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+    const otherPath = path.join(tmpDir, 'Card.stories.tsx')
+
+    const first = write(journal, storyPath, 'v1', 'Primary')
+    write(journal, otherPath, 'card', 'Default')
+    write(journal, storyPath, 'v2', 'Secondary')
+
+    const reverted = journal.revert(first.id)
+
+    expect(reverted.map((entry) => entry.storyName)).toEqual([
+      'Secondary',
+      'Primary',
+    ])
+    expect(fs.existsSync(storyPath)).toBe(false)
+    expect(fs.readFileSync(otherPath, 'utf-8')).toBe('card')
+    expect(journal.revert().map((entry) => entry.storyName)).toEqual([
+      'Default',
+    ])
+  })
+
+  it('reverts the files written along with a story in the same entry', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+    const otherPath = path.join(tmpDir, 'Card.stories.tsx')
+    const fixturesPath = path.join(tmpDir, 'Button.fixtures.ts')
+    fs.writeFileSync(fixturesPath, 'f0', 'utf-8')
+
+    const writeWithFixtures = (
+      filePath: string,
+      content: string,
+      fixtures: string,
+      storyName: string,
+    ) => {
+      const originalContent = fs.readFileSync(fixturesPath, 'utf-8')
+      fs.writeFileSync(fixturesPath, fixtures, 'utf-8')
+      return write(journal, filePath, content, storyName, [
+        { filePath: fixturesPath, originalContent, newContent: fixtures },
+      ])
+    }
+
+    const first = writeWithFixtures(storyPath, 'v1', 'f1', 'Primary')
+    write(journal, storyPath, 'v2', 'Secondary')
+    writeWithFixtures(otherPath, 'card', 'f2', 'Default')
+
+    expect(journal.list()[2]!.relatedFilePaths).toEqual([fixturesPath])
+
+    const reverted = journal.revert(first.id)
+
+    expect(reverted.map((entry) => entry.storyName)).toEqual([
+      'Default',
+      'Secondary',
+      'Primary',
+    ])
+    expect(fs.existsSync(storyPath)).toBe(false)
+    expect(fs.existsSync(otherPath)).toBe(false)
+    expect(fs.readFileSync(fixturesPath, 'utf-8')).toBe('f0')
+  })
+
+  it('refuses to revert files edited after the write', () => {
+    const journal = createStoryJournal()
+    const storyPath = path.join(tmpDir, 'Button.stories.tsx')
+
+    write(journal, storyPath, 'v1', 'Primary')
+    fs.writeFileSync(storyPath, 'hand edited', 'utf-8')
+
+    expect(() => journal.revert()).toThrow(/modified after the story/)
+    expect(fs.readFileSync(storyPath, 'utf-8')).toBe('hand edited')
+  })
+
+  it('throws when there is nothing to undo', () => {
+    expect(() => createStoryJournal().revert()).toThrow('Nothing to undo')
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { createUnifiedDiff, findAddedLines } from '../../src/utils/unified-diff'
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical content', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('')
+  })
+
+  it('diffs a new file against /dev/null', () => {
+    const diff = createUnifiedDiff('', 'line 1\nline 2\n', {
+      fromFile: null,
+      toFile: 'src/Button.stories.tsx',
+    })
+
+    expect(diff).toBe(
+      [
+        '--- /dev/null',
+        '+++ b/src/Button.stories.tsx',
+        '@@ -0,0 +1,2 @@',
+        '+line 1',
+        '+line 2',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('shows appended lines with surrounding context', () => {
+    const before = ['one', 'two', 'three', 'four', 'five'].join('\n') + '\n'
+    const after =
+      ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].join('\n') + '\n'
+
+    const diff = createUnifiedDiff(before, after, { toFile: 'file.ts' })
+
+    expect(diff).toBe(
+      [
+        '--- a/file.ts',
+        '+++ b/file.ts',
+        '@@ -3,3 +3,5 @@',
+        ' three',
+        ' four',
+        ' five',
+        '+six',
+        '+seven',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('splits distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+    const changed = [...lines]
+    changed[1] = 'changed 2'
+    changed[17] = 'changed 18'
+
+    const diff = createUnifiedDiff(
+      lines.join('\n') + '\n',
+      changed.join('\n') + '\n',
+      { toFile: 'file.ts', context: 1 },
+    )
+
+    const hunkHeaders = diff.split('\n').filter((line) => line.startsWith('@@'))
+    expect(hunkHeaders).toEqual(['@@ -1,3 +1,3 @@', '@@ -17,3 +17,3 @@'])
+    expect(diff).toContain('-line 2\n+changed 2')
+    expect(diff).toContain('-line 18\n+changed 18')
+  })
+})
+
+describe('findAddedLines', () => {
+  it('reports an appended block whole when it repeats the last lines', () => {
+    const existing = 'import { a } from "a"\n\nexport const A = {\n  a,\n};\n'
+    const appended =
+      'import { a } from "a"\nimport { b } from "b"\n\nexport const A = {\n  a,\n};\n\nexport const B = {\n  b,\n};\n'
+
+    expect(findAddedLines(existing, appended)).toEqual([
+      { start: 1, end: 2 },
+      { start: 6, end: 10 },
+    ])
+  })
+})
@@ -5,12 +5,21 @@ export default defineConfig({
     'src/index.ts',
     'src/frameworks/react/plugin.ts',
     'src/frameworks/vue/plugin.ts',
+    'src/frameworks/svelte/plugin.ts',
+    'src/frameworks/solid/plugin.ts',
+    'src/frameworks/preact/plugin.ts',
+    'src/frameworks/web-components/plugin.ts',
     'src/frameworks/react/runtime-module.ts',
     'src/frameworks/vue/runtime-module.ts',
+    'src/frameworks/svelte/runtime-module.ts',
+    'src/frameworks/solid/runtime-module.ts',
+    'src/frameworks/preact/runtime-module.ts',
+    'src/frameworks/web-components/runtime-module.ts',
     'src/runtime-helpers.ts',
     'src/client/listeners.ts',
     'src/client/overlay.ts',
     'src/client/vite-devtools.ts',
+    'src/cli/index.ts',
   ],
   format: ['esm'],
   dts: true,
@@ -22,7 +31,13 @@ export default defineConfig({
     '@babel/generator',
     '@babel/types',
     '@vue/compiler-sfc',
+    'magic-string',
     'vue',
+    'svelte',
+    'svelte/compiler',
+    'solid-js',
+    'preact',
+    'preact/hooks',
     'react',
     'virtual:component-highlighter/runtime-helpers',
   ],
@@ -1,16 +1,41 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vitest/config'
 
+const runtimeTests = 'tests/**/runtime-module.test.ts'
+
 // More info at: https://storybook.js.org/docs/next/writing-tests/integrations/vitest-addon
 export default defineConfig({
+  // What the plugin's virtual module loader provides to the runtime modules
+  define: {
+    __COMPONENT_HIGHLIGHTER_DEBUG__: 'false',
+  },
+  resolve: {
+    alias: {
+      'virtual:component-highlighter/runtime-helpers': fileURLToPath(
+        new URL('./src/runtime-helpers.ts', import.meta.url),
+      ),
+    },
+  },
   test: {
     projects: [
       {
         extends: true,
         test: {
           include: ['tests/**/*.test.ts'],
+          exclude: [runtimeTests],
           environment: 'node',
         },
       },
+      {
+        // Browser runtimes, against the browser builds of the frameworks
+        extends: true,
+        resolve: { conditions: ['browser'] },
+        test: {
+          include: [runtimeTests],
+          environment: 'happy-dom',
+          server: { deps: { inline: ['solid-js'] } },
+        },
+      },
     ],
   },
 })